@@ -1,3 +1,4 @@
 /// <reference types="@electron-forge/plugin-vite/forge-vite-env" />
+/// <reference types="vite/client" />
 
 declare const MAIN_WINDOW_PRELOAD_VITE_URL: string;
\ No newline at end of file
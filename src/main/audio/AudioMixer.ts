@@ -0,0 +1,218 @@
+import { measurePcm } from '@shared/audio'
+import type { AudioSourceType } from '@shared/types'
+import { toMono } from './AudioUtils'
+
+// Live input audio: 24 kHz, 16-bit PCM
+const SAMPLES_PER_MS = 24000 / 1000
+const DEFAULT_FRAME_MS = 100
+// A source that sent nothing for this long is not waited for
+const SOURCE_IDLE_MS = 250
+// Timestamp differences below this are capture jitter, not gaps in the audio
+const JITTER_TOLERANCE_MS = 30
+// Level above which a source counts as speaking in a frame
+const SPEECH_RMS = 300
+// Frames a different source must dominate before it becomes the speaker
+const SPEAKER_CHANGE_FRAMES = 2
+
+const SOURCES: AudioSourceType[] = ['system', 'microphone']
+
+export interface MixedAudioFrame {
+  // s16le; in stereo, system audio is the left channel and the microphone the right
+  data: Buffer
+  channels: 1 | 2
+  speaker: AudioSourceType | null // Null until someone has spoken
+  timestamp: number // Capture time of the first sample
+}
+
+export interface AudioMixerOptions {
+  channels: 1 | 2
+  onFrame: (frame: MixedAudioFrame) => void
+  frameMs?: number
+}
+
+export interface AudioPushOptions {
+  capturedAt?: number // Capture time of the end of the chunk
+  channels?: number // Interleaved input channels, averaged down to mono
+}
+
+interface SourceBuffer {
+  samples: Int16Array // First sample is at the mixer cursor
+  lastPushAt: number
+  lastEndMs: number // Capture time of the end of the last chunk
+}
+
+const clampSample = (value: number): number => Math.max(-32768, Math.min(32767, value))
+
+const toBuffer = (samples: Int16Array): Buffer =>
+  Buffer.from(samples.buffer, samples.byteOffset, samples.byteLength)
+
+/**
+ * Aligns system and microphone audio on a common timeline and emits fixed-size frames,
+ * either mixed down to mono or with each source in its own channel. Each frame carries
+ * the current speaker, which only changes once another source has clearly taken over.
+ */
+export const createAudioMixer = ({
+  channels,
+  onFrame,
+  frameMs = DEFAULT_FRAME_MS,
+}: AudioMixerOptions) => {
+  const frameSamples = Math.round(frameMs * SAMPLES_PER_MS)
+  const buffers = {} as Record<AudioSourceType, SourceBuffer>
+  let cursorMs = Number.NEGATIVE_INFINITY
+  let speaker: AudioSourceType | null = null
+  let candidate: AudioSourceType | null = null
+  let candidateFrames = 0
+  let flushTimer: NodeJS.Timeout | null = null
+
+  const isIdle = (source: AudioSourceType): boolean =>
+    Date.now() - buffers[source].lastPushAt >= SOURCE_IDLE_MS
+
+  const hasPending = (): boolean => SOURCES.some(source => buffers[source].samples.length > 0)
+
+  // Removes one frame of a source's samples, padded with silence if it has fewer
+  const take = (source: AudioSourceType): Int16Array => {
+    const buffer = buffers[source]
+    const frame = new Int16Array(frameSamples)
+    frame.set(buffer.samples.subarray(0, frameSamples))
+    buffer.samples = buffer.samples.slice(frameSamples)
+    return frame
+  }
+
+  const updateSpeaker = (frames: Int16Array[]): void => {
+    const levels = frames.map(frame => measurePcm(frame).rmsValue)
+    const loudest = levels.indexOf(Math.max(...levels))
+    const speaking = levels[loudest] >= SPEECH_RMS ? SOURCES[loudest] : null
+
+    if (speaking === null || speaking === speaker) {
+      candidateFrames = 0
+      return
+    }
+    if (speaking !== candidate) {
+      candidate = speaking
+      candidateFrames = 0
+    }
+    candidateFrames++
+    if (speaker === null || candidateFrames >= SPEAKER_CHANGE_FRAMES) {
+      speaker = speaking
+      candidateFrames = 0
+    }
+  }
+
+  const mix = (frames: Int16Array[]): Int16Array => {
+    const output = new Int16Array(channels * frameSamples)
+
+    for (let i = 0; i < frameSamples; i++) {
+      if (channels === 2) {
+        output[i * 2] = frames[0][i]
+        output[i * 2 + 1] = frames[1][i]
+      } else {
+        output[i] = clampSample(frames[0][i] + frames[1][i])
+      }
+    }
+    return output
+  }
+
+  const emitFrame = (): void => {
+    const frames = SOURCES.map(take)
+    const timestamp = cursorMs
+    cursorMs += frameMs
+
+    updateSpeaker(frames)
+    onFrame({ data: toBuffer(mix(frames)), channels, speaker, timestamp })
+  }
+
+  // Emits every frame all active sources have audio for; `force` also emits partial frames
+  const drain = (force: boolean): void => {
+    while (hasPending()) {
+      const complete = SOURCES.some(source => buffers[source].samples.length >= frameSamples)
+      const waiting = SOURCES.some(
+        source => buffers[source].samples.length < frameSamples && !isIdle(source)
+      )
+      if (!force && (!complete || waiting)) break
+      emitFrame()
+    }
+  }
+
+  const scheduleFlush = (): void => {
+    if (flushTimer) clearTimeout(flushTimer)
+    flushTimer = null
+    if (!hasPending()) return
+
+    // Sends what is left once every source has gone quiet
+    flushTimer = setTimeout(() => {
+      flushTimer = null
+      drain(true)
+    }, SOURCE_IDLE_MS)
+  }
+
+  const push = (
+    source: AudioSourceType,
+    pcm: Buffer,
+    { capturedAt = Date.now(), channels: inputChannels = 1 }: AudioPushOptions = {}
+  ): void => {
+    const samples = toMono(pcm, inputChannels)
+    if (samples.length === 0) return
+
+    const buffer = buffers[source]
+    const startMs = capturedAt - samples.length / SAMPLES_PER_MS
+    const previousEndMs = buffer.lastEndMs
+    const continuous = startMs - previousEndMs < SOURCE_IDLE_MS
+    buffer.lastPushAt = Date.now()
+    buffer.lastEndMs = capturedAt
+
+    // With nothing pending the timeline restarts here, so silence between turns is never sent
+    if (!hasPending()) cursorMs = Math.max(cursorMs, startMs)
+
+    // A running source keeps its own timing: dropouts become silence, jitter is ignored.
+    // A starting source is placed by its capture time, without the part already sent.
+    const gapMs = continuous
+      ? startMs - previousEndMs
+      : startMs - cursorMs - buffer.samples.length / SAMPLES_PER_MS
+    const gap = Math.round(gapMs * SAMPLES_PER_MS)
+    const padding = continuous ? (gapMs > JITTER_TOLERANCE_MS ? gap : 0) : Math.max(0, gap)
+    const added = !continuous && gap < 0 ? samples.subarray(-gap) : samples
+    if (added.length === 0) return
+
+    const combined = new Int16Array(buffer.samples.length + padding + added.length)
+    combined.set(buffer.samples)
+    combined.set(added, buffer.samples.length + padding)
+    buffer.samples = combined
+
+    drain(false)
+    scheduleFlush()
+  }
+
+  // Sends the audio still buffered, e.g. before the session ends
+  const flush = (): void => {
+    drain(true)
+    scheduleFlush()
+  }
+
+  const reset = (): void => {
+    if (flushTimer) clearTimeout(flushTimer)
+    flushTimer = null
+    for (const source of SOURCES) {
+      buffers[source] = {
+        samples: new Int16Array(0),
+        lastPushAt: Number.NEGATIVE_INFINITY,
+        lastEndMs: Number.NEGATIVE_INFINITY,
+      }
+    }
+    cursorMs = Number.NEGATIVE_INFINITY
+    speaker = null
+    candidate = null
+    candidateFrames = 0
+  }
+
+  // Constructor logic
+  reset()
+
+  return {
+    channels,
+    push,
+    flush,
+    reset,
+  }
+}
+
+export type AudioMixer = ReturnType<typeof createAudioMixer>
@@ -1,26 +1,19 @@
 import { writeFileSync } from 'fs'
 import { homedir } from 'os'
 import { join } from 'path'
+import { measurePcm, type PcmLevels } from '@shared/audio'
 
-interface AudioAnalysis {
-  minValue: number
-  maxValue: number
-  avgValue: number
-  rmsValue: number
-  silencePercentage: number
-  sampleCount: number
-}
+type AudioAnalysis = Omit<PcmLevels, 'zeroCrossingRate'>
 
 /**
- * Convert raw PCM to WAV format for easier playback and verification
+ * Wrap raw PCM in a WAV container
  */
-export const pcmToWav = (
+export const pcmToWavBuffer = (
   pcmBuffer: Buffer,
-  outputPath: string,
   sampleRate = 24000,
   channels = 1,
   bitDepth = 16
-): string => {
+): Buffer => {
   const byteRate = sampleRate * channels * (bitDepth / 8)
   const blockAlign = channels * (bitDepth / 8)
   const dataSize = pcmBuffer.length
@@ -48,7 +41,52 @@ export const pcmToWav = (
   header.writeUInt32LE(dataSize, 40) // Subchunk2Size
 
   // Combine header and PCM data
-  const wavBuffer = Buffer.concat([header, pcmBuffer])
+  return Buffer.concat([header, pcmBuffer])
+}
+
+// Averages interleaved 16-bit PCM down to one channel
+export const toMono = (pcm: Buffer, channels: number): Int16Array => {
+  const frames = Math.floor(pcm.length / (2 * channels))
+  const mono = new Int16Array(frames)
+  for (let i = 0; i < frames; i++) {
+    let sum = 0
+    for (let channel = 0; channel < channels; channel++) {
+      sum += pcm.readInt16LE((i * channels + channel) * 2)
+    }
+    mono[i] = Math.round(sum / channels)
+  }
+  return mono
+}
+
+/**
+ * Linear resampling of mono 16-bit PCM, e.g. from the 24 kHz live input to the 16 kHz
+ * that whisper.cpp expects
+ */
+export const resamplePcm = (samples: Int16Array, fromRate: number, toRate: number): Int16Array => {
+  if (fromRate === toRate) return samples
+
+  const ratio = fromRate / toRate
+  const output = new Int16Array(Math.floor(samples.length / ratio))
+  for (let i = 0; i < output.length; i++) {
+    const position = i * ratio
+    const index = Math.floor(position)
+    const next = samples[Math.min(index + 1, samples.length - 1)]
+    output[i] = Math.round(samples[index] + (next - samples[index]) * (position - index))
+  }
+  return output
+}
+
+/**
+ * Convert raw PCM to WAV format for easier playback and verification
+ */
+export const pcmToWav = (
+  pcmBuffer: Buffer,
+  outputPath: string,
+  sampleRate = 24000,
+  channels = 1,
+  bitDepth = 16
+): string => {
+  const wavBuffer = pcmToWavBuffer(pcmBuffer, sampleRate, channels, bitDepth)
 
   // Write to file
   writeFileSync(outputPath, wavBuffer)
@@ -62,28 +100,7 @@ export const pcmToWav = (
 export const analyzeAudioBuffer = (buffer: Buffer, label = 'Audio'): AudioAnalysis => {
   const int16Array = new Int16Array(buffer.buffer, buffer.byteOffset, buffer.length / 2)
 
-  let minValue = 32767
-  let maxValue = -32768
-  let avgValue = 0
-  let rmsValue = 0
-  let silentSamples = 0
-
-  for (let i = 0; i < int16Array.length; i++) {
-    const sample = int16Array[i]
-    minValue = Math.min(minValue, sample)
-    maxValue = Math.max(maxValue, sample)
-    avgValue += sample
-    rmsValue += sample * sample
-
-    if (Math.abs(sample) < 100) {
-      silentSamples++
-    }
-  }
-
-  avgValue /= int16Array.length
-  rmsValue = Math.sqrt(rmsValue / int16Array.length)
-
-  const silencePercentage = (silentSamples / int16Array.length) * 100
+  const { minValue, maxValue, avgValue, rmsValue, silencePercentage } = measurePcm(int16Array)
 
   console.log(`${label} Analysis:`)
   console.log(`  Samples: ${int16Array.length}`)
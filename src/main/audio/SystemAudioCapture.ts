@@ -0,0 +1,252 @@
+import { type ChildProcess, spawn } from 'node:child_process'
+import { accessSync, constants } from 'node:fs'
+import { delimiter, join } from 'node:path'
+import { app } from 'electron'
+
+// Every backend writes raw s16le at 24 kHz, 100 ms per chunk
+const SAMPLE_RATE = 24000
+const BYTES_PER_SAMPLE = 2
+const CHUNK_DURATION = 0.1
+export const SYSTEM_AUDIO_CHUNK_MS = CHUNK_DURATION * 1000
+
+export interface SystemAudioCommand {
+  command: string
+  args: string[]
+}
+
+export interface SystemAudioBackend {
+  name: string
+  channels: number // Interleaved channels the process writes
+  // Command to run, or null when the backend is not installed
+  resolve: () => SystemAudioCommand | null
+  // Runs before the process starts, e.g. to end a capture left over from a crash
+  prepare?: () => Promise<void>
+}
+
+export interface SystemAudioCaptureOptions {
+  onAudio: (pcm: Buffer, channels: number) => void
+  backends?: SystemAudioBackend[] // Tried in order; defaults to the platform's backends
+}
+
+export const findOnPath = (command: string): string | null => {
+  for (const dir of (process.env.PATH ?? '').split(delimiter)) {
+    if (!dir) continue
+    const candidate = join(dir, command)
+    try {
+      accessSync(candidate, constants.X_OK)
+      return candidate
+    } catch {
+      // Not in this directory
+    }
+  }
+  return null
+}
+
+const killExistingSystemAudioDump = (): Promise<void> =>
+  new Promise(resolve => {
+    console.log('Checking for existing SystemAudioDump processes...')
+
+    // Kill any existing SystemAudioDump processes
+    const killProc = spawn('pkill', ['-f', 'SystemAudioDump'], {
+      stdio: 'ignore',
+    })
+
+    killProc.on('close', code => {
+      if (code === 0) {
+        console.log('Killed existing SystemAudioDump processes')
+      } else {
+        console.log('No existing SystemAudioDump processes found')
+      }
+      resolve()
+    })
+
+    killProc.on('error', err => {
+      console.log('Error checking for existing processes (this is normal):', err.message)
+      resolve()
+    })
+
+    // Timeout after 2 seconds
+    setTimeout(() => {
+      killProc.kill()
+      resolve()
+    }, 2000)
+  })
+
+// Bundled binary that taps the macOS output through ScreenCaptureKit
+const systemAudioDumpBackend: SystemAudioBackend = {
+  name: 'SystemAudioDump',
+  channels: 2,
+  resolve: () => ({
+    command: app.isPackaged
+      ? join(process.resourcesPath, 'SystemAudioDump')
+      : join(__dirname, '../../assets', 'SystemAudioDump'),
+    args: [],
+  }),
+  prepare: killExistingSystemAudioDump,
+}
+
+// PulseAudio, or PipeWire through pipewire-pulse: records the default sink's monitor
+const parecBackend: SystemAudioBackend = {
+  name: 'parec',
+  channels: 1,
+  resolve: () => {
+    const command = findOnPath('parec')
+    if (!command) return null
+    return {
+      command,
+      args: [
+        '--device=@DEFAULT_MONITOR@',
+        '--format=s16le',
+        `--rate=${SAMPLE_RATE}`,
+        '--channels=1',
+        '--latency-msec=50',
+      ],
+    }
+  },
+}
+
+// Native PipeWire: capturing from a sink links the stream to the default sink's monitor
+const pwRecordBackend: SystemAudioBackend = {
+  name: 'pw-record',
+  channels: 1,
+  resolve: () => {
+    const command = findOnPath('pw-record')
+    if (!command) return null
+    return {
+      command,
+      args: [
+        '-P',
+        '{ stream.capture.sink=true }',
+        '--format=s16',
+        `--rate=${SAMPLE_RATE}`,
+        '--channels=1',
+        '-',
+      ],
+    }
+  },
+}
+
+export const getPlatformBackends = (
+  platform: NodeJS.Platform = process.platform
+): SystemAudioBackend[] => {
+  switch (platform) {
+    case 'darwin':
+      return [systemAudioDumpBackend]
+    case 'linux':
+      return [parecBackend, pwRecordBackend]
+    default:
+      // Windows captures system audio in the renderer through display media loopback
+      return []
+  }
+}
+
+/**
+ * Captures what the computer plays through a per-platform helper process and delivers
+ * it in 100 ms chunks. Only one capture runs at a time.
+ */
+export const createSystemAudioCapture = ({
+  onAudio,
+  backends = getPlatformBackends(),
+}: SystemAudioCaptureOptions) => {
+  let systemAudioProc: ChildProcess | null = null
+
+  // First backend that is installed on this machine
+  const resolveBackend = (): {
+    backend: SystemAudioBackend
+    resolved: SystemAudioCommand
+  } | null => {
+    for (const backend of backends) {
+      const resolved = backend.resolve()
+      if (resolved) return { backend, resolved }
+    }
+    return null
+  }
+
+  const isAvailable = (): boolean => resolveBackend() !== null
+
+  const start = async (): Promise<boolean> => {
+    stop()
+
+    const found = resolveBackend()
+    if (!found) {
+      console.error('No system audio backend available')
+      return false
+    }
+    const { backend, resolved } = found
+
+    await backend.prepare?.()
+
+    console.log(`Starting system audio capture with ${backend.name}...`)
+    console.log(`${backend.name} path:`, resolved.command)
+
+    const proc = spawn(resolved.command, resolved.args, {
+      stdio: ['ignore', 'pipe', 'pipe'],
+    })
+    systemAudioProc = proc
+
+    if (!proc.pid) {
+      console.error(`Failed to start ${backend.name}`)
+      systemAudioProc = null
+      return false
+    }
+
+    console.log(`${backend.name} started with PID:`, proc.pid)
+
+    const CHUNK_SIZE = SAMPLE_RATE * BYTES_PER_SAMPLE * backend.channels * CHUNK_DURATION
+    let audioBuffer = Buffer.alloc(0)
+
+    proc.stdout?.on('data', (data: Buffer) => {
+      audioBuffer = Buffer.concat([audioBuffer, data])
+
+      while (audioBuffer.length >= CHUNK_SIZE) {
+        const chunk = audioBuffer.subarray(0, CHUNK_SIZE)
+        audioBuffer = audioBuffer.subarray(CHUNK_SIZE)
+        onAudio(chunk, backend.channels)
+
+        if (process.env.DEBUG_AUDIO) {
+          console.log(`Processed audio chunk: ${chunk.length} bytes`)
+        }
+      }
+
+      const maxBufferSize = SAMPLE_RATE * BYTES_PER_SAMPLE * backend.channels
+      if (audioBuffer.length > maxBufferSize) {
+        audioBuffer = audioBuffer.subarray(-maxBufferSize)
+      }
+    })
+
+    proc.stderr?.on('data', (data: Buffer) => {
+      console.error(`${backend.name} stderr:`, data.toString())
+    })
+
+    proc.on('close', code => {
+      console.log(`${backend.name} process closed with code:`, code)
+      if (systemAudioProc === proc) systemAudioProc = null
+    })
+
+    proc.on('error', err => {
+      console.error(`${backend.name} process error:`, err)
+      if (systemAudioProc === proc) systemAudioProc = null
+    })
+
+    return true
+  }
+
+  const stop = (): void => {
+    if (systemAudioProc) {
+      console.log('Stopping system audio capture...')
+      systemAudioProc.kill('SIGTERM')
+      systemAudioProc = null
+    }
+  }
+
+  const isRunning = (): boolean => systemAudioProc !== null
+
+  return {
+    isAvailable,
+    start,
+    stop,
+    isRunning,
+  }
+}
+
+export type SystemAudioCapture = ReturnType<typeof createSystemAudioCapture>
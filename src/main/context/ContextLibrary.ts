@@ -0,0 +1,150 @@
+import { randomUUID } from 'node:crypto'
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { homedir } from 'node:os'
+import { basename, join } from 'node:path'
+import type {
+  AttachContextDocumentsResult,
+  ContextDocument,
+  IpcResult,
+  LiveProviderSettings,
+} from '@shared/types'
+import { estimateTextTokens } from '@shared/usage'
+import { BrowserWindow, dialog, ipcMain } from 'electron'
+import type { SystemPromptContext } from '../gemini/prompts'
+import { getPromptTokenLimit } from '../providers'
+import { settingsStore } from '../settings/SettingsStore'
+import { DOCUMENT_EXTENSIONS, detectDocumentFormat, readDocumentText } from './documentText'
+
+export interface ContextDocumentText {
+  name: string
+  text: string
+}
+
+/**
+ * Local files attached as context for the system prompt. The extracted text is kept in
+ * dataDir, one file per document, and listed in the contextDocuments setting.
+ */
+export const createContextLibrary = (dataDir: string) => {
+  const getTextPath = (id: string): string => join(dataDir, `${id}.txt`)
+
+  const getDialogParent = (): BrowserWindow | undefined =>
+    BrowserWindow.getFocusedWindow() ?? BrowserWindow.getAllWindows()[0]
+
+  // Files that cannot be read are reported by name; the others are still attached
+  const addDocuments = async (filePaths: string[]): Promise<AttachContextDocumentsResult> => {
+    const attached: ContextDocument[] = []
+    const errors: string[] = []
+
+    for (const filePath of filePaths) {
+      try {
+        const text = await readDocumentText(filePath)
+        const document: ContextDocument = {
+          id: randomUUID(),
+          name: basename(filePath),
+          format: detectDocumentFormat(filePath) ?? 'text',
+          tokens: estimateTextTokens(text),
+          enabled: true,
+          addedAt: Date.now(),
+        }
+        mkdirSync(dataDir, { recursive: true })
+        writeFileSync(getTextPath(document.id), text, 'utf8')
+        attached.push(document)
+      } catch (error) {
+        console.error(`Error reading context document ${filePath}:`, error)
+        errors.push(error instanceof Error ? error.message : `Could not read ${basename(filePath)}`)
+      }
+    }
+
+    if (attached.length > 0) {
+      settingsStore.set('contextDocuments', [...settingsStore.get('contextDocuments'), ...attached])
+    }
+    return { canceled: false, attached, errors }
+  }
+
+  const attachDocuments = async (): Promise<AttachContextDocumentsResult> => {
+    const parent = getDialogParent()
+    const options: Electron.OpenDialogOptions = {
+      title: 'Attach Context Documents',
+      filters: [{ name: 'Documents', extensions: DOCUMENT_EXTENSIONS }],
+      properties: ['openFile', 'multiSelections'],
+    }
+    const { canceled, filePaths } = parent
+      ? await dialog.showOpenDialog(parent, options)
+      : await dialog.showOpenDialog(options)
+
+    if (canceled || filePaths.length === 0) {
+      return { canceled: true, attached: [], errors: [] }
+    }
+    return addDocuments(filePaths)
+  }
+
+  const removeDocument = (id: string): void => {
+    settingsStore.set(
+      'contextDocuments',
+      settingsStore.get('contextDocuments').filter(document => document.id !== id)
+    )
+    rmSync(getTextPath(id), { force: true })
+  }
+
+  // Text of the enabled documents, in the order they are listed
+  const loadDocuments = (): ContextDocumentText[] =>
+    settingsStore
+      .get('contextDocuments')
+      .filter(document => document.enabled)
+      .flatMap(document => {
+        const filePath = getTextPath(document.id)
+        if (!existsSync(filePath)) {
+          console.warn(`Text of context document ${document.name} is missing`)
+          return []
+        }
+        return [{ name: document.name, text: readFileSync(filePath, 'utf8') }]
+      })
+
+  // Variables, documents and limits for assembling the system prompt of a session
+  const getPromptContext = (provider: LiveProviderSettings): SystemPromptContext => ({
+    variables: settingsStore.get('promptVariables'),
+    documents: loadDocuments(),
+    documentTokenBudget: settingsStore.get('contextTokenBudget'),
+    tokenLimit: getPromptTokenLimit(provider),
+  })
+
+  const setupIpcHandlers = (): void => {
+    ipcMain.handle(
+      'attach-context-documents',
+      async (): Promise<IpcResult<AttachContextDocumentsResult>> => {
+        try {
+          const result = await attachDocuments()
+          if (!result.canceled)
+            console.log(`Attached ${result.attached.length} context document(s)`)
+          return { success: true, data: result }
+        } catch (error) {
+          console.error('Error attaching context documents:', error)
+          return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+        }
+      }
+    )
+
+    ipcMain.handle('remove-context-document', async (_, id: string): Promise<IpcResult> => {
+      try {
+        removeDocument(id)
+        return { success: true }
+      } catch (error) {
+        console.error('Error removing context document:', error)
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+      }
+    })
+  }
+
+  return {
+    addDocuments,
+    attachDocuments,
+    removeDocument,
+    loadDocuments,
+    getPromptContext,
+    setupIpcHandlers,
+  }
+}
+
+export const contextLibrary = createContextLibrary(join(homedir(), 'cheddar', 'data', 'context'))
+
+export type ContextLibrary = ReturnType<typeof createContextLibrary>
@@ -0,0 +1,295 @@
+import { spawn } from 'node:child_process'
+import { readFile, stat } from 'node:fs/promises'
+import { basename, extname } from 'node:path'
+import { inflateSync } from 'node:zlib'
+import type { ContextDocumentFormat } from '@shared/types'
+import { CHARS_PER_TOKEN, estimateTextTokens } from '@shared/usage'
+import { findOnPath } from '../audio/SystemAudioCapture'
+
+// Larger files are almost never meant as prompt context
+const MAX_FILE_BYTES = 20 * 1024 * 1024
+const PDFTOTEXT_TIMEOUT_MS = 30000
+// Less than this from a PDF means its text could not be read, e.g. a scan
+const MIN_PDF_TEXT_CHARS = 20
+
+const FORMATS_BY_EXTENSION: Record<string, ContextDocumentFormat> = {
+  '.pdf': 'pdf',
+  '.md': 'markdown',
+  '.markdown': 'markdown',
+  '.txt': 'text',
+  '.text': 'text',
+}
+
+export const DOCUMENT_EXTENSIONS = Object.keys(FORMATS_BY_EXTENSION).map(ext => ext.slice(1))
+
+export const detectDocumentFormat = (filePath: string): ContextDocumentFormat | null =>
+  FORMATS_BY_EXTENSION[extname(filePath).toLowerCase()] ?? null
+
+// Unix line endings, no trailing spaces and at most one blank line in a row
+export const normalizeText = (text: string): string =>
+  text
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+
+const readPdfString = (content: string, start: number): { text: string; end: number } => {
+  let text = ''
+  let depth = 1
+  let i = start + 1
+  for (; i < content.length && depth > 0; i++) {
+    const char = content[i]
+    if (char === '\\') {
+      const next = content[++i]
+      const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '', f: '' }
+      if (next in escapes) text += escapes[next]
+      else if (/[0-7]/.test(next)) {
+        const octal = content.slice(i, i + 3).match(/^[0-7]{1,3}/)?.[0] ?? next
+        text += String.fromCharCode(parseInt(octal, 8))
+        i += octal.length - 1
+      } else if (next === '\r' || next === '\n') {
+        if (next === '\r' && content[i + 1] === '\n') i++ // Line continuation
+      } else text += next
+    } else if (char === '(') {
+      depth++
+      text += char
+    } else if (char === ')') {
+      if (--depth > 0) text += char
+    } else text += char
+  }
+  return { text, end: i }
+}
+
+type PdfOperand = string | number | Array<string | number>
+
+// Text shown by the text operators of a page content stream
+const extractContentText = (content: string): string => {
+  let text = ''
+  let operands: PdfOperand[] = []
+  let array: Array<string | number> | null = null
+  let lastLineY: PdfOperand | null = null
+  const newLine = () => {
+    if (text && !text.endsWith('\n')) text += '\n'
+  }
+  const space = () => {
+    if (text && !/\s$/.test(text)) text += ' '
+  }
+  const push = (operand: string | number) => {
+    if (array) array.push(operand)
+    else operands.push(operand)
+  }
+  const lastString = (): string =>
+    operands.filter((operand): operand is string => typeof operand === 'string').pop() ?? ''
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]
+    if (char === '(') {
+      const { text: value, end } = readPdfString(content, i)
+      push(value)
+      i = end - 1
+    } else if (char === '<' && content[i + 1] !== '<') {
+      const end = content.indexOf('>', i)
+      if (end === -1) break
+      const bytes =
+        content
+          .slice(i + 1, end)
+          .replace(/\s/g, '')
+          .match(/.{1,2}/g) ?? []
+      push(bytes.map(byte => String.fromCharCode(parseInt(byte.padEnd(2, '0'), 16))).join(''))
+      i = end
+    } else if (char === '[') {
+      array = []
+    } else if (char === ']') {
+      if (array) operands.push(array)
+      array = null
+    } else if (char === '/') {
+      i += content.slice(i + 1).match(/^[^\s/<>[\]()]*/)?.[0].length ?? 0
+    } else if (char === '%') {
+      const end = content.indexOf('\n', i)
+      i = end === -1 ? content.length : end
+    } else if (/[\d.+-]/.test(char)) {
+      const number = content.slice(i).match(/^[+-]?(\d+\.?\d*|\.\d+)/)?.[0]
+      if (!number) continue
+      push(Number(number))
+      i += number.length - 1
+    } else if (/[A-Za-z'"*]/.test(char)) {
+      const operator = content.slice(i).match(/^[A-Za-z'"*]+/)?.[0] ?? char
+      i += operator.length - 1
+
+      switch (operator) {
+        case 'Tj':
+          text += lastString()
+          break
+        case "'":
+        case '"':
+          newLine()
+          text += lastString()
+          break
+        case 'TJ':
+          for (const item of operands.filter(Array.isArray).pop() ?? []) {
+            if (typeof item === 'string') text += item
+            else if (item < -200) space() // A gap wider than a fifth of the font size
+          }
+          break
+        case 'Td':
+        case 'TD':
+          if (operands[operands.length - 1] !== 0) newLine()
+          else space()
+          break
+        case 'Tm': {
+          const y = operands[operands.length - 1]
+          if (lastLineY !== null && y !== lastLineY) newLine()
+          else space()
+          lastLineY = y
+          break
+        }
+        case 'T*':
+        case 'ET':
+          newLine()
+          break
+      }
+      operands = []
+    }
+  }
+  return text
+}
+
+/**
+ * Text of a PDF without external tools: the text operators of each content stream,
+ * decoded as Latin-1. Fonts that map glyphs through a CMap (common for non-Latin text)
+ * come out garbled, which is why pdftotext is used instead when it is installed.
+ */
+export const extractPdfText = (pdf: Buffer): string => {
+  const source = pdf.toString('latin1')
+  const pages: string[] = []
+  const streamPattern = /stream\r?\n/g
+
+  for (let match = streamPattern.exec(source); match; match = streamPattern.exec(source)) {
+    const start = match.index + match[0].length
+    const end = source.indexOf('endstream', start)
+    if (end === -1) break
+    streamPattern.lastIndex = end + 'endstream'.length
+
+    const dictionary = source.slice(source.lastIndexOf('obj', match.index), match.index)
+    // Images, fonts and cross-reference streams hold no page text
+    if (/\/Subtype\s*\/Image|\/Length[123]|\/Type\s*\/(XRef|ObjStm|Metadata)/.test(dictionary)) {
+      continue
+    }
+    const filters = dictionary.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1] ?? ''
+    if (filters && filters.replace(/[[\]\s]/g, '') !== '/FlateDecode') continue
+
+    let data = pdf.subarray(start, end)
+    if (filters) {
+      try {
+        data = inflateSync(data)
+      } catch {
+        continue // Damaged or not Flate after all
+      }
+    }
+    const content = data.toString('latin1')
+    if (!/\bBT\b/.test(content)) continue
+    pages.push(extractContentText(content))
+  }
+
+  // Control characters are glyph codes of fonts this cannot decode
+  return normalizeText(
+    pages
+      .join('\n\n')
+      .replace(/[^\S\n]+/g, ' ')
+      .replace(/[^\P{Cc}\n]/gu, '')
+  )
+}
+
+// pdftotext from poppler-utils, which handles every font encoding
+const runPdftotext = (binary: string, filePath: string): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const proc = spawn(binary, ['-enc', 'UTF-8', filePath, '-'], {
+      stdio: ['ignore', 'pipe', 'pipe'],
+    })
+    const stdout: Buffer[] = []
+    let stderr = ''
+
+    const timer = setTimeout(() => proc.kill('SIGTERM'), PDFTOTEXT_TIMEOUT_MS)
+    proc.stdout?.on('data', (data: Buffer) => stdout.push(data))
+    proc.stderr?.on('data', (data: Buffer) => (stderr += data.toString()))
+    proc.on('error', error => {
+      clearTimeout(timer)
+      reject(error)
+    })
+    proc.on('close', code => {
+      clearTimeout(timer)
+      if (code === 0) resolve(Buffer.concat(stdout).toString('utf8'))
+      else reject(new Error(`pdftotext exited with code ${code}: ${stderr.trim().slice(-500)}`))
+    })
+  })
+
+// Throws with a message for the user when the file cannot be used as context
+export const readDocumentText = async (filePath: string): Promise<string> => {
+  const name = basename(filePath)
+  const format = detectDocumentFormat(filePath)
+  if (!format) {
+    throw new Error(`${name} is not a PDF, Markdown or text file`)
+  }
+  if ((await stat(filePath)).size > MAX_FILE_BYTES) {
+    throw new Error(`${name} is larger than ${MAX_FILE_BYTES / 1024 / 1024} MB`)
+  }
+
+  if (format !== 'pdf') {
+    return normalizeText(await readFile(filePath, 'utf8'))
+  }
+
+  const pdftotext = findOnPath('pdftotext')
+  const text = normalizeText(
+    pdftotext ? await runPdftotext(pdftotext, filePath) : extractPdfText(await readFile(filePath))
+  )
+  if (text.replace(/\s/g, '').length < MIN_PDF_TEXT_CHARS) {
+    throw new Error(
+      pdftotext
+        ? `No text found in ${name}; scanned PDFs need to be run through OCR first`
+        : `No text found in ${name}; installing pdftotext (poppler-utils) may help`
+    )
+  }
+  return text
+}
+
+// Splits a long paragraph at sentence ends, or at spaces when a sentence is too long
+const splitParagraph = (paragraph: string, maxChars: number): string[] => {
+  const parts: string[] = []
+  let rest = paragraph
+  while (rest.length > maxChars) {
+    const window = rest.slice(0, maxChars)
+    const sentenceEnd = Math.max(window.lastIndexOf('. '), window.lastIndexOf('\n'))
+    const cut =
+      sentenceEnd > maxChars / 2 ? sentenceEnd + 1 : window.lastIndexOf(' ') + 1 || maxChars
+    parts.push(rest.slice(0, cut).trim())
+    rest = rest.slice(cut).trim()
+  }
+  if (rest) parts.push(rest)
+  return parts
+}
+
+/**
+ * Cuts text into chunks of at most maxTokens, keeping paragraphs together where they
+ * fit, so a document can be included in the prompt a chunk at a time.
+ */
+export const chunkText = (text: string, maxTokens: number): string[] => {
+  const maxChars = maxTokens * CHARS_PER_TOKEN
+  const chunks: string[] = []
+  let current = ''
+
+  for (const paragraph of text.split(/\n{2,}/)) {
+    for (const part of splitParagraph(paragraph.trim(), maxChars)) {
+      if (!part) continue
+      const combined = current ? `${current}\n\n${part}` : part
+      if (estimateTextTokens(combined) <= maxTokens) {
+        current = combined
+      } else {
+        if (current) chunks.push(current)
+        current = part
+      }
+    }
+  }
+  if (current) chunks.push(current)
+  return chunks
+}
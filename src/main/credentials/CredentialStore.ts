@@ -0,0 +1,281 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'node:crypto'
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs'
+import { dirname, join } from 'node:path'
+import type {
+  CredentialInfo,
+  IpcResult,
+  LiveProviderId,
+  SaveCredentialRequest,
+} from '@shared/types'
+import { app, BrowserWindow, ipcMain, safeStorage } from 'electron'
+
+const CREDENTIALS_FILE_VERSION = 1
+const FILE_CIPHER = 'aes-256-gcm'
+const IV_LENGTH = 12
+const AUTH_TAG_LENGTH = 16
+
+// 'safeStorage' uses the OS keychain (Keychain, DPAPI, libsecret/kwallet); 'file' is
+// AES-GCM with a random key kept next to the credentials, for Linux without a keyring
+type CredentialEncryption = 'safeStorage' | 'file'
+
+interface StoredCredential {
+  provider: LiveProviderId
+  name: string
+  encryption: CredentialEncryption
+  secret: string // base64 ciphertext
+  createdAt: number
+}
+
+interface CredentialsFile {
+  version: number
+  credentials: StoredCredential[]
+  // Name of the key each provider uses when a session starts
+  active: Partial<Record<LiveProviderId, string>>
+}
+
+const isProviderId = (value: unknown): value is LiveProviderId =>
+  value === 'gemini' || value === 'openai-compatible'
+
+const emptyFile = (): CredentialsFile => ({
+  version: CREDENTIALS_FILE_VERSION,
+  credentials: [],
+  active: {},
+})
+
+// Linux falls back to a hardcoded password ('basic_text') when no keyring is running
+const isKeychainAvailable = (): boolean =>
+  safeStorage.isEncryptionAvailable() &&
+  !(process.platform === 'linux' && safeStorage.getSelectedStorageBackend() === 'basic_text')
+
+/**
+ * API keys encrypted at rest and only ever decrypted in the main process. The renderer
+ * sees names and which key is active, never the secrets themselves.
+ */
+export const createCredentialStore = (filePath: string, keyFilePath = `${filePath}.key`) => {
+  let file: CredentialsFile = emptyFile()
+
+  const load = (): void => {
+    if (!existsSync(filePath)) return
+
+    try {
+      const parsed = JSON.parse(readFileSync(filePath, 'utf8')) as Partial<CredentialsFile>
+      file = {
+        version: CREDENTIALS_FILE_VERSION,
+        credentials: (parsed.credentials ?? []).filter(
+          credential => isProviderId(credential.provider) && typeof credential.secret === 'string'
+        ),
+        active: parsed.active ?? {},
+      }
+    } catch (error) {
+      console.error('Error reading credentials file:', error)
+    }
+  }
+
+  const writePrivateFile = (path: string, data: string | Buffer): void => {
+    mkdirSync(dirname(path), { recursive: true })
+    const tempPath = `${path}.tmp`
+    writeFileSync(tempPath, data, { mode: 0o600 })
+    renameSync(tempPath, path)
+  }
+
+  const save = (): void => writePrivateFile(filePath, JSON.stringify(file, null, 2))
+
+  const getFileKey = (): Buffer => {
+    if (existsSync(keyFilePath)) return readFileSync(keyFilePath)
+
+    const key = randomBytes(32)
+    writePrivateFile(keyFilePath, key)
+    return key
+  }
+
+  const encrypt = (secret: string): Pick<StoredCredential, 'encryption' | 'secret'> => {
+    if (isKeychainAvailable()) {
+      return {
+        encryption: 'safeStorage',
+        secret: safeStorage.encryptString(secret).toString('base64'),
+      }
+    }
+
+    const iv = randomBytes(IV_LENGTH)
+    const cipher = createCipheriv(FILE_CIPHER, getFileKey(), iv)
+    const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()])
+    return {
+      encryption: 'file',
+      secret: Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64'),
+    }
+  }
+
+  const decrypt = ({ encryption, secret }: StoredCredential): string => {
+    const data = Buffer.from(secret, 'base64')
+
+    if (encryption === 'safeStorage') {
+      if (!safeStorage.isEncryptionAvailable()) {
+        throw new Error('The system keychain is not available to decrypt this API key')
+      }
+      return safeStorage.decryptString(data)
+    }
+
+    const iv = data.subarray(0, IV_LENGTH)
+    const authTag = data.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH)
+    const decipher = createDecipheriv(FILE_CIPHER, getFileKey(), iv)
+    decipher.setAuthTag(authTag)
+    return Buffer.concat([
+      decipher.update(data.subarray(IV_LENGTH + AUTH_TAG_LENGTH)),
+      decipher.final(),
+    ]).toString('utf8')
+  }
+
+  const find = (provider: LiveProviderId, name: string): StoredCredential | undefined =>
+    file.credentials.find(
+      credential => credential.provider === provider && credential.name === name
+    )
+
+  const list = (provider?: LiveProviderId): CredentialInfo[] =>
+    file.credentials
+      .filter(credential => !provider || credential.provider === provider)
+      .map(({ provider, name, createdAt }) => ({
+        provider,
+        name,
+        active: file.active[provider] === name,
+        createdAt,
+      }))
+
+  const hasKey = (provider: LiveProviderId): boolean => {
+    const name = file.active[provider]
+    return name !== undefined && find(provider, name) !== undefined
+  }
+
+  // Decrypted secret of the named key, or of the provider's active key
+  const getSecret = (provider: LiveProviderId, name = file.active[provider]): string | null => {
+    const credential = name === undefined ? undefined : find(provider, name)
+    return credential ? decrypt(credential) : null
+  }
+
+  const listeners = new Set<() => void>()
+
+  const commit = (): void => {
+    save()
+    listeners.forEach(listener => listener())
+  }
+
+  // Adds or replaces a key; the saved key becomes the provider's active key
+  const saveCredential = ({ provider, name, secret }: SaveCredentialRequest): void => {
+    const trimmedName = name.trim()
+    const trimmedSecret = secret.trim()
+    if (!isProviderId(provider)) throw new Error(`Unknown provider "${provider}"`)
+    if (!trimmedName) throw new Error('API key name is required')
+    if (!trimmedSecret) throw new Error('API key is empty')
+
+    const credential: StoredCredential = {
+      provider,
+      name: trimmedName,
+      ...encrypt(trimmedSecret),
+      createdAt: Date.now(),
+    }
+    file.credentials = [
+      ...file.credentials.filter(c => !(c.provider === provider && c.name === trimmedName)),
+      credential,
+    ]
+    file.active[provider] = trimmedName
+    commit()
+  }
+
+  const deleteCredential = (provider: LiveProviderId, name: string): void => {
+    if (!find(provider, name)) return
+
+    file.credentials = file.credentials.filter(c => !(c.provider === provider && c.name === name))
+    if (file.active[provider] === name) {
+      // Fall back to the most recently added remaining key
+      const remaining = file.credentials.filter(c => c.provider === provider)
+      const next = remaining[remaining.length - 1]
+      if (next) file.active[provider] = next.name
+      else delete file.active[provider]
+    }
+    commit()
+  }
+
+  const setActiveCredential = (provider: LiveProviderId, name: string): void => {
+    if (!find(provider, name)) throw new Error(`No API key named "${name}" for ${provider}`)
+    if (file.active[provider] === name) return
+
+    file.active[provider] = name
+    commit()
+  }
+
+  const onChange = (listener: () => void): (() => void) => {
+    listeners.add(listener)
+    return () => listeners.delete(listener)
+  }
+
+  const setupIpcHandlers = (): void => {
+    onChange(() => {
+      const credentials = list()
+      BrowserWindow.getAllWindows().forEach(window => {
+        if (!window.isDestroyed()) window.webContents.send('credentials-changed', credentials)
+      })
+    })
+
+    ipcMain.handle('list-credentials', async (): Promise<IpcResult<CredentialInfo[]>> => {
+      return { success: true, data: list() }
+    })
+
+    ipcMain.handle(
+      'save-credential',
+      async (_, request: SaveCredentialRequest): Promise<IpcResult> => {
+        try {
+          saveCredential(request)
+          return { success: true }
+        } catch (error) {
+          console.error('Error saving API key:', error)
+          return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+        }
+      }
+    )
+
+    ipcMain.handle(
+      'delete-credential',
+      async (_, provider: LiveProviderId, name: string): Promise<IpcResult> => {
+        try {
+          deleteCredential(provider, name)
+          return { success: true }
+        } catch (error) {
+          console.error('Error deleting API key:', error)
+          return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+        }
+      }
+    )
+
+    ipcMain.handle(
+      'set-active-credential',
+      async (_, provider: LiveProviderId, name: string): Promise<IpcResult> => {
+        try {
+          setActiveCredential(provider, name)
+          return { success: true }
+        } catch (error) {
+          console.error('Error selecting API key:', error)
+          return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+        }
+      }
+    )
+  }
+
+  // Constructor logic
+  load()
+
+  return {
+    list,
+    hasKey,
+    getSecret,
+    saveCredential,
+    deleteCredential,
+    setActiveCredential,
+    onChange,
+    setupIpcHandlers,
+  }
+}
+
+export const credentialStore = createCredentialStore(
+  join(app.getPath('userData'), 'credentials.json')
+)
+
+export type CredentialStore = ReturnType<typeof createCredentialStore>
@@ -0,0 +1,127 @@
+import { writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import type {
+  ConversationSession,
+  ExportFormat,
+  ExportSessionsRequest,
+  ExportSessionsResult,
+  IpcResult,
+} from '@shared/types'
+import { BrowserWindow, dialog, ipcMain } from 'electron'
+import { exportFileExtensions, formatSession } from './formats'
+
+const formatLabels: Record<ExportFormat, string> = {
+  markdown: 'Markdown',
+  json: 'JSON',
+  srt: 'SubRip Subtitles',
+  vtt: 'WebVTT Subtitles',
+  text: 'Plain Text',
+}
+
+// e.g. session-2025-01-31-143005.md
+export const getExportFileName = (session: ConversationSession, format: ExportFormat): string => {
+  const date = new Date(session.timestamp)
+  const pad = (value: number) => value.toString().padStart(2, '0')
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+  const time = `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`
+  return `session-${day}-${time}.${exportFileExtensions[format]}`
+}
+
+export const filterSessionsByRange = (
+  sessions: ConversationSession[],
+  range?: ExportSessionsRequest['range']
+): ConversationSession[] =>
+  sessions
+    .filter(
+      session =>
+        (range?.from === undefined || session.timestamp >= range.from) &&
+        (range?.to === undefined || session.timestamp <= range.to)
+    )
+    .sort((a, b) => a.timestamp - b.timestamp)
+
+export const createSessionExporter = () => {
+  const getDialogParent = (): BrowserWindow | undefined =>
+    BrowserWindow.getFocusedWindow() ?? BrowserWindow.getAllWindows()[0]
+
+  // A single session is saved to a chosen file, several go into a chosen folder
+  const exportSessions = async ({
+    format,
+    sessions,
+    range,
+  }: ExportSessionsRequest): Promise<ExportSessionsResult> => {
+    const selected = filterSessionsByRange(sessions, range)
+    if (selected.length === 0) {
+      throw new Error('No sessions to export')
+    }
+
+    const parent = getDialogParent()
+
+    if (selected.length === 1) {
+      const [session] = selected
+      const options: Electron.SaveDialogOptions = {
+        title: 'Export Session',
+        defaultPath: getExportFileName(session, format),
+        filters: [{ name: formatLabels[format], extensions: [exportFileExtensions[format]] }],
+      }
+      const { canceled, filePath } = parent
+        ? await dialog.showSaveDialog(parent, options)
+        : await dialog.showSaveDialog(options)
+
+      if (canceled || !filePath) {
+        return { canceled: true, filePaths: [] }
+      }
+
+      await writeFile(filePath, formatSession(session, format), 'utf8')
+      return { canceled: false, filePaths: [filePath] }
+    }
+
+    const options: Electron.OpenDialogOptions = {
+      title: `Export ${selected.length} Sessions`,
+      buttonLabel: 'Export Here',
+      properties: ['openDirectory', 'createDirectory'],
+    }
+    const { canceled, filePaths } = parent
+      ? await dialog.showOpenDialog(parent, options)
+      : await dialog.showOpenDialog(options)
+
+    if (canceled || filePaths.length === 0) {
+      return { canceled: true, filePaths: [] }
+    }
+
+    const written: string[] = []
+    for (const session of selected) {
+      const filePath = join(filePaths[0], getExportFileName(session, format))
+      await writeFile(filePath, formatSession(session, format), 'utf8')
+      written.push(filePath)
+    }
+
+    return { canceled: false, filePaths: written }
+  }
+
+  const setupIpcHandlers = (): void => {
+    ipcMain.handle(
+      'export-sessions',
+      async (_, request: ExportSessionsRequest): Promise<IpcResult<ExportSessionsResult>> => {
+        try {
+          const result = await exportSessions(request)
+          if (!result.canceled) {
+            console.log(`Exported ${result.filePaths.length} session(s) as ${request.format}`)
+          }
+          return { success: true, data: result }
+        } catch (error) {
+          console.error('Error exporting sessions:', error)
+          return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+        }
+      }
+    )
+  }
+
+  return {
+    exportSessions,
+    setupIpcHandlers,
+  }
+}
+
+export const sessionExporter = createSessionExporter()
+
+export type SessionExporter = ReturnType<typeof createSessionExporter>
@@ -0,0 +1,204 @@
+import type {
+  ConversationSession,
+  ExportFormat,
+  SessionActionItem,
+  TranscriptSpeaker,
+} from '@shared/types'
+
+// Bump when the exported JSON shape changes
+export const EXPORT_SCHEMA_VERSION = 1
+
+export const exportFileExtensions: Record<ExportFormat, string> = {
+  markdown: 'md',
+  json: 'json',
+  srt: 'srt',
+  vtt: 'vtt',
+  text: 'txt',
+}
+
+const speakerLabels: Record<TranscriptSpeaker, string> = {
+  remote: 'Them',
+  local: 'You',
+}
+
+// Captions shorter than this are hard to read
+const MIN_CUE_DURATION_MS = 1000
+
+interface TranscriptLine {
+  speaker: string
+  text: string
+}
+
+interface CaptionCue {
+  start: number // ms from session start
+  end: number
+  speaker: string
+  text: string
+}
+
+const formatDateTime = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+
+const formatClockTime = (timestamp: number): string =>
+  new Date(timestamp).toLocaleTimeString('en-US', {
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  })
+
+const getTranscriptLines = (
+  turn: ConversationSession['conversationHistory'][number]
+): TranscriptLine[] => {
+  if (turn.segments && turn.segments.length > 0) {
+    return turn.segments.map(segment => ({
+      speaker: speakerLabels[segment.speaker],
+      text: segment.text,
+    }))
+  }
+  // Turns saved before speaker attribution only have the combined transcription
+  return turn.transcription ? [{ speaker: speakerLabels.remote, text: turn.transcription }] : []
+}
+
+const formatActionItem = (item: SessionActionItem): string =>
+  `- [ ] ${item.task}${item.owner ? ` (${item.owner})` : ''}`
+
+export const formatMarkdown = (session: ConversationSession): string => {
+  const lines = [`# Session ${formatDateTime(session.timestamp)}`, '']
+  const { summary, actionItems = [] } = session
+
+  if (summary) {
+    lines.push('## Summary', '')
+    if (summary.overview) lines.push(summary.overview, '')
+
+    const sections: Array<[string, string[]]> = [
+      ['Decisions', summary.decisions.map(decision => `- ${decision}`)],
+      ['Action Items', summary.actionItems.map(formatActionItem)],
+      ['Open Questions', summary.openQuestions.map(question => `- ${question}`)],
+    ]
+    for (const [title, items] of sections) {
+      if (items.length > 0) lines.push(`### ${title}`, '', ...items, '')
+    }
+  }
+
+  if (actionItems.length > 0) {
+    lines.push(
+      '## Action Items Recorded in the Session',
+      '',
+      ...actionItems.map(formatActionItem),
+      ''
+    )
+  }
+
+  lines.push('## Transcript', '')
+
+  for (const turn of session.conversationHistory) {
+    lines.push(`### ${formatClockTime(turn.timestamp)}`, '')
+    for (const line of getTranscriptLines(turn)) {
+      lines.push(`**${line.speaker}:** ${line.text}`, '')
+    }
+    if (turn.ai_response) {
+      // Responses are already markdown, so they are embedded as-is
+      lines.push('**Assistant:**', '', turn.ai_response, '')
+    }
+  }
+
+  return `${lines.join('\n').trimEnd()}\n`
+}
+
+export const formatPlainText = (session: ConversationSession): string => {
+  const lines = [`Session ${formatDateTime(session.timestamp)}`, '']
+
+  if (session.summary?.overview) {
+    lines.push(`Summary: ${session.summary.overview}`, '')
+  }
+
+  for (const turn of session.conversationHistory) {
+    lines.push(`[${formatClockTime(turn.timestamp)}]`)
+    for (const line of getTranscriptLines(turn)) {
+      lines.push(`${line.speaker}: ${line.text}`)
+    }
+    if (turn.ai_response) {
+      lines.push(`Assistant: ${turn.ai_response}`)
+    }
+    lines.push('')
+  }
+
+  return `${lines.join('\n').trimEnd()}\n`
+}
+
+export const formatJson = (session: ConversationSession, exportedAt = Date.now()): string =>
+  `${JSON.stringify({ version: EXPORT_SCHEMA_VERSION, exportedAt, session }, null, 2)}\n`
+
+/**
+ * Builds caption cues for the spoken transcript. Segments carry their own timing; older
+ * turns only have the time they were saved, so their cue spans from the previous turn.
+ */
+export const getCaptionCues = (session: ConversationSession): CaptionCue[] => {
+  const cues: CaptionCue[] = []
+  const toOffset = (timestamp: number) => Math.max(0, timestamp - session.timestamp)
+  let previousEnd = 0
+
+  for (const turn of session.conversationHistory) {
+    if (turn.segments && turn.segments.length > 0) {
+      for (const segment of turn.segments) {
+        const start = Math.max(toOffset(segment.startTime), previousEnd)
+        const end = Math.max(toOffset(segment.endTime), start + MIN_CUE_DURATION_MS)
+        cues.push({ start, end, speaker: speakerLabels[segment.speaker], text: segment.text })
+        previousEnd = end
+      }
+    } else if (turn.transcription) {
+      const start = previousEnd
+      const end = Math.max(toOffset(turn.timestamp), start + MIN_CUE_DURATION_MS)
+      cues.push({ start, end, speaker: speakerLabels.remote, text: turn.transcription })
+      previousEnd = end
+    }
+  }
+
+  return cues
+}
+
+const formatCueTime = (ms: number, separator: ',' | '.'): string => {
+  const hours = Math.floor(ms / 3_600_000)
+  const minutes = Math.floor((ms % 3_600_000) / 60_000)
+  const seconds = Math.floor((ms % 60_000) / 1000)
+  const millis = Math.floor(ms % 1000)
+  const pad = (value: number, length = 2) => value.toString().padStart(length, '0')
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(millis, 3)}`
+}
+
+export const formatSrt = (session: ConversationSession): string =>
+  getCaptionCues(session)
+    .map(
+      (cue, index) =>
+        `${index + 1}\n${formatCueTime(cue.start, ',')} --> ${formatCueTime(cue.end, ',')}\n${cue.speaker}: ${cue.text}\n`
+    )
+    .join('\n')
+
+export const formatVtt = (session: ConversationSession): string => {
+  const cues = getCaptionCues(session).map(
+    cue =>
+      `${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}\n<v ${cue.speaker}>${cue.text}\n`
+  )
+  return ['WEBVTT\n', ...cues].join('\n')
+}
+
+export const formatSession = (session: ConversationSession, format: ExportFormat): string => {
+  switch (format) {
+    case 'markdown':
+      return formatMarkdown(session)
+    case 'json':
+      return formatJson(session)
+    case 'srt':
+      return formatSrt(session)
+    case 'vtt':
+      return formatVtt(session)
+    case 'text':
+      return formatPlainText(session)
+  }
+}
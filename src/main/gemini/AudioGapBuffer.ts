@@ -0,0 +1,54 @@
+import type { AudioSourceType } from '@shared/types'
+
+// Live input audio: 24 kHz, 16-bit PCM, mono or with each source in its own channel
+const BYTES_PER_MS = (24000 * 2) / 1000
+
+export interface BufferedAudioChunk {
+  data: string // base64
+  source: AudioSourceType | null // Speaker of the mixed audio; null before anyone spoke
+}
+
+const getChunkDurationMs = (base64: string, channels: number): number =>
+  Math.floor((base64.length * 3) / 4) / (BYTES_PER_MS * channels)
+
+/**
+ * Holds audio captured while the live connection is down so it can be sent once the
+ * session is back. Only the most recent `maxDurationMs` are kept.
+ */
+export const createAudioGapBuffer = (maxDurationMs: number) => {
+  let chunks: Array<BufferedAudioChunk & { durationMs: number }> = []
+  let bufferedMs = 0
+
+  const push = (data: string, source: AudioSourceType | null, channels: number): void => {
+    const durationMs = getChunkDurationMs(data, channels)
+    chunks.push({ data, source, durationMs })
+    bufferedMs += durationMs
+
+    while (bufferedMs > maxDurationMs && chunks.length > 1) {
+      bufferedMs -= chunks.shift()?.durationMs ?? 0
+    }
+  }
+
+  // Returns the buffered chunks in capture order and empties the buffer
+  const drain = (): BufferedAudioChunk[] => {
+    const drained = chunks.map(({ data, source }) => ({ data, source }))
+    clear()
+    return drained
+  }
+
+  const clear = (): void => {
+    chunks = []
+    bufferedMs = 0
+  }
+
+  const getBufferedMs = (): number => bufferedMs
+
+  return {
+    push,
+    drain,
+    clear,
+    getBufferedMs,
+  }
+}
+
+export type AudioGapBuffer = ReturnType<typeof createAudioGapBuffer>
@@ -1,46 +1,137 @@
-import { GoogleGenAI, LiveServerMessage, Modality, Session, Tool } from '@google/genai'
+import type { FunctionCall, FunctionResponse, Tool } from '@google/genai'
 import type {
   AudioContent,
+  AudioSourceType,
   ConversationTurn,
   GeminiInitParams,
   ImageContent,
   IpcResult,
-  ProfileType,
+  LiveProviderSettings,
+  PromptVariables,
+  ReconnectionStatus,
   SessionData,
+  SessionActionItem,
+  SessionError,
+  SessionMetadata,
+  ToolInvocation,
+  TranscriptSegment,
+  UsageModality,
 } from '@shared/types'
-import { ChildProcess, spawn } from 'child_process'
+import { AUDIO_TOKENS_PER_SECOND, estimateImageTokens, estimateTextTokens } from '@shared/usage'
+import { createVoiceActivityGate, type VoiceActivityGate } from '@shared/voiceActivity'
 import { BrowserWindow, ipcMain } from 'electron'
+import { type AudioMixer, createAudioMixer, type MixedAudioFrame } from '../audio/AudioMixer'
 import { saveDebugAudio } from '../audio/AudioUtils'
-import { getSystemPrompt } from './prompts'
+import {
+  createSystemAudioCapture,
+  SYSTEM_AUDIO_CHUNK_MS,
+  type SystemAudioBackend,
+} from '../audio/SystemAudioCapture'
+import { contextLibrary } from '../context/ContextLibrary'
+import { credentialStore } from '../credentials/CredentialStore'
+import { createContextRetriever } from '../knowledge/ContextRetriever'
+import { knowledgeBase } from '../knowledge/KnowledgeBase'
+import { mcpManager } from '../mcp/McpManager'
+import { sessionRecorder } from '../recording/SessionRecorder'
+import { settingsStore } from '../settings/SettingsStore'
+import { describeToolResult, type ToolContext, toolRegistry } from '../tools/ToolRegistry'
+import { createLocalTranscriber, reconcileTranscription } from '../transcription/LocalTranscriber'
+import { countsFromUsageMetadata, type TokenCounts, usageTracker } from '../usage/UsageTracker'
+import {
+  classifySessionError,
+  createLiveModelProvider,
+  DEFAULT_PROVIDER_SETTINGS,
+  type LiveModelMessage,
+  type LiveModelProvider,
+  type LiveModelSession,
+  type LiveProviderCloseEvent,
+  type LiveProviderErrorEvent,
+  toProviderFailure,
+} from '../providers'
+import { createAudioGapBuffer } from './AudioGapBuffer'
+import { assembleSystemPrompt, resolvePromptParts } from './prompts'
+import {
+  createReconnectionManager,
+  DEFAULT_RECONNECTION_POLICY,
+  type ReconnectionPolicy,
+} from './ReconnectionManager'
+import { buildTranscript, summarizeSession } from './SessionSummarizer'
+import { createTranscriptBuilder } from './TranscriptBuilder'
+
+// Most recent audio kept while the connection is down, sent once it is back
+const MAX_GAP_AUDIO_MS = 10000
+// Turns replayed to a fresh session after a reconnect that could not resume
+const RECONNECTION_CONTEXT_TURNS = 10
+// Live input audio: 24 kHz, 16-bit mono PCM
+const AUDIO_BYTES_PER_SECOND = 24000 * 2
+// Sent before mono audio whenever the speaker changes
+const SPEAKER_MARKERS: Record<AudioSourceType, string> = {
+  microphone: '[User speaking - this is the interviewee responding]',
+  system: '[Other speaker - this is system audio from the call]',
+}
+
+// Prompt variables worth keeping in the session metadata
+const filledVariables = (variables: PromptVariables = {}): PromptVariables =>
+  Object.fromEntries(Object.entries(variables).filter(([, value]) => value.trim()))
+
+interface GeminiServiceOptions {
+  // Overrides for the backoff policy; maxAttempts otherwise comes from settings
+  reconnectionPolicy?: Partial<ReconnectionPolicy>
+  // Helpers tried for system audio capture; defaults to the platform's
+  systemAudioBackends?: SystemAudioBackend[]
+}
 
 interface ReconnectionParams {
   apiKey: string
   customPrompt: string
   profile: string
   language: string
+  provider: LiveProviderSettings
 }
 
-interface GeminiErrorEvent {
-  message: string
-}
-
-interface GeminiCloseEvent {
-  reason: string
-}
-
-const createGeminiService = () => {
+export const createGeminiService = (options: GeminiServiceOptions = {}) => {
   // State variables
-  let currentSession: Session | null = null
+  let currentSession: LiveModelSession | null = null
   let currentSessionId: string | null = null
   let currentTranscription = ''
+  const transcript = createTranscriptBuilder()
   let conversationHistory: ConversationTurn[] = []
   let isInitializingSession = false
-  let systemAudioProc: ChildProcess | null = null
   let messageBuffer = ''
-  let reconnectionAttempts = 0
-  const maxReconnectionAttempts = 3
-  const reconnectionDelay = 2000 // 2 seconds
   let lastSessionParams: ReconnectionParams | null = null
+  // Latest handle for resuming the server-side session; used once, on the next reconnect
+  let resumptionHandle: string | null = null
+  const audioGapBuffer = createAudioGapBuffer(MAX_GAP_AUDIO_MS)
+  // Combines system and microphone audio for the connected provider
+  let audioMixer: AudioMixer | null = null
+  // System audio captured here is gated like the renderer's capture, so silence is not sent
+  let systemAudioGate: VoiceActivityGate | null = null
+  // Speaker last announced to the live session, so markers are only sent at changes
+  let markedSpeaker: AudioSourceType | null = null
+  // Provider of the connected session, kept for the post-session summary
+  let activeProvider: LiveModelProvider | null = null
+  // Settings of the connected session, stored with each conversation it produces
+  let connectionInfo: Omit<SessionMetadata, 'startedAt' | 'durationMs'> | null = null
+  // Turns waiting for their local transcription are saved in order
+  let pendingTurnSave: Promise<void> = Promise.resolve()
+  // Created by the create_action_item tool; saved with the session's turns
+  let sessionActionItems: SessionActionItem[] = []
+  // Tool calls the server cancelled (after an interruption) are not answered
+  let cancelledToolCalls = new Set<string>()
+  // Sends knowledge base passages for what is being said to the live session
+  const contextRetriever = createContextRetriever({
+    search: (query, limit) => knowledgeBase.search(query, limit),
+    send: context => {
+      if (!currentSession) return
+      try {
+        currentSession.sendRealtimeInput({ context })
+        estimateUsage('input', 'text', estimateTextTokens(context))
+      } catch (error) {
+        console.error('Error sending knowledge base passages:', error)
+      }
+    },
+    passages: () => settingsStore.get('knowledgeBase').passages,
+  })
 
   // Internal functions (formerly private methods)
   const sendToRenderer = (channel: string, data: unknown): void => {
@@ -53,214 +144,496 @@ const createGeminiService = () => {
   const initializeNewSession = (): void => {
     currentSessionId = Date.now().toString()
     currentTranscription = ''
+    transcript.reset()
     conversationHistory = []
+    markedSpeaker = null
+    sessionActionItems = []
+    cancelledToolCalls = new Set()
+    contextRetriever.reset()
     console.log('New conversation session started:', currentSessionId)
   }
 
-  const saveConversationTurn = (transcription: string, aiResponse: string): void => {
+  const getSessionMetadata = (): SessionMetadata | undefined => {
+    if (!connectionInfo || !currentSessionId) return undefined
+
+    const startedAt = parseInt(currentSessionId)
+    return { ...connectionInfo, startedAt, durationMs: Date.now() - startedAt }
+  }
+
+  const saveConversationTurn = (
+    transcription: string,
+    aiResponse: string,
+    segments: TranscriptSegment[],
+    timestamp = Date.now()
+  ): void => {
     if (!currentSessionId) {
       initializeNewSession()
     }
 
     const conversationTurn: ConversationTurn = {
-      timestamp: Date.now(),
+      timestamp,
       transcription: transcription.trim(),
       ai_response: aiResponse.trim(),
+      segments,
     }
 
     conversationHistory.push(conversationTurn)
+    sessionRecorder.addTurn(conversationTurn.timestamp)
     console.log('Saved conversation turn:', conversationTurn)
 
     // Send to renderer to save in IndexedDB
     sendToRenderer('save-conversation-turn', {
       sessionId: currentSessionId,
+      metadata: getSessionMetadata(),
       turn: conversationTurn,
       fullHistory: conversationHistory,
+      actionItems: sessionActionItems,
     })
   }
 
+  // With local transcription running the turn waits for the local segments of its speech
+  const completeTurn = (transcription: string, aiResponse: string): void => {
+    const segments = transcript.takeSegments()
+    if (!localTranscriber.isRunning()) {
+      if (transcription) saveConversationTurn(transcription, aiResponse, segments)
+      return
+    }
+
+    const timestamp = Date.now()
+    pendingTurnSave = pendingTurnSave.then(async () => {
+      const local = await localTranscriber.takeSegments(timestamp)
+      const reconciled = reconcileTranscription({ transcription, segments }, local)
+      if (!reconciled.transcription.trim()) return
+      saveConversationTurn(reconciled.transcription, aiResponse, reconciled.segments, timestamp)
+    })
+  }
+
+  // Speech transcribed while no live model is connected is stored as turns without a reply
+  const saveLocalOnlyTurns = (): void => {
+    if (currentSession || reconnection.isReconnecting()) return
+
+    for (const segment of localTranscriber.takeFinished()) {
+      saveConversationTurn(segment.text, '', [segment], segment.endTime)
+    }
+  }
+
+  const localTranscriber = createLocalTranscriber({
+    onSegment: () => {
+      pendingTurnSave = pendingTurnSave.then(saveLocalOnlyTurns)
+    },
+  })
+
+  // Failing to start only costs the local transcript, so the session goes on without it
+  const startLocalTranscription = (language: string): void => {
+    const settings = settingsStore.get('localTranscription')
+    if (settings.mode === 'off') return
+
+    try {
+      localTranscriber.start(settings, language)
+    } catch (error) {
+      console.error('Could not start local transcription:', error)
+      sendToRenderer(
+        'update-status',
+        `Local transcription unavailable: ${error instanceof Error ? error.message : error}`
+      )
+    }
+  }
+
+  const generateSessionSummary = async (): Promise<void> => {
+    if (!activeProvider || !currentSessionId || conversationHistory.length === 0) return
+
+    // Snapshot now: a new session may start while the summary is being generated
+    const provider = activeProvider
+    const sessionId = currentSessionId
+    const history = [...conversationHistory]
+    const profile = connectionInfo?.profile ?? 'interview'
+    activeProvider = null // Summarize each session once, even if close is repeated
+
+    try {
+      console.log(`Generating summary for session ${sessionId}...`)
+      const summary = await summarizeSession(provider, history, profile)
+      sendToRenderer('session-summary', { sessionId, summary })
+    } catch (error) {
+      console.error('Error generating session summary:', error)
+    }
+  }
+
   const getCurrentSessionData = (): SessionData => ({
     sessionId: currentSessionId,
     history: conversationHistory,
   })
 
-  const sendReconnectionContext = async (): Promise<void> => {
+  const sendReconnectionContext = (): void => {
     if (!currentSession || conversationHistory.length === 0) {
       return
     }
 
     try {
-      // Gather all transcriptions from the conversation history
-      const transcriptions = conversationHistory
-        .map(turn => turn.transcription)
-        .filter(transcription => transcription && transcription.trim().length > 0)
-
-      if (transcriptions.length === 0) {
-        return
-      }
+      const recentTurns = conversationHistory.slice(-RECONNECTION_CONTEXT_TURNS)
+      const contextMessage = `The connection was interrupted. This is the conversation so far; continue from here without repeating earlier answers:\n\n${buildTranscript(recentTurns)}`
 
-      // Create the context message
-      const contextMessage = `Till now all these questions were asked in the interview, answer the last one please:\n\n${transcriptions.join('\n')}`
-
-      console.log('Sending reconnection context with', transcriptions.length, 'previous questions')
-
-      // Send the context message to the new session
-      currentSession.sendRealtimeInput({
-        text: contextMessage,
-      })
+      console.log('Sending reconnection context with', recentTurns.length, 'previous turns')
+      // Context rather than text, so providers that answer each text input do not reply to it
+      currentSession.sendRealtimeInput({ context: contextMessage })
+      estimateUsage('input', 'text', estimateTextTokens(contextMessage))
     } catch (error) {
       console.error('Error sending reconnection context:', error)
     }
   }
 
-  const getEnabledTools = async (): Promise<Tool[]> => {
-    const tools: Tool[] = []
+  const flushGapAudio = (): void => {
+    const chunks = audioGapBuffer.drain()
+    if (chunks.length === 0) return
+
+    console.log(`Sending ${chunks.length} audio chunks buffered during the reconnect`)
+    for (const chunk of chunks) {
+      sendAudioToGemini(chunk.data, chunk.source)
+    }
+  }
 
-    // Check if Google Search is enabled (default: true)
-    const googleSearchEnabled = await getStoredSetting('googleSearchEnabled', 'true')
-    console.log('Google Search enabled:', googleSearchEnabled)
+  const getEnabledTools = (provider: LiveModelProvider): Tool[] => {
+    const tools: Tool[] = []
 
-    if (googleSearchEnabled === 'true') {
-      tools.push({ googleSearch: {} })
-      console.log('Added Google Search tool')
+    if (!provider.capabilities.googleSearch) {
+      console.log(`Google Search tool not supported by ${provider.id} provider`)
     } else {
-      console.log('Google Search tool disabled')
+      const googleSearchEnabled = settingsStore.get('googleSearchEnabled')
+      console.log('Google Search enabled:', googleSearchEnabled)
+
+      if (googleSearchEnabled) {
+        tools.push({ googleSearch: {} })
+        console.log('Added Google Search tool')
+      } else {
+        console.log('Google Search tool disabled')
+      }
+    }
+
+    if (provider.capabilities.functionCalling) {
+      const functionDeclarations = toolRegistry.getFunctionDeclarations()
+      if (functionDeclarations.length > 0) {
+        tools.push({ functionDeclarations })
+        console.log('Added function tools:', functionDeclarations.map(fn => fn.name).join(', '))
+      }
     }
 
     return tools
   }
 
-  const getStoredSetting = async (key: string, defaultValue: string): Promise<string> => {
+  const toolContext: ToolContext = {
+    addActionItem: item => {
+      sessionActionItems = [...sessionActionItems, item]
+      console.log('Action item created:', item)
+    },
+  }
+
+  const runToolCall = async (call: FunctionCall): Promise<FunctionResponse> => {
+    const name = call.name ?? ''
+    const invocation: ToolInvocation = {
+      id: call.id ?? `${name}-${Date.now()}`,
+      name,
+      title: toolRegistry.getTitle(name),
+      args: call.args ?? {},
+      status: 'running',
+      startedAt: Date.now(),
+    }
+    sendToRenderer('tool-invocation', invocation)
+
+    const result = await toolRegistry.execute(name, invocation.args, toolContext)
+    const status = cancelledToolCalls.has(invocation.id)
+      ? 'cancelled'
+      : result.error
+        ? 'failed'
+        : 'completed'
+    sendToRenderer('tool-invocation', {
+      ...invocation,
+      status,
+      summary: describeToolResult(result),
+    })
+
+    return {
+      id: call.id,
+      name,
+      response: result.error ? { error: result.error } : { output: result.output },
+    }
+  }
+
+  // Runs the calls of one toolCall message and answers them together
+  const handleToolCall = async (calls: FunctionCall[]): Promise<void> => {
+    const session = currentSession
+    const responses = (await Promise.all(calls.map(runToolCall))).filter(
+      response => !response.id || !cancelledToolCalls.has(response.id)
+    )
+    // The session may have closed or reconnected while the tools ran
+    if (!session || session !== currentSession || responses.length === 0) return
+
     try {
-      const windows = BrowserWindow.getAllWindows()
-      if (windows.length > 0) {
-        // Wait a bit for the renderer to be ready
-        await new Promise(resolve => setTimeout(resolve, 100))
-
-        // Try to get setting from renderer process localStorage
-        const value = await windows[0].webContents.executeJavaScript(`
-          (function() {
-            try {
-              if (typeof localStorage === 'undefined') {
-                console.log('localStorage not available yet for ${key}');
-                return '${defaultValue}';
-              }
-              const stored = localStorage.getItem('${key}');
-              console.log('Retrieved setting ${key}:', stored);
-              return stored || '${defaultValue}';
-            } catch (e) {
-              console.error('Error accessing localStorage for ${key}:', e);
-              return '${defaultValue}';
-            }
-          })()
-        `)
-        return value
-      }
+      session.sendToolResponse(responses)
+      estimateUsage('input', 'text', estimateTextTokens(JSON.stringify(responses)))
     } catch (error) {
-      if (error instanceof Error) {
-        console.error('Error getting stored setting for', key, ':', error.message)
-      } else {
-        console.error('Error getting stored setting for', key, ':', error)
-      }
+      console.error('Error sending tool responses:', error)
     }
-    console.log('Using default value for', key, ':', defaultValue)
-    return defaultValue
   }
 
-  const attemptReconnection = async (): Promise<boolean> => {
-    if (!lastSessionParams || reconnectionAttempts >= maxReconnectionAttempts) {
-      console.log('Max reconnection attempts reached or no session params stored')
-      sendToRenderer('update-status', 'Session closed')
-      return false
+  const getReconnectionPolicy = (error?: SessionError): ReconnectionPolicy => {
+    const policy: ReconnectionPolicy = {
+      ...DEFAULT_RECONNECTION_POLICY,
+      maxAttempts: settingsStore.get('reconnectMaxAttempts'),
+      ...options.reconnectionPolicy,
     }
+    if (error?.retryAt === undefined) return policy
+
+    // Do not retry before the time the provider asked for
+    const waitMs = Math.max(0, error.retryAt - Date.now())
+    return {
+      ...policy,
+      initialDelayMs: Math.max(policy.initialDelayMs, waitMs),
+      maxDelayMs: Math.max(policy.maxDelayMs, waitMs),
+      jitter: 0,
+    }
+  }
 
-    reconnectionAttempts++
-    console.log(`Attempting reconnection ${reconnectionAttempts}/${maxReconnectionAttempts}...`)
+  // Errors a retry cannot fix also end the session instead of reconnecting
+  const reportSessionError = (error: SessionError): void => {
+    console.log(`Session error (${error.code}, retryable: ${error.retryable}):`, error.detail)
+    sendToRenderer('session-error', error)
 
-    // Wait before attempting reconnection
-    await new Promise(resolve => setTimeout(resolve, reconnectionDelay))
+    if (!error.retryable) {
+      lastSessionParams = null // Clear session params to prevent reconnection
+      reconnection.cancel()
+    }
+  }
 
-    try {
-      const session = await initializeGeminiSession(
-        lastSessionParams.apiKey,
-        lastSessionParams.customPrompt,
-        lastSessionParams.profile,
-        lastSessionParams.language,
-        true // isReconnection flag
-      )
+  // Usage is kept per conversation session, priced by the model that served it
+  const getUsageSessionId = (): string | null => {
+    if (!activeProvider || !currentSessionId) return null
+    usageTracker.startSession(currentSessionId, activeProvider.id, activeProvider.model)
+    return currentSessionId
+  }
 
-      if (session) {
-        currentSession = session
-        reconnectionAttempts = 0 // Reset counter on successful reconnection
-        console.log('Live session reconnected')
+  // Stops capture, recording and local transcription and closes the live connection, when
+  // the user closes the session or the usage budget ends it
+  const endSession = (): void => {
+    systemAudio.stop()
+
+    // Send the audio still in the mixer before the session goes away
+    audioMixer?.flush()
+    audioMixer?.reset()
+    audioMixer = null
+    sessionRecorder.stop()
+
+    // Clear session params to prevent reconnection when the session ends
+    lastSessionParams = null
+    reconnection.cancel()
+    audioGapBuffer.clear()
+    usageTracker.flush()
+
+    // Cleared first, so usage reported before the close arrives does not end it again
+    const session = currentSession
+    currentSession = null
+    session?.close()
+
+    // Record the final duration of a session that was stored
+    const metadata = getSessionMetadata()
+    if (metadata && conversationHistory.length > 0) {
+      sendToRenderer('session-metadata', { sessionId: currentSessionId, metadata })
+    }
 
-        // Send context message with previous transcriptions
-        await sendReconnectionContext()
+    // Runs in the background so closing stays instant; the renderer stores the result.
+    // Speech still being transcribed locally is saved first so the summary includes it.
+    if (localTranscriber.isRunning()) {
+      pendingTurnSave = pendingTurnSave
+        .then(() => localTranscriber.stop())
+        .then(saveLocalOnlyTurns)
+        .then(generateSessionSummary)
+        .catch(error => console.error('Error finishing local transcription:', error))
+    } else {
+      void generateSessionSummary()
+    }
+  }
 
-        return true
+  const enforceUsageBudget = (): void => {
+    if (!currentSession || !usageTracker.isBudgetExceeded()) return
+
+    console.log('Usage budget reached - ending the session')
+    reportSessionError({ code: 'quota', retryable: false, message: 'Usage budget reached' })
+    endSession()
+  }
+
+  // Fallback for providers that do not report usage metadata
+  const estimateUsage = (
+    direction: keyof TokenCounts,
+    modality: UsageModality,
+    tokens: number
+  ): void => {
+    const sessionId = getUsageSessionId()
+    if (!sessionId) return
+
+    usageTracker.recordEstimate(sessionId, direction, modality, tokens)
+    enforceUsageBudget()
+  }
+
+  const reportReconnectionStatus = (status: ReconnectionStatus): void => {
+    sendToRenderer('reconnection-status', status)
+
+    switch (status.state) {
+      case 'reconnecting': {
+        const seconds = Math.ceil(status.retryInMs / 1000)
+        sendToRenderer(
+          'update-status',
+          `Reconnecting (attempt ${status.attempt}/${status.maxAttempts}) in ${seconds}s...`
+        )
+        break
       }
-    } catch (error) {
-      console.error(`Reconnection attempt ${reconnectionAttempts} failed:`, error)
+      case 'reconnected':
+        sendToRenderer('update-status', 'Live session reconnected')
+        break
+      case 'failed':
+        console.log('All reconnection attempts failed')
+        audioGapBuffer.clear()
+        sendToRenderer('update-status', 'Session closed')
+        break
     }
+  }
 
-    // If this attempt failed, try again
-    if (reconnectionAttempts < maxReconnectionAttempts) {
-      return attemptReconnection()
-    } else {
-      console.log('All reconnection attempts failed')
-      sendToRenderer('update-status', 'Session closed')
+  const reconnectSession = async (attempt: number): Promise<boolean> => {
+    const params = lastSessionParams
+    if (!params) return false
+
+    const resuming = resumptionHandle !== null
+    console.log(`Reconnection attempt ${attempt}${resuming ? ' with session resumption' : ''}...`)
+
+    const session = await initializeGeminiSession(
+      params.apiKey,
+      params.customPrompt,
+      params.profile,
+      params.language,
+      params.provider,
+      true // isReconnection flag
+    )
+    if (!session) return false
+
+    // The user closed the session while this attempt was connecting
+    if (lastSessionParams !== params) {
+      session.close()
       return false
     }
-  }
 
-  const convertStereoToMono = (stereoBuffer: Buffer): Buffer => {
-    const samples = stereoBuffer.length / 4
-    const monoBuffer = Buffer.alloc(samples * 2)
+    currentSession = session
+    console.log('Live session reconnected')
 
-    for (let i = 0; i < samples; i++) {
-      const leftSample = stereoBuffer.readInt16LE(i * 4)
-      monoBuffer.writeInt16LE(leftSample, i * 2)
+    // A resumed session still has the conversation; a fresh one needs a recap
+    if (!resuming) {
+      sendReconnectionContext()
+      markedSpeaker = null
     }
-
-    return monoBuffer
+    flushGapAudio()
+    return true
   }
 
-  const sendAudioToGemini = async (
-    base64Data: string,
-    source: 'system' | 'microphone' = 'system'
-  ): Promise<void> => {
+  // Helper process capturing what the computer plays (macOS and Linux)
+  const systemAudio = createSystemAudioCapture({
+    onAudio: (pcm, channels) => {
+      // Copied, since a chunk may start at an odd byte offset
+      const samples = new Int16Array(new Uint8Array(pcm).buffer)
+      for (const chunk of systemAudioGate?.process(samples) ?? [samples]) {
+        audioMixer?.push('system', Buffer.from(chunk.buffer, chunk.byteOffset, chunk.byteLength), {
+          channels,
+        })
+      }
+      sessionRecorder.pushAudio('system', pcm, { channels })
+      localTranscriber.pushAudio('system', pcm, { channels })
+    },
+    backends: options.systemAudioBackends,
+  })
+
+  const reconnection = createReconnectionManager({
+    connect: attempt => reconnectSession(attempt),
+    onStatus: status => reportReconnectionStatus(status),
+  })
+
+  const sendAudioToGemini = (base64Data: string, speaker: AudioSourceType | null): void => {
     if (!currentSession) return
+    if (speaker) transcript.noteAudio(speaker)
 
     try {
-      process.stdout.write(source === 'microphone' ? 'M' : '.')
-
-      // Add context based on audio source
-      if (source === 'microphone') {
-        // When user speaks, send a text context first
-        currentSession.sendRealtimeInput({
-          text: '[User speaking - this is the interviewee responding]',
-        })
+      process.stdout.write(speaker === 'microphone' ? 'M' : '.')
+      const channels = audioMixer?.channels ?? 1
+
+      // Mono audio mixes both sources, so the model is told who is speaking at each change;
+      // stereo audio keeps the sources apart by itself
+      if (speaker && speaker !== markedSpeaker && channels === 1) {
+        const marker = SPEAKER_MARKERS[speaker]
+        currentSession.sendRealtimeInput({ context: marker })
+        estimateUsage('input', 'text', estimateTextTokens(marker))
       }
+      markedSpeaker = speaker ?? markedSpeaker
 
       currentSession.sendRealtimeInput({
         audio: {
           data: base64Data,
-          mimeType: 'audio/pcm;rate=24000',
+          mimeType: channels === 2 ? 'audio/pcm;rate=24000;channels=2' : 'audio/pcm;rate=24000',
         },
       })
+
+      const seconds = Buffer.byteLength(base64Data, 'base64') / (AUDIO_BYTES_PER_SECOND * channels)
+      estimateUsage('input', 'audio', seconds * AUDIO_TOKENS_PER_SECOND)
     } catch (error) {
       console.error('Error sending audio to Gemini:', error)
     }
   }
 
+  const sendAudioFrame = (frame: MixedAudioFrame): void => {
+    const data = frame.data.toString('base64')
+
+    if (process.env.DEBUG_AUDIO && frame.channels === 1) {
+      saveDebugAudio(frame.data, 'mixed_audio')
+    }
+
+    if (!currentSession) {
+      if (reconnection.isReconnecting()) audioGapBuffer.push(data, frame.speaker, frame.channels)
+      return
+    }
+    sendAudioToGemini(data, frame.speaker)
+  }
+
+  const startSessionRecording = (): void => {
+    if (settingsStore.get('recordSessions') && currentSessionId) {
+      sessionRecorder.start(currentSessionId)
+    }
+  }
+
+  // A session without a live model: audio is only transcribed on this machine
+  const startLocalOnlySession = (params: Required<GeminiInitParams>): boolean => {
+    initializeNewSession()
+    startLocalTranscription(params.language)
+    if (!localTranscriber.isRunning()) return false
+
+    audioMixer?.reset()
+    audioMixer = null
+    activeProvider = null
+    connectionInfo = {
+      profile: params.profile,
+      language: params.language,
+      customPrompt: params.customPrompt,
+      provider: params.provider,
+      model: localTranscriber.getEngineId() ?? undefined,
+      tools: [],
+      variables: filledVariables(settingsStore.get('promptVariables')),
+    }
+    startSessionRecording()
+    sendToRenderer('update-status', 'Transcribing locally')
+    return true
+  }
+
   // Public API
   const initializeGeminiSession = async (
     apiKey: string,
     customPrompt = '',
     profile = 'interview',
     language = 'en-US',
+    providerSettings: LiveProviderSettings = DEFAULT_PROVIDER_SETTINGS,
     isReconnection = false
-  ): Promise<Session | null> => {
+  ): Promise<LiveModelSession | null> => {
     if (isInitializingSession) {
       console.log('Session initialization already in progress')
       return null
@@ -276,39 +649,110 @@ const createGeminiService = () => {
         customPrompt,
         profile,
         language,
+        provider: providerSettings,
       }
-      reconnectionAttempts = 0 // Reset counter for new session
+      resumptionHandle = null
     }
 
-    const client = new GoogleGenAI({
-      vertexai: false,
-      apiKey: apiKey,
-    })
+    // Handles are single use: a resumed session that fails falls back to a fresh one
+    const handle = isReconnection ? resumptionHandle : null
+    resumptionHandle = null
+
+    const provider = createLiveModelProvider(apiKey, providerSettings)
+    console.log(`Using ${provider.id} provider with model ${provider.model}`)
+
+    // Not waited for, so a slow MCP server cannot hold up connecting: the tools of servers
+    // that are running now are offered, and those still starting from the next connection
+    if (provider.capabilities.functionCalling) {
+      mcpManager.sync().catch(error => console.error('Error syncing MCP servers:', error))
+    }
 
     // Get enabled tools first to determine Google Search status
-    const enabledTools = await getEnabledTools()
+    const enabledTools = getEnabledTools(provider)
     const googleSearchEnabled = enabledTools.some(tool => tool.googleSearch)
 
-    const systemPrompt = getSystemPrompt(profile as ProfileType, customPrompt, googleSearchEnabled)
+    const promptContext = contextLibrary.getPromptContext(providerSettings)
+    const { prompt: systemPrompt, report: promptReport } = assembleSystemPrompt(
+      resolvePromptParts(profile, settingsStore.get('customProfiles')),
+      customPrompt,
+      googleSearchEnabled,
+      promptContext
+    )
+    console.log(
+      `System prompt: ~${promptReport.tokens} of ${promptReport.limit} tokens, ` +
+        `${promptReport.includedChunks} document chunk(s) included, ${promptReport.omittedChunks} left out`
+    )
+    if (promptReport.truncated.length > 0) {
+      console.warn(
+        'System prompt sections cut to fit the limit:',
+        promptReport.truncated.join(', ')
+      )
+    }
 
     // Initialize new conversation session (only if not reconnecting)
     if (!isReconnection) {
       initializeNewSession()
+
+      // Picks up documents changed since the last session; unchanged files are not read again
+      const knowledge = settingsStore.get('knowledgeBase')
+      if (knowledge.enabled && knowledge.folder) {
+        knowledgeBase.rebuild().catch(error => {
+          console.error('Error indexing knowledge base:', error)
+        })
+      }
     }
 
+    // A response cut off by the previous connection is not continued by this one
+    messageBuffer = ''
+
+    // Set once connected, so a late close of this session cannot clear its successor
+    let connectedSession: LiveModelSession | null = null
+
     try {
-      const session = await client.live.connect({
-        model: 'gemini-live-2.5-flash-preview',
+      const session = await provider.connect({
+        systemPrompt,
+        language,
+        tools: enabledTools,
+        resumptionHandle: handle ?? undefined,
         callbacks: {
           onopen: () => {
+            sendToRenderer('session-error', null)
             sendToRenderer('update-status', 'Live session connected')
           },
-          onmessage: (message: LiveServerMessage) => {
+          onmessage: (message: LiveModelMessage) => {
             console.log('----------------', message)
 
+            const resumption = message.sessionResumptionUpdate
+            if (resumption?.resumable && resumption.newHandle) {
+              resumptionHandle = resumption.newHandle
+            }
+            if (message.usageMetadata) {
+              const sessionId = getUsageSessionId()
+              if (sessionId) {
+                usageTracker.recordReported(
+                  sessionId,
+                  countsFromUsageMetadata(message.usageMetadata)
+                )
+              }
+              enforceUsageBudget()
+            }
+            if (message.goAway) {
+              console.log('Server will close the connection in', message.goAway.timeLeft)
+            }
+            if (message.toolCallCancellation?.ids) {
+              for (const id of message.toolCallCancellation.ids) cancelledToolCalls.add(id)
+            }
+            if (message.toolCall?.functionCalls?.length) {
+              void handleToolCall(message.toolCall.functionCalls)
+            }
+
             // Handle transcription input
             if (message.serverContent?.inputTranscription?.text) {
               currentTranscription += message.serverContent.inputTranscription.text
+              transcript.appendTranscription(message.serverContent.inputTranscription.text)
+              if (settingsStore.get('knowledgeBase').enabled) {
+                contextRetriever.onTranscription(message.serverContent.inputTranscription.text)
+              }
             }
 
             // Handle AI model response
@@ -317,16 +761,26 @@ const createGeminiService = () => {
                 console.log(part)
                 if (part.text) {
                   messageBuffer += part.text
+                  sendToRenderer('response-delta', part.text)
                 }
               }
             }
 
+            // The user spoke over the answer: end what was streamed so far, so the next
+            // answer does not continue it
+            if (message.serverContent?.interrupted && messageBuffer) {
+              sendToRenderer('update-response', messageBuffer)
+              messageBuffer = ''
+            }
+
             if (message.serverContent?.generationComplete) {
               sendToRenderer('update-response', messageBuffer)
+              estimateUsage('output', 'text', estimateTextTokens(messageBuffer))
+              contextRetriever.endTurn()
 
               // Save conversation turn when we have both transcription and AI response
-              if (currentTranscription && messageBuffer) {
-                saveConversationTurn(currentTranscription, messageBuffer)
+              if (messageBuffer && (currentTranscription || localTranscriber.isRunning())) {
+                completeTurn(currentTranscription, messageBuffer)
                 currentTranscription = '' // Reset for next turn
               }
 
@@ -337,214 +791,157 @@ const createGeminiService = () => {
               sendToRenderer('update-status', 'Listening...')
             }
           },
-          onerror: (e: GeminiErrorEvent) => {
+          onerror: (e: LiveProviderErrorEvent) => {
             console.debug('Error:', e.message)
+            reportSessionError(classifySessionError(e))
+          },
+          onclose: (e: LiveProviderCloseEvent) => {
+            console.debug('Session closed:', e.code, e.reason)
+            if (currentSession === connectedSession) currentSession = null
 
-            // Check if the error is related to invalid API key
-            const isApiKeyError =
-              e.message &&
-              (e.message.includes('API key not valid') ||
-                e.message.includes('invalid API key') ||
-                e.message.includes('authentication failed') ||
-                e.message.includes('unauthorized'))
-
-            if (isApiKeyError) {
-              console.log('Error due to invalid API key - stopping reconnection attempts')
-              lastSessionParams = null // Clear session params to prevent reconnection
-              reconnectionAttempts = maxReconnectionAttempts // Stop further attempts
-              sendToRenderer('update-status', 'Error: Invalid API key')
+            // Closed by the user, or after an error that ended the session
+            if (!lastSessionParams) {
+              sendToRenderer('update-status', 'Session closed')
               return
             }
 
-            sendToRenderer('update-status', 'Error: ' + e.message)
-          },
-          onclose: (e: GeminiCloseEvent) => {
-            console.debug('Session closed:', e.reason)
-
-            // Check if the session closed due to invalid API key
-            const isApiKeyError =
-              e.reason &&
-              (e.reason.includes('API key not valid') ||
-                e.reason.includes('invalid API key') ||
-                e.reason.includes('authentication failed') ||
-                e.reason.includes('unauthorized'))
-
-            if (isApiKeyError) {
-              console.log('Session closed due to invalid API key - stopping reconnection attempts')
-              lastSessionParams = null // Clear session params to prevent reconnection
-              reconnectionAttempts = maxReconnectionAttempts // Stop further attempts
-              sendToRenderer('update-status', 'Session closed: Invalid API key')
+            const error = classifySessionError({ message: e.reason, closeCode: e.code })
+            reportSessionError(error)
+            if (!error.retryable) {
+              sendToRenderer('update-status', 'Session closed')
               return
             }
 
             // Attempt automatic reconnection for server-side closures
-            if (lastSessionParams && reconnectionAttempts < maxReconnectionAttempts) {
-              console.log('Attempting automatic reconnection...')
-              attemptReconnection()
-            } else {
-              sendToRenderer('update-status', 'Session closed')
-            }
-          },
-        },
-        config: {
-          responseModalities: [Modality.TEXT],
-          tools: enabledTools,
-          inputAudioTranscription: {},
-          contextWindowCompression: { slidingWindow: {} },
-          speechConfig: { languageCode: language },
-          systemInstruction: {
-            parts: [{ text: systemPrompt }],
+            console.log('Attempting automatic reconnection...')
+            void reconnection.start(getReconnectionPolicy(error))
           },
         },
       })
 
+      connectedSession = session
+      activeProvider = provider
+      if (!isReconnection) {
+        audioMixer?.reset()
+        audioMixer = createAudioMixer({
+          channels: provider.capabilities.separateAudioChannels ? 2 : 1,
+          onFrame: sendAudioFrame,
+        })
+        startSessionRecording()
+      }
+      connectionInfo = {
+        profile,
+        language,
+        customPrompt,
+        provider: providerSettings,
+        model: provider.model,
+        tools: enabledTools.flatMap(tool =>
+          tool.functionDeclarations
+            ? tool.functionDeclarations.map(fn => fn.name ?? '')
+            : Object.keys(tool)
+        ),
+        variables: filledVariables(promptContext.variables),
+        contextDocuments: promptReport.includedDocuments,
+      }
+
       isInitializingSession = false
       sendToRenderer('session-initializing', false)
       return session
     } catch (error) {
-      console.error('Failed to initialize Gemini session:', error)
+      console.error(`Failed to initialize ${provider.id} session:`, error)
       isInitializingSession = false
       sendToRenderer('session-initializing', false)
+
+      const sessionError = classifySessionError(toProviderFailure(error))
+      if (isReconnection && !sessionError.retryable) {
+        sendToRenderer('update-status', 'Session closed')
+      }
+      reportSessionError(sessionError)
       return null
     }
   }
 
-  const killExistingSystemAudioDump = async (): Promise<void> => {
-    return new Promise(resolve => {
-      console.log('Checking for existing SystemAudioDump processes...')
-
-      // Kill any existing SystemAudioDump processes
-      const killProc = spawn('pkill', ['-f', 'SystemAudioDump'], {
-        stdio: 'ignore',
-      })
-
-      killProc.on('close', code => {
-        if (code === 0) {
-          console.log('Killed existing SystemAudioDump processes')
-        } else {
-          console.log('No existing SystemAudioDump processes found')
-        }
-        resolve()
-      })
-
-      killProc.on('error', err => {
-        console.log('Error checking for existing processes (this is normal):', err.message)
-        resolve()
-      })
-
-      // Timeout after 2 seconds
-      setTimeout(() => {
-        killProc.kill()
-        resolve()
-      }, 2000)
-    })
-  }
-
-  const startMacOSAudioCapture = async (): Promise<boolean> => {
-    if (process.platform !== 'darwin') return false
-
-    // Kill any existing SystemAudioDump processes first
-    await killExistingSystemAudioDump()
-
-    console.log('Starting macOS audio capture with SystemAudioDump...')
-
-    const { app } = require('electron')
-    const path = require('path')
-
-    let systemAudioPath: string
-    if (app.isPackaged) {
-      systemAudioPath = path.join(process.resourcesPath, 'SystemAudioDump')
-    } else {
-      systemAudioPath = path.join(__dirname, '../../assets', 'SystemAudioDump')
-    }
-
-    console.log('SystemAudioDump path:', systemAudioPath)
-
-    systemAudioProc = spawn(systemAudioPath, [], {
-      stdio: ['ignore', 'pipe', 'pipe'],
-    })
-
-    if (!systemAudioProc.pid) {
-      console.error('Failed to start SystemAudioDump')
-      return false
-    }
-
-    console.log('SystemAudioDump started with PID:', systemAudioProc.pid)
-
-    const CHUNK_DURATION = 0.1
-    const SAMPLE_RATE = 24000
-    const BYTES_PER_SAMPLE = 2
-    const CHANNELS = 2
-    const CHUNK_SIZE = SAMPLE_RATE * BYTES_PER_SAMPLE * CHANNELS * CHUNK_DURATION
-
-    let audioBuffer = Buffer.alloc(0)
-
-    systemAudioProc.stdout?.on('data', (data: Buffer) => {
-      audioBuffer = Buffer.concat([audioBuffer, data])
-
-      while (audioBuffer.length >= CHUNK_SIZE) {
-        const chunk = audioBuffer.slice(0, CHUNK_SIZE)
-        audioBuffer = audioBuffer.slice(CHUNK_SIZE)
-
-        const monoChunk = CHANNELS === 2 ? convertStereoToMono(chunk) : chunk
-        const base64Data = monoChunk.toString('base64')
-        sendAudioToGemini(base64Data, 'system')
-
-        if (process.env.DEBUG_AUDIO) {
-          console.log(`Processed audio chunk: ${chunk.length} bytes`)
-          saveDebugAudio(monoChunk, 'system_audio')
-        }
+  const setupIpcHandlers = (): void => {
+    // Initialize Gemini session
+    ipcMain.handle('initialize-gemini', async (_, params: GeminiInitParams): Promise<boolean> => {
+      const {
+        customPrompt = '',
+        profile = 'interview',
+        language = 'en-US',
+        provider = DEFAULT_PROVIDER_SETTINGS,
+      } = params
+
+      if (settingsStore.get('localTranscription').mode === 'only') {
+        return startLocalOnlySession({ customPrompt, profile, language, provider })
       }
 
-      const maxBufferSize = SAMPLE_RATE * BYTES_PER_SAMPLE * 1
-      if (audioBuffer.length > maxBufferSize) {
-        audioBuffer = audioBuffer.slice(-maxBufferSize)
+      let apiKey: string
+      try {
+        apiKey = credentialStore.getSecret(provider.id) ?? ''
+      } catch (error) {
+        console.error('Error reading API key:', error)
+        sendToRenderer('session-error', {
+          code: 'auth',
+          retryable: false,
+          message: 'Could not read the saved API key',
+          detail: error instanceof Error ? error.message : String(error),
+        })
+        return false
+      }
+      if (usageTracker.isBudgetExceeded()) {
+        sendToRenderer('session-error', {
+          code: 'quota',
+          retryable: false,
+          message: 'Usage budget reached',
+        })
+        return false
       }
-    })
-
-    systemAudioProc.stderr?.on('data', (data: Buffer) => {
-      console.error('SystemAudioDump stderr:', data.toString())
-    })
-
-    systemAudioProc.on('close', code => {
-      console.log('SystemAudioDump process closed with code:', code)
-      systemAudioProc = null
-    })
-
-    systemAudioProc.on('error', err => {
-      console.error('SystemAudioDump process error:', err)
-      systemAudioProc = null
-    })
-
-    return true
-  }
 
-  const stopMacOSAudioCapture = (): void => {
-    if (systemAudioProc) {
-      console.log('Stopping SystemAudioDump...')
-      systemAudioProc.kill('SIGTERM')
-      systemAudioProc = null
-    }
-  }
+      // Only Gemini needs a key; OpenAI-compatible servers may be unauthenticated
+      if (!apiKey && provider.id === 'gemini') {
+        sendToRenderer('session-error', {
+          code: 'auth',
+          retryable: false,
+          message: 'No API key saved for Gemini',
+        })
+        return false
+      }
 
-  const setupIpcHandlers = (): void => {
-    // Initialize Gemini session
-    ipcMain.handle('initialize-gemini', async (_, params: GeminiInitParams): Promise<boolean> => {
-      const { apiKey, customPrompt = '', profile = 'interview', language = 'en-US' } = params
-      const session = await initializeGeminiSession(apiKey, customPrompt, profile, language)
+      const session = await initializeGeminiSession(
+        apiKey,
+        customPrompt,
+        profile,
+        language,
+        provider
+      )
       if (session) {
         currentSession = session
+        startLocalTranscription(language)
         return true
       }
+
+      // The live model is unreachable, but the session can still be transcribed locally
+      if (settingsStore.get('localTranscription').mode === 'alongside') {
+        const started = startLocalOnlySession({ customPrompt, profile, language, provider })
+        if (started)
+          sendToRenderer('update-status', 'Live model unreachable - transcribing locally')
+        return started
+      }
       return false
     })
 
     // Send audio content
     ipcMain.handle('send-audio-content', async (_, content: AudioContent): Promise<IpcResult> => {
-      if (!currentSession) return { success: false, error: 'No active Gemini session' }
+      // Audio captured during a reconnect is buffered and sent once the session is back
+      if (!currentSession && !reconnection.isReconnecting() && !localTranscriber.isRunning()) {
+        return { success: false, error: 'No active live session' }
+      }
       try {
         const source = content.source || 'system'
-        await sendAudioToGemini(content.data, source)
+        const pcm = Buffer.from(content.data, 'base64')
+        audioMixer?.push(source, pcm)
+        sessionRecorder.pushAudio(source, pcm)
+        localTranscriber.pushAudio(source, pcm)
         return { success: true }
       } catch (error) {
         console.error('Error sending audio:', error)
@@ -554,7 +951,7 @@ const createGeminiService = () => {
 
     // Send image content
     ipcMain.handle('send-image-content', async (_, content: ImageContent): Promise<IpcResult> => {
-      if (!currentSession) return { success: false, error: 'No active Gemini session' }
+      if (!currentSession) return { success: false, error: 'No active live session' }
 
       try {
         if (!content.data || typeof content.data !== 'string') {
@@ -573,6 +970,12 @@ const createGeminiService = () => {
         currentSession.sendRealtimeInput({
           media: { data: content.data, mimeType: 'image/jpeg' },
         })
+        estimateUsage(
+          'input',
+          'image',
+          estimateImageTokens(content.width ?? 0, content.height ?? 0)
+        )
+        sessionRecorder.addImage(buffer, content.width ?? 0, content.height ?? 0)
 
         return { success: true }
       } catch (error) {
@@ -583,7 +986,7 @@ const createGeminiService = () => {
 
     // Send text message
     ipcMain.handle('send-text-message', async (_, text: string): Promise<IpcResult> => {
-      if (!currentSession) return { success: false, error: 'No active Gemini session' }
+      if (!currentSession) return { success: false, error: 'No active live session' }
 
       try {
         if (!text || typeof text !== 'string' || text.trim().length === 0) {
@@ -592,6 +995,7 @@ const createGeminiService = () => {
 
         console.log('Sending text message:', text)
         currentSession.sendRealtimeInput({ text: text.trim() })
+        estimateUsage('input', 'text', estimateTextTokens(text.trim()))
         return { success: true }
       } catch (error) {
         console.error('Error sending text:', error)
@@ -599,30 +1003,37 @@ const createGeminiService = () => {
       }
     })
 
-    // macOS audio handlers
-    ipcMain.handle('start-macos-audio', async (): Promise<IpcResult> => {
-      if (process.platform !== 'darwin') {
+    // System audio handlers
+    ipcMain.handle('start-system-audio', async (): Promise<IpcResult> => {
+      if (!systemAudio.isAvailable()) {
         return {
           success: false,
-          error: 'macOS audio capture only available on macOS',
+          error:
+            process.platform === 'linux'
+              ? 'System audio capture needs parec (PulseAudio) or pw-record (PipeWire)'
+              : `System audio capture is not available on ${process.platform}`,
         }
       }
 
       try {
-        const success = await startMacOSAudioCapture()
+        systemAudioGate = createVoiceActivityGate({
+          sensitivity: settingsStore.get('voiceActivitySensitivity'),
+          chunkDurationMs: SYSTEM_AUDIO_CHUNK_MS,
+        })
+        const success = await systemAudio.start()
         return { success }
       } catch (error) {
-        console.error('Error starting macOS audio capture:', error)
+        console.error('Error starting system audio capture:', error)
         return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
       }
     })
 
-    ipcMain.handle('stop-macos-audio', async (): Promise<IpcResult> => {
+    ipcMain.handle('stop-system-audio', async (): Promise<IpcResult> => {
       try {
-        stopMacOSAudioCapture()
+        systemAudio.stop()
         return { success: true }
       } catch (error) {
-        console.error('Error stopping macOS audio capture:', error)
+        console.error('Error stopping system audio capture:', error)
         return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
       }
     })
@@ -630,17 +1041,7 @@ const createGeminiService = () => {
     // Session management
     ipcMain.handle('close-session', async (): Promise<IpcResult> => {
       try {
-        stopMacOSAudioCapture()
-
-        // Clear session params to prevent reconnection when user closes session
-        lastSessionParams = null
-
-        // Cleanup any pending resources and stop audio/video capture
-        if (currentSession) {
-          currentSession.close()
-          currentSession = null
-        }
-
+        endSession()
         return { success: true }
       } catch (error) {
         console.error('Error closing session:', error)
@@ -667,20 +1068,6 @@ const createGeminiService = () => {
         return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
       }
     })
-
-    // Settings handlers
-    ipcMain.handle(
-      'update-google-search-setting',
-      async (_, enabled: boolean): Promise<IpcResult> => {
-        try {
-          console.log('Google Search setting updated to:', enabled)
-          return { success: true }
-        } catch (error) {
-          console.error('Error updating Google Search setting:', error)
-          return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
-        }
-      }
-    )
   }
 
   // Constructor logic
@@ -688,9 +1075,8 @@ const createGeminiService = () => {
 
   return {
     initializeGeminiSession,
-    killExistingSystemAudioDump,
-    startMacOSAudioCapture,
-    stopMacOSAudioCapture,
+    stopSystemAudioCapture: systemAudio.stop,
+    stopLocalTranscription: localTranscriber.cancel,
     setupIpcHandlers,
   }
 }
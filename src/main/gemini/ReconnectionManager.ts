@@ -0,0 +1,103 @@
+import type { ReconnectionStatus } from '@shared/types'
+
+export interface ReconnectionPolicy {
+  maxAttempts: number
+  initialDelayMs: number
+  maxDelayMs: number
+  multiplier: number
+  jitter: number // Fraction of the delay that is randomized, 0..1
+}
+
+export const DEFAULT_RECONNECTION_POLICY: ReconnectionPolicy = {
+  maxAttempts: 5,
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  multiplier: 2,
+  jitter: 0.3,
+}
+
+// Delay before the given attempt (1-based): exponential growth, capped, then spread by
+// ±jitter so clients that dropped together do not retry in lockstep
+export const getBackoffDelay = (
+  attempt: number,
+  policy: ReconnectionPolicy,
+  random: () => number = Math.random
+): number => {
+  const base = Math.min(
+    policy.maxDelayMs,
+    policy.initialDelayMs * policy.multiplier ** Math.max(0, attempt - 1)
+  )
+  const spread = base * policy.jitter * (random() * 2 - 1)
+  return Math.max(0, Math.round(base + spread))
+}
+
+interface ReconnectionManagerOptions {
+  // Opens a replacement session; resolves false (or throws) when the attempt failed
+  connect: (attempt: number) => Promise<boolean>
+  onStatus: (status: ReconnectionStatus) => void
+}
+
+/**
+ * Retries a dropped live connection with exponential backoff. One run at a time; a run
+ * ends on the first successful attempt, when the attempt budget is spent or on cancel.
+ */
+export const createReconnectionManager = ({ connect, onStatus }: ReconnectionManagerOptions) => {
+  // Each run gets a token so a cancelled run stops at its next checkpoint
+  let activeRun: { cancelled: boolean; wake: () => void } | null = null
+
+  const isReconnecting = (): boolean => activeRun !== null
+
+  const start = async (policy: ReconnectionPolicy): Promise<boolean> => {
+    if (activeRun) return false
+
+    const run = { cancelled: false, wake: () => {} }
+    activeRun = run
+
+    try {
+      for (let attempt = 1; attempt <= policy.maxAttempts; attempt++) {
+        const retryInMs = getBackoffDelay(attempt, policy)
+        onStatus({ state: 'reconnecting', attempt, maxAttempts: policy.maxAttempts, retryInMs })
+
+        await new Promise<void>(resolve => {
+          const timer = setTimeout(resolve, retryInMs)
+          run.wake = () => {
+            clearTimeout(timer)
+            resolve()
+          }
+        })
+        if (run.cancelled) return false
+
+        try {
+          if (await connect(attempt)) {
+            if (run.cancelled) return false
+            onStatus({ state: 'reconnected', attempt })
+            return true
+          }
+        } catch (error) {
+          console.error(`Reconnection attempt ${attempt} failed:`, error)
+        }
+        if (run.cancelled) return false
+      }
+
+      onStatus({ state: 'failed', attempts: policy.maxAttempts })
+      return false
+    } finally {
+      if (activeRun === run) activeRun = null
+    }
+  }
+
+  const cancel = (): void => {
+    if (!activeRun) return
+    activeRun.cancelled = true
+    activeRun.wake()
+    activeRun = null
+  }
+
+  return {
+    start,
+    cancel,
+    isReconnecting,
+  }
+}
+
+export type ReconnectionManager = ReturnType<typeof createReconnectionManager>
@@ -0,0 +1,83 @@
+import type { ConversationTurn, ProfileId, SessionActionItem, SessionSummary } from '@shared/types'
+import type { LiveModelProvider } from '../providers'
+import { getSummaryPrompt } from './prompts'
+
+const speakerLabels = { remote: 'Them', local: 'You' } as const
+
+// Render the conversation as labelled lines for the summary model
+export const buildTranscript = (history: ConversationTurn[]): string =>
+  history
+    .flatMap(turn => {
+      const lines =
+        turn.segments && turn.segments.length > 0
+          ? turn.segments.map(segment => `${speakerLabels[segment.speaker]}: ${segment.text}`)
+          : turn.transcription
+            ? [`Them: ${turn.transcription}`]
+            : []
+
+      if (turn.ai_response) {
+        lines.push(`Assistant: ${turn.ai_response}`)
+      }
+      return lines
+    })
+    .join('\n')
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string' && item.trim().length > 0)
+    : []
+
+const toActionItems = (value: unknown): SessionActionItem[] => {
+  if (!Array.isArray(value)) return []
+
+  return value.flatMap(item => {
+    const task = typeof item?.task === 'string' ? item.task.trim() : ''
+    if (!task) return []
+
+    const owner = typeof item.owner === 'string' && item.owner.trim() ? item.owner.trim() : null
+    return [{ task, owner }]
+  })
+}
+
+// Models occasionally wrap JSON in a markdown fence even when asked not to
+const extractJson = (text: string): string => {
+  const start = text.indexOf('{')
+  const end = text.lastIndexOf('}')
+  return start !== -1 && end > start ? text.slice(start, end + 1) : text
+}
+
+export const parseSessionSummary = (
+  text: string,
+  model: string
+): Omit<SessionSummary, 'generatedAt'> => {
+  const parsed = JSON.parse(extractJson(text))
+
+  return {
+    overview: typeof parsed.overview === 'string' ? parsed.overview.trim() : '',
+    decisions: toStringList(parsed.decisions),
+    actionItems: toActionItems(parsed.actionItems),
+    openQuestions: toStringList(parsed.openQuestions),
+    model,
+  }
+}
+
+/**
+ * Sends the finished conversation to the provider's text model and returns the
+ * structured summary: decisions, action items with owners and open questions.
+ */
+export const summarizeSession = async (
+  provider: LiveModelProvider,
+  history: ConversationTurn[],
+  profile: ProfileId
+): Promise<SessionSummary> => {
+  const text = await provider.generateText({
+    systemPrompt: getSummaryPrompt(profile),
+    prompt: `Transcript:\n${buildTranscript(history)}`,
+    json: true,
+  })
+
+  return {
+    ...parseSessionSummary(text, provider.textModel),
+    generatedAt: Date.now(),
+  }
+}
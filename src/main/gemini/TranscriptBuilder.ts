@@ -0,0 +1,75 @@
+import type { AudioSourceType, TranscriptSegment, TranscriptSpeaker } from '@shared/types'
+
+export const speakerForSource: Record<AudioSourceType, TranscriptSpeaker> = {
+  system: 'remote',
+  microphone: 'local',
+}
+
+/**
+ * Splits the live input transcription into speaker segments. The Live API does not
+ * attribute its transcription, so each fragment is credited to the source of the most
+ * recent audio chunk that was sent.
+ */
+export const createTranscriptBuilder = () => {
+  let segments: TranscriptSegment[] = []
+  let activeSource: AudioSourceType = 'system'
+  let activeSourceSince: number | null = null
+  let lastFragmentAt = 0
+
+  const noteAudio = (source: AudioSourceType, timestamp = Date.now()): void => {
+    if (source !== activeSource || activeSourceSince === null) {
+      activeSource = source
+      activeSourceSince = timestamp
+    }
+  }
+
+  const appendTranscription = (text: string, timestamp = Date.now()): void => {
+    if (!text) return
+
+    const previousFragmentAt = lastFragmentAt
+    lastFragmentAt = timestamp
+
+    const lastSegment = segments[segments.length - 1]
+    if (lastSegment && lastSegment.source === activeSource) {
+      lastSegment.text += text
+      lastSegment.endTime = timestamp
+      return
+    }
+
+    // The segment starts when its audio started, unless that overlaps earlier speech
+    const startTime = Math.max(activeSourceSince ?? timestamp, previousFragmentAt)
+
+    segments.push({
+      speaker: speakerForSource[activeSource],
+      source: activeSource,
+      startTime: Math.min(startTime, timestamp),
+      endTime: timestamp,
+      text,
+    })
+  }
+
+  // Returns the finished segments (trimmed) and starts collecting the next turn
+  const takeSegments = (): TranscriptSegment[] => {
+    const finished = segments
+      .map(segment => ({ ...segment, text: segment.text.trim() }))
+      .filter(segment => segment.text.length > 0)
+    segments = []
+    return finished
+  }
+
+  const reset = (): void => {
+    segments = []
+    activeSource = 'system'
+    activeSourceSince = null
+    lastFragmentAt = 0
+  }
+
+  return {
+    noteAudio,
+    appendTranscription,
+    takeSegments,
+    reset,
+  }
+}
+
+export type TranscriptBuilder = ReturnType<typeof createTranscriptBuilder>
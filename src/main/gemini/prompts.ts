@@ -1,12 +1,16 @@
-import type { ProfileType } from '@shared/types'
-
-interface PromptParts {
-  intro: string
-  formatRequirements: string
-  searchUsage: string
-  content: string
-  outputInstructions: string
-}
+import { renderTemplate } from '@shared/promptTemplate'
+import type {
+  CustomProfile,
+  ProfileId,
+  ProfileType,
+  PromptBudgetReport,
+  PromptParts,
+  PromptVariables,
+  SystemPromptPreview,
+} from '@shared/types'
+import { CHARS_PER_TOKEN, estimateTextTokens } from '@shared/usage'
+import type { ContextDocumentText } from '../context/ContextLibrary'
+import { chunkText } from '../context/documentText'
 
 const profilePrompts: Record<ProfileType, PromptParts> = {
   interview: {
@@ -17,6 +21,7 @@ const profilePrompts: Record<ProfileType, PromptParts> = {
 - **Microphone Audio**: This captures the interviewee's (user's) own voice when they speak
 - When you receive system audio, you're hearing the interviewer asking questions
 - When you receive microphone audio, you're hearing the user's responses (marked as "User speaking")
+- Each change of speaker is marked once, when it happens ("User speaking" or "Other speaker")
 
 Analyze the ongoing interview dialogue and, crucially, the 'User-provided context' below.`,
 
@@ -179,10 +184,35 @@ Provide only the exact words to say in **markdown format**. Focus on finding win
   },
 }
 
-const buildSystemPrompt = (
+export const isBuiltInProfile = (profile: ProfileId): profile is ProfileType =>
+  Object.hasOwn(profilePrompts, profile)
+
+// A user profile with this id, else the built-in one; unknown ids use the interview prompt
+export const resolvePromptParts = (
+  profile: ProfileId,
+  customProfiles: CustomProfile[] = []
+): PromptParts => {
+  const custom = customProfiles.find(candidate => candidate.id === profile)
+  if (custom) return custom
+  return isBuiltInProfile(profile) ? profilePrompts[profile] : profilePrompts.interview
+}
+
+// Documents are included a chunk at a time, so a long one is cut at a paragraph
+const DOCUMENT_CHUNK_TOKENS = 500
+const CUT_MARKER = '\n[... cut to fit the prompt limit]'
+
+export interface SystemPromptContext {
+  variables?: PromptVariables
+  documents?: ContextDocumentText[]
+  documentTokenBudget?: number
+  tokenLimit?: number // Of the whole prompt
+}
+
+const composeSystemPrompt = (
   promptParts: PromptParts,
-  customPrompt = '',
-  googleSearchEnabled = true
+  customPrompt: string,
+  googleSearchEnabled: boolean,
+  documentsText: string
 ): string => {
   const sections = [promptParts.intro, '\n\n', promptParts.formatRequirements]
 
@@ -196,20 +226,186 @@ const buildSystemPrompt = (
     promptParts.content,
     '\n\nUser-provided context\n-----\n',
     customPrompt,
-    '\n-----\n\n',
-    promptParts.outputInstructions
+    '\n-----\n\n'
   )
 
+  if (documentsText) {
+    sections.push('Reference documents\n-----\n', documentsText, '\n-----\n\n')
+  }
+
+  sections.push(promptParts.outputInstructions)
+
   return sections.join('')
 }
 
+// Drops about `tokens` from the end of the text, cutting at a space
+const cutText = (text: string, tokens: number): string => {
+  const keep = text.length - tokens * CHARS_PER_TOKEN - CUT_MARKER.length
+  if (keep <= 0) return ''
+  const space = text.lastIndexOf(' ', keep)
+  return text.slice(0, space > keep / 2 ? space : keep).trimEnd() + CUT_MARKER
+}
+
+const formatDocuments = (
+  documents: ContextDocumentText[],
+  included: string[][],
+  chunkCounts: number[]
+): string =>
+  documents
+    .map((document, index) => {
+      const chunks = included[index]
+      if (chunks.length === 0) return ''
+      const omitted = chunkCounts[index] - chunks.length
+      const note = omitted > 0 ? `\n[... ${omitted} more section(s) of this document left out]` : ''
+      return `### ${document.name}\n${chunks.join('\n\n')}${note}`
+    })
+    .filter(Boolean)
+    .join('\n\n')
+
+/**
+ * Fills in the template variables and fits the prompt into tokenLimit. The profile's
+ * fixed sections are never cut: when they do not fit, the user-provided context is cut
+ * first and then the profile's content section. Documents get what is left, up to
+ * documentTokenBudget, taking one chunk of each document in turn so every document
+ * starts in the prompt.
+ */
+export const assembleSystemPrompt = (
+  promptParts: PromptParts,
+  customPrompt = '',
+  googleSearchEnabled = true,
+  {
+    variables = {},
+    documents = [],
+    documentTokenBudget = 0,
+    tokenLimit = Number.POSITIVE_INFINITY,
+  }: SystemPromptContext = {}
+): SystemPromptPreview => {
+  const missing = new Set<string>()
+  const parts: PromptParts = {
+    intro: renderTemplate(promptParts.intro, variables, missing),
+    formatRequirements: renderTemplate(promptParts.formatRequirements, variables, missing),
+    searchUsage: googleSearchEnabled
+      ? renderTemplate(promptParts.searchUsage, variables, missing)
+      : '',
+    content: renderTemplate(promptParts.content, variables, missing),
+    outputInstructions: renderTemplate(promptParts.outputInstructions, variables, missing),
+  }
+  let userContext = renderTemplate(customPrompt, variables, missing)
+  const truncated: PromptBudgetReport['truncated'] = []
+
+  const measure = (documentsText = '') =>
+    estimateTextTokens(composeSystemPrompt(parts, userContext, googleSearchEnabled, documentsText))
+
+  let overflow = measure() - tokenLimit
+  if (overflow > 0 && userContext) {
+    userContext = cutText(userContext, overflow)
+    truncated.push('customPrompt')
+    overflow = measure() - tokenLimit
+  }
+  if (overflow > 0 && parts.content) {
+    parts.content = cutText(parts.content, overflow)
+    truncated.push('content')
+  }
+
+  // The documents block brings its own header, so it is measured as part of the prompt
+  const baseTokens = measure()
+  const documentBudget = Math.max(0, Math.min(documentTokenBudget, tokenLimit - baseTokens))
+  const chunks = documents.map(document => chunkText(document.text, DOCUMENT_CHUNK_TOKENS))
+  const chunkCounts = chunks.map(list => list.length)
+  const included: string[][] = documents.map(() => [])
+  const full = new Set<number>()
+
+  for (let round = 0; full.size < documents.length; round++) {
+    for (let index = 0; index < documents.length; index++) {
+      if (full.has(index)) continue
+      const chunk = chunks[index][round]
+      if (chunk === undefined) {
+        full.add(index)
+        continue
+      }
+      included[index].push(chunk)
+      const tokens = measure(formatDocuments(documents, included, chunkCounts)) - baseTokens
+      if (tokens > documentBudget) {
+        // Later chunks are not taken either, so a document never has gaps
+        included[index].pop()
+        full.add(index)
+      }
+    }
+  }
+
+  const documentsText = formatDocuments(documents, included, chunkCounts)
+  const prompt = composeSystemPrompt(parts, userContext, googleSearchEnabled, documentsText)
+  const includedChunks = included.reduce((sum, list) => sum + list.length, 0)
+
+  return {
+    prompt,
+    report: {
+      tokens: estimateTextTokens(prompt),
+      limit: tokenLimit,
+      documentTokens: documentsText ? estimateTextTokens(prompt) - baseTokens : 0,
+      documentBudget,
+      includedDocuments: documents
+        .filter((_, index) => included[index].length > 0)
+        .map(document => document.name),
+      includedChunks,
+      omittedChunks: chunkCounts.reduce((sum, count) => sum + count, 0) - includedChunks,
+      truncated,
+      missingVariables: [...missing],
+    },
+  }
+}
+
+export const buildSystemPrompt = (
+  promptParts: PromptParts,
+  customPrompt = '',
+  googleSearchEnabled = true,
+  context: SystemPromptContext = {}
+): string => assembleSystemPrompt(promptParts, customPrompt, googleSearchEnabled, context).prompt
+
 export const getSystemPrompt = (
-  profile: ProfileType,
+  profile: ProfileId,
   customPrompt = '',
-  googleSearchEnabled = true
-): string => {
-  const promptParts = profilePrompts[profile] || profilePrompts.interview
-  return buildSystemPrompt(promptParts, customPrompt, googleSearchEnabled)
+  googleSearchEnabled = true,
+  customProfiles: CustomProfile[] = [],
+  context: SystemPromptContext = {}
+): string =>
+  buildSystemPrompt(
+    resolvePromptParts(profile, customProfiles),
+    customPrompt,
+    googleSearchEnabled,
+    context
+  )
+
+const summaryFocus: Record<ProfileType, string> = {
+  interview:
+    'Capture next steps in the hiring process as decisions, follow-ups the candidate promised as action items, and questions the candidate could not fully answer.',
+  sales:
+    'Capture commitments from both sides, agreed next steps, pricing or contract points, and objections that were not resolved.',
+  meeting:
+    'Capture every decision that was agreed, each task with the person responsible for it, and topics that were deferred.',
+  presentation:
+    'Capture audience questions, commitments the presenter made, and points that need follow-up.',
+  negotiation:
+    'Capture agreed terms, concessions made by either side, next steps, and terms still under discussion.',
 }
 
+// User profiles have no summary focus of their own and get the meeting one
+export const getSummaryPrompt = (
+  profile: ProfileId
+): string => `You summarize a finished conversation from its transcript.
+
+The transcript labels each line with its speaker: "Them" is the remote participant (system audio), "You" is the user (microphone) and "Assistant" is the suggestion the user was shown.
+
+${isBuiltInProfile(profile) ? summaryFocus[profile] : summaryFocus.meeting}
+
+Respond with a single JSON object and nothing else:
+{
+  "overview": "two or three sentences describing the conversation",
+  "decisions": ["decision that was agreed"],
+  "actionItems": [{ "task": "what needs to be done", "owner": "name or role of the person responsible, or null if nobody was named" }],
+  "openQuestions": ["question that was raised but not answered"]
+}
+
+Only include items supported by the transcript. Use empty arrays when there is nothing to report.`
+
 export { profilePrompts }
@@ -1,7 +1,17 @@
-import type { IpcEvents, KeybindConfig } from '@shared/types'
+import type { IpcEvents } from '@shared/types'
 import { app, BrowserWindow, ipcMain, shell } from 'electron'
 import started from 'electron-squirrel-startup'
+import { contextLibrary } from './context/ContextLibrary'
+import { credentialStore } from './credentials/CredentialStore'
+import { sessionExporter } from './export/SessionExporter'
 import { geminiService } from './gemini/GeminiService'
+import { knowledgeBase } from './knowledge/KnowledgeBase'
+import { mcpManager } from './mcp/McpManager'
+import { profileLibrary } from './profiles/ProfileLibrary'
+import { sessionRecorder } from './recording/SessionRecorder'
+import { settingsStore } from './settings/SettingsStore'
+import { toolRegistry } from './tools/ToolRegistry'
+import { usageTracker } from './usage/UsageTracker'
 import { createWindowManager } from './window/WindowManager'
 
 // Handle creating/removing shortcuts on Windows when installing/uninstalling
@@ -43,19 +53,13 @@ const setupGeneralIpcHandlers = (manager: ReturnType<typeof createWindowManager>
     }
   )
 
-  ipcMain.on('update-keybinds', (_, newKeybinds: KeybindConfig) => {
-    manager.updateGlobalShortcuts(newKeybinds)
-  })
-
   ipcMain.handle(
     'update-content-protection',
     async (): Promise<{ success: boolean; error?: string }> => {
       try {
         const mainWindow = manager.getMainWindow()
         if (mainWindow) {
-          const contentProtection = await mainWindow.webContents.executeJavaScript(
-            'window.electronAPI ? localStorage.getItem("contentProtection") !== "false" : true'
-          )
+          const contentProtection = settingsStore.get('contentProtection')
           mainWindow.setContentProtection(contentProtection)
           console.log('Content protection updated:', contentProtection)
         }
@@ -73,12 +77,25 @@ const setupGeneralIpcHandlers = (manager: ReturnType<typeof createWindowManager>
 
 const initialize = async (): Promise<void> => {
   try {
+    // The renderer loads its settings on startup, so these handlers must exist first
+    settingsStore.setupIpcHandlers()
+    credentialStore.setupIpcHandlers()
+
     // Initialize services and managers
     windowManagerInstance = createWindowManager()
     await windowManagerInstance.createMainWindow()
 
     // Setup IPC handlers
     geminiService.setupIpcHandlers()
+    sessionExporter.setupIpcHandlers()
+    profileLibrary.setupIpcHandlers()
+    contextLibrary.setupIpcHandlers()
+    knowledgeBase.setupIpcHandlers()
+    toolRegistry.setupIpcHandlers()
+    mcpManager.setupIpcHandlers()
+    usageTracker.setupIpcHandlers()
+    sessionRecorder.setupIpcHandlers()
+    sessionRecorder.prune()
     windowManagerInstance.setupIpcHandlers()
     setupGeneralIpcHandlers(windowManagerInstance)
 
@@ -91,7 +108,11 @@ const initialize = async (): Promise<void> => {
 
 const cleanup = (): void => {
   try {
-    geminiService.stopMacOSAudioCapture()
+    geminiService.stopSystemAudioCapture()
+    geminiService.stopLocalTranscription()
+    mcpManager.stopAll()
+    usageTracker.flush()
+    sessionRecorder.stop()
     windowManagerInstance?.cleanup()
     console.log('Application cleanup completed')
   } catch (error) {
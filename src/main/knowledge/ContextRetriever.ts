@@ -0,0 +1,81 @@
+import type { KnowledgePassage } from '@shared/types'
+
+// Words of new speech before another lookup, so passages follow the topic without
+// a search for every transcription fragment
+const MIN_NEW_WORDS = 8
+// The query is the end of the current turn; older speech has had its lookup
+const QUERY_WORDS = 60
+
+interface ContextRetrieverOptions {
+  search: (query: string, limit: number) => Promise<KnowledgePassage[]>
+  send: (context: string) => void
+  passages: () => number
+}
+
+export const formatPassages = (passages: KnowledgePassage[]): string =>
+  [
+    "Reference passages from the user's documents that may help with what is being discussed. " +
+      'Use them in your next answers where relevant; do not reply to this message.',
+    ...passages.map(passage => `[${passage.file}]\n${passage.text}`),
+  ].join('\n\n')
+
+/**
+ * Looks up knowledge base passages for the speech of the current turn as it is
+ * transcribed, and sends the ones not already sent in this session.
+ */
+export const createContextRetriever = ({ search, send, passages }: ContextRetrieverOptions) => {
+  let turnWords: string[] = []
+  let wordsAtLastLookup = 0
+  let sentPassages = new Set<string>()
+  let pending: Promise<void> = Promise.resolve()
+  let generation = 0
+
+  const lookup = (query: string): void => {
+    const lookupGeneration = generation
+    pending = pending
+      .then(async () => {
+        const found = await search(query, passages())
+        // A reset while searching means the results belong to an ended session
+        if (lookupGeneration !== generation) return
+
+        const fresh = found.filter(passage => !sentPassages.has(passage.text))
+        if (fresh.length === 0) return
+        for (const passage of fresh) sentPassages.add(passage.text)
+        send(formatPassages(fresh))
+      })
+      .catch(error => console.error('Error retrieving knowledge base passages:', error))
+  }
+
+  const onTranscription = (text: string): void => {
+    turnWords.push(...text.split(/\s+/).filter(Boolean))
+    if (turnWords.length - wordsAtLastLookup < MIN_NEW_WORDS) return
+
+    wordsAtLastLookup = turnWords.length
+    lookup(turnWords.slice(-QUERY_WORDS).join(' '))
+  }
+
+  // Looks up what is left of the turn, then starts counting words for the next one
+  const endTurn = (): void => {
+    if (turnWords.length > wordsAtLastLookup) {
+      lookup(turnWords.slice(-QUERY_WORDS).join(' '))
+    }
+    turnWords = []
+    wordsAtLastLookup = 0
+  }
+
+  const reset = (): void => {
+    generation++
+    turnWords = []
+    wordsAtLastLookup = 0
+    sentPassages = new Set()
+  }
+
+  return {
+    onTranscription,
+    endTurn,
+    reset,
+    whenIdle: () => pending,
+  }
+}
+
+export type ContextRetriever = ReturnType<typeof createContextRetriever>
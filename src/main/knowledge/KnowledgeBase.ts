@@ -0,0 +1,345 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, statSync } from 'node:fs'
+import { writeFile } from 'node:fs/promises'
+import { homedir } from 'node:os'
+import { join, relative, sep } from 'node:path'
+import type {
+  IpcResult,
+  KnowledgeBaseSettings,
+  KnowledgeBaseStatus,
+  KnowledgePassage,
+} from '@shared/types'
+import { BrowserWindow, dialog, ipcMain } from 'electron'
+import { chunkText, detectDocumentFormat, readDocumentText } from '../context/documentText'
+import { settingsStore } from '../settings/SettingsStore'
+import { type Bm25Index, createBm25Index } from './bm25'
+import { cosineSimilarity, createEmbeddingClient, type EmbeddingClient } from './embeddings'
+
+// Bump when the file layout changes; older indexes are rebuilt
+const INDEX_FILE_VERSION = 1
+// Small passages keep what is sent to the model on topic
+const PASSAGE_TOKENS = 200
+const MAX_FILES = 5000
+// Candidates of each ranking that are merged, and the reciprocal rank fusion constant
+const FUSION_CANDIDATES = 50
+const FUSION_K = 60
+
+interface IndexedFile {
+  mtimeMs: number
+  size: number
+  passages: string[]
+  embeddings?: number[][]
+}
+
+interface KnowledgeIndexFile {
+  version: number
+  folder: string
+  embeddingsModel: string | null
+  indexedAt: number
+  files: Record<string, IndexedFile> // Keyed by the path relative to the folder
+  errors: string[]
+}
+
+interface SearchablePassage {
+  file: string
+  text: string
+  embedding?: number[]
+}
+
+// Documents in the folder and its subfolders, skipping hidden ones and node_modules
+export const listDocumentFiles = (folder: string, limit = MAX_FILES): string[] => {
+  const files: string[] = []
+  const walk = (dir: string): void => {
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+      if (files.length >= limit) return
+      if (entry.name.startsWith('.') || entry.name === 'node_modules') continue
+      const path = join(dir, entry.name)
+      if (entry.isDirectory()) walk(path)
+      else if (entry.isFile() && detectDocumentFormat(path)) {
+        files.push(relative(folder, path).split(sep).join('/'))
+      }
+    }
+  }
+  walk(folder)
+  return files.sort()
+}
+
+// Merges rankings by summing 1 / (k + rank), which needs no score normalization
+const fuseRankings = (rankings: number[][]): Array<{ index: number; score: number }> => {
+  const scores = new Map<number, number>()
+  for (const ranking of rankings) {
+    ranking.forEach((index, rank) => {
+      scores.set(index, (scores.get(index) ?? 0) + 1 / (FUSION_K + rank + 1))
+    })
+  }
+  return [...scores].map(([index, score]) => ({ index, score })).sort((a, b) => b.score - a.score)
+}
+
+/**
+ * A local knowledge base over the documents of one folder. Passages are ranked with
+ * BM25, and also by embedding similarity when a local embeddings server is configured.
+ * The index is kept in dataDir and only files that changed are read again.
+ */
+export const createKnowledgeBase = (dataDir: string) => {
+  const indexPath = join(dataDir, 'index.json')
+  let index: KnowledgeIndexFile | null = null
+  let loaded = false
+  let passages: SearchablePassage[] = []
+  let bm25: Bm25Index | null = null
+  let indexing: Promise<KnowledgeBaseStatus> | null = null
+  let progress: KnowledgeBaseStatus['progress']
+  const listeners = new Set<(status: KnowledgeBaseStatus) => void>()
+
+  const getEmbeddingClient = (settings: KnowledgeBaseSettings): EmbeddingClient | null =>
+    settings.embeddingsBaseUrl && settings.embeddingsModel
+      ? createEmbeddingClient(settings.embeddingsBaseUrl, settings.embeddingsModel)
+      : null
+
+  const useIndex = (next: KnowledgeIndexFile | null): void => {
+    index = next
+    passages = Object.entries(next?.files ?? {}).flatMap(([file, entry]) =>
+      entry.passages.map((text, i) => ({ file, text, embedding: entry.embeddings?.[i] }))
+    )
+    bm25 = createBm25Index(passages.map(passage => passage.text))
+  }
+
+  const loadIndex = (): void => {
+    if (loaded) return
+    loaded = true
+    if (!existsSync(indexPath)) return
+    try {
+      const file = JSON.parse(readFileSync(indexPath, 'utf8')) as KnowledgeIndexFile
+      if (file.version === INDEX_FILE_VERSION) useIndex(file)
+      else console.log('Knowledge base index is from another version and will be rebuilt')
+    } catch (error) {
+      console.error('Error reading knowledge base index:', error)
+    }
+  }
+
+  const getStatus = (): KnowledgeBaseStatus => {
+    loadIndex()
+    return {
+      folder: index?.folder ?? null,
+      files: Object.keys(index?.files ?? {}).length,
+      passages: passages.length,
+      embeddingsModel: index?.embeddingsModel ?? null,
+      indexedAt: index?.indexedAt ?? null,
+      indexing: indexing !== null,
+      progress,
+      errors: index?.errors ?? [],
+    }
+  }
+
+  const notify = (): void => {
+    const status = getStatus()
+    listeners.forEach(listener => listener(status))
+  }
+
+  const buildIndex = async (
+    folder: string,
+    embeddings: EmbeddingClient | null
+  ): Promise<KnowledgeIndexFile> => {
+    // Passages of unchanged files are reused unless they were embedded with another model
+    const reusable =
+      index?.folder === folder && index.embeddingsModel === (embeddings?.model ?? null)
+        ? index.files
+        : {}
+    const filePaths = listDocumentFiles(folder)
+    const files: Record<string, IndexedFile> = {}
+    const errors: string[] = []
+    let embeddingsModel = embeddings?.model ?? null
+
+    for (const [done, file] of filePaths.entries()) {
+      progress = { done, total: filePaths.length }
+      notify()
+
+      try {
+        const { mtimeMs, size } = statSync(join(folder, file))
+        const previous = reusable[file]
+        if (previous && previous.mtimeMs === mtimeMs && previous.size === size) {
+          files[file] = previous
+          continue
+        }
+
+        const entry: IndexedFile = {
+          mtimeMs,
+          size,
+          passages: chunkText(await readDocumentText(join(folder, file)), PASSAGE_TOKENS),
+        }
+        if (embeddings && embeddingsModel) {
+          try {
+            entry.embeddings = await embeddings.embed(entry.passages)
+          } catch (error) {
+            // Without the server the index still works with BM25 alone
+            console.error('Error embedding knowledge base passages:', error)
+            errors.push(`Embeddings: ${error instanceof Error ? error.message : String(error)}`)
+            embeddingsModel = null
+          }
+        }
+        files[file] = entry
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : `Could not read ${file}`)
+      }
+    }
+
+    if (!embeddingsModel) {
+      for (const entry of Object.values(files)) delete entry.embeddings
+    }
+    if (filePaths.length >= MAX_FILES) {
+      errors.push(`Only the first ${MAX_FILES} files were indexed`)
+    }
+    return {
+      version: INDEX_FILE_VERSION,
+      folder,
+      embeddingsModel,
+      indexedAt: Date.now(),
+      files,
+      errors,
+    }
+  }
+
+  // Indexes the configured folder again; concurrent calls share one run
+  const rebuild = (): Promise<KnowledgeBaseStatus> => {
+    if (indexing) return indexing
+    loadIndex()
+    const settings = settingsStore.get('knowledgeBase')
+    if (!settings.folder) return Promise.reject(new Error('No knowledge base folder is set'))
+    if (!existsSync(settings.folder)) {
+      return Promise.reject(new Error(`Knowledge base folder ${settings.folder} does not exist`))
+    }
+
+    indexing = (async () => {
+      try {
+        const next = await buildIndex(settings.folder, getEmbeddingClient(settings))
+        mkdirSync(dataDir, { recursive: true })
+        const tempPath = `${indexPath}.tmp`
+        await writeFile(tempPath, JSON.stringify(next))
+        renameSync(tempPath, indexPath)
+        useIndex(next)
+        console.log(
+          `Indexed ${Object.keys(next.files).length} knowledge base file(s) into ${passages.length} passages`
+        )
+      } finally {
+        indexing = null
+        progress = undefined
+        notify()
+      }
+      return getStatus()
+    })()
+    notify()
+    return indexing
+  }
+
+  // The passages that best match the query; empty until the configured folder is indexed
+  const search = async (query: string, limit: number): Promise<KnowledgePassage[]> => {
+    loadIndex()
+    const settings = settingsStore.get('knowledgeBase')
+    if (!bm25 || !index || index.folder !== settings.folder || !query.trim()) return []
+
+    const lexical = bm25.search(query, FUSION_CANDIDATES)
+    let ranked = lexical
+    const embeddings = getEmbeddingClient(settings)
+    if (embeddings && index.embeddingsModel === embeddings.model) {
+      try {
+        const [vector] = await embeddings.embed([query])
+        const semantic = passages
+          .map((passage, i) => ({
+            index: i,
+            score: passage.embedding ? cosineSimilarity(vector, passage.embedding) : 0,
+          }))
+          .sort((a, b) => b.score - a.score)
+          .slice(0, FUSION_CANDIDATES)
+        ranked = fuseRankings([lexical, semantic].map(list => list.map(item => item.index)))
+      } catch (error) {
+        console.warn('Embeddings unavailable, ranking knowledge base passages with BM25:', error)
+      }
+    }
+
+    return ranked.slice(0, limit).map(({ index: i, score }) => ({
+      file: passages[i].file,
+      text: passages[i].text,
+      score,
+    }))
+  }
+
+  const onChange = (listener: (status: KnowledgeBaseStatus) => void): (() => void) => {
+    listeners.add(listener)
+    return () => listeners.delete(listener)
+  }
+
+  const setupIpcHandlers = (): void => {
+    onChange(status => {
+      BrowserWindow.getAllWindows().forEach(window => {
+        if (!window.isDestroyed()) window.webContents.send('knowledge-base-status', status)
+      })
+    })
+
+    ipcMain.handle(
+      'get-knowledge-base-status',
+      async (): Promise<IpcResult<KnowledgeBaseStatus>> => {
+        try {
+          return { success: true, data: getStatus() }
+        } catch (error) {
+          console.error('Error reading knowledge base status:', error)
+          return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+        }
+      }
+    )
+
+    ipcMain.handle('choose-knowledge-base-folder', async (): Promise<IpcResult<string | null>> => {
+      try {
+        const parent = BrowserWindow.getFocusedWindow() ?? BrowserWindow.getAllWindows()[0]
+        const options: Electron.OpenDialogOptions = {
+          title: 'Knowledge Base Folder',
+          properties: ['openDirectory'],
+        }
+        const { canceled, filePaths } = parent
+          ? await dialog.showOpenDialog(parent, options)
+          : await dialog.showOpenDialog(options)
+        if (canceled || filePaths.length === 0) return { success: true, data: null }
+
+        settingsStore.set('knowledgeBase', {
+          ...settingsStore.get('knowledgeBase'),
+          folder: filePaths[0],
+        })
+        return { success: true, data: filePaths[0] }
+      } catch (error) {
+        console.error('Error choosing knowledge base folder:', error)
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+      }
+    })
+
+    ipcMain.handle('rebuild-knowledge-base', async (): Promise<IpcResult<KnowledgeBaseStatus>> => {
+      try {
+        return { success: true, data: await rebuild() }
+      } catch (error) {
+        console.error('Error indexing knowledge base:', error)
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+      }
+    })
+
+    ipcMain.handle(
+      'search-knowledge-base',
+      async (_, query: string): Promise<IpcResult<KnowledgePassage[]>> => {
+        try {
+          const limit = settingsStore.get('knowledgeBase').passages
+          return { success: true, data: await search(query, limit) }
+        } catch (error) {
+          console.error('Error searching knowledge base:', error)
+          return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+        }
+      }
+    )
+  }
+
+  return {
+    rebuild,
+    search,
+    getStatus,
+    onChange,
+    setupIpcHandlers,
+  }
+}
+
+export const knowledgeBase = createKnowledgeBase(join(homedir(), 'cheddar', 'data', 'knowledge'))
+
+export type KnowledgeBase = ReturnType<typeof createKnowledgeBase>
@@ -0,0 +1,77 @@
+// Common words that say nothing about what a passage is about
+const STOPWORDS = new Set(
+  (
+    'a an and are as at be but by can do does for from had has have he her his how i if in ' +
+    'into is it its just me my no not of on or our she so than that the their them then ' +
+    'there these they this to too um uh us was we were what when where which who why will ' +
+    'with would yeah yes you your'
+  ).split(' ')
+)
+
+// Lowercase words without accents, so "Préciser" matches "preciser"
+export const tokenize = (text: string): string[] =>
+  (
+    text
+      .normalize('NFKD')
+      .replace(/\p{M}/gu, '')
+      .toLowerCase()
+      .match(/[\p{L}\p{N}]+/gu) ?? []
+  ).filter(term => term.length > 1 && !STOPWORDS.has(term))
+
+export interface RankedPassage {
+  index: number
+  score: number
+}
+
+interface Bm25Options {
+  k1?: number // How quickly repeated terms stop adding to the score
+  b?: number // How much long passages are penalized
+}
+
+/**
+ * Okapi BM25 over a fixed list of passages. Built in memory from the passage text, which
+ * is fast enough for a few thousand files that it is not worth storing on disk.
+ */
+export const createBm25Index = (passages: string[], { k1 = 1.2, b = 0.75 }: Bm25Options = {}) => {
+  const termCounts = passages.map(passage => {
+    const counts = new Map<string, number>()
+    for (const term of tokenize(passage)) counts.set(term, (counts.get(term) ?? 0) + 1)
+    return counts
+  })
+  const lengths = termCounts.map(counts => [...counts.values()].reduce((sum, n) => sum + n, 0))
+  const averageLength = lengths.reduce((sum, n) => sum + n, 0) / Math.max(1, passages.length)
+
+  // Passages containing each term
+  const postings = new Map<string, number[]>()
+  termCounts.forEach((counts, index) => {
+    for (const term of counts.keys()) {
+      const list = postings.get(term)
+      if (list) list.push(index)
+      else postings.set(term, [index])
+    }
+  })
+
+  const search = (query: string, limit: number): RankedPassage[] => {
+    const scores = new Map<number, number>()
+    for (const term of new Set(tokenize(query))) {
+      const matches = postings.get(term)
+      if (!matches) continue
+      const idf = Math.log(1 + (passages.length - matches.length + 0.5) / (matches.length + 0.5))
+      for (const index of matches) {
+        const frequency = termCounts[index].get(term) ?? 0
+        const norm = k1 * (1 - b + (b * lengths[index]) / (averageLength || 1))
+        const score = (idf * frequency * (k1 + 1)) / (frequency + norm)
+        scores.set(index, (scores.get(index) ?? 0) + score)
+      }
+    }
+
+    return [...scores]
+      .map(([index, score]) => ({ index, score }))
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .slice(0, limit)
+  }
+
+  return { size: passages.length, search }
+}
+
+export type Bm25Index = ReturnType<typeof createBm25Index>
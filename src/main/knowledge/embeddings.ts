@@ -0,0 +1,61 @@
+// Texts per /embeddings request; local servers slow down with large batches
+const EMBEDDING_BATCH_SIZE = 16
+const EMBEDDING_TIMEOUT_MS = 60000
+
+export interface EmbeddingClient {
+  model: string
+  embed: (texts: string[]) => Promise<number[][]>
+}
+
+/**
+ * Embeddings from an OpenAI-compatible /embeddings endpoint, meant for one running on
+ * this machine (Ollama, llama.cpp server with --embedding) so nothing leaves it.
+ */
+export const createEmbeddingClient = (baseUrl: string, model: string): EmbeddingClient => {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/embeddings`
+
+  const embedBatch = async (input: string[]): Promise<number[][]> => {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model, input }),
+      signal: AbortSignal.timeout(EMBEDDING_TIMEOUT_MS),
+    })
+    if (!response.ok) {
+      const body = await response.text().catch(() => '')
+      throw new Error(
+        `Embeddings request failed with HTTP ${response.status}: ${body.slice(0, 200)}`
+      )
+    }
+
+    const result = (await response.json()) as {
+      data?: Array<{ index: number; embedding: number[] }>
+    }
+    if (!result.data || result.data.length !== input.length) {
+      throw new Error('Embeddings response does not match the request')
+    }
+    return [...result.data].sort((a, b) => a.index - b.index).map(item => item.embedding)
+  }
+
+  const embed = async (texts: string[]): Promise<number[][]> => {
+    const vectors: number[][] = []
+    for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+      vectors.push(...(await embedBatch(texts.slice(i, i + EMBEDDING_BATCH_SIZE))))
+    }
+    return vectors
+  }
+
+  return { model, embed }
+}
+
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0
+}
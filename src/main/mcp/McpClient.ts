@@ -0,0 +1,185 @@
+import { spawn } from 'node:child_process'
+import { createInterface } from 'node:readline'
+
+// Revision of the Model Context Protocol this client speaks
+const PROTOCOL_VERSION = '2025-06-18'
+const REQUEST_TIMEOUT_MS = 30000
+// Output kept from stderr to explain why a server exited
+const STDERR_TAIL_LENGTH = 2000
+
+export interface McpClientOptions {
+  command: string
+  args: string[]
+  env: Record<string, string>
+  clientInfo: { name: string; version: string }
+  // Called once when the process has gone, with the reason
+  onExit?: (reason: string) => void
+  onToolsChanged?: () => void
+}
+
+export interface McpTool {
+  name: string
+  title?: string
+  description?: string
+  inputSchema: Record<string, unknown>
+}
+
+export interface McpToolResult {
+  content?: Array<{ type: string; text?: string }>
+  structuredContent?: unknown
+  isError?: boolean
+}
+
+interface JsonRpcMessage {
+  jsonrpc: '2.0'
+  id?: number | string
+  method?: string
+  params?: Record<string, unknown>
+  result?: unknown
+  error?: { code: number; message: string }
+}
+
+interface PendingRequest {
+  resolve: (result: unknown) => void
+  reject: (error: Error) => void
+  timer: NodeJS.Timeout
+}
+
+/**
+ * Client for one MCP server run as a child process. Messages are JSON-RPC 2.0, one per
+ * line on the server's stdin and stdout; stderr is only kept for error messages.
+ */
+export const createMcpClient = (options: McpClientOptions) => {
+  const proc = spawn(options.command, options.args, {
+    stdio: ['pipe', 'pipe', 'pipe'],
+    env: { ...process.env, ...options.env },
+  })
+  const pending = new Map<number, PendingRequest>()
+  let nextId = 1
+  let exitReason: string | null = null
+  let stderr = ''
+
+  const exit = (reason: string): void => {
+    if (exitReason) return
+    exitReason = reason
+    pending.forEach(request => {
+      clearTimeout(request.timer)
+      request.reject(new Error(reason))
+    })
+    pending.clear()
+    options.onExit?.(reason)
+  }
+
+  const write = (message: JsonRpcMessage): void => {
+    if (exitReason) throw new Error(exitReason)
+    proc.stdin?.write(`${JSON.stringify(message)}\n`)
+  }
+
+  // Servers may ask things of the client too; only ping is supported
+  const answerServerRequest = (message: JsonRpcMessage): void => {
+    if (message.method === 'ping') {
+      write({ jsonrpc: '2.0', id: message.id, result: {} })
+    } else {
+      write({
+        jsonrpc: '2.0',
+        id: message.id,
+        error: { code: -32601, message: `Method not supported: ${message.method}` },
+      })
+    }
+  }
+
+  const handleLine = (line: string): void => {
+    if (!line.trim()) return
+    let message: JsonRpcMessage
+    try {
+      message = JSON.parse(line) as JsonRpcMessage
+    } catch {
+      console.warn(`Ignoring non-JSON output from MCP server ${options.command}:`, line)
+      return
+    }
+
+    if (message.method !== undefined) {
+      if (message.id !== undefined) answerServerRequest(message)
+      else if (message.method === 'notifications/tools/list_changed') options.onToolsChanged?.()
+      return
+    }
+
+    const request = typeof message.id === 'number' ? pending.get(message.id) : undefined
+    if (!request) return
+    pending.delete(message.id as number)
+    clearTimeout(request.timer)
+    if (message.error) request.reject(new Error(message.error.message))
+    else request.resolve(message.result)
+  }
+
+  createInterface({ input: proc.stdout! }).on('line', handleLine)
+  proc.stderr?.on('data', (data: Buffer) => {
+    stderr = (stderr + data.toString()).slice(-STDERR_TAIL_LENGTH)
+  })
+  proc.on('error', error => exit(`Could not start ${options.command}: ${error.message}`))
+  proc.on('close', code => {
+    const output = stderr.trim().slice(-500)
+    exit(`MCP server exited with code ${code}${output ? `: ${output}` : ''}`)
+  })
+  // A server that exits early closes stdin; the close event above reports it
+  proc.stdin?.on('error', () => {})
+
+  const request = <T>(method: string, params?: Record<string, unknown>): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      if (exitReason) {
+        reject(new Error(exitReason))
+        return
+      }
+      const id = nextId++
+      const timer = setTimeout(() => {
+        pending.delete(id)
+        reject(
+          new Error(`MCP server did not answer ${method} within ${REQUEST_TIMEOUT_MS / 1000}s`)
+        )
+      }, REQUEST_TIMEOUT_MS)
+      pending.set(id, { resolve: result => resolve(result as T), reject, timer })
+      write({ jsonrpc: '2.0', id, method, ...(params && { params }) })
+    })
+
+  const connect = async (): Promise<void> => {
+    await request('initialize', {
+      protocolVersion: PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: options.clientInfo,
+    })
+    write({ jsonrpc: '2.0', method: 'notifications/initialized' })
+  }
+
+  // Follows the pagination cursor until every tool is listed
+  const listTools = async (): Promise<McpTool[]> => {
+    const tools: McpTool[] = []
+    let cursor: string | undefined
+    do {
+      const page = await request<{ tools: McpTool[]; nextCursor?: string }>(
+        'tools/list',
+        cursor ? { cursor } : undefined
+      )
+      tools.push(...page.tools)
+      cursor = page.nextCursor
+    } while (cursor)
+    return tools
+  }
+
+  const callTool = (name: string, args: Record<string, unknown>): Promise<McpToolResult> =>
+    request<McpToolResult>('tools/call', { name, arguments: args })
+
+  const close = (): void => {
+    exit('MCP server was stopped')
+    proc.stdin?.end()
+    proc.kill('SIGTERM')
+  }
+
+  return {
+    connect,
+    listTools,
+    callTool,
+    close,
+  }
+}
+
+export type McpClient = ReturnType<typeof createMcpClient>
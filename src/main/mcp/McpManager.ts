@@ -0,0 +1,320 @@
+import type {
+  IpcResult,
+  McpCallLogEntry,
+  McpServerConfig,
+  McpServerStatus,
+  McpStatus,
+} from '@shared/types'
+import { app, BrowserWindow, ipcMain } from 'electron'
+import { settingsStore } from '../settings/SettingsStore'
+import { describeToolResult, type ToolRegistry, toolRegistry } from '../tools/ToolRegistry'
+import { createMcpClient, type McpClient, type McpTool, type McpToolResult } from './McpClient'
+
+// Calls kept in the log shown under Customize
+const MAX_CALL_LOG = 50
+// A server that failed is started again after 5 s, then 10 s, 20 s... up to 5 minutes
+const RETRY_BASE_MS = 5000
+const MAX_RETRY_MS = 300000
+// Gemini function names allow letters, digits, underscores, dots and dashes, up to 64
+const MAX_FUNCTION_NAME_LENGTH = 64
+
+interface RunningServer {
+  config: McpServerConfig
+  client: McpClient
+  status: McpServerStatus
+}
+
+type McpStatusListener = (status: McpStatus) => void
+
+const slug = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+
+// mcp_<server>_<tool>, so tools from different servers cannot share a name
+export const mcpFunctionName = (server: string, tool: string): string =>
+  `mcp_${slug(server)}_${slug(tool)}`.slice(0, MAX_FUNCTION_NAME_LENGTH)
+
+// Only the fields that change how the process runs; renaming restarts it too
+const configKey = ({ name, command, args, env }: McpServerConfig): string =>
+  JSON.stringify({ name, command, args, env })
+
+// Text content joined; structured content is preferred when the server sends it
+const readToolResult = (result: McpToolResult): unknown => {
+  const text = (result.content ?? [])
+    .map(item => (item.type === 'text' ? (item.text ?? '') : `[${item.type}]`))
+    .join('\n')
+  if (result.isError) throw new Error(text || 'The tool reported an error')
+  return result.structuredContent ?? text
+}
+
+/**
+ * Runs the MCP servers configured in settings (mcpServers) and registers their tools in
+ * the tool registry while they run. Servers start with the app, when the settings change and
+ * in the background of each session start, and every call to their tools is kept in a short log.
+ */
+export const createMcpManager = (registry: ToolRegistry) => {
+  const servers = new Map<string, RunningServer>()
+  const listeners = new Set<McpStatusListener>()
+  // Failures in a row by server id, and when the server may be started again
+  const failures = new Map<string, { count: number; retryAt: number }>()
+  let calls: McpCallLogEntry[] = []
+  let syncing: Promise<void> = Promise.resolve()
+
+  const getStatus = (): McpStatus => ({
+    servers: settingsStore.get('mcpServers').map(
+      config =>
+        servers.get(config.id)?.status ?? {
+          id: config.id,
+          name: config.name,
+          state: 'stopped',
+          tools: [],
+        }
+    ),
+    calls,
+  })
+
+  const notify = (): void => {
+    const status = getStatus()
+    listeners.forEach(listener => listener(status))
+  }
+
+  const unregisterTools = (server: RunningServer): void => {
+    server.status.tools.forEach(registry.unregister)
+  }
+
+  const logCall = (entry: McpCallLogEntry): void => {
+    calls = [entry, ...calls].slice(0, MAX_CALL_LOG)
+    notify()
+  }
+
+  const callTool = async (
+    server: RunningServer,
+    tool: string,
+    args: Record<string, unknown>
+  ): Promise<unknown> => {
+    const startedAt = Date.now()
+    const entry = { id: `${startedAt}-${calls.length}`, server: server.config.name, tool, args }
+    try {
+      const output = readToolResult(await server.client.callTool(tool, args))
+      logCall({
+        ...entry,
+        status: 'completed',
+        summary: describeToolResult({ output }),
+        startedAt,
+        durationMs: Date.now() - startedAt,
+      })
+      return output
+    } catch (error) {
+      logCall({
+        ...entry,
+        status: 'failed',
+        summary: error instanceof Error ? error.message : String(error),
+        startedAt,
+        durationMs: Date.now() - startedAt,
+      })
+      throw error
+    }
+  }
+
+  // Tools whose name is taken by another tool are left out rather than replacing it
+  const registerTools = (server: RunningServer, tools: McpTool[]): void => {
+    unregisterTools(server)
+    const names: string[] = []
+    for (const tool of tools) {
+      const name = mcpFunctionName(server.config.name, tool.name)
+      try {
+        registry.register({
+          title: `${server.config.name}: ${tool.title ?? tool.name}`,
+          enabledByDefault: true,
+          declaration: {
+            name,
+            description: tool.description ?? `${tool.name} from ${server.config.name}`,
+            parametersJsonSchema: tool.inputSchema,
+          },
+          execute: args => callTool(server, tool.name, args),
+        })
+        names.push(name)
+      } catch (error) {
+        console.warn(`Skipping MCP tool ${tool.name} from ${server.config.name}:`, error)
+      }
+    }
+    server.status = { ...server.status, tools: names }
+  }
+
+  const markFailed = (server: RunningServer, error: string): void => {
+    unregisterTools(server)
+    server.status = { ...server.status, state: 'failed', tools: [], error }
+    const count = (failures.get(server.config.id)?.count ?? 0) + 1
+    const delay = Math.min(RETRY_BASE_MS * 2 ** (count - 1), MAX_RETRY_MS)
+    failures.set(server.config.id, { count, retryAt: Date.now() + delay })
+  }
+
+  const refreshTools = async (server: RunningServer): Promise<void> => {
+    const tools = await server.client.listTools()
+    if (servers.get(server.config.id) !== server) return
+    registerTools(server, tools)
+    notify()
+  }
+
+  const start = async (config: McpServerConfig): Promise<void> => {
+    const server: RunningServer = {
+      config,
+      status: { id: config.id, name: config.name, state: 'starting', tools: [] },
+      client: createMcpClient({
+        command: config.command,
+        args: config.args,
+        env: config.env,
+        clientInfo: { name: app.getName(), version: app.getVersion() },
+        onExit: reason => {
+          if (servers.get(config.id) !== server || server.status.state === 'failed') return
+          console.error(`MCP server ${config.name} stopped:`, reason)
+          markFailed(server, reason)
+          notify()
+        },
+        onToolsChanged: () => {
+          refreshTools(server).catch(error => {
+            console.error(`Error listing tools of MCP server ${config.name}:`, error)
+          })
+        },
+      }),
+    }
+    servers.set(config.id, server)
+    notify()
+
+    try {
+      await server.client.connect()
+      const tools = await server.client.listTools()
+      if (servers.get(config.id) !== server) return
+      registerTools(server, tools)
+      server.status = { ...server.status, state: 'running' }
+      failures.delete(config.id)
+      console.log(`MCP server ${config.name} running with tools:`, server.status.tools.join(', '))
+    } catch (error) {
+      if (servers.get(config.id) !== server) return
+      console.error(`Error starting MCP server ${config.name}:`, error)
+      if (server.status.state !== 'failed') {
+        markFailed(server, error instanceof Error ? error.message : 'Unknown error')
+      }
+      server.client.close()
+    }
+    notify()
+  }
+
+  const stop = (id: string): void => {
+    const server = servers.get(id)
+    if (!server) return
+    servers.delete(id)
+    unregisterTools(server)
+    server.client.close()
+  }
+
+  // Starts enabled servers that are not running and stops removed, disabled or changed ones.
+  // A server that failed is started again once its retry delay has passed.
+  const runSync = async (): Promise<void> => {
+    const configs = settingsStore.get('mcpServers').filter(config => config.enabled)
+    const wanted = new Map(configs.map(config => [config.id, config]))
+
+    for (const [id, server] of servers) {
+      const config = wanted.get(id)
+      if (!config || configKey(config) !== configKey(server.config)) {
+        stop(id)
+        failures.delete(id)
+      } else if (
+        server.status.state === 'failed' &&
+        Date.now() >= (failures.get(id)?.retryAt ?? 0)
+      ) {
+        stop(id)
+      }
+    }
+    await Promise.all(configs.filter(config => !servers.has(config.id)).map(start))
+    notify()
+  }
+
+  // Syncs run one after another so two cannot start the same server
+  const sync = (): Promise<void> => {
+    syncing = syncing.then(runSync, runSync)
+    return syncing
+  }
+
+  const restart = (): Promise<void> => {
+    ;[...servers.keys()].forEach(stop)
+    failures.clear()
+    return sync()
+  }
+
+  const stopAll = (): void => {
+    ;[...servers.keys()].forEach(stop)
+  }
+
+  const clearCallLog = (): void => {
+    calls = []
+    notify()
+  }
+
+  const onChange = (listener: McpStatusListener): (() => void) => {
+    listeners.add(listener)
+    return () => listeners.delete(listener)
+  }
+
+  const setupIpcHandlers = (): void => {
+    onChange(status => {
+      BrowserWindow.getAllWindows().forEach(window => {
+        if (!window.isDestroyed()) window.webContents.send('mcp-status', status)
+      })
+    })
+
+    // Enabling, disabling or editing a server takes effect straight away
+    settingsStore.onChange(({ key }) => {
+      if (key !== 'mcpServers') return
+      sync().catch(error => console.error('Error syncing MCP servers:', error))
+    })
+
+    // Started with the app, so their tools are usually ready for the first session
+    sync().catch(error => console.error('Error starting MCP servers:', error))
+
+    ipcMain.handle('get-mcp-status', async (): Promise<IpcResult<McpStatus>> => {
+      try {
+        return { success: true, data: getStatus() }
+      } catch (error) {
+        console.error('Error reading MCP status:', error)
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+      }
+    })
+
+    ipcMain.handle('restart-mcp-servers', async (): Promise<IpcResult<McpStatus>> => {
+      try {
+        await restart()
+        return { success: true, data: getStatus() }
+      } catch (error) {
+        console.error('Error restarting MCP servers:', error)
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+      }
+    })
+
+    ipcMain.handle('clear-mcp-call-log', async (): Promise<IpcResult> => {
+      try {
+        clearCallLog()
+        return { success: true }
+      } catch (error) {
+        console.error('Error clearing MCP call log:', error)
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+      }
+    })
+  }
+
+  return {
+    sync,
+    restart,
+    stopAll,
+    getStatus,
+    clearCallLog,
+    onChange,
+    setupIpcHandlers,
+  }
+}
+
+export const mcpManager = createMcpManager(toolRegistry)
+
+export type McpManager = ReturnType<typeof createMcpManager>
@@ -0,0 +1,225 @@
+import { randomUUID } from 'node:crypto'
+import { readFile, writeFile } from 'node:fs/promises'
+import type {
+  CustomProfile,
+  ExportProfilesResult,
+  ImportProfilesResult,
+  IpcResult,
+  ProfileId,
+  PreviewSystemPromptRequest,
+  PromptParts,
+  SystemPromptPreview,
+} from '@shared/types'
+import { BrowserWindow, dialog, ipcMain } from 'electron'
+import { contextLibrary } from '../context/ContextLibrary'
+import { assembleSystemPrompt, resolvePromptParts } from '../gemini/prompts'
+import { settingsStore } from '../settings/SettingsStore'
+
+// Bump when the file layout changes and keep reading the old one in parseProfilesFile
+const PROFILES_FILE_VERSION = 1
+
+const PROMPT_PART_KEYS: Array<keyof PromptParts> = [
+  'intro',
+  'formatRequirements',
+  'searchUsage',
+  'content',
+  'outputInstructions',
+]
+
+interface ProfilesFile {
+  version: number
+  profiles: CustomProfile[]
+}
+
+export const createProfileId = (): string => `custom-${randomUUID()}`
+
+/**
+ * Profiles in a shared file: the exported { version, profiles } layout, a bare array or
+ * a single profile. Missing sections are left empty and profiles without a custom-
+ * id get a new one, so hand-written files import too.
+ */
+export const parseProfilesFile = (json: string): CustomProfile[] => {
+  const data: unknown = JSON.parse(json)
+  const entries =
+    typeof data === 'object' && data !== null && 'profiles' in data
+      ? (data as { profiles: unknown }).profiles
+      : data
+  const list = Array.isArray(entries) ? entries : [entries]
+
+  return list.map((entry, index) => {
+    if (typeof entry !== 'object' || entry === null) {
+      throw new Error(`Profile ${index + 1} is not an object`)
+    }
+    const raw = entry as Record<string, unknown>
+    if (typeof raw.name !== 'string' || !raw.name.trim()) {
+      throw new Error(`Profile ${index + 1} has no name`)
+    }
+
+    const profile: CustomProfile = {
+      id: typeof raw.id === 'string' && raw.id.startsWith('custom-') ? raw.id : createProfileId(),
+      name: raw.name.trim(),
+      intro: '',
+      formatRequirements: '',
+      searchUsage: '',
+      content: '',
+      outputInstructions: '',
+    }
+    for (const key of PROMPT_PART_KEYS) {
+      const value = raw[key]
+      if (value !== undefined && typeof value !== 'string') {
+        throw new Error(`"${key}" of profile "${profile.name}" must be text`)
+      }
+      profile[key] = value ?? ''
+    }
+    return profile
+  })
+}
+
+// An imported profile replaces the saved one with the same id, so re-importing updates it
+export const mergeProfiles = (
+  saved: CustomProfile[],
+  imported: CustomProfile[]
+): CustomProfile[] => {
+  const merged = [...saved]
+  for (const profile of imported) {
+    const index = merged.findIndex(candidate => candidate.id === profile.id)
+    if (index === -1) merged.push(profile)
+    else merged[index] = profile
+  }
+  return merged
+}
+
+export const createProfileLibrary = () => {
+  const getDialogParent = (): BrowserWindow | undefined =>
+    BrowserWindow.getFocusedWindow() ?? BrowserWindow.getAllWindows()[0]
+
+  // All user profiles, or only the listed ones
+  const exportProfiles = async (ids?: string[]): Promise<ExportProfilesResult> => {
+    const profiles = settingsStore
+      .get('customProfiles')
+      .filter(profile => !ids || ids.includes(profile.id))
+    if (profiles.length === 0) {
+      throw new Error('No profiles to export')
+    }
+
+    const parent = getDialogParent()
+    const options: Electron.SaveDialogOptions = {
+      title: 'Export Profiles',
+      defaultPath:
+        profiles.length === 1
+          ? `${profiles[0].name.replace(/[^\w.-]+/g, '-')}.json`
+          : 'profiles.json',
+      filters: [{ name: 'JSON', extensions: ['json'] }],
+    }
+    const { canceled, filePath } = parent
+      ? await dialog.showSaveDialog(parent, options)
+      : await dialog.showSaveDialog(options)
+
+    if (canceled || !filePath) {
+      return { canceled: true }
+    }
+
+    const file: ProfilesFile = { version: PROFILES_FILE_VERSION, profiles }
+    await writeFile(filePath, JSON.stringify(file, null, 2), 'utf8')
+    return { canceled: false, filePath }
+  }
+
+  const importProfiles = async (): Promise<ImportProfilesResult> => {
+    const parent = getDialogParent()
+    const options: Electron.OpenDialogOptions = {
+      title: 'Import Profiles',
+      filters: [{ name: 'JSON', extensions: ['json'] }],
+      properties: ['openFile', 'multiSelections'],
+    }
+    const { canceled, filePaths } = parent
+      ? await dialog.showOpenDialog(parent, options)
+      : await dialog.showOpenDialog(options)
+
+    if (canceled || filePaths.length === 0) {
+      return { canceled: true, imported: [] }
+    }
+
+    const imported: CustomProfile[] = []
+    for (const filePath of filePaths) {
+      imported.push(...parseProfilesFile(await readFile(filePath, 'utf8')))
+    }
+    settingsStore.set(
+      'customProfiles',
+      mergeProfiles(settingsStore.get('customProfiles'), imported)
+    )
+    return { canceled: false, imported }
+  }
+
+  const setupIpcHandlers = (): void => {
+    // Sections of a profile, used as the starting point for a new one
+    ipcMain.handle(
+      'get-profile-prompt-parts',
+      async (_, profile: ProfileId): Promise<IpcResult<PromptParts>> => {
+        try {
+          return {
+            success: true,
+            data: resolvePromptParts(profile, settingsStore.get('customProfiles')),
+          }
+        } catch (error) {
+          console.error('Error reading profile prompt:', error)
+          return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+        }
+      }
+    )
+
+    ipcMain.handle(
+      'preview-system-prompt',
+      async (_, request: PreviewSystemPromptRequest): Promise<IpcResult<SystemPromptPreview>> => {
+        try {
+          return {
+            success: true,
+            data: assembleSystemPrompt(
+              request.parts,
+              request.customPrompt,
+              request.googleSearchEnabled,
+              contextLibrary.getPromptContext(settingsStore.get('modelProvider'))
+            ),
+          }
+        } catch (error) {
+          console.error('Error building prompt preview:', error)
+          return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+        }
+      }
+    )
+
+    ipcMain.handle(
+      'export-profiles',
+      async (_, ids?: string[]): Promise<IpcResult<ExportProfilesResult>> => {
+        try {
+          const result = await exportProfiles(ids)
+          if (!result.canceled) console.log('Exported profiles to', result.filePath)
+          return { success: true, data: result }
+        } catch (error) {
+          console.error('Error exporting profiles:', error)
+          return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+        }
+      }
+    )
+
+    ipcMain.handle('import-profiles', async (): Promise<IpcResult<ImportProfilesResult>> => {
+      try {
+        const result = await importProfiles()
+        if (!result.canceled) console.log(`Imported ${result.imported.length} profile(s)`)
+        return { success: true, data: result }
+      } catch (error) {
+        console.error('Error importing profiles:', error)
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+      }
+    })
+  }
+
+  return {
+    exportProfiles,
+    importProfiles,
+    setupIpcHandlers,
+  }
+}
+
+export const profileLibrary = createProfileLibrary()
+
+export type ProfileLibrary = ReturnType<typeof createProfileLibrary>
@@ -0,0 +1,130 @@
+import { GoogleGenAI, Modality } from '@google/genai'
+import { LiveProviderError } from './errors'
+import type {
+  LiveConnectOptions,
+  LiveModelProvider,
+  LiveModelSession,
+  TextGenerationOptions,
+} from './types'
+
+export const GEMINI_DEFAULT_MODEL = 'gemini-live-2.5-flash-preview'
+// Live models only accept live connections, so one-shot requests use a regular model
+export const GEMINI_TEXT_MODEL = 'gemini-2.5-flash'
+// Half of the 32k token context of the smaller Live models, the rest is the conversation
+export const GEMINI_PROMPT_TOKEN_LIMIT = 16000
+
+// ws reports a refused handshake only through the error text
+const HANDSHAKE_STATUS_PATTERN = /Unexpected server response: (\d{3})/
+
+interface GeminiLiveProviderOptions {
+  apiKey: string
+  model?: string
+  baseUrl?: string // Overrides the Live API endpoint (used by local test servers)
+}
+
+export const createGeminiLiveProvider = ({
+  apiKey,
+  model = GEMINI_DEFAULT_MODEL,
+  baseUrl,
+}: GeminiLiveProviderOptions): LiveModelProvider => {
+  const client = new GoogleGenAI({
+    vertexai: false,
+    apiKey: apiKey,
+    ...(baseUrl ? { httpOptions: { baseUrl } } : {}),
+  })
+
+  const connect = async ({
+    systemPrompt,
+    language,
+    tools,
+    callbacks,
+    resumptionHandle,
+  }: LiveConnectOptions): Promise<LiveModelSession> => {
+    // live.connect only settles once the socket opens, so a refused handshake would
+    // otherwise leave the caller waiting forever
+    let opened = false
+    let rejectConnect: (error: Error) => void = () => {}
+    const connectFailed = new Promise<never>((_, reject) => {
+      rejectConnect = reject
+    })
+
+    const sessionPromise = client.live.connect({
+      model,
+      callbacks: {
+        onopen: () => {
+          opened = true
+          callbacks.onopen?.()
+        },
+        onmessage: message => callbacks.onmessage(message),
+        onerror: (e: ErrorEvent) => {
+          const handshakeStatus = HANDSHAKE_STATUS_PATTERN.exec(e.message)?.[1]
+          const status = handshakeStatus ? Number(handshakeStatus) : undefined
+          if (!opened) return rejectConnect(new LiveProviderError(e.message, { status }))
+          callbacks.onerror?.({ message: e.message, status })
+        },
+        onclose: (e: CloseEvent) => {
+          if (!opened) {
+            return rejectConnect(
+              new LiveProviderError(e.reason || 'Connection closed', { closeCode: e.code })
+            )
+          }
+          callbacks.onclose?.({ reason: e.reason, code: e.code })
+        },
+      },
+      config: {
+        responseModalities: [Modality.TEXT],
+        tools,
+        inputAudioTranscription: {},
+        contextWindowCompression: { slidingWindow: {} },
+        // An empty config starts a new session that still reports resumption handles
+        sessionResumption: resumptionHandle ? { handle: resumptionHandle } : {},
+        speechConfig: { languageCode: language },
+        systemInstruction: {
+          parts: [{ text: systemPrompt }],
+        },
+      },
+    })
+
+    const session = await Promise.race([sessionPromise, connectFailed])
+
+    return {
+      sendRealtimeInput: ({ context, ...input }) => {
+        // Added to the conversation without completing the user's turn, so it is not answered
+        if (context) {
+          session.sendClientContent({
+            turns: [{ role: 'user', parts: [{ text: context }] }],
+            turnComplete: false,
+          })
+        }
+        if (input.text || input.audio || input.media) session.sendRealtimeInput(input)
+      },
+      sendToolResponse: functionResponses => session.sendToolResponse({ functionResponses }),
+      close: () => session.close(),
+    }
+  }
+
+  const generateText = async ({
+    systemPrompt,
+    prompt,
+    json = false,
+  }: TextGenerationOptions): Promise<string> => {
+    const response = await client.models.generateContent({
+      model: GEMINI_TEXT_MODEL,
+      contents: prompt,
+      config: {
+        systemInstruction: systemPrompt,
+        ...(json ? { responseMimeType: 'application/json' } : {}),
+      },
+    })
+    return response.text ?? ''
+  }
+
+  return {
+    id: 'gemini',
+    model,
+    textModel: GEMINI_TEXT_MODEL,
+    capabilities: { googleSearch: true, functionCalling: true, separateAudioChannels: false },
+    connect,
+    generateText,
+  }
+}
@@ -0,0 +1,402 @@
+import { pcmToWavBuffer } from '../audio/AudioUtils'
+import { LiveProviderError } from './errors'
+import type {
+  LiveConnectOptions,
+  LiveModelMessage,
+  LiveModelProvider,
+  LiveModelSession,
+  LiveRealtimeInput,
+  TextGenerationOptions,
+} from './types'
+
+export const OPENAI_COMPATIBLE_DEFAULT_BASE_URL = 'http://localhost:11434/v1'
+export const OPENAI_COMPATIBLE_DEFAULT_MODEL = 'llama3.2'
+// Local servers often run with an 8k context, and the chat history needs room too
+export const OPENAI_COMPATIBLE_PROMPT_TOKEN_LIMIT = 6000
+
+interface OpenAICompatibleProviderOptions {
+  apiKey?: string
+  baseUrl?: string
+  model?: string
+  transcriptionModel?: string
+  vision?: boolean
+}
+
+type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } }
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string | ChatContentPart[]
+}
+
+// Audio arrives as 24 kHz s16le chunks of 100 ms, mono or with system audio left and
+// microphone audio right
+const SAMPLE_RATE = 24000
+const CHANNEL_LABELS = ['Other speaker', 'User']
+const SPEECH_RMS_THRESHOLD = 500
+const UTTERANCE_SILENCE_MS = 900
+const MAX_UTTERANCE_MS = 15000
+// Keep the request small enough for small local context windows
+const MAX_HISTORY_MESSAGES = 20
+// Latest context notes added to the system prompt; older ones are dropped
+const MAX_CONTEXT_MESSAGES = 3
+
+const getChannelCount = (mimeType: string): number => {
+  const match = /channels=(\d+)/.exec(mimeType)
+  return match ? Number(match[1]) : 1
+}
+
+const getChunkRms = (pcm: Buffer, channels = 1, channel = 0): number => {
+  const samples = Math.floor(pcm.length / 2 / channels)
+  if (samples === 0) return 0
+
+  let sumSquares = 0
+  for (let i = 0; i < samples; i++) {
+    const sample = pcm.readInt16LE((i * channels + channel) * 2)
+    sumSquares += sample * sample
+  }
+  return Math.sqrt(sumSquares / samples)
+}
+
+const extractChannel = (pcm: Buffer, channels: number, channel: number): Buffer => {
+  const samples = Math.floor(pcm.length / 2 / channels)
+  const mono = Buffer.alloc(samples * 2)
+  for (let i = 0; i < samples; i++) {
+    mono.writeInt16LE(pcm.readInt16LE((i * channels + channel) * 2), i * 2)
+  }
+  return mono
+}
+
+/**
+ * Adapts an OpenAI-compatible chat completions endpoint (OpenAI, llama.cpp server,
+ * Ollama, LM Studio, ...) to the live session interface. Audio is segmented into
+ * utterances on silence, transcribed via /audio/transcriptions and answered with a
+ * streamed /chat/completions request.
+ */
+export const createOpenAICompatibleProvider = ({
+  apiKey,
+  baseUrl = OPENAI_COMPATIBLE_DEFAULT_BASE_URL,
+  model = OPENAI_COMPATIBLE_DEFAULT_MODEL,
+  transcriptionModel,
+  vision = false,
+}: OpenAICompatibleProviderOptions): LiveModelProvider => {
+  const endpoint = baseUrl.replace(/\/+$/, '')
+
+  const getHeaders = (): Record<string, string> =>
+    apiKey ? { Authorization: `Bearer ${apiKey}` } : {}
+
+  const toHttpError = async (response: Response): Promise<LiveProviderError> => {
+    const body = await response.text().catch(() => '')
+    const retryAfter = Number(response.headers.get('retry-after'))
+    return new LiveProviderError(
+      `HTTP ${response.status}${body ? `: ${body.slice(0, 200)}` : ''}`,
+      {
+        status: response.status,
+        retryAfterMs: retryAfter > 0 ? retryAfter * 1000 : undefined,
+      }
+    )
+  }
+
+  const connect = async ({
+    systemPrompt,
+    language,
+    callbacks,
+  }: LiveConnectOptions): Promise<LiveModelSession> => {
+    // Fail fast when the endpoint is unreachable so session startup reports it
+    const probe = await fetch(`${endpoint}/models`, { headers: getHeaders() })
+    if (probe.status === 401 || probe.status === 403) {
+      throw await toHttpError(probe)
+    }
+
+    const history: ChatMessage[] = []
+    // Context is not a chat turn, so it is kept apart and never triggers a completion
+    let contextNotes: string[] = []
+    const abortController = new AbortController()
+    let closed = false
+    let pending: Promise<void> = Promise.resolve()
+    let latestImage: string | null = null
+    let utteranceChunks: Buffer[] = []
+    let utteranceMs = 0
+    let utteranceChannels = 1
+    // Channels that had speech in the current utterance, in the order they started
+    let speakingChannels: number[] = []
+    let heardSpeech = false
+    let silenceTimer: NodeJS.Timeout | null = null
+    let warnedNoTranscription = false
+
+    const emit = (message: LiveModelMessage): void => {
+      if (!closed) callbacks.onmessage(message)
+    }
+
+    const reportError = (error: unknown): void => {
+      if (closed || abortController.signal.aborted) return
+      const message = error instanceof Error ? error.message : String(error)
+      console.error('OpenAI-compatible provider error:', message)
+      callbacks.onerror?.({
+        message,
+        status: error instanceof LiveProviderError ? error.status : undefined,
+        retryAfterMs: error instanceof LiveProviderError ? error.retryAfterMs : undefined,
+      })
+    }
+
+    const enqueue = (task: () => Promise<void>): void => {
+      pending = pending.then(task).catch(reportError)
+    }
+
+    const streamCompletion = async (userText: string): Promise<void> => {
+      const content: ChatMessage['content'] =
+        vision && latestImage
+          ? [
+              { type: 'text', text: userText },
+              { type: 'image_url', image_url: { url: `data:image/jpeg;base64,${latestImage}` } },
+            ]
+          : userText
+      latestImage = null
+
+      history.push({ role: 'user', content })
+
+      const response = await fetch(`${endpoint}/chat/completions`, {
+        method: 'POST',
+        headers: { ...getHeaders(), 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model,
+          stream: true,
+          messages: [
+            { role: 'system', content: [systemPrompt, ...contextNotes].join('\n\n') },
+            ...history.slice(-MAX_HISTORY_MESSAGES),
+          ],
+        }),
+        signal: abortController.signal,
+      })
+
+      if (!response.ok || !response.body) {
+        throw await toHttpError(response)
+      }
+
+      let answer = ''
+      let lineBuffer = ''
+      const decoder = new TextDecoder()
+      const reader = response.body.getReader()
+
+      // Server-sent events: one `data: {...}` line per delta, terminated by `data: [DONE]`
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+
+        lineBuffer += decoder.decode(value, { stream: true })
+        const lines = lineBuffer.split('\n')
+        lineBuffer = lines.pop() ?? ''
+
+        for (const line of lines) {
+          const data = line.trim()
+          if (!data.startsWith('data:')) continue
+
+          const payload = data.slice(5).trim()
+          if (payload === '[DONE]') continue
+
+          try {
+            const delta = JSON.parse(payload).choices?.[0]?.delta?.content
+            if (typeof delta === 'string' && delta.length > 0) {
+              answer += delta
+              emit({ serverContent: { modelTurn: { parts: [{ text: delta }] } } })
+            }
+          } catch {
+            console.warn('Skipping malformed completion chunk:', payload)
+          }
+        }
+      }
+
+      history.push({ role: 'assistant', content: answer })
+      emit({ serverContent: { generationComplete: true } })
+      emit({ serverContent: { turnComplete: true } })
+    }
+
+    const transcribe = async (pcm: Buffer): Promise<string> => {
+      const form = new FormData()
+      const wav = new Uint8Array(pcmToWavBuffer(pcm, SAMPLE_RATE))
+      form.append('file', new Blob([wav], { type: 'audio/wav' }), 'utterance.wav')
+      form.append('model', transcriptionModel!)
+      form.append('language', language.split('-')[0])
+
+      const response = await fetch(`${endpoint}/audio/transcriptions`, {
+        method: 'POST',
+        headers: getHeaders(),
+        body: form,
+        signal: abortController.signal,
+      })
+
+      if (!response.ok) {
+        throw await toHttpError(response)
+      }
+
+      const result = (await response.json()) as { text?: string }
+      return (result.text || '').trim()
+    }
+
+    // Each speaking channel is transcribed on its own and labelled with its speaker
+    const transcribeChannels = async (
+      pcm: Buffer,
+      channels: number,
+      speaking: number[]
+    ): Promise<string> => {
+      const lines: string[] = []
+      for (const channel of speaking) {
+        const text = await transcribe(extractChannel(pcm, channels, channel))
+        if (text) lines.push(`${CHANNEL_LABELS[channel] ?? `Channel ${channel + 1}`}: ${text}`)
+      }
+      return lines.join('\n')
+    }
+
+    const flushUtterance = (): void => {
+      if (silenceTimer) {
+        clearTimeout(silenceTimer)
+        silenceTimer = null
+      }
+
+      const chunks = utteranceChunks
+      const hadSpeech = heardSpeech
+      const channels = utteranceChannels
+      const speaking = speakingChannels
+      utteranceChunks = []
+      utteranceMs = 0
+      speakingChannels = []
+      heardSpeech = false
+
+      if (!hadSpeech || chunks.length === 0) return
+
+      enqueue(async () => {
+        const pcm = Buffer.concat(chunks)
+        const text =
+          channels === 1 ? await transcribe(pcm) : await transcribeChannels(pcm, channels, speaking)
+        if (!text) return
+
+        emit({ serverContent: { inputTranscription: { text } } })
+        await streamCompletion(text)
+      })
+    }
+
+    const handleAudio = (data: string, mimeType: string): void => {
+      if (!transcriptionModel) {
+        if (!warnedNoTranscription) {
+          console.warn('No transcription model configured; ignoring audio input')
+          warnedNoTranscription = true
+        }
+        return
+      }
+
+      const channels = getChannelCount(mimeType)
+      if (channels !== utteranceChannels) {
+        flushUtterance()
+        utteranceChannels = channels
+      }
+
+      const pcm = Buffer.from(data, 'base64')
+      utteranceChunks.push(pcm)
+      utteranceMs += (pcm.length / 2 / channels / SAMPLE_RATE) * 1000
+
+      const loudChannels = Array.from({ length: channels }, (_, channel) => channel).filter(
+        channel => getChunkRms(pcm, channels, channel) >= SPEECH_RMS_THRESHOLD
+      )
+      if (loudChannels.length > 0) {
+        heardSpeech = true
+        for (const channel of loudChannels) {
+          if (!speakingChannels.includes(channel)) speakingChannels.push(channel)
+        }
+        if (silenceTimer) {
+          clearTimeout(silenceTimer)
+          silenceTimer = null
+        }
+      } else if (heardSpeech && !silenceTimer) {
+        silenceTimer = setTimeout(flushUtterance, UTTERANCE_SILENCE_MS)
+      }
+
+      if (utteranceMs >= MAX_UTTERANCE_MS) {
+        flushUtterance()
+      } else if (!heardSpeech) {
+        // Drop leading silence so utterances start near the speech onset
+        utteranceChunks = utteranceChunks.slice(-3)
+        utteranceMs = Math.min(utteranceMs, 300)
+      }
+    }
+
+    const sendRealtimeInput = (input: LiveRealtimeInput): void => {
+      if (closed) return
+
+      if (input.audio) {
+        handleAudio(input.audio.data, input.audio.mimeType)
+      }
+      if (input.media) {
+        latestImage = input.media.data
+      }
+      if (input.context) {
+        // A note sent again, such as a speaker marker, moves to the end instead of taking
+        // another place
+        const note = input.context
+        contextNotes = [...contextNotes.filter(existing => existing !== note), note].slice(
+          -MAX_CONTEXT_MESSAGES
+        )
+      }
+      if (input.text) {
+        const text = input.text
+        enqueue(() => streamCompletion(text))
+      }
+    }
+
+    const close = (): void => {
+      if (closed) return
+      closed = true
+      if (silenceTimer) {
+        clearTimeout(silenceTimer)
+        silenceTimer = null
+      }
+      abortController.abort()
+      callbacks.onclose?.({ reason: 'Client closed session' })
+    }
+
+    // Function tools are not offered to chat completions, so no calls need answers
+    const sendToolResponse = (): void => {}
+
+    callbacks.onopen?.()
+
+    return { sendRealtimeInput, sendToolResponse, close }
+  }
+
+  const generateText = async ({
+    systemPrompt,
+    prompt,
+    json = false,
+  }: TextGenerationOptions): Promise<string> => {
+    const response = await fetch(`${endpoint}/chat/completions`, {
+      method: 'POST',
+      headers: { ...getHeaders(), 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model,
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: prompt },
+        ],
+        ...(json ? { response_format: { type: 'json_object' } } : {}),
+      }),
+    })
+
+    if (!response.ok) {
+      throw await toHttpError(response)
+    }
+
+    const result = (await response.json()) as {
+      choices?: Array<{ message?: { content?: string } }>
+    }
+    return result.choices?.[0]?.message?.content ?? ''
+  }
+
+  return {
+    id: 'openai-compatible',
+    model,
+    textModel: model,
+    capabilities: { googleSearch: false, functionCalling: false, separateAudioChannels: true },
+    connect,
+    generateText,
+  }
+}
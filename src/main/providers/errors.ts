@@ -0,0 +1,155 @@
+import type { SessionError, SessionErrorCode } from '@shared/types'
+
+// Wait suggested for a quota error when the provider does not say how long
+const DEFAULT_QUOTA_RETRY_MS = 60000
+
+// WebSocket close codes (RFC 6455) that carry a meaning for classification
+const CLOSE_GOING_AWAY = 1001
+const CLOSE_PROTOCOL_ERROR = 1002
+const CLOSE_UNSUPPORTED_DATA = 1003
+const CLOSE_ABNORMAL = 1006
+const CLOSE_INVALID_PAYLOAD = 1007
+const CLOSE_POLICY_VIOLATION = 1008
+const CLOSE_MESSAGE_TOO_BIG = 1009
+
+/**
+ * Error thrown by a provider's connect or generateText when the failure carries more
+ * than a message, so it can be classified without guessing from the text.
+ */
+export class LiveProviderError extends Error {
+  readonly status?: number
+  readonly closeCode?: number
+  readonly retryAfterMs?: number
+
+  constructor(
+    message: string,
+    details: { status?: number; closeCode?: number; retryAfterMs?: number } = {}
+  ) {
+    super(message)
+    this.name = 'LiveProviderError'
+    this.status = details.status
+    this.closeCode = details.closeCode
+    this.retryAfterMs = details.retryAfterMs
+  }
+}
+
+export interface ProviderFailure {
+  message: string
+  status?: number // HTTP status of the failed request
+  closeCode?: number // WebSocket close code
+  retryAfterMs?: number // From a Retry-After header or the error body
+}
+
+// Provider error texts. Gemini reports gRPC status names in close reasons, and both
+// providers surface Node network error codes when the endpoint cannot be reached.
+const AUTH_PATTERN =
+  /api key not valid|invalid api key|api_key_invalid|unauthenticated|unauthorized|authentication failed|permission[ _]denied/i
+const QUOTA_PATTERN = /quota|resource[ _]exhausted|rate[ -]?limit|too many requests/i
+const MODEL_PATTERN =
+  /model\S*\s.*?(not found|not supported|does not exist|is not available)|not_found|unsupported model/i
+const OVERLOADED_PATTERN = /overloaded|unavailable|try again later/i
+const NETWORK_PATTERN =
+  /econnrefused|econnreset|enotfound|etimedout|eai_again|enetunreach|fetch failed|network|socket hang up|timed out/i
+const PROTOCOL_PATTERN = /invalid[ _]argument|malformed|unexpected message|precondition/i
+// A corrupt frame breaks only this connection, so unlike a rejected request it is retryable
+const FRAME_PATTERN = /invalid websocket frame|invalid (opcode|utf-8)/i
+
+// Gemini puts the wait in the reason ("retry in 32.5s") or in a RetryInfo body ("retryDelay": "32s")
+const RETRY_DELAY_PATTERN = /retry(?: in|Delay"?:\s*"?)\s*([\d.]+)\s*s/i
+
+const getRetryAfterMs = (failure: ProviderFailure): number => {
+  if (failure.retryAfterMs !== undefined) return failure.retryAfterMs
+
+  const match = RETRY_DELAY_PATTERN.exec(failure.message)
+  const seconds = match ? Number.parseFloat(match[1]) : Number.NaN
+  return Number.isFinite(seconds) ? Math.ceil(seconds * 1000) : DEFAULT_QUOTA_RETRY_MS
+}
+
+const USER_MESSAGES: Record<SessionErrorCode, string> = {
+  auth: 'Invalid API key',
+  quota: 'Quota exceeded',
+  network: 'Network connection lost',
+  'model-unavailable': 'Model unavailable',
+  protocol: 'Unexpected response from the model',
+  unknown: 'Live session error',
+}
+
+const toSessionError = (
+  code: SessionErrorCode,
+  retryable: boolean,
+  failure: ProviderFailure,
+  retryAt?: number
+): SessionError => ({
+  code,
+  retryable,
+  message: USER_MESSAGES[code],
+  detail: failure.message || undefined,
+  ...(retryAt !== undefined && { retryAt }),
+})
+
+// Maps a provider failure to an error class. Status and close codes win over the text,
+// which is only consulted for what the codes cannot tell apart.
+export const classifySessionError = (
+  failure: ProviderFailure,
+  now: number = Date.now()
+): SessionError => {
+  const { message, status, closeCode } = failure
+
+  if (status === 401 || status === 403 || AUTH_PATTERN.test(message)) {
+    return toSessionError('auth', false, failure)
+  }
+
+  if (status === 429 || QUOTA_PATTERN.test(message)) {
+    return toSessionError('quota', true, failure, now + getRetryAfterMs(failure))
+  }
+
+  if (status === 404 || MODEL_PATTERN.test(message)) {
+    return toSessionError('model-unavailable', false, failure)
+  }
+  if (status === 503 || OVERLOADED_PATTERN.test(message)) {
+    return toSessionError('model-unavailable', true, failure)
+  }
+
+  if (
+    closeCode === CLOSE_ABNORMAL ||
+    closeCode === CLOSE_GOING_AWAY ||
+    NETWORK_PATTERN.test(message)
+  ) {
+    return toSessionError('network', true, failure)
+  }
+
+  if (FRAME_PATTERN.test(message)) {
+    return toSessionError('protocol', true, failure)
+  }
+  if (
+    status === 400 ||
+    closeCode === CLOSE_PROTOCOL_ERROR ||
+    closeCode === CLOSE_UNSUPPORTED_DATA ||
+    closeCode === CLOSE_INVALID_PAYLOAD ||
+    closeCode === CLOSE_POLICY_VIOLATION ||
+    closeCode === CLOSE_MESSAGE_TOO_BIG ||
+    PROTOCOL_PATTERN.test(message)
+  ) {
+    return toSessionError('protocol', false, failure)
+  }
+
+  // Server errors and unexplained closes are worth another attempt
+  return toSessionError('unknown', true, failure)
+}
+
+export const toProviderFailure = (error: unknown): ProviderFailure => {
+  if (error instanceof LiveProviderError) {
+    return {
+      message: error.message,
+      status: error.status,
+      closeCode: error.closeCode,
+      retryAfterMs: error.retryAfterMs,
+    }
+  }
+  if (error instanceof Error) {
+    // fetch wraps the socket error ("fetch failed"); its cause has the code
+    const cause = error.cause instanceof Error ? `: ${error.cause.message}` : ''
+    return { message: `${error.message}${cause}` }
+  }
+  return { message: String(error) }
+}
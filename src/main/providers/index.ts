@@ -0,0 +1,48 @@
+import type { LiveProviderSettings } from '@shared/types'
+import { createGeminiLiveProvider, GEMINI_PROMPT_TOKEN_LIMIT } from './GeminiLiveProvider'
+import {
+  createOpenAICompatibleProvider,
+  OPENAI_COMPATIBLE_PROMPT_TOKEN_LIMIT,
+} from './OpenAICompatibleProvider'
+import type { LiveModelProvider } from './types'
+
+export const DEFAULT_PROVIDER_SETTINGS: LiveProviderSettings = { id: 'gemini' }
+
+export const createLiveModelProvider = (
+  apiKey: string,
+  settings: LiveProviderSettings = DEFAULT_PROVIDER_SETTINGS
+): LiveModelProvider => {
+  switch (settings.id) {
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider({
+        apiKey,
+        baseUrl: settings.baseUrl || undefined,
+        model: settings.model || undefined,
+        transcriptionModel: settings.transcriptionModel || undefined,
+        vision: settings.vision,
+      })
+    case 'gemini':
+    default:
+      return createGeminiLiveProvider({
+        apiKey,
+        model: settings.model || undefined,
+        baseUrl: settings.baseUrl || undefined,
+      })
+  }
+}
+
+// Estimated tokens the system prompt may use with this provider
+export const getPromptTokenLimit = (
+  settings: LiveProviderSettings = DEFAULT_PROVIDER_SETTINGS
+): number =>
+  settings.id === 'openai-compatible'
+    ? OPENAI_COMPATIBLE_PROMPT_TOKEN_LIMIT
+    : GEMINI_PROMPT_TOKEN_LIMIT
+
+export {
+  classifySessionError,
+  LiveProviderError,
+  type ProviderFailure,
+  toProviderFailure,
+} from './errors'
+export type * from './types'
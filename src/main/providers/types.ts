@@ -0,0 +1,85 @@
+import type { FunctionResponse, LiveServerMessage, Tool } from '@google/genai'
+import type { LiveProviderId } from '@shared/types'
+
+// Subset of the Gemini Live server message that every provider normalizes to
+export type LiveModelMessage = Pick<
+  LiveServerMessage,
+  | 'serverContent'
+  | 'sessionResumptionUpdate'
+  | 'goAway'
+  | 'usageMetadata'
+  | 'toolCall'
+  | 'toolCallCancellation'
+>
+
+export interface LiveProviderErrorEvent {
+  message: string
+  status?: number // HTTP status, for providers that talk HTTP
+  retryAfterMs?: number
+}
+
+export interface LiveProviderCloseEvent {
+  reason: string
+  code?: number // WebSocket close code
+}
+
+export interface LiveProviderCallbacks {
+  onopen?: () => void
+  onmessage: (message: LiveModelMessage) => void
+  onerror?: (e: LiveProviderErrorEvent) => void
+  onclose?: (e: LiveProviderCloseEvent) => void
+}
+
+export interface LiveMediaChunk {
+  data: string // base64
+  mimeType: string
+}
+
+export interface LiveRealtimeInput {
+  text?: string // A user turn, which the model answers
+  // Reference text for later answers, such as retrieved passages, speaker markers or the
+  // recap after a reconnect; not answered by itself
+  context?: string
+  audio?: LiveMediaChunk
+  media?: LiveMediaChunk
+}
+
+export interface LiveConnectOptions {
+  systemPrompt: string
+  language: string
+  tools: Tool[]
+  callbacks: LiveProviderCallbacks
+  // Resumes the server-side session state of an earlier connection
+  resumptionHandle?: string
+}
+
+export interface LiveModelSession {
+  sendRealtimeInput: (input: LiveRealtimeInput) => void
+  // Answers the function calls of a toolCall message, matched by id
+  sendToolResponse: (responses: FunctionResponse[]) => void
+  close: () => void
+}
+
+// One-shot request to the provider's (non-live) text model
+export interface TextGenerationOptions {
+  systemPrompt: string
+  prompt: string
+  json?: boolean // Ask for a JSON object instead of free text
+}
+
+export interface LiveProviderCapabilities {
+  googleSearch: boolean
+  functionCalling: boolean // Calls function tools through toolCall messages
+  // Takes stereo audio with system audio left and the microphone right, instead of a
+  // mono mix with speaker markers
+  separateAudioChannels: boolean
+}
+
+export interface LiveModelProvider {
+  id: LiveProviderId
+  model: string
+  textModel: string // Used by generateText
+  capabilities: LiveProviderCapabilities
+  connect: (options: LiveConnectOptions) => Promise<LiveModelSession>
+  generateText: (options: TextGenerationOptions) => Promise<string>
+}
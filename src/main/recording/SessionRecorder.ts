@@ -0,0 +1,474 @@
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from 'node:fs'
+import { homedir } from 'node:os'
+import { join } from 'node:path'
+import { measurePcm, SILENCE_THRESHOLD } from '@shared/audio'
+import type {
+  AudioSourceType,
+  IpcResult,
+  RecordingAudioSegment,
+  RecordingState,
+  SessionRecordingManifest,
+  TurnRecording,
+} from '@shared/types'
+import { BrowserWindow, ipcMain } from 'electron'
+import { pcmToWav, pcmToWavBuffer, toMono } from '../audio/AudioUtils'
+import { settingsStore } from '../settings/SettingsStore'
+
+const MANIFEST_VERSION = 1
+const MANIFEST_FILE = 'manifest.json'
+const WAV_HEADER_BYTES = 44
+// Live input audio: 24 kHz, 16-bit PCM
+const SAMPLE_RATE = 24000
+const SAMPLES_PER_MS = SAMPLE_RATE / 1000
+// A pause longer than this ends a segment; shorter ones are kept as silence
+const SEGMENT_GAP_MS = 1500
+// Segments are written out at this length at the latest
+const MAX_SEGMENT_MS = 60000
+// Pauses in a turn's playback are shortened to this
+const PLAYBACK_GAP_MS = 500
+const MAX_PLAYBACK_MS = 5 * 60000
+const MAX_TURN_IMAGES = 4
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Session ids are timestamps; anything else from the renderer is not a path we wrote
+const SESSION_ID_PATTERN = /^\d+$/
+
+interface OpenSegment {
+  info: RecordingAudioSegment
+  chunks: Buffer[]
+  lastSoundAt: number
+}
+
+export interface RecordedClip {
+  startTime: number
+  samples: Int16Array // Mono
+}
+
+interface StoredRecording {
+  sessionId: string
+  startedAt: number
+  bytes: number
+}
+
+const getDirectorySize = (dir: string): number => {
+  if (!existsSync(dir)) return 0
+  return readdirSync(dir).reduce((total, name) => total + statSync(join(dir, name)).size, 0)
+}
+
+/**
+ * Lays the clips of a time range out for playback: overlapping clips (both sources
+ * talking) are mixed, and the pauses between stretches of audio are shortened.
+ */
+export const mixTurnAudio = (
+  clips: RecordedClip[],
+  range: { start: number; end: number },
+  maxDurationMs = MAX_PLAYBACK_MS
+): Int16Array => {
+  const parts = clips
+    .map(clip => {
+      const clipEnd = clip.startTime + clip.samples.length / SAMPLES_PER_MS
+      const from = Math.max(clip.startTime, range.start)
+      const to = Math.min(clipEnd, range.end)
+      if (to <= from) return null
+      return {
+        startTime: from,
+        samples: clip.samples.subarray(
+          Math.round((from - clip.startTime) * SAMPLES_PER_MS),
+          Math.round((to - clip.startTime) * SAMPLES_PER_MS)
+        ),
+      }
+    })
+    .filter(part => part !== null)
+    .sort((a, b) => a.startTime - b.startTime)
+
+  // Stretches of continuous audio and where each starts in the output
+  const stretches: Array<{ start: number; end: number; offset: number }> = []
+  const partStretches: number[] = []
+  for (const part of parts) {
+    const end = part.startTime + part.samples.length / SAMPLES_PER_MS
+    const last = stretches.at(-1)
+    if (last && part.startTime <= last.end) {
+      last.end = Math.max(last.end, end)
+      partStretches.push(stretches.length - 1)
+      continue
+    }
+    partStretches.push(stretches.length)
+    const offset = last
+      ? last.offset + (last.end - last.start) + Math.min(PLAYBACK_GAP_MS, part.startTime - last.end)
+      : 0
+    stretches.push({ start: part.startTime, end, offset })
+  }
+
+  const last = stretches.at(-1)
+  if (!last) return new Int16Array(0)
+  const durationMs = Math.min(maxDurationMs, last.offset + (last.end - last.start))
+  const output = new Int16Array(Math.round(durationMs * SAMPLES_PER_MS))
+
+  for (const [index, part] of parts.entries()) {
+    const stretch = stretches[partStretches[index]]
+    const position = Math.round((stretch.offset + part.startTime - stretch.start) * SAMPLES_PER_MS)
+    for (let i = 0; i < part.samples.length && position + i < output.length; i++) {
+      output[position + i] = Math.max(
+        -32768,
+        Math.min(32767, output[position + i] + part.samples[i])
+      )
+    }
+  }
+  return output
+}
+
+/**
+ * Opt-in recording of live sessions: each source's audio as WAV segments split at
+ * pauses, the screenshots that were sent, and a manifest linking both to the
+ * conversation turns. Recordings older or larger than the retention limits are pruned.
+ */
+export const createSessionRecorder = (dataDir: string) => {
+  let manifest: SessionRecordingManifest | null = null
+  let openSegments: Partial<Record<AudioSourceType, OpenSegment>> = {}
+  const listeners = new Set<(state: RecordingState) => void>()
+
+  const getAudioDir = (sessionId: string): string => join(dataDir, 'audio', sessionId)
+  const getImageDir = (sessionId: string): string => join(dataDir, 'image', sessionId)
+
+  const getState = (): RecordingState => ({
+    recording: manifest !== null,
+    sessionId: manifest?.sessionId ?? null,
+  })
+
+  const notify = (): void => {
+    const state = getState()
+    listeners.forEach(listener => listener(state))
+  }
+
+  const saveManifest = (): void => {
+    if (!manifest) return
+    const filePath = join(getAudioDir(manifest.sessionId), MANIFEST_FILE)
+    try {
+      const tempPath = `${filePath}.tmp`
+      writeFileSync(tempPath, JSON.stringify(manifest))
+      renameSync(tempPath, filePath)
+    } catch (error) {
+      console.error('Error writing recording manifest:', error)
+    }
+  }
+
+  const readManifest = (sessionId: string): SessionRecordingManifest | null => {
+    if (manifest?.sessionId === sessionId) return manifest
+
+    const filePath = join(getAudioDir(sessionId), MANIFEST_FILE)
+    if (!existsSync(filePath)) return null
+    try {
+      return JSON.parse(readFileSync(filePath, 'utf8')) as SessionRecordingManifest
+    } catch (error) {
+      console.error('Error reading recording manifest:', error)
+      return null
+    }
+  }
+
+  const closeSegment = (source: AudioSourceType): void => {
+    const segment = openSegments[source]
+    if (!segment || !manifest) return
+    delete openSegments[source]
+
+    try {
+      pcmToWav(
+        Buffer.concat(segment.chunks),
+        join(getAudioDir(manifest.sessionId), segment.info.file),
+        segment.info.sampleRate,
+        segment.info.channels
+      )
+    } catch (error) {
+      console.error('Error writing recorded audio:', error)
+    }
+    saveManifest()
+  }
+
+  const start = (sessionId: string): void => {
+    if (manifest?.sessionId === sessionId) return
+    stop()
+
+    mkdirSync(getAudioDir(sessionId), { recursive: true })
+    manifest = readManifest(sessionId) ?? {
+      version: MANIFEST_VERSION,
+      sessionId,
+      startedAt: Date.now(),
+      endedAt: null,
+      audio: [],
+      images: [],
+      turns: [],
+    }
+    manifest.endedAt = null
+    saveManifest()
+    console.log('Recording session', sessionId)
+    notify()
+  }
+
+  const stop = (): void => {
+    if (!manifest) return
+
+    for (const source of Object.keys(openSegments) as AudioSourceType[]) {
+      closeSegment(source)
+    }
+    manifest.endedAt = Date.now()
+    saveManifest()
+    console.log('Stopped recording session', manifest.sessionId)
+    manifest = null
+    openSegments = {}
+    notify()
+    prune()
+  }
+
+  // Silence only extends a segment that is already open; a long pause closes it
+  const pushAudio = (
+    source: AudioSourceType,
+    pcm: Buffer,
+    { channels = 1, capturedAt = Date.now() }: { channels?: number; capturedAt?: number } = {}
+  ): void => {
+    if (!manifest || pcm.length === 0) return
+
+    const durationMs = pcm.length / (2 * channels) / SAMPLES_PER_MS
+    const startTime = capturedAt - durationMs
+    const silent = measurePcm(toMono(pcm, channels)).rmsValue < SILENCE_THRESHOLD
+
+    let segment = openSegments[source]
+    if (
+      segment &&
+      (capturedAt - segment.lastSoundAt > SEGMENT_GAP_MS ||
+        segment.info.endTime - segment.info.startTime >= MAX_SEGMENT_MS ||
+        segment.info.channels !== channels)
+    ) {
+      closeSegment(source)
+      segment = undefined
+    }
+
+    if (!segment) {
+      if (silent) return
+      const info: RecordingAudioSegment = {
+        source,
+        file: `${source}-${Math.round(startTime)}.wav`,
+        startTime,
+        endTime: startTime,
+        sampleRate: SAMPLE_RATE,
+        channels,
+      }
+      segment = { info, chunks: [], lastSoundAt: capturedAt }
+      openSegments[source] = segment
+      manifest.audio.push(info)
+    }
+
+    // A short pause in gated audio is kept as silence so the segment stays in real time
+    const gap = Math.round((startTime - segment.info.endTime) * SAMPLES_PER_MS)
+    if (gap > 0) segment.chunks.push(Buffer.alloc(gap * 2 * channels))
+
+    segment.chunks.push(Buffer.from(pcm))
+    segment.info.endTime = Math.max(segment.info.endTime, startTime) + durationMs
+    if (!silent) segment.lastSoundAt = capturedAt
+  }
+
+  const addImage = (jpeg: Buffer, width: number, height: number, timestamp = Date.now()): void => {
+    if (!manifest) return
+
+    const file = `${timestamp}.jpg`
+    try {
+      const dir = getImageDir(manifest.sessionId)
+      mkdirSync(dir, { recursive: true })
+      writeFileSync(join(dir, file), jpeg)
+      manifest.images.push({ file, timestamp, width, height })
+    } catch (error) {
+      console.error('Error writing recorded screenshot:', error)
+    }
+  }
+
+  // Links the audio and screenshots since the previous turn to this one
+  const addTurn = (timestamp: number): void => {
+    if (!manifest) return
+
+    const startTime = manifest.turns.at(-1)?.timestamp ?? manifest.startedAt
+    manifest.turns.push({
+      timestamp,
+      startTime,
+      audio: manifest.audio
+        .filter(segment => segment.startTime < timestamp && segment.endTime > startTime)
+        .map(segment => segment.file),
+      images: manifest.images
+        .filter(image => image.timestamp >= startTime && image.timestamp <= timestamp)
+        .map(image => image.file),
+    })
+    saveManifest()
+  }
+
+  const readClip = (sessionId: string, segment: RecordingAudioSegment): RecordedClip | null => {
+    const filePath = join(getAudioDir(sessionId), segment.file)
+    if (!existsSync(filePath)) return null // Still being recorded
+    const pcm = readFileSync(filePath).subarray(WAV_HEADER_BYTES)
+    return { startTime: segment.startTime, samples: toMono(pcm, segment.channels) }
+  }
+
+  const getTurnRecording = (sessionId: string, timestamp: number): TurnRecording | null => {
+    if (!SESSION_ID_PATTERN.test(sessionId)) return null
+    const recording = readManifest(sessionId)
+    const turn = recording?.turns.find(candidate => candidate.timestamp === timestamp)
+    if (!recording || !turn) return null
+
+    const clips = recording.audio
+      .filter(segment => turn.audio.includes(segment.file))
+      .map(segment => readClip(sessionId, segment))
+      .filter(clip => clip !== null)
+    const samples = mixTurnAudio(clips, { start: turn.startTime, end: turn.timestamp })
+    const pcm = Buffer.from(samples.buffer, samples.byteOffset, samples.byteLength)
+
+    const images = recording.images
+      .filter(image => turn.images.includes(image.file))
+      .slice(-MAX_TURN_IMAGES)
+      .flatMap(image => {
+        const filePath = join(getImageDir(sessionId), image.file)
+        if (!existsSync(filePath)) return []
+        return [{ timestamp: image.timestamp, data: readFileSync(filePath).toString('base64') }]
+      })
+
+    return {
+      audio: samples.length > 0 ? pcmToWavBuffer(pcm, SAMPLE_RATE).toString('base64') : null,
+      durationMs: samples.length / SAMPLES_PER_MS,
+      images,
+    }
+  }
+
+  const listRecordings = (): StoredRecording[] => {
+    const audioRoot = join(dataDir, 'audio')
+    if (!existsSync(audioRoot)) return []
+
+    return readdirSync(audioRoot)
+      .filter(sessionId => SESSION_ID_PATTERN.test(sessionId))
+      .flatMap(sessionId => {
+        const stored = readManifest(sessionId)
+        if (!stored) return []
+        return [
+          {
+            sessionId,
+            startedAt: stored.startedAt,
+            bytes:
+              getDirectorySize(getAudioDir(sessionId)) + getDirectorySize(getImageDir(sessionId)),
+          },
+        ]
+      })
+  }
+
+  const deleteRecording = (sessionId: string): void => {
+    rmSync(getAudioDir(sessionId), { recursive: true, force: true })
+    rmSync(getImageDir(sessionId), { recursive: true, force: true })
+  }
+
+  // Deletes recordings past the retention age, then the oldest until under the size cap
+  const prune = (now: number = Date.now()): string[] => {
+    const cutoff = now - settingsStore.get('recordingRetentionDays') * DAY_MS
+    const maxBytes = settingsStore.get('recordingMaxStorageMb') * 1024 * 1024
+    const deleted: string[] = []
+
+    try {
+      const recordings = listRecordings()
+        .filter(recording => recording.sessionId !== manifest?.sessionId)
+        .sort((a, b) => a.startedAt - b.startedAt)
+      let totalBytes = recordings.reduce((total, recording) => total + recording.bytes, 0)
+
+      for (const recording of recordings) {
+        if (recording.startedAt >= cutoff && totalBytes <= maxBytes) continue
+        deleteRecording(recording.sessionId)
+        totalBytes -= recording.bytes
+        deleted.push(recording.sessionId)
+      }
+    } catch (error) {
+      console.error('Error pruning recordings:', error)
+    }
+
+    if (deleted.length > 0) console.log(`Deleted ${deleted.length} old recording(s)`)
+    return deleted
+  }
+
+  // Every recording except the one in progress
+  const clear = (): void => {
+    for (const { sessionId } of listRecordings()) {
+      if (sessionId !== manifest?.sessionId) deleteRecording(sessionId)
+    }
+  }
+
+  const onChange = (listener: (state: RecordingState) => void): (() => void) => {
+    listeners.add(listener)
+    return () => listeners.delete(listener)
+  }
+
+  const setupIpcHandlers = (): void => {
+    onChange(state => {
+      BrowserWindow.getAllWindows().forEach(window => {
+        if (!window.isDestroyed()) window.webContents.send('recording-state', state)
+      })
+    })
+    settingsStore.onChange(({ key, value }) => {
+      // Turning recording off also ends the recording in progress
+      if (key === 'recordSessions' && !value) stop()
+      if (key === 'recordingRetentionDays' || key === 'recordingMaxStorageMb') prune()
+    })
+
+    ipcMain.handle('get-recording-state', async (): Promise<IpcResult<RecordingState>> => {
+      return { success: true, data: getState() }
+    })
+
+    ipcMain.handle('list-session-recordings', async (): Promise<IpcResult<string[]>> => {
+      try {
+        return { success: true, data: listRecordings().map(recording => recording.sessionId) }
+      } catch (error) {
+        console.error('Error listing recordings:', error)
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+      }
+    })
+
+    ipcMain.handle(
+      'get-turn-recording',
+      async (_, sessionId: string, timestamp: number): Promise<IpcResult<TurnRecording | null>> => {
+        try {
+          return { success: true, data: getTurnRecording(sessionId, timestamp) }
+        } catch (error) {
+          console.error('Error reading recording:', error)
+          return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+        }
+      }
+    )
+
+    ipcMain.handle('clear-recordings', async (): Promise<IpcResult> => {
+      try {
+        clear()
+        return { success: true }
+      } catch (error) {
+        console.error('Error deleting recordings:', error)
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+      }
+    })
+  }
+
+  return {
+    start,
+    stop,
+    pushAudio,
+    addImage,
+    addTurn,
+    getState,
+    getTurnRecording,
+    prune,
+    clear,
+    onChange,
+    setupIpcHandlers,
+  }
+}
+
+// The audio and image folders are created by WindowManager.ensureDataDirectories
+export const sessionRecorder = createSessionRecorder(join(homedir(), 'cheddar', 'data'))
+
+export type SessionRecorder = ReturnType<typeof createSessionRecorder>
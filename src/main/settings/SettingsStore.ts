@@ -0,0 +1,396 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs'
+import { dirname, join } from 'node:path'
+import { VARIABLE_NAME_PATTERN } from '@shared/promptTemplate'
+import { DEFAULT_SETTINGS, SETTING_KEYS } from '@shared/settings'
+import type {
+  AppSettings,
+  IpcResult,
+  KeybindConfig,
+  LiveProviderSettings,
+  ModelPrice,
+  SettingChange,
+  SettingKey,
+} from '@shared/types'
+import { app, BrowserWindow, ipcMain } from 'electron'
+
+// Bump when the file layout changes and add a migration in parseSettingsFile
+const SETTINGS_FILE_VERSION = 1
+
+interface SettingsFile {
+  version: number
+  // Set once the renderer's legacy localStorage values have been imported
+  migratedLocalStorage: boolean
+  values: Partial<AppSettings>
+}
+
+type SettingValidators = { [K in SettingKey]: (value: unknown) => value is AppSettings[K] }
+
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean'
+
+const isString = (value: unknown): value is string => typeof value === 'string'
+
+const isNumberBetween =
+  (min: number, max: number) =>
+  (value: unknown): value is number =>
+    typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isKeybindConfig = (value: unknown): value is KeybindConfig | null =>
+  value === null || (isRecord(value) && Object.values(value).every(isString))
+
+const isProviderSettings = (value: unknown): value is LiveProviderSettings =>
+  isRecord(value) &&
+  (value.id === 'gemini' || value.id === 'openai-compatible') &&
+  ['model', 'baseUrl', 'transcriptionModel'].every(
+    key => value[key] === undefined || isString(value[key])
+  ) &&
+  (value.vision === undefined || isBoolean(value.vision))
+
+const isModelPrices = (value: unknown): value is Record<string, ModelPrice> =>
+  isRecord(value) &&
+  Object.values(value).every(
+    price =>
+      isRecord(price) &&
+      ['inputText', 'inputAudio', 'inputImage', 'output'].every(key =>
+        isNumberBetween(0, Number.MAX_SAFE_INTEGER)(price[key])
+      )
+  )
+
+const isBudgetPeriod = (value: unknown): value is AppSettings['usageBudgetPeriod'] =>
+  value === 'daily' || value === 'monthly'
+
+const isVoiceActivitySensitivity = (
+  value: unknown
+): value is AppSettings['voiceActivitySensitivity'] =>
+  value === 'off' || value === 'low' || value === 'medium' || value === 'high'
+
+const isAudioDeviceSelection = (value: unknown): value is AppSettings['microphoneDevice'] =>
+  value === null || (isRecord(value) && isString(value.deviceId) && isString(value.label))
+
+const isLocalTranscriptionSettings = (value: unknown): value is AppSettings['localTranscription'] =>
+  isRecord(value) &&
+  (value.mode === 'off' || value.mode === 'alongside' || value.mode === 'only') &&
+  (value.engine === 'whisper-server' || value.engine === 'whisper-cli') &&
+  isString(value.binaryPath) &&
+  isString(value.modelPath) &&
+  Number.isInteger(value.threads) &&
+  isNumberBetween(1, 64)(value.threads)
+
+const PROMPT_PART_KEYS = [
+  'intro',
+  'formatRequirements',
+  'searchUsage',
+  'content',
+  'outputInstructions',
+] as const
+
+const isCustomProfiles = (value: unknown): value is AppSettings['customProfiles'] =>
+  Array.isArray(value) &&
+  value.every(
+    profile =>
+      isRecord(profile) &&
+      isString(profile.id) &&
+      profile.id.startsWith('custom-') &&
+      isString(profile.name) &&
+      PROMPT_PART_KEYS.every(key => isString(profile[key]))
+  ) &&
+  new Set(value.map(profile => profile.id)).size === value.length
+
+const isPromptVariables = (value: unknown): value is AppSettings['promptVariables'] =>
+  isRecord(value) &&
+  Object.entries(value).every(([name, text]) => VARIABLE_NAME_PATTERN.test(name) && isString(text))
+
+const isContextDocuments = (value: unknown): value is AppSettings['contextDocuments'] =>
+  Array.isArray(value) &&
+  value.every(
+    document =>
+      isRecord(document) &&
+      isString(document.id) &&
+      isString(document.name) &&
+      (document.format === 'pdf' || document.format === 'markdown' || document.format === 'text') &&
+      isNumberBetween(0, Number.MAX_SAFE_INTEGER)(document.tokens) &&
+      isBoolean(document.enabled) &&
+      isNumberBetween(0, Number.MAX_SAFE_INTEGER)(document.addedAt)
+  ) &&
+  new Set(value.map(document => document.id)).size === value.length
+
+const isKnowledgeBaseSettings = (value: unknown): value is AppSettings['knowledgeBase'] =>
+  isRecord(value) &&
+  isBoolean(value.enabled) &&
+  isString(value.folder) &&
+  Number.isInteger(value.passages) &&
+  isNumberBetween(1, 10)(value.passages) &&
+  isString(value.embeddingsBaseUrl) &&
+  isString(value.embeddingsModel)
+
+const isToolToggles = (value: unknown): value is AppSettings['enabledTools'] =>
+  isRecord(value) && Object.values(value).every(isBoolean)
+
+const isMcpServers = (value: unknown): value is AppSettings['mcpServers'] =>
+  Array.isArray(value) &&
+  value.every(
+    server =>
+      isRecord(server) &&
+      isString(server.id) &&
+      isString(server.name) &&
+      isString(server.command) &&
+      Array.isArray(server.args) &&
+      server.args.every(isString) &&
+      isRecord(server.env) &&
+      Object.values(server.env).every(isString) &&
+      isBoolean(server.enabled)
+  ) &&
+  new Set(value.map(server => server.id)).size === value.length
+
+const validators: SettingValidators = {
+  customPrompt: isString,
+  googleSearchEnabled: isBoolean,
+  contentProtection: isBoolean,
+  customKeybinds: isKeybindConfig,
+  modelProvider: isProviderSettings,
+  fontSize: isNumberBetween(8, 48),
+  backgroundTransparency: isNumberBetween(0, 1),
+  throttleTokens: isBoolean,
+  maxTokensPerMin: isNumberBetween(1, Number.MAX_SAFE_INTEGER),
+  throttleAtPercent: isNumberBetween(1, 100),
+  onboardingCompleted: isBoolean,
+  reconnectMaxAttempts: isNumberBetween(0, 20),
+  modelPrices: isModelPrices,
+  usageBudgetUsd: isNumberBetween(0, Number.MAX_SAFE_INTEGER),
+  usageBudgetPeriod: isBudgetPeriod,
+  voiceActivitySensitivity: isVoiceActivitySensitivity,
+  microphoneDevice: isAudioDeviceSelection,
+  systemAudioDevice: isAudioDeviceSelection,
+  recordSessions: isBoolean,
+  recordingRetentionDays: isNumberBetween(1, 365),
+  recordingMaxStorageMb: isNumberBetween(100, 1_000_000),
+  localTranscription: isLocalTranscriptionSettings,
+  customProfiles: isCustomProfiles,
+  promptVariables: isPromptVariables,
+  contextDocuments: isContextDocuments,
+  contextTokenBudget: isNumberBetween(0, 1_000_000),
+  knowledgeBase: isKnowledgeBaseSettings,
+  enabledTools: isToolToggles,
+  mcpServers: isMcpServers,
+}
+
+export const isSettingKey = (key: unknown): key is SettingKey =>
+  isString(key) && Object.hasOwn(validators, key)
+
+export const isValidSetting = <K extends SettingKey>(
+  key: K,
+  value: unknown
+): value is AppSettings[K] => validators[key](value)
+
+// Invalid or unknown values fall back to their defaults instead of failing the whole file
+const sanitizeValues = (values: unknown): AppSettings => {
+  const settings = { ...DEFAULT_SETTINGS }
+  if (!isRecord(values)) return settings
+
+  for (const key of SETTING_KEYS) {
+    if (!(key in values)) continue
+    if (isValidSetting(key, values[key])) {
+      ;(settings as Record<SettingKey, unknown>)[key] = values[key]
+    } else {
+      console.warn(`Ignoring invalid stored value for setting "${key}"`)
+    }
+  }
+  return settings
+}
+
+// Keys the renderer wrote with localStorage.setItem directly rather than as JSON
+const RAW_LEGACY_KEYS: ReadonlySet<SettingKey> = new Set(['customPrompt'])
+
+const parseLegacyValue = <K extends SettingKey>(
+  key: K,
+  raw: string
+): AppSettings[K] | undefined => {
+  let value: unknown = raw
+  if (!RAW_LEGACY_KEYS.has(key)) {
+    try {
+      value = JSON.parse(raw)
+    } catch {
+      return undefined
+    }
+  }
+  return isValidSetting(key, value) ? value : undefined
+}
+
+type SettingsListener = (change: SettingChange) => void
+
+/**
+ * Typed, validated settings persisted as JSON by the main process. Writes go to a
+ * temporary file first so a crash mid-write cannot corrupt the settings.
+ */
+export const createSettingsStore = (filePath: string) => {
+  let values: AppSettings = { ...DEFAULT_SETTINGS }
+  let migratedLocalStorage = false
+  const listeners = new Set<SettingsListener>()
+
+  const load = (): void => {
+    if (!existsSync(filePath)) return
+
+    try {
+      const file = JSON.parse(readFileSync(filePath, 'utf8')) as Partial<SettingsFile>
+      if (typeof file.version === 'number' && file.version > SETTINGS_FILE_VERSION) {
+        console.warn(`Settings file version ${file.version} is newer than supported`)
+      }
+      values = sanitizeValues(file.values)
+      migratedLocalStorage = file.migratedLocalStorage === true
+    } catch (error) {
+      console.error('Error reading settings file, using defaults:', error)
+    }
+  }
+
+  const save = (): void => {
+    const file: SettingsFile = {
+      version: SETTINGS_FILE_VERSION,
+      migratedLocalStorage,
+      values,
+    }
+    mkdirSync(dirname(filePath), { recursive: true })
+    const tempPath = `${filePath}.tmp`
+    writeFileSync(tempPath, JSON.stringify(file, null, 2), 'utf8')
+    renameSync(tempPath, filePath)
+  }
+
+  const notify = (change: SettingChange): void => {
+    listeners.forEach(listener => {
+      try {
+        listener(change)
+      } catch (error) {
+        console.error('Error in settings listener:', error)
+      }
+    })
+  }
+
+  const get = <K extends SettingKey>(key: K): AppSettings[K] => values[key]
+
+  const getAll = (): AppSettings => ({ ...values })
+
+  const set = <K extends SettingKey>(key: K, value: AppSettings[K]): void => {
+    if (!isValidSetting(key, value)) {
+      throw new Error(`Invalid value for setting "${key}"`)
+    }
+    if (JSON.stringify(values[key]) === JSON.stringify(value)) return
+
+    values = { ...values, [key]: value }
+    save()
+    notify({ key, value })
+  }
+
+  const reset = (): void => {
+    const previous = values
+    values = { ...DEFAULT_SETTINGS }
+    save()
+
+    for (const key of SETTING_KEYS) {
+      if (JSON.stringify(previous[key]) !== JSON.stringify(values[key])) {
+        notify({ key, value: values[key] })
+      }
+    }
+  }
+
+  const onChange = (listener: SettingsListener): (() => void) => {
+    listeners.add(listener)
+    return () => listeners.delete(listener)
+  }
+
+  /**
+   * Imports values from the renderer's localStorage (raw strings by key). Runs once;
+   * later calls are ignored so stale leftovers cannot overwrite newer settings.
+   */
+  const migrateFromLocalStorage = (legacy: Record<string, string>): SettingKey[] => {
+    if (migratedLocalStorage) return []
+
+    const migrated: SettingKey[] = []
+    for (const key of SETTING_KEYS) {
+      const raw = legacy[key]
+      if (typeof raw !== 'string') continue
+
+      const value = parseLegacyValue(key, raw)
+      if (value === undefined) {
+        console.warn(`Skipping invalid localStorage value for setting "${key}"`)
+        continue
+      }
+      values = { ...values, [key]: value }
+      migrated.push(key)
+    }
+
+    migratedLocalStorage = true
+    save()
+    migrated.forEach(key => notify({ key, value: values[key] }))
+    console.log(`Migrated ${migrated.length} settings from localStorage`)
+    return migrated
+  }
+
+  const setupIpcHandlers = (): void => {
+    // Keep every window in sync, including changes made by the main process itself
+    onChange(change => {
+      BrowserWindow.getAllWindows().forEach(window => {
+        if (!window.isDestroyed()) window.webContents.send('settings-changed', change)
+      })
+    })
+
+    ipcMain.handle('get-setting', async (_, key: unknown): Promise<IpcResult> => {
+      if (!isSettingKey(key)) return { success: false, error: `Unknown setting "${key}"` }
+      return { success: true, data: get(key) }
+    })
+
+    ipcMain.handle('get-all-settings', async (): Promise<IpcResult<AppSettings>> => {
+      return { success: true, data: getAll() }
+    })
+
+    ipcMain.handle('set-setting', async (_, key: unknown, value: unknown): Promise<IpcResult> => {
+      try {
+        if (!isSettingKey(key)) throw new Error(`Unknown setting "${key}"`)
+        set(key, value as AppSettings[typeof key])
+        return { success: true }
+      } catch (error) {
+        console.error('Error saving setting:', error)
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+      }
+    })
+
+    ipcMain.handle('reset-settings', async (): Promise<IpcResult> => {
+      try {
+        reset()
+        return { success: true }
+      } catch (error) {
+        console.error('Error resetting settings:', error)
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+      }
+    })
+
+    ipcMain.handle(
+      'migrate-local-storage-settings',
+      async (_, legacy: Record<string, string>): Promise<IpcResult<{ migrated: SettingKey[] }>> => {
+        try {
+          return { success: true, data: { migrated: migrateFromLocalStorage(legacy) } }
+        } catch (error) {
+          console.error('Error migrating localStorage settings:', error)
+          return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+        }
+      }
+    )
+  }
+
+  // Constructor logic
+  load()
+
+  return {
+    get,
+    getAll,
+    set,
+    reset,
+    onChange,
+    migrateFromLocalStorage,
+    setupIpcHandlers,
+  }
+}
+
+export const settingsStore = createSettingsStore(join(app.getPath('userData'), 'settings.json'))
+
+export type SettingsStore = ReturnType<typeof createSettingsStore>
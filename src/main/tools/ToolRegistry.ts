@@ -0,0 +1,132 @@
+import type { FunctionDeclaration } from '@google/genai'
+import type { IpcResult, SessionActionItem, ToolInfo } from '@shared/types'
+import { ipcMain } from 'electron'
+import { settingsStore } from '../settings/SettingsStore'
+import { BUILTIN_TOOLS } from './builtinTools'
+
+// A slow tool must not leave the model waiting for the rest of the turn
+const TOOL_TIMEOUT_MS = 30000
+// Length of a result shown in the overlay
+const SUMMARY_LENGTH = 120
+
+// What the session offers to tools while they run
+export interface ToolContext {
+  addActionItem: (item: SessionActionItem) => void
+}
+
+export interface ToolDefinition {
+  declaration: FunctionDeclaration & { name: string }
+  title: string
+  enabledByDefault: boolean
+  // Tools that need setup first (a notes folder, a server) are not offered until then
+  isAvailable?: () => boolean
+  execute: (args: Record<string, unknown>, context: ToolContext) => unknown
+}
+
+export interface ToolResult {
+  output?: unknown
+  error?: string
+}
+
+// Short text for the overlay, e.g. `{"result":42}` or the error
+export const describeToolResult = ({ output, error }: ToolResult): string => {
+  const text = error ?? (typeof output === 'string' ? output : (JSON.stringify(output) ?? 'Done'))
+  return text.length > SUMMARY_LENGTH ? `${text.slice(0, SUMMARY_LENGTH - 1)}…` : text
+}
+
+/**
+ * Function tools offered to the live model. Each tool has a JSON schema declaration,
+ * an executor, and an enable flag kept in settings (enabledTools) over its default.
+ */
+export const createToolRegistry = () => {
+  const tools = new Map<string, ToolDefinition>()
+
+  const register = (tool: ToolDefinition): void => {
+    if (tools.has(tool.declaration.name)) {
+      throw new Error(`A tool named ${tool.declaration.name} is already registered`)
+    }
+    tools.set(tool.declaration.name, tool)
+  }
+
+  const unregister = (name: string): void => {
+    tools.delete(name)
+  }
+
+  const isEnabled = (tool: ToolDefinition): boolean =>
+    settingsStore.get('enabledTools')[tool.declaration.name] ?? tool.enabledByDefault
+
+  const isAvailable = (tool: ToolDefinition): boolean => tool.isAvailable?.() ?? true
+
+  const getTitle = (name: string): string => tools.get(name)?.title ?? name
+
+  // Declarations for the session setup: enabled tools that are ready to use
+  const getFunctionDeclarations = (): FunctionDeclaration[] =>
+    [...tools.values()]
+      .filter(tool => isEnabled(tool) && isAvailable(tool))
+      .map(tool => tool.declaration)
+
+  const list = (): ToolInfo[] =>
+    [...tools.values()].map(tool => ({
+      name: tool.declaration.name,
+      title: tool.title,
+      description: tool.declaration.description ?? '',
+      enabled: isEnabled(tool),
+      available: isAvailable(tool),
+    }))
+
+  // Errors are returned rather than thrown, so the model is told what went wrong
+  const execute = async (
+    name: string,
+    args: Record<string, unknown>,
+    context: ToolContext
+  ): Promise<ToolResult> => {
+    const tool = tools.get(name)
+    if (!tool || !isEnabled(tool)) return { error: `No tool named ${name} is enabled` }
+
+    let timer: NodeJS.Timeout | undefined
+    try {
+      const output = await Promise.race([
+        Promise.resolve().then(() => tool.execute(args, context)),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(
+            () =>
+              reject(new Error(`${tool.title} did not finish within ${TOOL_TIMEOUT_MS / 1000}s`)),
+            TOOL_TIMEOUT_MS
+          )
+        }),
+      ])
+      return { output }
+    } catch (error) {
+      console.error(`Error running tool ${name}:`, error)
+      return { error: error instanceof Error ? error.message : String(error) }
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  const setupIpcHandlers = (): void => {
+    ipcMain.handle('list-tools', async (): Promise<IpcResult<ToolInfo[]>> => {
+      try {
+        return { success: true, data: list() }
+      } catch (error) {
+        console.error('Error listing tools:', error)
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+      }
+    })
+  }
+
+  return {
+    register,
+    unregister,
+    getTitle,
+    getFunctionDeclarations,
+    list,
+    execute,
+    setupIpcHandlers,
+  }
+}
+
+export const toolRegistry = createToolRegistry()
+BUILTIN_TOOLS.forEach(toolRegistry.register)
+
+export type ToolRegistry = ReturnType<typeof createToolRegistry>
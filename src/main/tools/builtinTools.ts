@@ -0,0 +1,118 @@
+import { knowledgeBase } from '../knowledge/KnowledgeBase'
+import { settingsStore } from '../settings/SettingsStore'
+import { convertUnits, evaluateExpression } from './calculator'
+import type { ToolDefinition } from './ToolRegistry'
+
+const readString = (args: Record<string, unknown>, key: string): string => {
+  const value = args[key]
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new Error(`${key} must be a non-empty string`)
+  }
+  return value.trim()
+}
+
+const readNumber = (args: Record<string, unknown>, key: string): number => {
+  const value = typeof args[key] === 'string' ? Number(args[key]) : args[key]
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`${key} must be a number`)
+  }
+  return value
+}
+
+const calculate: ToolDefinition = {
+  title: 'Calculator',
+  enabledByDefault: true,
+  declaration: {
+    name: 'calculate',
+    description:
+      'Evaluates an arithmetic expression exactly. Use it for any math instead of working it out. ' +
+      'Supports + - * / ^, parentheses, percent (200 * 15%), sqrt, round(x, digits), min, max, log, ln and pi.',
+    parametersJsonSchema: {
+      type: 'object',
+      properties: {
+        expression: { type: 'string', description: 'For example "(1200 - 150) * 12"' },
+      },
+      required: ['expression'],
+    },
+  },
+  execute: args => {
+    const expression = readString(args, 'expression')
+    return { expression, result: evaluateExpression(expression) }
+  },
+}
+
+const convert: ToolDefinition = {
+  title: 'Unit Converter',
+  enabledByDefault: true,
+  declaration: {
+    name: 'convert_units',
+    description:
+      'Converts a value between units of length, mass, volume, area, time, speed, data size or temperature.',
+    parametersJsonSchema: {
+      type: 'object',
+      properties: {
+        value: { type: 'number' },
+        from: { type: 'string', description: 'Unit of the value, e.g. "mi", "lb", "°F", "GB"' },
+        to: { type: 'string', description: 'Unit to convert to, e.g. "km", "kg", "°C", "MiB"' },
+      },
+      required: ['value', 'from', 'to'],
+    },
+  },
+  execute: args => {
+    const value = readNumber(args, 'value')
+    const from = readString(args, 'from')
+    const to = readString(args, 'to')
+    return { value, from, to, result: convertUnits(value, from, to) }
+  },
+}
+
+const searchNotes: ToolDefinition = {
+  title: 'Notes Lookup',
+  enabledByDefault: true,
+  isAvailable: () => settingsStore.get('knowledgeBase').folder !== '',
+  declaration: {
+    name: 'search_notes',
+    description:
+      "Searches the user's local notes and documents (the knowledge base folder) and returns the best matching passages.",
+    parametersJsonSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Keywords or a question' },
+      },
+      required: ['query'],
+    },
+  },
+  execute: async args => {
+    const query = readString(args, 'query')
+    const passages = await knowledgeBase.search(query, settingsStore.get('knowledgeBase').passages)
+    if (passages.length === 0) return 'No matching notes'
+    return { passages: passages.map(({ file, text }) => ({ file, text })) }
+  },
+}
+
+const createActionItem: ToolDefinition = {
+  title: 'Create Action Item',
+  enabledByDefault: true,
+  declaration: {
+    name: 'create_action_item',
+    description:
+      'Records an action item agreed in the conversation in the session record. ' +
+      'Use it when someone commits to doing something.',
+    parametersJsonSchema: {
+      type: 'object',
+      properties: {
+        task: { type: 'string', description: 'What needs to be done' },
+        owner: { type: 'string', description: 'Who will do it, if someone was named' },
+      },
+      required: ['task'],
+    },
+  },
+  execute: (args, context) => {
+    const task = readString(args, 'task')
+    const owner = typeof args.owner === 'string' && args.owner.trim() ? args.owner.trim() : null
+    context.addActionItem({ task, owner })
+    return owner ? `Added "${task}" for ${owner}` : `Added "${task}"`
+  },
+}
+
+export const BUILTIN_TOOLS: ToolDefinition[] = [calculate, convert, searchNotes, createActionItem]
@@ -0,0 +1,271 @@
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  round: (x, digits = 0) => Math.round(x * 10 ** digits) / 10 ** digits,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  min: Math.min,
+  max: Math.max,
+  pow: Math.pow,
+  mod: (x, y) => x % y,
+  log: Math.log10,
+  ln: Math.log,
+  exp: Math.exp,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+}
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E }
+
+// Numbers, names, and any other character as a symbol
+const TOKEN_PATTERN = /(\d+(?:\.\d*)?(?:e[+-]?\d+)?|\.\d+)|([a-z_]\w*)|(\S)/gi
+
+type Token = { type: 'number'; value: number } | { type: 'name' | 'symbol'; value: string }
+
+const tokenizeExpression = (expression: string): Token[] =>
+  [
+    ...expression
+      .replace(/×/g, '*')
+      .replace(/÷/g, '/')
+      .replace(/\*\*/g, '^')
+      .matchAll(TOKEN_PATTERN),
+  ].map(([, number, name, symbol]): Token => {
+    if (number) return { type: 'number', value: Number(number) }
+    if (name) return { type: 'name', value: name.toLowerCase() }
+    return { type: 'symbol', value: symbol }
+  })
+
+/**
+ * Evaluates arithmetic without eval: + - * / ^, parentheses, a trailing % for percent
+ * ("200 * 15%"), and the functions and constants above.
+ */
+export const evaluateExpression = (expression: string): number => {
+  const tokens = tokenizeExpression(expression)
+  let position = 0
+
+  const peek = (): Token | undefined => tokens[position]
+  const isSymbol = (value: string): boolean => {
+    const token = peek()
+    return token?.type === 'symbol' && token.value === value
+  }
+  const expect = (value: string): void => {
+    if (!isSymbol(value)) throw new Error(`Expected "${value}" in ${expression}`)
+    position++
+  }
+
+  const parseExpression = (): number => {
+    let value = parseTerm()
+    while (isSymbol('+') || isSymbol('-')) {
+      const operator = tokens[position++].value
+      const right = parseTerm()
+      value = operator === '+' ? value + right : value - right
+    }
+    return value
+  }
+
+  const parseTerm = (): number => {
+    let value = parseUnary()
+    while (isSymbol('*') || isSymbol('/')) {
+      const operator = tokens[position++].value
+      const right = parseUnary()
+      value = operator === '*' ? value * right : value / right
+    }
+    return value
+  }
+
+  const parseUnary = (): number => {
+    if (isSymbol('-')) {
+      position++
+      return -parseUnary()
+    }
+    if (isSymbol('+')) {
+      position++
+      return parseUnary()
+    }
+    return parsePower()
+  }
+
+  // Right associative, and binds tighter than a leading minus: -2^2 is -4
+  const parsePower = (): number => {
+    const base = parsePercent()
+    if (!isSymbol('^')) return base
+    position++
+    return base ** parseUnary()
+  }
+
+  const parsePercent = (): number => {
+    let value = parsePrimary()
+    while (isSymbol('%')) {
+      position++
+      value /= 100
+    }
+    return value
+  }
+
+  const parsePrimary = (): number => {
+    const token = peek()
+    if (!token) throw new Error(`Incomplete expression: ${expression}`)
+    position++
+
+    if (token.type === 'number') return token.value
+    if (token.type === 'symbol') {
+      if (token.value !== '(') throw new Error(`Unexpected "${token.value}" in ${expression}`)
+      const value = parseExpression()
+      expect(')')
+      return value
+    }
+
+    if (Object.hasOwn(FUNCTIONS, token.value)) {
+      const fn = FUNCTIONS[token.value]
+      expect('(')
+      const args = [parseExpression()]
+      while (isSymbol(',')) {
+        position++
+        args.push(parseExpression())
+      }
+      expect(')')
+      return fn(...args)
+    }
+    if (Object.hasOwn(CONSTANTS, token.value)) return CONSTANTS[token.value]
+    throw new Error(`Unknown name "${token.value}" in ${expression}`)
+  }
+
+  const result = parseExpression()
+  if (position < tokens.length) {
+    throw new Error(`Unexpected "${String(tokens[position].value)}" in ${expression}`)
+  }
+  if (!Number.isFinite(result)) throw new Error(`${expression} has no finite result`)
+  // Drops floating point noise such as 0.1 + 0.2 = 0.30000000000000004
+  return Number(result.toPrecision(12))
+}
+
+type Dimension = 'length' | 'mass' | 'volume' | 'area' | 'time' | 'speed' | 'data'
+
+// Factor to the base unit of each dimension, with the names each unit is known by
+const UNITS: Array<[Dimension, number, string[]]> = [
+  ['length', 0.001, ['mm', 'millimeter', 'millimetre']],
+  ['length', 0.01, ['cm', 'centimeter', 'centimetre']],
+  ['length', 1, ['m', 'meter', 'metre']],
+  ['length', 1000, ['km', 'kilometer', 'kilometre']],
+  ['length', 0.0254, ['in', 'inch', 'inches']],
+  ['length', 0.3048, ['ft', 'foot', 'feet']],
+  ['length', 0.9144, ['yd', 'yard']],
+  ['length', 1609.344, ['mi', 'mile']],
+  ['length', 1852, ['nmi', 'nautical mile']],
+  ['mass', 1e-6, ['mg', 'milligram']],
+  ['mass', 0.001, ['g', 'gram']],
+  ['mass', 1, ['kg', 'kilogram', 'kilo']],
+  ['mass', 1000, ['t', 'tonne', 'metric ton']],
+  ['mass', 0.028349523125, ['oz', 'ounce']],
+  ['mass', 0.45359237, ['lb', 'lbs', 'pound']],
+  ['mass', 6.35029318, ['st', 'stone']],
+  ['volume', 0.001, ['ml', 'milliliter', 'millilitre']],
+  ['volume', 0.01, ['cl', 'centiliter', 'centilitre']],
+  ['volume', 1, ['l', 'liter', 'litre']],
+  ['volume', 1000, ['m3', 'cubic meter', 'cubic metre']],
+  ['volume', 0.00492892159375, ['tsp', 'teaspoon']],
+  ['volume', 0.01478676478125, ['tbsp', 'tablespoon']],
+  ['volume', 0.0295735295625, ['fl oz', 'floz', 'fluid ounce']],
+  ['volume', 0.2365882365, ['cup']],
+  ['volume', 0.473176473, ['pt', 'pint']],
+  ['volume', 0.946352946, ['qt', 'quart']],
+  ['volume', 3.785411784, ['gal', 'gallon']],
+  ['area', 0.0001, ['cm2', 'square centimeter', 'square centimetre']],
+  ['area', 1, ['m2', 'square meter', 'square metre', 'sqm']],
+  ['area', 1e6, ['km2', 'square kilometer', 'square kilometre']],
+  ['area', 10000, ['ha', 'hectare']],
+  ['area', 4046.8564224, ['ac', 'acre']],
+  ['area', 0.09290304, ['ft2', 'sq ft', 'sqft', 'square foot', 'square feet']],
+  ['area', 2589988.110336, ['mi2', 'sq mi', 'square mile']],
+  ['time', 0.001, ['ms', 'millisecond']],
+  ['time', 1, ['s', 'sec', 'second']],
+  ['time', 60, ['min', 'minute']],
+  ['time', 3600, ['h', 'hr', 'hour']],
+  ['time', 86400, ['d', 'day']],
+  ['time', 604800, ['wk', 'week']],
+  ['time', 2629800, ['month']],
+  ['time', 31557600, ['yr', 'year']],
+  ['speed', 1, ['m/s', 'meters per second', 'metres per second']],
+  ['speed', 1 / 3.6, ['km/h', 'kmh', 'kph', 'kilometers per hour', 'kilometres per hour']],
+  ['speed', 0.44704, ['mph', 'miles per hour']],
+  ['speed', 1852 / 3600, ['kn', 'knot']],
+  ['speed', 0.3048, ['ft/s', 'feet per second']],
+  ['data', 0.125, ['bit']],
+  ['data', 1, ['byte']],
+  ['data', 1e3, ['kb', 'kilobyte']],
+  ['data', 1e6, ['mb', 'megabyte']],
+  ['data', 1e9, ['gb', 'gigabyte']],
+  ['data', 1e12, ['tb', 'terabyte']],
+  ['data', 1024, ['kib', 'kibibyte']],
+  ['data', 1024 ** 2, ['mib', 'mebibyte']],
+  ['data', 1024 ** 3, ['gib', 'gibibyte']],
+  ['data', 1024 ** 4, ['tib', 'tebibyte']],
+]
+
+type TemperatureScale = 'c' | 'f' | 'k'
+
+const TEMPERATURES: Record<
+  TemperatureScale,
+  { toKelvin: (x: number) => number; fromKelvin: (k: number) => number }
+> = {
+  c: { toKelvin: x => x + 273.15, fromKelvin: k => k - 273.15 },
+  f: { toKelvin: x => ((x - 32) * 5) / 9 + 273.15, fromKelvin: k => ((k - 273.15) * 9) / 5 + 32 },
+  k: { toKelvin: x => x, fromKelvin: k => k },
+}
+const TEMPERATURE_NAMES: Record<string, TemperatureScale> = {
+  c: 'c',
+  celsius: 'c',
+  centigrade: 'c',
+  f: 'f',
+  fahrenheit: 'f',
+  k: 'k',
+  kelvin: 'k',
+}
+
+const normalizeUnit = (unit: string): string =>
+  unit
+    .trim()
+    .toLowerCase()
+    .replace(/[°.]/g, '')
+    .replace(/²/g, '2')
+    .replace(/³/g, '3')
+    .replace(/\^/g, '')
+    .replace(/^degrees?\s+/, '')
+    .replace(/\s+/g, ' ')
+
+const findTemperature = (unit: string): TemperatureScale | undefined => {
+  const name = normalizeUnit(unit)
+  return Object.hasOwn(TEMPERATURE_NAMES, name) ? TEMPERATURE_NAMES[name] : undefined
+}
+
+const UNIT_INDEX = new Map(
+  UNITS.flatMap(([dimension, factor, names]) =>
+    names.map(name => [name, { dimension, factor }] as const)
+  )
+)
+
+// Plurals are found without their trailing s ("miles", "cups")
+const findUnit = (unit: string) => {
+  const name = normalizeUnit(unit)
+  return UNIT_INDEX.get(name) ?? UNIT_INDEX.get(name.replace(/s$/, ''))
+}
+
+// Converts between units of the same kind, e.g. 5 miles to km or 72 °F to °C
+export const convertUnits = (value: number, from: string, to: string): number => {
+  const fromTemperature = findTemperature(from)
+  const toTemperature = findTemperature(to)
+  if (fromTemperature && toTemperature) {
+    const kelvin = TEMPERATURES[fromTemperature].toKelvin(value)
+    return Number(TEMPERATURES[toTemperature].fromKelvin(kelvin).toPrecision(12))
+  }
+
+  const source = findUnit(from)
+  const target = findUnit(to)
+  if (!source) throw new Error(`Unknown unit "${from}"`)
+  if (!target) throw new Error(`Unknown unit "${to}"`)
+  if (source.dimension !== target.dimension) {
+    throw new Error(`Cannot convert ${source.dimension} (${from}) to ${target.dimension} (${to})`)
+  }
+  return Number(((value * source.factor) / target.factor).toPrecision(12))
+}
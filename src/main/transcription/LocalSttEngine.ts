@@ -0,0 +1,227 @@
+import { type ChildProcess, spawn } from 'node:child_process'
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { createServer } from 'node:net'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import type { LocalSttEngineId, LocalTranscriptionSettings } from '@shared/types'
+import { findOnPath } from '../audio/SystemAudioCapture'
+
+// whisper.cpp only reads 16 kHz mono WAV
+export const STT_SAMPLE_RATE = 16000
+// A CLI run or server request taking longer than this is abandoned
+const TRANSCRIBE_TIMEOUT_MS = 60000
+// Loading a large model on a slow CPU takes a while
+const SERVER_START_TIMEOUT_MS = 60000
+const SERVER_POLL_MS = 250
+
+// Names of the whisper.cpp binaries, looked up on the PATH when no path is set
+const DEFAULT_BINARIES: Record<LocalSttEngineId, string> = {
+  'whisper-server': 'whisper-server',
+  'whisper-cli': 'whisper-cli',
+}
+
+export interface LocalSttEngine {
+  id: LocalSttEngineId
+  // Text spoken in a 16 kHz mono WAV, empty when there was none
+  transcribe: (wav: Buffer, language: string) => Promise<string>
+  stop: () => void
+}
+
+// whisper.cpp takes ISO 639-1 codes; sessions use BCP 47 tags like en-US or cmn-CN
+export const toWhisperLanguage = (language: string): string => {
+  const code = language.split('-')[0].toLowerCase()
+  return code === 'cmn' ? 'zh' : code
+}
+
+// Drops the annotations whisper writes for non-speech, e.g. [BLANK_AUDIO] or (music)
+export const cleanWhisperText = (text: string): string =>
+  text
+    .replace(/\[[^\]]*\]|\([^)]*\)/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+
+export const resolveSttBinary = (settings: LocalTranscriptionSettings): string | null => {
+  if (settings.binaryPath) return existsSync(settings.binaryPath) ? settings.binaryPath : null
+  return findOnPath(DEFAULT_BINARIES[settings.engine])
+}
+
+const getFreePort = (): Promise<number> =>
+  new Promise((resolve, reject) => {
+    const server = createServer()
+    server.once('error', reject)
+    server.listen(0, '127.0.0.1', () => {
+      const address = server.address()
+      const port = typeof address === 'object' && address ? address.port : 0
+      server.close(() => resolve(port))
+    })
+  })
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms))
+
+// Runs the CLI once per utterance; slower to start but nothing stays in memory
+const createWhisperCliEngine = (
+  binary: string,
+  settings: LocalTranscriptionSettings
+): LocalSttEngine => {
+  const running = new Set<ChildProcess>()
+  let stopped = false
+
+  const run = (args: string[]): Promise<string> =>
+    new Promise((resolve, reject) => {
+      const proc = spawn(binary, args, { stdio: ['ignore', 'pipe', 'pipe'] })
+      running.add(proc)
+      let stdout = ''
+      let stderr = ''
+
+      const timer = setTimeout(() => proc.kill('SIGTERM'), TRANSCRIBE_TIMEOUT_MS)
+      proc.stdout?.on('data', (data: Buffer) => (stdout += data.toString()))
+      proc.stderr?.on('data', (data: Buffer) => (stderr += data.toString()))
+      proc.on('error', error => {
+        clearTimeout(timer)
+        running.delete(proc)
+        reject(error)
+      })
+      proc.on('close', code => {
+        clearTimeout(timer)
+        running.delete(proc)
+        if (code === 0) resolve(stdout)
+        else reject(new Error(`whisper-cli exited with code ${code}: ${stderr.trim().slice(-500)}`))
+      })
+    })
+
+  const transcribe = async (wav: Buffer, language: string): Promise<string> => {
+    if (stopped) throw new Error('whisper-cli engine was stopped')
+    const dir = mkdtempSync(join(tmpdir(), 'cheddar-stt-'))
+    const file = join(dir, 'utterance.wav')
+    try {
+      writeFileSync(file, wav)
+      const stdout = await run([
+        '-m',
+        settings.modelPath,
+        '-f',
+        file,
+        '-l',
+        toWhisperLanguage(language),
+        '-t',
+        String(settings.threads),
+        '-nt', // No timestamps
+        '-np', // Only the transcript on stdout
+      ])
+      return cleanWhisperText(stdout)
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  }
+
+  const stop = (): void => {
+    stopped = true
+    running.forEach(proc => proc.kill('SIGTERM'))
+    running.clear()
+  }
+
+  return { id: 'whisper-cli', transcribe, stop }
+}
+
+// Keeps the model loaded in a local whisper-server and posts each utterance to it
+const createWhisperServerEngine = (
+  binary: string,
+  settings: LocalTranscriptionSettings
+): LocalSttEngine => {
+  let serverProc: ChildProcess | null = null
+  let serverUrl: Promise<string> | null = null
+  let stopped = false
+
+  const startServer = async (): Promise<string> => {
+    const port = await getFreePort()
+    const url = `http://127.0.0.1:${port}`
+    const args = ['-m', settings.modelPath, '-t', String(settings.threads)]
+    const proc = spawn(binary, [...args, '--host', '127.0.0.1', '--port', String(port)], {
+      stdio: ['ignore', 'ignore', 'pipe'],
+    })
+    serverProc = proc
+    console.log('whisper-server started with PID:', proc.pid)
+
+    let stderr = ''
+    proc.stderr?.on('data', (data: Buffer) => (stderr = (stderr + data.toString()).slice(-2000)))
+    proc.on('close', code => {
+      console.log('whisper-server process closed with code:', code)
+      if (serverProc === proc) {
+        serverProc = null
+        serverUrl = null
+      }
+    })
+    proc.on('error', error => console.error('whisper-server process error:', error))
+
+    // The server only accepts connections once the model is loaded
+    const deadline = Date.now() + SERVER_START_TIMEOUT_MS
+    while (Date.now() < deadline) {
+      if (serverProc !== proc) {
+        throw new Error(`whisper-server exited while starting: ${stderr.trim().slice(-500)}`)
+      }
+      try {
+        await fetch(url)
+        return url
+      } catch {
+        await sleep(SERVER_POLL_MS)
+      }
+    }
+    proc.kill('SIGTERM')
+    throw new Error('whisper-server did not start in time')
+  }
+
+  const transcribe = async (wav: Buffer, language: string): Promise<string> => {
+    if (stopped) throw new Error('whisper-server engine was stopped')
+    serverUrl ??= startServer()
+    const starting = serverUrl
+    const url = await starting.catch((error: unknown) => {
+      if (serverUrl === starting) serverUrl = null // Try again with the next utterance
+      throw error
+    })
+
+    const form = new FormData()
+    form.append('file', new Blob([new Uint8Array(wav)], { type: 'audio/wav' }), 'utterance.wav')
+    form.append('response_format', 'json')
+    form.append('language', toWhisperLanguage(language))
+
+    const response = await fetch(`${url}/inference`, {
+      method: 'POST',
+      body: form,
+      signal: AbortSignal.timeout(TRANSCRIBE_TIMEOUT_MS),
+    })
+    if (!response.ok) throw new Error(`whisper-server returned HTTP ${response.status}`)
+    const result = (await response.json()) as { text?: string; error?: string }
+    if (result.error) throw new Error(`whisper-server: ${result.error}`)
+    return cleanWhisperText(result.text ?? '')
+  }
+
+  const stop = (): void => {
+    stopped = true
+    if (serverProc) {
+      console.log('Stopping whisper-server...')
+      serverProc.kill('SIGTERM')
+    }
+    serverProc = null
+    serverUrl = null
+  }
+
+  return { id: 'whisper-server', transcribe, stop }
+}
+
+// Throws with a message for the user when the binary or model cannot be found
+export const createLocalSttEngine = (settings: LocalTranscriptionSettings): LocalSttEngine => {
+  const binary = resolveSttBinary(settings)
+  if (!binary) {
+    throw new Error(
+      settings.binaryPath
+        ? `whisper.cpp binary not found at ${settings.binaryPath}`
+        : `${DEFAULT_BINARIES[settings.engine]} was not found on the PATH`
+    )
+  }
+  if (!settings.modelPath || !existsSync(settings.modelPath)) {
+    throw new Error('No whisper.cpp model file set for local transcription')
+  }
+
+  return settings.engine === 'whisper-cli'
+    ? createWhisperCliEngine(binary, settings)
+    : createWhisperServerEngine(binary, settings)
+}
@@ -0,0 +1,251 @@
+import { measurePcm, SILENCE_THRESHOLD } from '@shared/audio'
+import type { AudioSourceType, LocalTranscriptionSettings, TranscriptSegment } from '@shared/types'
+import { pcmToWavBuffer, resamplePcm, toMono } from '../audio/AudioUtils'
+import { speakerForSource } from '../gemini/TranscriptBuilder'
+import { createLocalSttEngine, type LocalSttEngine, STT_SAMPLE_RATE } from './LocalSttEngine'
+
+// Live input audio: 24 kHz, 16-bit PCM
+const SAMPLE_RATE = 24000
+const SAMPLES_PER_MS = SAMPLE_RATE / 1000
+// A pause this long ends an utterance
+const UTTERANCE_GAP_MS = 800
+// Longer speech is cut here; whisper works on 30 s windows
+const MAX_UTTERANCE_MS = 25000
+// Utterances with less sound than this are noise rather than speech
+const MIN_SPEECH_MS = 250
+// Gated audio stops arriving in pauses, so open utterances are checked on a timer
+const IDLE_CHECK_MS = 250
+// How long a saved turn waits for its utterances to be transcribed
+const TAKE_TIMEOUT_MS = 5000
+
+interface OpenUtterance {
+  startTime: number
+  endTime: number
+  lastSoundAt: number
+  soundMs: number
+  chunks: Int16Array[]
+}
+
+export interface LocalTranscriberOptions {
+  // Called whenever a segment is finished; collect them with takeFinished or takeSegments
+  onSegment?: (segment: TranscriptSegment) => void
+  createEngine?: (settings: LocalTranscriptionSettings) => LocalSttEngine
+}
+
+export interface ReconciledTranscription {
+  transcription: string
+  segments: TranscriptSegment[]
+}
+
+/**
+ * Combines the live model's transcription of a turn with the local one. The server text
+ * is what the model answered, so it stays the turn's transcription; the local segments
+ * come from each source's own audio, so they replace the speakers guessed from the mix.
+ * Without server text the local transcript is all there is.
+ */
+export const reconcileTranscription = (
+  server: ReconciledTranscription,
+  local: TranscriptSegment[]
+): ReconciledTranscription => {
+  if (local.length === 0) return server
+
+  const localText = local.map(segment => segment.text).join(' ')
+  return {
+    transcription: server.transcription.trim() ? server.transcription : localText,
+    segments: local,
+  }
+}
+
+/**
+ * Transcribes each audio source on this machine with a whisper.cpp engine, so sessions
+ * keep a transcript when the live model is disabled or cannot be reached. Audio is cut
+ * into utterances at pauses and transcribed one at a time.
+ */
+export const createLocalTranscriber = ({
+  onSegment,
+  createEngine = createLocalSttEngine,
+}: LocalTranscriberOptions = {}) => {
+  let engine: LocalSttEngine | null = null
+  let language = 'en-US'
+  let openUtterances: Partial<Record<AudioSourceType, OpenUtterance>> = {}
+  let finished: TranscriptSegment[] = []
+  // Transcription runs one utterance at a time to leave the CPU for the call
+  let queue: Promise<void> = Promise.resolve()
+  let idleTimer: ReturnType<typeof setInterval> | null = null
+
+  const transcribeUtterance = async (
+    source: AudioSourceType,
+    utterance: OpenUtterance,
+    sttEngine: LocalSttEngine
+  ): Promise<void> => {
+    const samples = new Int16Array(
+      utterance.chunks.reduce((total, chunk) => total + chunk.length, 0)
+    )
+    let offset = 0
+    for (const chunk of utterance.chunks) {
+      samples.set(chunk, offset)
+      offset += chunk.length
+    }
+    const resampled = resamplePcm(samples, SAMPLE_RATE, STT_SAMPLE_RATE)
+    const wav = pcmToWavBuffer(
+      Buffer.from(resampled.buffer, resampled.byteOffset, resampled.byteLength),
+      STT_SAMPLE_RATE
+    )
+
+    try {
+      const text = await sttEngine.transcribe(wav, language)
+      if (!text) return
+
+      const segment: TranscriptSegment = {
+        speaker: speakerForSource[source],
+        source,
+        startTime: utterance.startTime,
+        endTime: utterance.endTime,
+        text,
+      }
+      finished.push(segment)
+      onSegment?.(segment)
+    } catch (error) {
+      console.error('Local transcription failed:', error)
+    }
+  }
+
+  const closeUtterance = (source: AudioSourceType): void => {
+    const utterance = openUtterances[source]
+    delete openUtterances[source]
+    if (!utterance || !engine || utterance.soundMs < MIN_SPEECH_MS) return
+
+    const sttEngine = engine
+    queue = queue.then(() => transcribeUtterance(source, utterance, sttEngine))
+  }
+
+  const closeIdleUtterances = (now = Date.now()): void => {
+    for (const source of Object.keys(openUtterances) as AudioSourceType[]) {
+      const utterance = openUtterances[source]
+      if (utterance && now - utterance.lastSoundAt > UTTERANCE_GAP_MS) closeUtterance(source)
+    }
+  }
+
+  // Throws when the engine cannot run, e.g. without a binary or model
+  const start = (settings: LocalTranscriptionSettings, sessionLanguage: string): void => {
+    void stop()
+
+    engine = createEngine(settings)
+    language = sessionLanguage
+    idleTimer = setInterval(() => closeIdleUtterances(), IDLE_CHECK_MS)
+    console.log(`Local transcription started with ${engine.id}`)
+  }
+
+  const pushAudio = (
+    source: AudioSourceType,
+    pcm: Buffer,
+    { channels = 1, capturedAt = Date.now() }: { channels?: number; capturedAt?: number } = {}
+  ): void => {
+    if (!engine || pcm.length === 0) return
+
+    const samples = toMono(pcm, channels)
+    const durationMs = samples.length / SAMPLES_PER_MS
+    const startTime = capturedAt - durationMs
+    const silent = measurePcm(samples).rmsValue < SILENCE_THRESHOLD
+
+    let utterance = openUtterances[source]
+    if (
+      utterance &&
+      (capturedAt - utterance.lastSoundAt > UTTERANCE_GAP_MS ||
+        utterance.endTime - utterance.startTime >= MAX_UTTERANCE_MS)
+    ) {
+      closeUtterance(source)
+      utterance = undefined
+    }
+
+    if (!utterance) {
+      if (silent) return
+      utterance = { startTime, endTime: startTime, lastSoundAt: capturedAt, soundMs: 0, chunks: [] }
+      openUtterances[source] = utterance
+    }
+
+    // Gated audio skips short pauses; they are filled so the timing stays right
+    const gap = Math.round((startTime - utterance.endTime) * SAMPLES_PER_MS)
+    if (gap > 0) utterance.chunks.push(new Int16Array(gap))
+
+    utterance.chunks.push(samples)
+    utterance.endTime = Math.max(utterance.endTime, startTime) + durationMs
+    if (!silent) {
+      utterance.lastSoundAt = capturedAt
+      utterance.soundMs += durationMs
+    }
+  }
+
+  // Finished segments not collected yet, oldest first
+  const takeFinished = (): TranscriptSegment[] => {
+    const taken = finished.sort((a, b) => a.startTime - b.startTime)
+    finished = []
+    return taken
+  }
+
+  /**
+   * Segments spoken before `until`: utterances still open are ended there, and the wait
+   * for their transcription is bounded so a slow engine cannot hold a turn back. Late
+   * segments go to the next turn.
+   */
+  const takeSegments = async (
+    until = Date.now(),
+    timeoutMs = TAKE_TIMEOUT_MS
+  ): Promise<TranscriptSegment[]> => {
+    for (const source of Object.keys(openUtterances) as AudioSourceType[]) {
+      if ((openUtterances[source]?.startTime ?? until) < until) closeUtterance(source)
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined
+    await Promise.race([queue, new Promise(resolve => (timer = setTimeout(resolve, timeoutMs)))])
+    clearTimeout(timer)
+
+    const taken = finished.filter(segment => segment.startTime < until)
+    finished = finished.filter(segment => segment.startTime >= until)
+    return taken.sort((a, b) => a.startTime - b.startTime)
+  }
+
+  // Transcribes what is still open, then shuts the engine down
+  const stop = async (): Promise<void> => {
+    if (!engine) return
+
+    if (idleTimer) clearInterval(idleTimer)
+    idleTimer = null
+    for (const source of Object.keys(openUtterances) as AudioSourceType[]) {
+      closeUtterance(source)
+    }
+    openUtterances = {}
+
+    const stoppedEngine = engine
+    engine = null
+    await queue
+    stoppedEngine.stop()
+    console.log('Local transcription stopped')
+  }
+
+  // Ends at once, e.g. on quit; speech not transcribed yet is dropped
+  const cancel = (): void => {
+    if (idleTimer) clearInterval(idleTimer)
+    idleTimer = null
+    openUtterances = {}
+    engine?.stop()
+    engine = null
+  }
+
+  const isRunning = (): boolean => engine !== null
+
+  const getEngineId = (): LocalSttEngine['id'] | null => engine?.id ?? null
+
+  return {
+    start,
+    stop,
+    cancel,
+    pushAudio,
+    takeSegments,
+    takeFinished,
+    isRunning,
+    getEngineId,
+  }
+}
+
+export type LocalTranscriber = ReturnType<typeof createLocalTranscriber>
@@ -0,0 +1,343 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs'
+import { dirname, join } from 'node:path'
+import type { MediaModality, UsageMetadata } from '@google/genai'
+import type {
+  IpcResult,
+  LiveProviderId,
+  ModalityTokens,
+  ModelPrice,
+  SessionUsage,
+  UsageModality,
+  UsageSummary,
+  UsageTotals,
+} from '@shared/types'
+import { emptyModalityTokens } from '@shared/usage'
+import { app, BrowserWindow, ipcMain } from 'electron'
+import { settingsStore } from '../settings/SettingsStore'
+
+const USAGE_FILE_VERSION = 1
+// Estimates arrive with every audio chunk, so writes are batched
+const SAVE_DELAY_MS = 2000
+// A little over a year, so month and year-over-year totals stay available
+const RETENTION_MS = 400 * 24 * 60 * 60 * 1000
+const RECENT_SESSIONS = 20
+
+export interface TokenCounts {
+  input: ModalityTokens
+  output: ModalityTokens
+}
+
+interface StoredSessionUsage {
+  sessionId: string
+  provider: LiveProviderId
+  model: string
+  startedAt: number
+  updatedAt: number
+  // Provider-reported counts win over estimates once the provider sends any
+  reported: TokenCounts | null
+  estimated: TokenCounts
+}
+
+interface UsageFile {
+  version: number
+  sessions: StoredSessionUsage[]
+}
+
+const emptyCounts = (): TokenCounts => ({
+  input: emptyModalityTokens(),
+  output: emptyModalityTokens(),
+})
+
+const sumTokens = (tokens: ModalityTokens): number => tokens.text + tokens.audio + tokens.image
+
+const addCounts = (target: TokenCounts, counts: TokenCounts): void => {
+  for (const modality of ['text', 'audio', 'image'] as const) {
+    target.input[modality] += counts.input[modality]
+    target.output[modality] += counts.output[modality]
+  }
+}
+
+const MODALITIES: Partial<Record<MediaModality | string, UsageModality>> = {
+  TEXT: 'text',
+  AUDIO: 'audio',
+  IMAGE: 'image',
+  VIDEO: 'image', // Screenshots are sent as video frames
+}
+
+// Usage metadata of one Live response. Without a modality breakdown the whole count is
+// attributed to text; thinking tokens are billed as output.
+export const countsFromUsageMetadata = (usage: UsageMetadata): TokenCounts => {
+  const counts = emptyCounts()
+
+  if (usage.promptTokensDetails?.length) {
+    for (const { modality, tokenCount = 0 } of usage.promptTokensDetails) {
+      counts.input[MODALITIES[modality ?? ''] ?? 'text'] += tokenCount
+    }
+  } else {
+    counts.input.text = usage.promptTokenCount ?? 0
+  }
+
+  if (usage.responseTokensDetails?.length) {
+    for (const { modality, tokenCount = 0 } of usage.responseTokensDetails) {
+      counts.output[MODALITIES[modality ?? ''] ?? 'text'] += tokenCount
+    }
+  } else {
+    counts.output.text = usage.responseTokenCount ?? 0
+  }
+  counts.output.text += usage.thoughtsTokenCount ?? 0
+
+  return counts
+}
+
+export const getUsageCost = ({ input, output }: TokenCounts, price: ModelPrice): number =>
+  (input.text * price.inputText +
+    input.audio * price.inputAudio +
+    input.image * price.inputImage +
+    sumTokens(output) * price.output) /
+  1_000_000
+
+const startOfDay = (now: number): number => new Date(now).setHours(0, 0, 0, 0)
+
+const startOfMonth = (now: number): number => {
+  const date = new Date(now)
+  return new Date(date.getFullYear(), date.getMonth(), 1).getTime()
+}
+
+/**
+ * Token usage per live session, persisted in the main process. Costs are computed from
+ * the current price table when read, so editing a price re-prices past sessions too.
+ */
+export const createUsageTracker = (filePath: string) => {
+  let sessions: StoredSessionUsage[] = []
+  let saveTimer: NodeJS.Timeout | null = null
+  const listeners = new Set<() => void>()
+
+  const load = (): void => {
+    if (!existsSync(filePath)) return
+
+    try {
+      const parsed = JSON.parse(readFileSync(filePath, 'utf8')) as Partial<UsageFile>
+      sessions = (parsed.sessions ?? []).filter(
+        session => typeof session.sessionId === 'string' && session.estimated !== undefined
+      )
+    } catch (error) {
+      console.error('Error reading usage file:', error)
+    }
+  }
+
+  const save = (): void => {
+    const cutoff = Date.now() - RETENTION_MS
+    const file: UsageFile = {
+      version: USAGE_FILE_VERSION,
+      // Sessions that never sent anything are not worth keeping
+      sessions: sessions.filter(session => session.updatedAt >= cutoff && hasTokens(session)),
+    }
+
+    try {
+      mkdirSync(dirname(filePath), { recursive: true })
+      const tempPath = `${filePath}.tmp`
+      writeFileSync(tempPath, JSON.stringify(file))
+      renameSync(tempPath, filePath)
+    } catch (error) {
+      console.error('Error writing usage file:', error)
+    }
+    listeners.forEach(listener => listener())
+  }
+
+  const scheduleSave = (): void => {
+    if (saveTimer) return
+    saveTimer = setTimeout(() => {
+      saveTimer = null
+      save()
+    }, SAVE_DELAY_MS)
+  }
+
+  // Writes pending changes now, e.g. when a session ends or the app quits
+  const flush = (): void => {
+    if (!saveTimer) return
+    clearTimeout(saveTimer)
+    saveTimer = null
+    save()
+  }
+
+  const getCounts = (session: StoredSessionUsage): TokenCounts =>
+    session.reported ?? session.estimated
+
+  const hasTokens = (session: StoredSessionUsage): boolean => {
+    const { input, output } = getCounts(session)
+    return sumTokens(input) + sumTokens(output) > 0
+  }
+
+  const toSessionUsage = (session: StoredSessionUsage): SessionUsage => {
+    const price = settingsStore.get('modelPrices')[session.model]
+    const counts = getCounts(session)
+    return {
+      sessionId: session.sessionId,
+      provider: session.provider,
+      model: session.model,
+      startedAt: session.startedAt,
+      source: session.reported ? 'reported' : 'estimated',
+      input: { ...counts.input },
+      output: { ...counts.output },
+      costUsd: price ? getUsageCost(counts, price) : null,
+    }
+  }
+
+  const getTotals = (since: number): UsageTotals => {
+    const totals: UsageTotals = {
+      sessions: 0,
+      input: emptyModalityTokens(),
+      output: emptyModalityTokens(),
+      costUsd: 0,
+    }
+
+    for (const session of sessions) {
+      if (session.startedAt < since || !hasTokens(session)) continue
+      const usage = toSessionUsage(session)
+      addCounts(totals, usage)
+      totals.sessions++
+      totals.costUsd += usage.costUsd ?? 0
+    }
+    return totals
+  }
+
+  const find = (sessionId: string): StoredSessionUsage | undefined =>
+    sessions.find(session => session.sessionId === sessionId)
+
+  // Registers a session; a reconnect that keeps the session id continues the same record
+  const startSession = (sessionId: string, provider: LiveProviderId, model: string): void => {
+    if (find(sessionId)) return
+
+    const now = Date.now()
+    sessions.push({
+      sessionId,
+      provider,
+      model,
+      startedAt: now,
+      updatedAt: now,
+      reported: null,
+      estimated: emptyCounts(),
+    })
+  }
+
+  const recordReported = (sessionId: string, counts: TokenCounts): void => {
+    const session = find(sessionId)
+    if (!session) return
+
+    session.reported ??= emptyCounts()
+    addCounts(session.reported, counts)
+    session.updatedAt = Date.now()
+    scheduleSave()
+  }
+
+  const recordEstimate = (
+    sessionId: string,
+    direction: keyof TokenCounts,
+    modality: UsageModality,
+    tokens: number
+  ): void => {
+    const session = find(sessionId)
+    if (!session || tokens <= 0) return
+
+    session.estimated[direction][modality] += tokens
+    session.updatedAt = Date.now()
+    scheduleSave()
+  }
+
+  const getBudgetSpent = (now: number): number => {
+    const period = settingsStore.get('usageBudgetPeriod')
+    return getTotals(period === 'daily' ? startOfDay(now) : startOfMonth(now)).costUsd
+  }
+
+  const isBudgetExceeded = (now: number = Date.now()): boolean => {
+    const limitUsd = settingsStore.get('usageBudgetUsd')
+    return limitUsd > 0 && getBudgetSpent(now) >= limitUsd
+  }
+
+  const getSummary = (now: number = Date.now()): UsageSummary => {
+    const limitUsd = settingsStore.get('usageBudgetUsd')
+    const spentUsd = getBudgetSpent(now)
+
+    return {
+      today: getTotals(startOfDay(now)),
+      month: getTotals(startOfMonth(now)),
+      budget: {
+        limitUsd,
+        period: settingsStore.get('usageBudgetPeriod'),
+        spentUsd,
+        exceeded: limitUsd > 0 && spentUsd >= limitUsd,
+      },
+      recentSessions: sessions
+        .filter(hasTokens)
+        .sort((a, b) => b.startedAt - a.startedAt)
+        .slice(0, RECENT_SESSIONS)
+        .map(toSessionUsage),
+    }
+  }
+
+  const clear = (): void => {
+    sessions = []
+    if (saveTimer) clearTimeout(saveTimer)
+    saveTimer = null
+    save()
+  }
+
+  const onChange = (listener: () => void): (() => void) => {
+    listeners.add(listener)
+    return () => listeners.delete(listener)
+  }
+
+  const setupIpcHandlers = (): void => {
+    const broadcast = (): void => {
+      const summary = getSummary()
+      BrowserWindow.getAllWindows().forEach(window => {
+        if (!window.isDestroyed()) window.webContents.send('usage-updated', summary)
+      })
+    }
+    onChange(broadcast)
+    // Prices and the budget change what the summary reports
+    settingsStore.onChange(({ key }) => {
+      if (key === 'modelPrices' || key === 'usageBudgetUsd' || key === 'usageBudgetPeriod') {
+        broadcast()
+      }
+    })
+
+    ipcMain.handle('get-usage-summary', async (): Promise<IpcResult<UsageSummary>> => {
+      try {
+        return { success: true, data: getSummary() }
+      } catch (error) {
+        console.error('Error reading usage:', error)
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+      }
+    })
+
+    ipcMain.handle('clear-usage-history', async (): Promise<IpcResult> => {
+      try {
+        clear()
+        return { success: true }
+      } catch (error) {
+        console.error('Error clearing usage:', error)
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+      }
+    })
+  }
+
+  // Constructor logic
+  load()
+
+  return {
+    startSession,
+    recordReported,
+    recordEstimate,
+    isBudgetExceeded,
+    getSummary,
+    flush,
+    clear,
+    onChange,
+    setupIpcHandlers,
+  }
+}
+
+export const usageTracker = createUsageTracker(join(app.getPath('userData'), 'usage.json'))
+
+export type UsageTracker = ReturnType<typeof createUsageTracker>
@@ -11,11 +11,14 @@ import {
   session,
   systemPreferences,
 } from 'electron'
+import { settingsStore } from '../settings/SettingsStore'
+
 export const createWindowManager = () => {
   let mainWindow: BrowserWindow | null = null
   let mouseEventsIgnored = false
   let windowResizing = false
   let resizeAnimation: NodeJS.Timeout | null = null
+  let unsubscribeSettings: (() => void) | null = null
   const RESIZE_ANIMATION_DURATION = 500 // milliseconds
 
   const ensureDataDirectories = (): void => {
@@ -344,59 +347,39 @@ export const createWindowManager = () => {
     }
   }
 
-  const initializeWindowSettings = async (): Promise<void> => {
-    if (!mainWindow) return
-
-    try {
-      const defaultKeybinds = getDefaultKeybinds()
-      let keybinds = defaultKeybinds
+  const getKeybinds = (): KeybindConfig => ({
+    ...getDefaultKeybinds(),
+    ...settingsStore.get('customKeybinds'),
+  })
 
-      const savedSettings = await mainWindow.webContents.executeJavaScript(`
-        (function() {
-          try {
-            const savedKeybinds = localStorage.getItem('customKeybinds');
-            return {
-              keybinds: savedKeybinds ? JSON.parse(savedKeybinds) : null
-            };
-          } catch (e) {
-            return { keybinds: null };
-          }
-        })()
-      `)
+  const applyContentProtection = (): void => {
+    if (!mainWindow || mainWindow.isDestroyed()) return
 
-      if (savedSettings.keybinds) {
-        keybinds = { ...defaultKeybinds, ...savedSettings.keybinds }
-      }
-
-      // Apply content protection setting
-      try {
-        const contentProtection = await mainWindow.webContents.executeJavaScript(
-          'localStorage.getItem("contentProtection") !== "false"'
-        )
-        mainWindow.setContentProtection(contentProtection)
-        console.log('Content protection loaded from settings:', contentProtection)
-      } catch (error) {
-        console.error('Error loading content protection:', error)
-        mainWindow.setContentProtection(true)
-      }
+    const contentProtection = settingsStore.get('contentProtection')
+    mainWindow.setContentProtection(contentProtection)
+    console.log('Content protection loaded from settings:', contentProtection)
+  }
 
-      updateGlobalShortcuts(keybinds)
-    } catch (error) {
-      console.error('Error initializing window settings:', error)
-      // Default to content protection enabled and default shortcuts
-      mainWindow.setContentProtection(true)
-      updateGlobalShortcuts(getDefaultKeybinds())
-    }
+  const initializeWindowSettings = (): void => {
+    applyContentProtection()
+    updateGlobalShortcuts(getKeybinds())
   }
 
   const setupWindowEventHandlers = (): void => {
     if (!mainWindow) return
 
-    // After window is created, check for settings and setup shortcuts
-    mainWindow.webContents.once('dom-ready', () => {
-      setTimeout(() => {
-        initializeWindowSettings()
-      }, 150)
+    // Settings live in the main process, so they apply before the renderer has loaded
+    initializeWindowSettings()
+
+    unsubscribeSettings?.()
+    unsubscribeSettings = settingsStore.onChange(({ key }) => {
+      if (key === 'customKeybinds') updateGlobalShortcuts(getKeybinds())
+      if (key === 'contentProtection') applyContentProtection()
+    })
+
+    mainWindow.once('closed', () => {
+      unsubscribeSettings?.()
+      unsubscribeSettings = null
     })
   }
 
@@ -631,6 +614,9 @@ export const createWindowManager = () => {
     // Unregister all global shortcuts
     globalShortcut.unregisterAll()
 
+    unsubscribeSettings?.()
+    unsubscribeSettings = null
+
     // Clear any pending animations
     if (resizeAnimation) {
       clearTimeout(resizeAnimation)
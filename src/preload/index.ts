@@ -1,8 +1,26 @@
 import type {
-  KeybindConfig,
+  AppSettings,
+  CredentialInfo,
+  ExportSessionsRequest,
+  ImageContent,
+  KnowledgeBaseStatus,
+  LiveProviderId,
+  LiveProviderSettings,
+  McpStatus,
   PlatformInfo,
-  ProfileType,
+  PreviewSystemPromptRequest,
+  ProfileId,
+  ReconnectionStatus,
+  RecordingState,
   SaveConversationTurnPayload,
+  SaveCredentialRequest,
+  SessionError,
+  SessionMetadataPayload,
+  SessionSummaryPayload,
+  SettingChange,
+  SettingKey,
+  ToolInvocation,
+  UsageSummary,
 } from '@shared/types'
 import { contextBridge, ipcRenderer } from 'electron'
 
@@ -21,30 +39,68 @@ const electronAPI = {
   // IPC invoke methods (main process handlers)
   invoke: {
     initializeGemini: (
-      apiKey: string,
       customPrompt?: string,
-      profile?: ProfileType,
-      language?: string
-    ) => ipcRenderer.invoke('initialize-gemini', { apiKey, customPrompt, profile, language }),
+      profile?: ProfileId,
+      language?: string,
+      provider?: LiveProviderSettings
+    ) =>
+      ipcRenderer.invoke('initialize-gemini', {
+        customPrompt,
+        profile,
+        language,
+        provider,
+      }),
 
     sendAudioContent: (content: { data: string; mimeType: string; source?: string }) =>
       ipcRenderer.invoke('send-audio-content', content),
 
-    sendImageContent: (content: { data: string; debug?: boolean }) =>
-      ipcRenderer.invoke('send-image-content', content),
+    sendImageContent: (content: ImageContent) => ipcRenderer.invoke('send-image-content', content),
 
     sendTextMessage: (text: string) => ipcRenderer.invoke('send-text-message', text),
 
     closeSession: () => ipcRenderer.invoke('close-session'),
 
-    startMacOSAudio: () => ipcRenderer.invoke('start-macos-audio'),
+    startSystemAudio: () => ipcRenderer.invoke('start-system-audio'),
 
-    stopMacOSAudio: () => ipcRenderer.invoke('stop-macos-audio'),
+    stopSystemAudio: () => ipcRenderer.invoke('stop-system-audio'),
 
     getCurrentSession: () => ipcRenderer.invoke('get-current-session'),
 
     startNewSession: () => ipcRenderer.invoke('start-new-session'),
 
+    exportSessions: (request: ExportSessionsRequest) =>
+      ipcRenderer.invoke('export-sessions', request),
+
+    getProfilePromptParts: (profile: ProfileId) =>
+      ipcRenderer.invoke('get-profile-prompt-parts', profile),
+
+    previewSystemPrompt: (request: PreviewSystemPromptRequest) =>
+      ipcRenderer.invoke('preview-system-prompt', request),
+
+    exportProfiles: (ids?: string[]) => ipcRenderer.invoke('export-profiles', ids),
+
+    importProfiles: () => ipcRenderer.invoke('import-profiles'),
+
+    attachContextDocuments: () => ipcRenderer.invoke('attach-context-documents'),
+
+    removeContextDocument: (id: string) => ipcRenderer.invoke('remove-context-document', id),
+
+    getKnowledgeBaseStatus: () => ipcRenderer.invoke('get-knowledge-base-status'),
+
+    chooseKnowledgeBaseFolder: () => ipcRenderer.invoke('choose-knowledge-base-folder'),
+
+    rebuildKnowledgeBase: () => ipcRenderer.invoke('rebuild-knowledge-base'),
+
+    searchKnowledgeBase: (query: string) => ipcRenderer.invoke('search-knowledge-base', query),
+
+    listTools: () => ipcRenderer.invoke('list-tools'),
+
+    getMcpStatus: () => ipcRenderer.invoke('get-mcp-status'),
+
+    restartMcpServers: () => ipcRenderer.invoke('restart-mcp-servers'),
+
+    clearMcpCallLog: () => ipcRenderer.invoke('clear-mcp-call-log'),
+
     toggleWindowVisibility: () => ipcRenderer.invoke('toggle-window-visibility'),
 
     updateSizes: () => ipcRenderer.invoke('update-sizes'),
@@ -55,8 +111,41 @@ const electronAPI = {
 
     openExternal: (url: string) => ipcRenderer.invoke('open-external', url),
 
-    updateGoogleSearchSetting: (enabled: boolean) =>
-      ipcRenderer.invoke('update-google-search-setting', enabled),
+    getSetting: (key: SettingKey) => ipcRenderer.invoke('get-setting', key),
+
+    getAllSettings: () => ipcRenderer.invoke('get-all-settings'),
+
+    setSetting: <K extends SettingKey>(key: K, value: AppSettings[K]) =>
+      ipcRenderer.invoke('set-setting', key, value),
+
+    resetSettings: () => ipcRenderer.invoke('reset-settings'),
+
+    migrateLocalStorageSettings: (legacy: Record<string, string>) =>
+      ipcRenderer.invoke('migrate-local-storage-settings', legacy),
+
+    listCredentials: () => ipcRenderer.invoke('list-credentials'),
+
+    saveCredential: (request: SaveCredentialRequest) =>
+      ipcRenderer.invoke('save-credential', request),
+
+    deleteCredential: (provider: LiveProviderId, name: string) =>
+      ipcRenderer.invoke('delete-credential', provider, name),
+
+    setActiveCredential: (provider: LiveProviderId, name: string) =>
+      ipcRenderer.invoke('set-active-credential', provider, name),
+
+    getUsageSummary: () => ipcRenderer.invoke('get-usage-summary'),
+
+    clearUsageHistory: () => ipcRenderer.invoke('clear-usage-history'),
+
+    getRecordingState: () => ipcRenderer.invoke('get-recording-state'),
+
+    listSessionRecordings: () => ipcRenderer.invoke('list-session-recordings'),
+
+    getTurnRecording: (sessionId: string, timestamp: number) =>
+      ipcRenderer.invoke('get-turn-recording', sessionId, timestamp),
+
+    clearRecordings: () => ipcRenderer.invoke('clear-recordings'),
 
     updateContentProtection: () => ipcRenderer.invoke('update-content-protection'),
 
@@ -68,8 +157,6 @@ const electronAPI = {
   // IPC send methods (fire and forget)
   send: {
     viewChanged: (view: string) => ipcRenderer.send('view-changed', view),
-
-    updateKeybinds: (keybinds: KeybindConfig) => ipcRenderer.send('update-keybinds', keybinds),
   },
 
   // Event listeners (main -> renderer)
@@ -82,6 +169,14 @@ const electronAPI = {
       }
     },
 
+    responseDelta: (callback: (delta: string) => void) => {
+      const listener = (_: unknown, delta: string) => callback(delta)
+      ipcRenderer.on('response-delta', listener)
+      return () => {
+        ipcRenderer.removeListener('response-delta', listener)
+      }
+    },
+
     updateStatus: (callback: (status: string) => void) => {
       const listener = (_: unknown, status: string) => callback(status)
       ipcRenderer.on('update-status', listener)
@@ -114,6 +209,94 @@ const electronAPI = {
       }
     },
 
+    sessionSummary: (callback: (data: SessionSummaryPayload) => void) => {
+      const listener = (_: unknown, data: SessionSummaryPayload) => callback(data)
+      ipcRenderer.on('session-summary', listener)
+      return () => {
+        ipcRenderer.removeListener('session-summary', listener)
+      }
+    },
+
+    sessionMetadata: (callback: (data: SessionMetadataPayload) => void) => {
+      const listener = (_: unknown, data: SessionMetadataPayload) => callback(data)
+      ipcRenderer.on('session-metadata', listener)
+      return () => {
+        ipcRenderer.removeListener('session-metadata', listener)
+      }
+    },
+
+    reconnectionStatus: (callback: (status: ReconnectionStatus) => void) => {
+      const listener = (_: unknown, status: ReconnectionStatus) => callback(status)
+      ipcRenderer.on('reconnection-status', listener)
+      return () => {
+        ipcRenderer.removeListener('reconnection-status', listener)
+      }
+    },
+
+    sessionError: (callback: (error: SessionError | null) => void) => {
+      const listener = (_: unknown, error: SessionError | null) => callback(error)
+      ipcRenderer.on('session-error', listener)
+      return () => {
+        ipcRenderer.removeListener('session-error', listener)
+      }
+    },
+
+    usageUpdated: (callback: (summary: UsageSummary) => void) => {
+      const listener = (_: unknown, summary: UsageSummary) => callback(summary)
+      ipcRenderer.on('usage-updated', listener)
+      return () => {
+        ipcRenderer.removeListener('usage-updated', listener)
+      }
+    },
+
+    recordingState: (callback: (state: RecordingState) => void) => {
+      const listener = (_: unknown, state: RecordingState) => callback(state)
+      ipcRenderer.on('recording-state', listener)
+      return () => {
+        ipcRenderer.removeListener('recording-state', listener)
+      }
+    },
+
+    knowledgeBaseStatus: (callback: (status: KnowledgeBaseStatus) => void) => {
+      const listener = (_: unknown, status: KnowledgeBaseStatus) => callback(status)
+      ipcRenderer.on('knowledge-base-status', listener)
+      return () => {
+        ipcRenderer.removeListener('knowledge-base-status', listener)
+      }
+    },
+
+    toolInvocation: (callback: (invocation: ToolInvocation) => void) => {
+      const listener = (_: unknown, invocation: ToolInvocation) => callback(invocation)
+      ipcRenderer.on('tool-invocation', listener)
+      return () => {
+        ipcRenderer.removeListener('tool-invocation', listener)
+      }
+    },
+
+    mcpStatus: (callback: (status: McpStatus) => void) => {
+      const listener = (_: unknown, status: McpStatus) => callback(status)
+      ipcRenderer.on('mcp-status', listener)
+      return () => {
+        ipcRenderer.removeListener('mcp-status', listener)
+      }
+    },
+
+    settingsChanged: (callback: (change: SettingChange) => void) => {
+      const listener = (_: unknown, change: SettingChange) => callback(change)
+      ipcRenderer.on('settings-changed', listener)
+      return () => {
+        ipcRenderer.removeListener('settings-changed', listener)
+      }
+    },
+
+    credentialsChanged: (callback: (credentials: CredentialInfo[]) => void) => {
+      const listener = (_: unknown, credentials: CredentialInfo[]) => callback(credentials)
+      ipcRenderer.on('credentials-changed', listener)
+      return () => {
+        ipcRenderer.removeListener('credentials-changed', listener)
+      }
+    },
+
     navigatePreviousResponse: (callback: () => void) => {
       const listener = () => callback()
       ipcRenderer.on('navigate-previous-response', listener)
@@ -9,16 +9,28 @@ import HelpView from './components/views/HelpView'
 import HistoryView from './components/views/HistoryView'
 import MainView from './components/views/MainView'
 import OnboardingView from './components/views/OnboardingView'
-import { useConversationStorage, useIpc, useWindowResize } from './hooks'
+import {
+  getStoredModelProvider,
+  useConversationStorage,
+  useIpc,
+  useSetting,
+  useWindowResize,
+} from './hooks'
 import { useAppStore } from './stores/appStore'
+import { getSetting, setSetting } from './stores/settingsStore'
 
 const App = () => {
   const {
     currentView,
     setCurrentView,
     setStatusText,
+    setSessionError,
     addResponse,
+    appendResponseDelta,
+    updateToolInvocation,
+    endResponseStream,
     setIsClickThrough,
+    setIsRecording,
     setSessionActive,
     setStartTime,
     clearResponses,
@@ -29,21 +41,45 @@ const App = () => {
 
   const electronAPI = useIpc()
   const { resizeForCurrentView } = useWindowResize()
+  const [onboardingCompleted] = useSetting('onboardingCompleted')
 
   useConversationStorage()
 
   // Set up IPC event listeners
   useEffect(() => {
     const unsubscribeStatus = electronAPI.on.updateStatus(setStatusText)
+    const unsubscribeSessionError = electronAPI.on.sessionError(setSessionError)
     const unsubscribeResponse = electronAPI.on.updateResponse(addResponse)
+    const unsubscribeResponseDelta = electronAPI.on.responseDelta(appendResponseDelta)
+    const unsubscribeToolInvocation = electronAPI.on.toolInvocation(updateToolInvocation)
+    // A reconnected session starts its answers afresh
+    const unsubscribeReconnection = electronAPI.on.reconnectionStatus(endResponseStream)
     const unsubscribeClickThrough = electronAPI.on.clickThroughToggled(setIsClickThrough)
+    const unsubscribeRecording = electronAPI.on.recordingState(state =>
+      setIsRecording(state.recording)
+    )
 
     return () => {
       unsubscribeStatus()
+      unsubscribeSessionError()
       unsubscribeResponse()
+      unsubscribeResponseDelta()
+      unsubscribeToolInvocation()
+      unsubscribeReconnection()
       unsubscribeClickThrough()
+      unsubscribeRecording()
     }
-  }, [electronAPI.on, setStatusText, addResponse, setIsClickThrough])
+  }, [
+    electronAPI.on,
+    setStatusText,
+    setSessionError,
+    addResponse,
+    appendResponseDelta,
+    updateToolInvocation,
+    endResponseStream,
+    setIsClickThrough,
+    setIsRecording,
+  ])
 
   // Apply layout mode on mount
   useEffect(() => {
@@ -62,11 +98,10 @@ const App = () => {
 
   // Check for onboarding completion
   useEffect(() => {
-    const onboardingCompleted = localStorage.getItem('onboardingCompleted')
     if (!onboardingCompleted && currentView !== 'onboarding') {
       setCurrentView('onboarding')
     }
-  }, [currentView, setCurrentView])
+  }, [onboardingCompleted, currentView, setCurrentView])
 
   // Header event handlers
   const handleCustomizeClick = () => setCurrentView('customize')
@@ -108,19 +143,14 @@ const App = () => {
 
   // Main view event handlers
   const handleStart: MainViewProps['onStart'] = async () => {
-    const apiKey = localStorage.getItem('apiKey')?.trim()
-    if (!apiKey) {
-      // The error state will be triggered within the MainView component
-      console.error('API Key is missing.')
-      return
-    }
-
+    // MainView checks that a key is saved; the main process looks it up itself
+    setSessionError(null)
     try {
       const success = await electronAPI.invoke.initializeGemini(
-        apiKey,
-        localStorage.getItem('customPrompt') || '',
+        getSetting('customPrompt'),
         selectedProfile,
-        selectedLanguage
+        selectedLanguage,
+        getStoredModelProvider()
       )
       if (success) {
         clearResponses()
@@ -146,7 +176,7 @@ const App = () => {
 
   // Onboarding event handler
   const handleOnboardingComplete: OnboardingViewProps['onComplete'] = () => {
-    localStorage.setItem('onboardingCompleted', 'true')
+    void setSetting('onboardingCompleted', true)
     setCurrentView('main')
   }
 
@@ -0,0 +1,106 @@
+import type { AudioDeviceSelection } from '@shared/types'
+
+// Chromium lists pseudo-devices that follow the OS default input under these ids
+export const DEFAULT_DEVICE_ID = 'default'
+const PSEUDO_DEVICE_IDS = new Set([DEFAULT_DEVICE_ID, 'communications'])
+
+// Levels below this read as an empty meter
+const METER_FLOOR_DB = -60
+
+export type AudioInputDevice = Pick<MediaDeviceInfo, 'deviceId' | 'groupId' | 'label'>
+
+export interface AudioTrackConstraintsOptions {
+  sampleRate: number
+  // Echo cancellation and gain control suit a voice; a loopback input should arrive untouched
+  processing: boolean
+}
+
+export const listAudioInputs = async (): Promise<AudioInputDevice[]> => {
+  const devices = await navigator.mediaDevices.enumerateDevices()
+  return devices
+    .filter(device => device.kind === 'audioinput')
+    .map(({ deviceId, groupId, label }) => ({ deviceId, groupId, label }))
+}
+
+// Inputs the user can pick, without the pseudo-devices that stand for the default
+export const getSelectableInputs = (devices: AudioInputDevice[]): AudioInputDevice[] =>
+  devices.filter(device => !PSEUDO_DEVICE_IDS.has(device.deviceId))
+
+/**
+ * The device a selection refers to: the same id, else the same label (ids change when
+ * the browser resets them), else nothing because the device is unplugged. Without a
+ * selection this is the default input.
+ */
+export const resolveAudioDevice = (
+  devices: AudioInputDevice[],
+  selection: AudioDeviceSelection | null
+): AudioInputDevice | undefined => {
+  if (!selection) return devices.find(device => device.deviceId === DEFAULT_DEVICE_ID)
+
+  return (
+    devices.find(device => device.deviceId === selection.deviceId) ??
+    (selection.label ? devices.find(device => device.label === selection.label) : undefined)
+  )
+}
+
+// Whether a live track still records from the wanted device. The default entry keeps its
+// id when the OS default changes, so its group tells which hardware it is.
+export const isTrackOnDevice = (
+  settings: Pick<MediaTrackSettings, 'deviceId' | 'groupId'>,
+  device: AudioInputDevice
+): boolean =>
+  device.deviceId === DEFAULT_DEVICE_ID
+    ? settings.groupId === device.groupId
+    : settings.deviceId === device.deviceId
+
+export const buildAudioConstraints = (
+  deviceId: string | undefined,
+  { sampleRate, processing }: AudioTrackConstraintsOptions
+): MediaTrackConstraints => ({
+  ...(deviceId && { deviceId: { exact: deviceId } }),
+  sampleRate,
+  channelCount: 1,
+  echoCancellation: processing,
+  noiseSuppression: processing,
+  autoGainControl: processing,
+})
+
+// Meter position (0-1) for a block of samples: RMS in dBFS, scaled from the floor to 0 dB
+export const levelFromSamples = (samples: Float32Array): number => {
+  if (samples.length === 0) return 0
+
+  let sumSquares = 0
+  for (const sample of samples) sumSquares += sample * sample
+  const rms = Math.sqrt(sumSquares / samples.length)
+  if (rms === 0) return 0
+
+  const db = 20 * Math.log10(rms)
+  return Math.max(0, Math.min(1, (db - METER_FLOOR_DB) / -METER_FLOOR_DB))
+}
+
+/**
+ * Reads the current level of a stream for a VU meter. The analyser is not connected to
+ * the speakers, so checking a loopback input does not play it back.
+ */
+export const createLevelMeter = (stream: MediaStream) => {
+  const context = new AudioContext()
+  const source = context.createMediaStreamSource(stream)
+  const analyser = context.createAnalyser()
+  analyser.fftSize = 1024
+  source.connect(analyser)
+  const samples = new Float32Array(analyser.fftSize)
+
+  const getLevel = (): number => {
+    analyser.getFloatTimeDomainData(samples)
+    return levelFromSamples(samples)
+  }
+
+  const stop = async (): Promise<void> => {
+    source.disconnect()
+    if (context.state !== 'closed') await context.close()
+  }
+
+  return { getLevel, stop }
+}
+
+export type LevelMeter = ReturnType<typeof createLevelMeter>
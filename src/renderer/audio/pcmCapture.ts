@@ -0,0 +1,45 @@
+import workletUrl from './pcmCapture.worklet.ts?worker&url'
+import { PCM_CAPTURE_PROCESSOR, type PcmCaptureProcessorOptions } from './pcmCaptureProtocol'
+
+/**
+ * Captures a media stream as 16-bit mono PCM chunks. Resampling and chunking run in an
+ * AudioWorklet off the main thread; the context keeps the device's native rate so the
+ * browser does not resample a second time.
+ */
+export const createPcmCapture = async (
+  stream: MediaStream,
+  options: PcmCaptureProcessorOptions,
+  onChunk: (chunk: Int16Array) => void
+) => {
+  const context = new AudioContext()
+
+  try {
+    await context.audioWorklet.addModule(workletUrl)
+  } catch (error) {
+    await context.close()
+    throw error
+  }
+
+  const source = context.createMediaStreamSource(stream)
+  // No outputs: the node is pulled by the graph without being routed to the speakers
+  const node = new AudioWorkletNode(context, PCM_CAPTURE_PROCESSOR, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: options,
+  })
+  node.port.onmessage = (event: MessageEvent<Int16Array>) => onChunk(event.data)
+  source.connect(node)
+
+  const stop = async (): Promise<void> => {
+    node.port.onmessage = null
+    source.disconnect()
+    node.disconnect()
+    if (context.state !== 'closed') await context.close()
+  }
+
+  return { stop }
+}
+
+export type PcmCapture = Awaited<ReturnType<typeof createPcmCapture>>
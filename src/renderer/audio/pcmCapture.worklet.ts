@@ -0,0 +1,41 @@
+// Runs in the AudioWorkletGlobalScope, which the DOM lib does not describe
+import { createPcmChunker } from './pcmChunker'
+import { PCM_CAPTURE_PROCESSOR, type PcmCaptureProcessorOptions } from './pcmCaptureProtocol'
+
+declare const sampleRate: number
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort
+  constructor(options?: AudioWorkletNodeOptions)
+}
+declare function registerProcessor(
+  name: string,
+  processorCtor: new (options: AudioWorkletNodeOptions) => AudioWorkletProcessor
+): void
+
+// Turns the first channel of its input into 16-bit PCM chunks at the target rate and
+// transfers each chunk to the main thread
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  private readonly chunker
+
+  constructor(options: AudioWorkletNodeOptions) {
+    super(options)
+    const { targetSampleRate, chunkDurationSeconds } =
+      options.processorOptions as PcmCaptureProcessorOptions
+    this.chunker = createPcmChunker({
+      inputSampleRate: sampleRate,
+      outputSampleRate: targetSampleRate,
+      chunkSamples: Math.round(targetSampleRate * chunkDurationSeconds),
+    })
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const channel = inputs[0]?.[0]
+    if (channel) {
+      this.chunker.push(channel, chunk => this.port.postMessage(chunk, [chunk.buffer]))
+    }
+    // Keep running while the input is silent or briefly disconnected
+    return true
+  }
+}
+
+registerProcessor(PCM_CAPTURE_PROCESSOR, PcmCaptureProcessor)
@@ -0,0 +1,8 @@
+// Shared by the capture worklet and the node that loads it
+
+export const PCM_CAPTURE_PROCESSOR = 'pcm-capture'
+
+export interface PcmCaptureProcessorOptions {
+  targetSampleRate: number
+  chunkDurationSeconds: number
+}
@@ -0,0 +1,88 @@
+export interface PcmChunkerOptions {
+  inputSampleRate: number
+  outputSampleRate: number
+  chunkSamples: number // Output samples per emitted chunk
+}
+
+/**
+ * Resamples float audio blocks to the output rate and cuts them into fixed-size 16-bit
+ * PCM chunks. Runs inside the capture worklet, so push allocates nothing but the chunks.
+ */
+export const createPcmChunker = ({
+  inputSampleRate,
+  outputSampleRate,
+  chunkSamples,
+}: PcmChunkerOptions) => {
+  // Input samples advanced per output sample
+  const step = inputSampleRate / outputSampleRate
+  // One-pole low-pass below the output Nyquist frequency, so downsampling does not alias
+  const smoothing =
+    step > 1 ? 1 - Math.exp((-2 * Math.PI * 0.45 * outputSampleRate) / inputSampleRate) : 1
+
+  // Ring buffer of resampled audio; a few chunks of headroom, oldest samples dropped on overflow
+  const ring = new Float32Array(chunkSamples * 4)
+  let readIndex = 0
+  let writeIndex = 0
+  let buffered = 0
+
+  // Position of the next output sample in the current block; -1..0 interpolates from the
+  // last sample of the previous block
+  let position = 0
+  let previousSample = 0
+  let filtered = 0
+  // Render quanta are 128 frames; grown if a longer block arrives
+  let filteredBlock = new Float32Array(128)
+
+  const write = (sample: number): void => {
+    ring[writeIndex] = sample
+    writeIndex = (writeIndex + 1) % ring.length
+    if (buffered === ring.length) {
+      readIndex = (readIndex + 1) % ring.length
+    } else {
+      buffered++
+    }
+  }
+
+  const readChunk = (): Int16Array => {
+    const chunk = new Int16Array(chunkSamples)
+    for (let i = 0; i < chunkSamples; i++) {
+      const sample = Math.max(-1, Math.min(1, ring[readIndex]))
+      chunk[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff
+      readIndex = (readIndex + 1) % ring.length
+    }
+    buffered -= chunkSamples
+    return chunk
+  }
+
+  const lowPass = (samples: Float32Array): Float32Array => {
+    if (smoothing === 1) return samples
+    if (filteredBlock.length < samples.length) filteredBlock = new Float32Array(samples.length)
+    for (let i = 0; i < samples.length; i++) {
+      filtered += smoothing * (samples[i] - filtered)
+      filteredBlock[i] = filtered
+    }
+    return filteredBlock.subarray(0, samples.length)
+  }
+
+  const push = (input: Float32Array, onChunk: (chunk: Int16Array) => void): void => {
+    if (input.length === 0) return
+    const samples = lowPass(input)
+
+    // Linear interpolation between neighbouring input samples
+    while (position < samples.length - 1) {
+      const index = Math.floor(position)
+      const fraction = position - index
+      const from = index < 0 ? previousSample : samples[index]
+      write(from + (samples[index + 1] - from) * fraction)
+      position += step
+    }
+    position -= samples.length
+    previousSample = samples[samples.length - 1]
+
+    while (buffered >= chunkSamples) onChunk(readChunk())
+  }
+
+  return { push }
+}
+
+export type PcmChunker = ReturnType<typeof createPcmChunker>
@@ -1,4 +1,4 @@
-import type { ViewType } from '@shared/types'
+import type { SessionError, ViewType } from '@shared/types'
 import { Beaker, HelpCircle, History, Settings, X } from 'lucide-react'
 import { useEffect, useState } from 'react'
 import { useIpc } from '../hooks'
@@ -14,6 +14,31 @@ interface AppHeaderProps {
   onHideToggleClick: () => void
 }
 
+const formatClockTime = (timestamp: number): string =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+
+// Session error with what the user can do about it
+const getSessionErrorText = (error: SessionError): string => {
+  switch (error.code) {
+    case 'auth':
+      return `${error.message}, check your API keys in Settings`
+    case 'quota':
+      return error.retryAt
+        ? `${error.message}, retry at ${formatClockTime(error.retryAt)}`
+        : error.message
+    case 'network':
+      return `${error.message}, check your connection`
+    case 'model-unavailable':
+      return error.retryable
+        ? `${error.message}, try again shortly`
+        : `${error.message}, choose another model in Settings`
+    case 'protocol':
+      return `${error.message}, restart the session`
+    default:
+      return error.message
+  }
+}
+
 const AppHeader = ({
   onCustomizeClick,
   onHelpClick,
@@ -23,7 +48,15 @@ const AppHeader = ({
   onBackClick,
   onHideToggleClick,
 }: AppHeaderProps) => {
-  const { currentView, statusText, startTime, advancedMode, isClickThrough } = useAppStore()
+  const {
+    currentView,
+    statusText,
+    sessionError,
+    startTime,
+    advancedMode,
+    isClickThrough,
+    isRecording,
+  } = useAppStore()
   const electronAPI = useIpc()
   const [elapsedTime, setElapsedTime] = useState('')
 
@@ -68,8 +101,31 @@ const AppHeader = ({
     strokeWidth: 1.7,
   }
 
+  const renderSessionError = () =>
+    sessionError && (
+      <span
+        className="truncate text-[#ef4444] [font-size:var(--header-font-size-small)]"
+        title={sessionError.detail}
+      >
+        {getSessionErrorText(sessionError)}
+      </span>
+    )
+
+  // Always visible while a recording runs, so nobody is recorded unknowingly
+  const renderRecordingIndicator = () =>
+    isRecording && (
+      <span
+        className="flex items-center gap-1 rounded bg-[rgba(239,68,68,0.15)] px-1.5 py-0.5 font-semibold text-[#ef4444] [font-size:var(--header-font-size-small)]"
+        title="This session's audio and screenshots are being recorded to disk"
+      >
+        <span className="h-1.5 w-1.5 animate-pulse rounded-full bg-[#ef4444]" />
+        REC
+      </span>
+    )
+
   const renderMainViewActions = () => (
     <>
+      {renderSessionError()}
       <button className={iconButtonClasses} onClick={onHistoryClick} title="Conversation History">
         <History {...iconProps} />
       </button>
@@ -96,6 +152,8 @@ const AppHeader = ({
       <span className="text-[color:var(--header-actions-color)] [font-size:var(--header-font-size-small)]">
         {elapsedTime}
       </span>
+      {renderRecordingIndicator()}
+      {renderSessionError()}
       <span className="text-[color:var(--header-actions-color)] [font-size:var(--header-font-size-small)]">
         {statusText}
       </span>
@@ -0,0 +1,147 @@
+import type { AudioDeviceSelection } from '@shared/types'
+import clsx from 'clsx'
+import { Activity, Square } from 'lucide-react'
+import { useState } from 'react'
+import {
+  type AudioInputDevice,
+  getSelectableInputs,
+  resolveAudioDevice,
+} from '../audio/audioDevices'
+import { useAudioInputs, useAudioLevel, useSetting } from '../hooks'
+
+const DEVICE_SETTINGS = {
+  microphone: 'microphoneDevice',
+  system: 'systemAudioDevice',
+} as const
+
+type DeviceSource = keyof typeof DEVICE_SETTINGS
+
+const SOURCES: Array<{
+  source: DeviceSource
+  title: string
+  defaultName: string
+  description: string
+}> = [
+  {
+    source: 'microphone',
+    title: 'Microphone',
+    defaultName: 'System default',
+    description: 'Your voice. The default follows the input chosen in the OS.',
+  },
+  {
+    source: 'system',
+    title: 'System Audio',
+    defaultName: 'Platform capture',
+    description:
+      'The other side of the call. Pick a loopback input (Stereo Mix, BlackHole, a PulseAudio monitor) to capture and meter it here instead.',
+  },
+]
+
+const formatDeviceName = (device: AudioInputDevice, index: number): string =>
+  device.label || `Input ${index + 1}`
+
+// Level bar; the colour warns when the input gets close to clipping
+const LevelMeter = ({ level }: { level: number }) => (
+  <div className="h-1.5 overflow-hidden rounded-full bg-[rgba(255,255,255,0.08)]">
+    <div
+      className={clsx(
+        'h-full rounded-full transition-[width] duration-75',
+        level > 0.9 ? 'bg-[#ef4444]' : level > 0.75 ? 'bg-[#f59e0b]' : 'bg-[#34d399]'
+      )}
+      style={{ width: `${Math.round(level * 100)}%` }}
+    />
+  </div>
+)
+
+const DeviceRow = ({
+  source,
+  title,
+  defaultName,
+  description,
+  devices,
+  checking,
+  onOpen,
+}: (typeof SOURCES)[number] & {
+  devices: AudioInputDevice[]
+  checking: boolean
+  onOpen: () => void
+}) => {
+  const [selection, setSelection] = useSetting(DEVICE_SETTINGS[source])
+  // Platform system capture runs in the main process and has no input to meter
+  const meterable = source === 'microphone' || selection !== null
+  const { level, error } = useAudioLevel(selection, devices, {
+    enabled: checking && meterable,
+    processing: source === 'microphone',
+    onOpen,
+  })
+
+  const selectable = getSelectableInputs(devices)
+  const connected = selection ? resolveAudioDevice(devices, selection) : undefined
+
+  const handleChange = (deviceId: string) => {
+    const index = selectable.findIndex(device => device.deviceId === deviceId)
+    const next: AudioDeviceSelection | null =
+      index === -1 ? null : { deviceId, label: selectable[index].label }
+    setSelection(next)
+  }
+
+  return (
+    <div className="flex flex-col gap-1.5">
+      <label className="text-xs font-medium text-[--label-color]">{title}</label>
+      <select
+        className="min-h-[16px] w-full cursor-pointer rounded border border-[--input-border] bg-[--input-background] px-2.5 py-2 text-xs font-normal text-[--text-color] transition-all duration-150 ease-in-out focus:border-[--focus-border-color] focus:bg-[--input-focus-background] focus:shadow-[0_0_0_2px_var(--focus-shadow)] focus:outline-none"
+        value={connected?.deviceId ?? selection?.deviceId ?? ''}
+        onChange={e => handleChange(e.target.value)}
+      >
+        <option value="">{defaultName}</option>
+        {selectable.map((device, index) => (
+          <option key={device.deviceId} value={device.deviceId}>
+            {formatDeviceName(device, index)}
+          </option>
+        ))}
+        {selection && !connected && (
+          <option value={selection.deviceId}>
+            {selection.label || 'Saved input'} (disconnected)
+          </option>
+        )}
+      </select>
+      {checking && meterable && <LevelMeter level={level} />}
+      {checking && error && <div className="text-[11px] text-[--danger-color]">{error}</div>}
+      <div className="text-[11px] leading-tight text-[--description-color]">
+        {description}
+        {selection && !connected && ' The saved input is unplugged, so the default is used.'}
+      </div>
+    </div>
+  )
+}
+
+// Input devices for both audio sources, with live meters to check them before a session
+const AudioDevicesPanel = () => {
+  const { devices, refresh } = useAudioInputs()
+  const [checking, setChecking] = useState(false)
+
+  return (
+    <div className="grid gap-3">
+      <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+        {SOURCES.map(row => (
+          <DeviceRow
+            key={row.source}
+            {...row}
+            devices={devices}
+            checking={checking}
+            onOpen={refresh}
+          />
+        ))}
+      </div>
+      <button
+        className="flex w-fit cursor-pointer items-center gap-1.5 rounded border border-[--button-border] bg-[--button-background] px-3 py-2 text-xs font-medium text-[--text-color] transition-all duration-150 ease-in-out hover:border-[--button-hover-border] hover:bg-[--button-hover-background] active:translate-y-px"
+        onClick={() => setChecking(value => !value)}
+      >
+        {checking ? <Square size={14} /> : <Activity size={14} />}
+        {checking ? 'Stop Level Check' : 'Check Levels'}
+      </button>
+    </div>
+  )
+}
+
+export default AudioDevicesPanel
@@ -0,0 +1,134 @@
+import type { AttachContextDocumentsResult, ContextDocument, IpcResult } from '@shared/types'
+import { FileText, Paperclip, Trash2 } from 'lucide-react'
+import { useState } from 'react'
+import { useIpc, useSetting } from '../hooks'
+import { getSetting } from '../stores/settingsStore'
+
+const FORMAT_NAMES: Record<ContextDocument['format'], string> = {
+  pdf: 'PDF',
+  markdown: 'Markdown',
+  text: 'Text',
+}
+
+// Local files whose text is added to the system prompt, up to a token budget
+const ContextDocumentsPanel = () => {
+  const electronAPI = useIpc()
+  const [documents, setDocuments] = useSetting('contextDocuments')
+  const [budget, setBudget] = useSetting('contextTokenBudget')
+  const [status, setStatus] = useState('')
+  const [busy, setBusy] = useState(false)
+
+  const formControlClasses =
+    'w-full min-h-[16px] rounded border border-[--input-border] bg-[--input-background] p-2 text-xs font-normal text-[--text-color] transition-all duration-150 ease-in-out focus:border-[--focus-border-color] focus:bg-[--input-focus-background] focus:shadow-[0_0_0_2px_var(--focus-shadow)] focus:outline-none'
+  const labelClasses = 'text-xs font-medium text-[--label-color]'
+  const descriptionClasses = 'text-[11px] leading-tight text-[--description-color]'
+  const buttonClasses =
+    'flex w-fit cursor-pointer items-center gap-1.5 rounded border border-[--button-border] bg-[--button-background] px-3 py-2 text-xs font-medium text-[--text-color] transition-all duration-150 ease-in-out hover:border-[--button-hover-border] hover:bg-[--button-hover-background] active:translate-y-px disabled:cursor-not-allowed disabled:opacity-50'
+
+  const enabledTokens = documents
+    .filter(document => document.enabled)
+    .reduce((sum, document) => sum + document.tokens, 0)
+
+  const handleAttach = async () => {
+    setBusy(true)
+    setStatus('')
+    try {
+      const result: IpcResult<AttachContextDocumentsResult> =
+        await electronAPI.invoke.attachContextDocuments()
+      if (!result.success) setStatus(`Could not attach documents: ${result.error}`)
+      else if (result.data && !result.data.canceled) {
+        const { attached, errors } = result.data
+        setStatus([`Attached ${attached.length} document(s)`, ...errors].join('. '))
+      }
+    } catch (error) {
+      console.error('Error attaching documents:', error)
+      setStatus('Could not attach documents')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleRemove = async (document: ContextDocument) => {
+    try {
+      const result: IpcResult = await electronAPI.invoke.removeContextDocument(document.id)
+      if (!result.success) setStatus(`Could not remove ${document.name}: ${result.error}`)
+    } catch (error) {
+      console.error('Error removing document:', error)
+      setStatus(`Could not remove ${document.name}`)
+    }
+  }
+
+  const toggle = (id: string) =>
+    setDocuments(
+      getSetting('contextDocuments').map(document =>
+        document.id === id ? { ...document, enabled: !document.enabled } : document
+      )
+    )
+
+  return (
+    <div className="grid gap-3">
+      {documents.length > 0 ? (
+        <ul className="grid gap-1.5">
+          {documents.map(document => (
+            <li
+              key={document.id}
+              className="flex items-center gap-2 rounded border border-[--input-border] bg-[--input-background] px-2 py-1.5 text-xs text-[--text-color]"
+            >
+              <input
+                type="checkbox"
+                className="h-3.5 w-3.5 cursor-pointer accent-[--focus-border-color]"
+                checked={document.enabled}
+                onChange={() => toggle(document.id)}
+                aria-label={`Use ${document.name}`}
+              />
+              <FileText size={14} className="shrink-0 opacity-70" />
+              <span className="min-w-0 flex-1 truncate" title={document.name}>
+                {document.name}
+              </span>
+              <span className={descriptionClasses}>
+                {FORMAT_NAMES[document.format]} · ~{document.tokens.toLocaleString()} tokens
+              </span>
+              <button
+                className="cursor-pointer p-1 text-[--description-color] hover:text-[--text-color]"
+                onClick={() => handleRemove(document)}
+                aria-label={`Remove ${document.name}`}
+              >
+                <Trash2 size={14} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div className={descriptionClasses}>No documents attached.</div>
+      )}
+      <div className="flex flex-wrap items-end gap-3">
+        <button className={buttonClasses} onClick={handleAttach} disabled={busy}>
+          <Paperclip size={14} /> {busy ? 'Reading...' : 'Attach Documents'}
+        </button>
+        <div className="flex flex-col gap-1.5">
+          <label className={labelClasses}>Token Budget</label>
+          <input
+            key={`budget-${budget}`}
+            type="number"
+            className={`${formControlClasses} !w-28`}
+            defaultValue={budget}
+            min={0}
+            step={500}
+            onBlur={e => {
+              const value = parseInt(e.target.value)
+              if (value >= 0 && value !== budget) setBudget(value)
+            }}
+          />
+        </div>
+      </div>
+      <div className={descriptionClasses}>
+        PDF, Markdown and text files. Enabled documents use ~{enabledTokens.toLocaleString()}{' '}
+        tokens; the prompt takes up to {budget.toLocaleString()}, a section of each document in
+        turn, and less when the model's limit is reached. Text is read once when attached.
+      </div>
+      {status && <div className={descriptionClasses}>{status}</div>}
+    </div>
+  )
+}
+
+export default ContextDocumentsPanel
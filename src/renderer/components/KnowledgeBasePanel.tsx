@@ -0,0 +1,195 @@
+import type {
+  IpcResult,
+  KnowledgeBaseSettings,
+  KnowledgeBaseStatus,
+  KnowledgePassage,
+} from '@shared/types'
+import { FolderOpen, RefreshCw, Search } from 'lucide-react'
+import { useState } from 'react'
+import { useIpc, useKnowledgeBaseStatus, useSetting } from '../hooks'
+import { getSetting } from '../stores/settingsStore'
+
+const describeStatus = (status: KnowledgeBaseStatus | null, folder: string): string => {
+  if (!status) return ''
+  if (status.indexing) {
+    return status.progress
+      ? `Indexing ${status.progress.done} of ${status.progress.total} files...`
+      : 'Indexing...'
+  }
+  if (!status.indexedAt || status.folder !== folder) return 'This folder has not been indexed yet.'
+
+  const search = status.embeddingsModel ? `BM25 and ${status.embeddingsModel} embeddings` : 'BM25'
+  return `${status.files} file(s), ${status.passages} passages, searched with ${search}. Indexed ${new Date(status.indexedAt).toLocaleString()}.`
+}
+
+// Folder of documents whose passages are sent to the live model as the conversation goes
+const KnowledgeBasePanel = () => {
+  const electronAPI = useIpc()
+  const [settings, setSettings] = useSetting('knowledgeBase')
+  const status = useKnowledgeBaseStatus()
+  const [message, setMessage] = useState('')
+  const [query, setQuery] = useState('')
+  const [results, setResults] = useState<KnowledgePassage[] | null>(null)
+
+  const formControlClasses =
+    'w-full min-h-[16px] rounded border border-[--input-border] bg-[--input-background] p-2 text-xs font-normal text-[--text-color] transition-all duration-150 ease-in-out focus:border-[--focus-border-color] focus:bg-[--input-focus-background] focus:shadow-[0_0_0_2px_var(--focus-shadow)] focus:outline-none'
+  const labelClasses = 'text-xs font-medium text-[--label-color]'
+  const descriptionClasses = 'text-[11px] leading-tight text-[--description-color]'
+  const buttonClasses =
+    'flex w-fit cursor-pointer items-center gap-1.5 rounded border border-[--button-border] bg-[--button-background] px-3 py-2 text-xs font-medium text-[--text-color] transition-all duration-150 ease-in-out hover:border-[--button-hover-border] hover:bg-[--button-hover-background] active:translate-y-px disabled:cursor-not-allowed disabled:opacity-50'
+
+  const update = (changes: Partial<KnowledgeBaseSettings>) =>
+    setSettings({ ...getSetting('knowledgeBase'), ...changes })
+
+  const rebuild = async () => {
+    setMessage('')
+    try {
+      const result: IpcResult<KnowledgeBaseStatus> = await electronAPI.invoke.rebuildKnowledgeBase()
+      if (!result.success) setMessage(`Could not index the folder: ${result.error}`)
+      else if (result.data?.errors.length) setMessage(result.data.errors.join('. '))
+    } catch (error) {
+      console.error('Error indexing knowledge base:', error)
+      setMessage('Could not index the folder')
+    }
+  }
+
+  const handleChooseFolder = async () => {
+    try {
+      const result: IpcResult<string | null> = await electronAPI.invoke.chooseKnowledgeBaseFolder()
+      if (!result.success) setMessage(`Could not choose a folder: ${result.error}`)
+      else if (result.data) await rebuild()
+    } catch (error) {
+      console.error('Error choosing knowledge base folder:', error)
+      setMessage('Could not choose a folder')
+    }
+  }
+
+  const handleSearch = async () => {
+    if (!query.trim()) return
+    try {
+      const result: IpcResult<KnowledgePassage[]> =
+        await electronAPI.invoke.searchKnowledgeBase(query)
+      if (result.success) setResults(result.data ?? [])
+      else setMessage(`Search failed: ${result.error}`)
+    } catch (error) {
+      console.error('Error searching knowledge base:', error)
+      setMessage('Search failed')
+    }
+  }
+
+  const renderTextInput = (
+    label: string,
+    key: 'embeddingsBaseUrl' | 'embeddingsModel',
+    placeholder: string
+  ) => (
+    <div className="flex flex-col gap-1.5">
+      <label className={labelClasses}>{label}</label>
+      <input
+        key={`${key}-${settings[key]}`}
+        type="text"
+        className={formControlClasses}
+        placeholder={placeholder}
+        defaultValue={settings[key]}
+        onBlur={e => {
+          const value = e.target.value.trim()
+          if (value !== settings[key]) update({ [key]: value })
+        }}
+      />
+    </div>
+  )
+
+  return (
+    <div className="grid gap-3">
+      <label className="flex cursor-pointer items-center gap-2 text-xs text-[--text-color]">
+        <input
+          type="checkbox"
+          className="h-3.5 w-3.5 cursor-pointer accent-[--focus-border-color]"
+          checked={settings.enabled}
+          onChange={e => update({ enabled: e.target.checked })}
+        />
+        Send matching passages to the model during sessions
+      </label>
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="flex min-w-0 flex-1 flex-col gap-1.5">
+          <label className={labelClasses}>Folder</label>
+          <div className={`${formControlClasses} truncate`} title={settings.folder || undefined}>
+            {settings.folder || 'No folder chosen'}
+          </div>
+        </div>
+        <button className={buttonClasses} onClick={handleChooseFolder}>
+          <FolderOpen size={14} /> Choose Folder
+        </button>
+        <button
+          className={buttonClasses}
+          onClick={rebuild}
+          disabled={!settings.folder || status?.indexing}
+        >
+          <RefreshCw size={14} /> Rebuild Index
+        </button>
+      </div>
+      <div className={descriptionClasses}>{describeStatus(status, settings.folder)}</div>
+      <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+        <div className="flex flex-col gap-1.5">
+          <label className={labelClasses}>Passages per Lookup</label>
+          <input
+            key={`passages-${settings.passages}`}
+            type="number"
+            className={formControlClasses}
+            defaultValue={settings.passages}
+            min={1}
+            max={10}
+            onBlur={e => {
+              const passages = parseInt(e.target.value)
+              if (passages >= 1 && passages <= 10 && passages !== settings.passages) {
+                update({ passages })
+              }
+            }}
+          />
+        </div>
+        {renderTextInput('Embeddings Server', 'embeddingsBaseUrl', 'http://localhost:11434/v1')}
+        {renderTextInput('Embeddings Model', 'embeddingsModel', 'nomic-embed-text')}
+      </div>
+      <div className={descriptionClasses}>
+        PDF, Markdown and text files in the folder and its subfolders. Passages are ranked with BM25
+        on this machine; with a local embeddings server they are also ranked by meaning. Leave the
+        server empty to stay fully offline without one. Rebuild after changing it.
+      </div>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          className={formControlClasses}
+          placeholder="Try a search..."
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter') handleSearch()
+          }}
+        />
+        <button className={buttonClasses} onClick={handleSearch} disabled={!query.trim()}>
+          <Search size={14} /> Search
+        </button>
+      </div>
+      {results &&
+        (results.length > 0 ? (
+          <ul className="grid gap-1.5">
+            {results.map(passage => (
+              <li
+                key={`${passage.file}-${passage.text.slice(0, 40)}`}
+                className="rounded border border-[--input-border] bg-[--input-background] px-2 py-1.5 text-xs text-[--text-color]"
+              >
+                <div className={descriptionClasses}>
+                  {passage.file} · score {passage.score.toFixed(3)}
+                </div>
+                <div className="line-clamp-3">{passage.text}</div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className={descriptionClasses}>No matching passages.</div>
+        ))}
+      {message && <div className={descriptionClasses}>{message}</div>}
+    </div>
+  )
+}
+
+export default KnowledgeBasePanel
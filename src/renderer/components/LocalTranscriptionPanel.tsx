@@ -0,0 +1,111 @@
+import type { LocalTranscriptionMode, LocalTranscriptionSettings } from '@shared/types'
+import { useSetting } from '../hooks'
+import { getSetting } from '../stores/settingsStore'
+
+const MODES: Array<{ value: LocalTranscriptionMode; name: string; description: string }> = [
+  { value: 'off', name: 'Off', description: 'Only the live model transcribes.' },
+  {
+    value: 'alongside',
+    name: 'Alongside the live model',
+    description:
+      'Transcribes each speaker locally as well, and keeps transcribing when the live model cannot be reached.',
+  },
+  {
+    value: 'only',
+    name: 'Instead of the live model',
+    description: 'Sessions only keep a local transcript; nothing is sent to a provider.',
+  },
+]
+
+// whisper.cpp engine used for transcripts made on this machine
+const LocalTranscriptionPanel = () => {
+  const [settings, setSettings] = useSetting('localTranscription')
+
+  const formControlClasses =
+    'w-full min-h-[16px] rounded border border-[--input-border] bg-[--input-background] p-2 text-xs font-normal text-[--text-color] transition-all duration-150 ease-in-out focus:border-[--focus-border-color] focus:bg-[--input-focus-background] focus:shadow-[0_0_0_2px_var(--focus-shadow)] focus:outline-none'
+  const selectClasses = `${formControlClasses} cursor-pointer`
+  const labelClasses = 'text-xs font-medium text-[--label-color]'
+  const descriptionClasses = 'text-[11px] leading-tight text-[--description-color]'
+
+  const update = (changes: Partial<LocalTranscriptionSettings>) =>
+    setSettings({ ...getSetting('localTranscription'), ...changes })
+
+  const currentMode = MODES.find(mode => mode.value === settings.mode)
+
+  const renderPathInput = (label: string, key: 'binaryPath' | 'modelPath', placeholder: string) => (
+    <div className="flex flex-col gap-1.5">
+      <label className={labelClasses}>{label}</label>
+      <input
+        key={`${key}-${settings[key]}`}
+        type="text"
+        className={formControlClasses}
+        placeholder={placeholder}
+        defaultValue={settings[key]}
+        onBlur={e => {
+          const value = e.target.value.trim()
+          if (value !== settings[key]) update({ [key]: value })
+        }}
+      />
+    </div>
+  )
+
+  return (
+    <div className="grid gap-3">
+      <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+        <div className="flex flex-col gap-1.5">
+          <label className={labelClasses}>Mode</label>
+          <select
+            className={selectClasses}
+            value={settings.mode}
+            onChange={e => update({ mode: e.target.value as LocalTranscriptionMode })}
+          >
+            {MODES.map(mode => (
+              <option key={mode.value} value={mode.value}>
+                {mode.name}
+              </option>
+            ))}
+          </select>
+          <div className={descriptionClasses}>{currentMode?.description}</div>
+        </div>
+        <div className="flex flex-col gap-1.5">
+          <label className={labelClasses}>Engine</label>
+          <select
+            className={selectClasses}
+            value={settings.engine}
+            onChange={e =>
+              update({ engine: e.target.value as LocalTranscriptionSettings['engine'] })
+            }
+          >
+            <option value="whisper-server">whisper-server (model stays loaded)</option>
+            <option value="whisper-cli">whisper-cli (started per utterance)</option>
+          </select>
+        </div>
+      </div>
+      <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+        {renderPathInput('Binary', 'binaryPath', `${settings.engine} on the PATH`)}
+        {renderPathInput('Model File', 'modelPath', '/path/to/ggml-base.en.bin')}
+      </div>
+      <div className="flex flex-col gap-1.5">
+        <label className={labelClasses}>CPU Threads</label>
+        <input
+          key={`threads-${settings.threads}`}
+          type="number"
+          className={`${formControlClasses} !w-28`}
+          defaultValue={settings.threads}
+          min={1}
+          max={64}
+          onBlur={e => {
+            const threads = parseInt(e.target.value)
+            if (threads >= 1 && threads <= 64 && threads !== settings.threads) update({ threads })
+          }}
+        />
+      </div>
+      <div className={descriptionClasses}>
+        Runs a whisper.cpp build on the CPU. Local transcripts are stored and searchable like the
+        live model's, with each speaker transcribed from their own audio.
+      </div>
+    </div>
+  )
+}
+
+export default LocalTranscriptionPanel
@@ -0,0 +1,238 @@
+import type { IpcResult, McpServerConfig, McpServerStatus, McpStatus } from '@shared/types'
+import { Plus, RefreshCw, Server, Trash2 } from 'lucide-react'
+import { useState } from 'react'
+import { useIpc, useMcpStatus, useSetting } from '../hooks'
+import { getSetting } from '../stores/settingsStore'
+
+// Splits on spaces, keeping quoted parts together: --root "/my notes" -> ['--root', '/my notes']
+const splitArguments = (text: string): string[] =>
+  [...text.matchAll(/"([^"]*)"|'([^']*)'|(\S+)/g)].map(
+    ([, double, single, plain]) => double ?? single ?? plain
+  )
+
+// KEY=value per line; lines without a name are dropped
+const parseEnvironment = (text: string): Record<string, string> =>
+  Object.fromEntries(
+    text
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => /^[A-Za-z_]\w*=/.test(line))
+      .map(line => [line.slice(0, line.indexOf('=')), line.slice(line.indexOf('=') + 1)])
+  )
+
+const describeServer = (status: McpServerStatus | undefined): string => {
+  switch (status?.state) {
+    case 'starting':
+      return 'Starting...'
+    case 'running':
+      return `Running · ${status.tools.length} tool(s)`
+    case 'failed':
+      return 'Failed'
+    default:
+      return 'Stopped'
+  }
+}
+
+const EMPTY_FORM = { name: '', command: '', args: '', env: '' }
+
+// Local Model Context Protocol servers whose tools the live model may call
+const McpServersPanel = () => {
+  const electronAPI = useIpc()
+  const [servers, setServers] = useSetting('mcpServers')
+  const status = useMcpStatus()
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [message, setMessage] = useState('')
+
+  const formControlClasses =
+    'w-full min-h-[16px] rounded border border-[--input-border] bg-[--input-background] p-2 text-xs font-normal text-[--text-color] transition-all duration-150 ease-in-out focus:border-[--focus-border-color] focus:bg-[--input-focus-background] focus:shadow-[0_0_0_2px_var(--focus-shadow)] focus:outline-none'
+  const labelClasses = 'text-xs font-medium text-[--label-color]'
+  const descriptionClasses = 'text-[11px] leading-tight text-[--description-color]'
+  const buttonClasses =
+    'flex w-fit cursor-pointer items-center gap-1.5 rounded border border-[--button-border] bg-[--button-background] px-3 py-2 text-xs font-medium text-[--text-color] transition-all duration-150 ease-in-out hover:border-[--button-hover-border] hover:bg-[--button-hover-background] active:translate-y-px disabled:cursor-not-allowed disabled:opacity-50'
+
+  const statusOf = (id: string) => status?.servers.find(server => server.id === id)
+
+  const toggle = (id: string) =>
+    setServers(
+      getSetting('mcpServers').map(server =>
+        server.id === id ? { ...server, enabled: !server.enabled } : server
+      )
+    )
+
+  const handleRemove = (server: McpServerConfig) => {
+    if (!confirm(`Remove the MCP server "${server.name}"?`)) return
+    setServers(getSetting('mcpServers').filter(existing => existing.id !== server.id))
+  }
+
+  const handleAdd = () => {
+    const name = form.name.trim()
+    const command = form.command.trim()
+    if (!name || !command) return
+    if (getSetting('mcpServers').some(server => server.name === name)) {
+      setMessage(`A server named "${name}" already exists`)
+      return
+    }
+    setServers([
+      ...getSetting('mcpServers'),
+      {
+        id: `mcp-${crypto.randomUUID()}`,
+        name,
+        command,
+        args: splitArguments(form.args),
+        env: parseEnvironment(form.env),
+        enabled: true,
+      },
+    ])
+    setForm(EMPTY_FORM)
+    setMessage('')
+  }
+
+  const handleRestart = async () => {
+    setMessage('')
+    try {
+      const result: IpcResult<McpStatus> = await electronAPI.invoke.restartMcpServers()
+      if (!result.success) setMessage(`Could not restart the servers: ${result.error}`)
+    } catch (error) {
+      console.error('Error restarting MCP servers:', error)
+      setMessage('Could not restart the servers')
+    }
+  }
+
+  const handleClearLog = async () => {
+    try {
+      const result: IpcResult = await electronAPI.invoke.clearMcpCallLog()
+      if (!result.success) setMessage(`Could not clear the call log: ${result.error}`)
+    } catch (error) {
+      console.error('Error clearing MCP call log:', error)
+      setMessage('Could not clear the call log')
+    }
+  }
+
+  const renderInput = (label: string, key: keyof typeof EMPTY_FORM, placeholder: string) => (
+    <div className="flex flex-col gap-1.5">
+      <label className={labelClasses}>{label}</label>
+      <input
+        type="text"
+        className={formControlClasses}
+        placeholder={placeholder}
+        value={form[key]}
+        onChange={e => setForm({ ...form, [key]: e.target.value })}
+      />
+    </div>
+  )
+
+  const calls = status?.calls ?? []
+
+  return (
+    <div className="grid gap-3">
+      {servers.length > 0 ? (
+        <ul className="grid gap-1.5">
+          {servers.map(server => {
+            const serverStatus = statusOf(server.id)
+            return (
+              <li
+                key={server.id}
+                className="rounded border border-[--input-border] bg-[--input-background] px-2 py-1.5 text-xs text-[--text-color]"
+              >
+                <div className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    className="h-3.5 w-3.5 cursor-pointer accent-[--focus-border-color]"
+                    checked={server.enabled}
+                    onChange={() => toggle(server.id)}
+                    aria-label={`Use ${server.name}`}
+                  />
+                  <Server size={14} className="shrink-0 opacity-70" />
+                  <span className="min-w-0 flex-1 truncate" title={server.name}>
+                    {server.name}
+                  </span>
+                  <span className={descriptionClasses}>{describeServer(serverStatus)}</span>
+                  <button
+                    className="cursor-pointer p-1 text-[--description-color] hover:text-[--text-color]"
+                    onClick={() => handleRemove(server)}
+                    aria-label={`Remove ${server.name}`}
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+                <code className={`${descriptionClasses} mt-1 block truncate pl-5`}>
+                  {[server.command, ...server.args].join(' ')}
+                </code>
+                {serverStatus?.error && (
+                  <div className={`${descriptionClasses} mt-1 pl-5`}>{serverStatus.error}</div>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      ) : (
+        <div className={descriptionClasses}>No MCP servers added.</div>
+      )}
+      <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+        {renderInput('Name', 'name', 'Docs')}
+        {renderInput('Command', 'command', 'npx')}
+        {renderInput('Arguments', 'args', '-y @acme/docs-mcp --stdio')}
+      </div>
+      <div className="flex flex-col gap-1.5">
+        <label className={labelClasses}>Environment</label>
+        <textarea
+          className={`${formControlClasses} min-h-[48px] resize-y font-mono`}
+          placeholder="DOCS_TOKEN=..."
+          value={form.env}
+          onChange={e => setForm({ ...form, env: e.target.value })}
+        />
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <button
+          className={buttonClasses}
+          onClick={handleAdd}
+          disabled={!form.name.trim() || !form.command.trim()}
+        >
+          <Plus size={14} /> Add Server
+        </button>
+        <button className={buttonClasses} onClick={handleRestart} disabled={servers.length === 0}>
+          <RefreshCw size={14} /> Restart Servers
+        </button>
+      </div>
+      <div className={descriptionClasses}>
+        Each enabled server is started on this machine over stdio, and its tools are offered to the
+        model as mcp_&lt;server&gt;_&lt;tool&gt;. They can be switched off one by one under Tools
+        while the server runs. Only the Gemini provider calls tools.
+      </div>
+      {message && <div className={descriptionClasses}>{message}</div>}
+      <div className="flex items-center justify-between">
+        <label className={labelClasses}>Call Log</label>
+        {calls.length > 0 && (
+          <button
+            className="cursor-pointer text-[11px] text-[--description-color] hover:text-[--text-color]"
+            onClick={handleClearLog}
+          >
+            Clear
+          </button>
+        )}
+      </div>
+      {calls.length > 0 ? (
+        <ul className="grid max-h-48 gap-1 overflow-y-auto">
+          {calls.map(call => (
+            <li
+              key={call.id}
+              className="rounded border border-[--input-border] bg-[--input-background] px-2 py-1 text-xs text-[--text-color]"
+            >
+              <div className={descriptionClasses}>
+                {new Date(call.startedAt).toLocaleTimeString()} · {call.server} · {call.tool} ·{' '}
+                {call.status === 'failed' ? 'failed' : `${call.durationMs} ms`}
+              </div>
+              <div className="truncate" title={JSON.stringify(call.args)}>
+                {call.summary}
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div className={descriptionClasses}>No calls yet.</div>
+      )}
+    </div>
+  )
+}
+
+export default McpServersPanel
@@ -0,0 +1,278 @@
+import type {
+  CustomProfile,
+  ExportProfilesResult,
+  ImportProfilesResult,
+  IpcResult,
+  PromptBudgetReport,
+  PromptParts,
+  SystemPromptPreview,
+} from '@shared/types'
+import { Download, Eye, Plus, Save, Trash2, Upload } from 'lucide-react'
+import { useState } from 'react'
+import { useIpc, useProfiles } from '../hooks'
+import { useAppStore } from '../stores/appStore'
+import { getSetting } from '../stores/settingsStore'
+
+const SECTIONS: Array<{ key: keyof PromptParts; label: string; description: string }> = [
+  { key: 'intro', label: 'Intro', description: 'Who the assistant is and what the call is about.' },
+  {
+    key: 'formatRequirements',
+    label: 'Format Requirements',
+    description: 'Length and formatting of each answer.',
+  },
+  {
+    key: 'searchUsage',
+    label: 'Search Usage',
+    description: 'When to use Google Search. Left out while search is off.',
+  },
+  { key: 'content', label: 'Content', description: 'Guidance and example exchanges.' },
+  {
+    key: 'outputInstructions',
+    label: 'Output Instructions',
+    description: 'Closing rules for what to output.',
+  },
+]
+
+// Size of the previewed prompt and what had to give way to fit the model's limit
+const describeReport = (report: PromptBudgetReport): string => {
+  const parts = [`~${report.tokens.toLocaleString()} of ${report.limit.toLocaleString()} tokens`]
+  if (report.includedChunks + report.omittedChunks > 0) {
+    parts.push(
+      `${report.includedChunks} document section(s) included, ${report.omittedChunks} left out`
+    )
+  }
+  if (report.truncated.length > 0) {
+    const names = { customPrompt: 'custom instructions', content: 'content' }
+    parts.push(`cut to fit: ${report.truncated.map(section => names[section]).join(', ')}`)
+  }
+  if (report.missingVariables.length > 0) {
+    parts.push(`empty: ${report.missingVariables.map(name => `{{${name}}}`).join(', ')}`)
+  }
+  return parts.join(' · ')
+}
+
+// The settings section remounts on every change, so the profile being edited is kept here
+let lastEditedId: string | null = null
+
+// Create, edit, preview and share user profiles
+const ProfileEditor = () => {
+  const electronAPI = useIpc()
+  const { selectedProfile, setSelectedProfile } = useAppStore()
+  const { customProfiles, setCustomProfiles, getProfileName } = useProfiles()
+  const [draft, setDraft] = useState<CustomProfile | null>(
+    () => customProfiles.find(profile => profile.id === lastEditedId) ?? null
+  )
+  const [preview, setPreview] = useState<SystemPromptPreview | null>(null)
+  const [status, setStatus] = useState('')
+
+  const formControlClasses =
+    'w-full min-h-[16px] rounded border border-[--input-border] bg-[--input-background] p-2 text-xs font-normal text-[--text-color] transition-all duration-150 ease-in-out focus:border-[--focus-border-color] focus:bg-[--input-focus-background] focus:shadow-[0_0_0_2px_var(--focus-shadow)] focus:outline-none'
+  const labelClasses = 'text-xs font-medium text-[--label-color]'
+  const descriptionClasses = 'text-[11px] leading-tight text-[--description-color]'
+  const buttonClasses =
+    'flex w-fit cursor-pointer items-center gap-1.5 rounded border border-[--button-border] bg-[--button-background] px-3 py-2 text-xs font-medium text-[--text-color] transition-all duration-150 ease-in-out hover:border-[--button-hover-border] hover:bg-[--button-hover-background] active:translate-y-px disabled:cursor-not-allowed disabled:opacity-50'
+
+  const editProfile = (profile: CustomProfile | null) => {
+    lastEditedId = profile?.id ?? null
+    setDraft(profile)
+    setPreview(null)
+    setStatus('')
+  }
+
+  const isSaved = draft !== null && customProfiles.some(profile => profile.id === draft.id)
+  const hasChanges =
+    draft !== null &&
+    JSON.stringify(draft) !== JSON.stringify(customProfiles.find(p => p.id === draft.id))
+
+  // New profiles start from the sections of the selected profile
+  const handleNew = async () => {
+    try {
+      const result: IpcResult<PromptParts> =
+        await electronAPI.invoke.getProfilePromptParts(selectedProfile)
+      if (!result.success || !result.data) {
+        setStatus(`Could not load the profile: ${result.error}`)
+        return
+      }
+      editProfile({
+        ...result.data,
+        id: `custom-${crypto.randomUUID()}`,
+        name: `${getProfileName(selectedProfile) ?? 'Profile'} (copy)`,
+      })
+    } catch (error) {
+      console.error('Error creating profile:', error)
+      setStatus('Could not create the profile')
+    }
+  }
+
+  const handleSave = () => {
+    if (!draft) return
+    const profile = { ...draft, name: draft.name.trim() }
+    if (!profile.name) {
+      setStatus('The profile needs a name')
+      return
+    }
+
+    setCustomProfiles(
+      isSaved
+        ? customProfiles.map(saved => (saved.id === profile.id ? profile : saved))
+        : [...customProfiles, profile]
+    )
+    lastEditedId = profile.id
+    setDraft(profile)
+    setStatus('Profile saved')
+  }
+
+  const handleDelete = () => {
+    if (!draft) return
+    if (isSaved && !window.confirm(`Delete the profile "${draft.name}"?`)) return
+
+    setCustomProfiles(customProfiles.filter(profile => profile.id !== draft.id))
+    if (selectedProfile === draft.id) setSelectedProfile('interview')
+    editProfile(null)
+  }
+
+  const handlePreview = async () => {
+    if (!draft) return
+    if (preview !== null) {
+      setPreview(null)
+      return
+    }
+    try {
+      const result: IpcResult<SystemPromptPreview> = await electronAPI.invoke.previewSystemPrompt({
+        parts: draft,
+        customPrompt: getSetting('customPrompt'),
+        googleSearchEnabled: getSetting('googleSearchEnabled'),
+      })
+      if (result.success && result.data) setPreview(result.data)
+      else setStatus(`Preview failed: ${result.error}`)
+    } catch (error) {
+      console.error('Error previewing prompt:', error)
+      setStatus('Preview failed')
+    }
+  }
+
+  const handleExport = async (ids?: string[]) => {
+    setStatus('')
+    try {
+      const result: IpcResult<ExportProfilesResult> = await electronAPI.invoke.exportProfiles(ids)
+      if (!result.success) setStatus(`Export failed: ${result.error}`)
+      else if (!result.data?.canceled) setStatus(`Exported to ${result.data?.filePath}`)
+    } catch (error) {
+      console.error('Error exporting profiles:', error)
+      setStatus('Export failed')
+    }
+  }
+
+  const handleImport = async () => {
+    setStatus('')
+    try {
+      const result: IpcResult<ImportProfilesResult> = await electronAPI.invoke.importProfiles()
+      if (!result.success) setStatus(`Import failed: ${result.error}`)
+      else if (!result.data?.canceled) {
+        setStatus(`Imported ${result.data?.imported.length ?? 0} profile(s)`)
+      }
+    } catch (error) {
+      console.error('Error importing profiles:', error)
+      setStatus('Import failed')
+    }
+  }
+
+  const renderSection = ({ key, label, description }: (typeof SECTIONS)[number]) => (
+    <div key={key} className="flex flex-col gap-1.5">
+      <label className={labelClasses}>{label}</label>
+      <textarea
+        className={`${formControlClasses} min-h-[60px] resize-y font-mono leading-snug`}
+        rows={key === 'content' ? 8 : 4}
+        value={draft?.[key] ?? ''}
+        onChange={e => draft && setDraft({ ...draft, [key]: e.target.value })}
+      />
+      <div className={descriptionClasses}>{description}</div>
+    </div>
+  )
+
+  return (
+    <div className="grid gap-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          className={`${formControlClasses} !w-auto min-w-[180px] cursor-pointer`}
+          value={draft?.id ?? ''}
+          onChange={e =>
+            editProfile(customProfiles.find(profile => profile.id === e.target.value) ?? null)
+          }
+        >
+          <option value="">
+            {customProfiles.length > 0 ? 'Edit a profile...' : 'No profiles yet'}
+          </option>
+          {customProfiles.map(profile => (
+            <option key={profile.id} value={profile.id}>
+              {profile.name}
+            </option>
+          ))}
+          {draft && !isSaved && <option value={draft.id}>{draft.name || 'New profile'}</option>}
+        </select>
+        <button className={buttonClasses} onClick={handleNew}>
+          <Plus size={14} /> New Profile
+        </button>
+        <button className={buttonClasses} onClick={handleImport}>
+          <Upload size={14} /> Import
+        </button>
+        <button
+          className={buttonClasses}
+          onClick={() => handleExport()}
+          disabled={customProfiles.length === 0}
+        >
+          <Download size={14} /> Export All
+        </button>
+      </div>
+      <div className={descriptionClasses}>
+        New profiles copy the sections of the selected profile. Profiles are shared as JSON files;
+        importing a profile again updates it.
+      </div>
+
+      {draft && (
+        <>
+          <div className="flex flex-col gap-1.5">
+            <label className={labelClasses}>Name</label>
+            <input
+              type="text"
+              className={formControlClasses}
+              value={draft.name}
+              placeholder="Incident Bridge"
+              onChange={e => setDraft({ ...draft, name: e.target.value })}
+            />
+          </div>
+          {SECTIONS.map(renderSection)}
+          <div className="flex flex-wrap gap-2">
+            <button className={buttonClasses} onClick={handleSave} disabled={!hasChanges}>
+              <Save size={14} /> Save
+            </button>
+            <button className={buttonClasses} onClick={handlePreview}>
+              <Eye size={14} /> {preview !== null ? 'Hide Preview' : 'Preview Prompt'}
+            </button>
+            <button
+              className={buttonClasses}
+              onClick={() => handleExport([draft.id])}
+              disabled={!isSaved}
+            >
+              <Download size={14} /> Export
+            </button>
+            <button className={buttonClasses} onClick={handleDelete}>
+              <Trash2 size={14} /> {isSaved ? 'Delete' : 'Discard'}
+            </button>
+          </div>
+          {preview !== null && (
+            <>
+              <div className={descriptionClasses}>{describeReport(preview.report)}</div>
+              <pre className="max-h-64 overflow-y-auto whitespace-pre-wrap rounded border border-[--input-border] bg-[--input-background] p-2 text-[11px] leading-snug text-[--text-color]">
+                {preview.prompt}
+              </pre>
+            </>
+          )}
+        </>
+      )}
+      {status && <div className={descriptionClasses}>{status}</div>}
+    </div>
+  )
+}
+
+export default ProfileEditor
@@ -0,0 +1,111 @@
+import type { IpcResult } from '@shared/types'
+import { Trash2 } from 'lucide-react'
+import { useState } from 'react'
+import { useIpc, useSetting } from '../hooks'
+
+const CONSENT_MESSAGE =
+  'Recording saves the audio of everyone on the call and the screenshots sent to the model. ' +
+  'In many places everyone has to agree to being recorded. Turn recording on?'
+
+// Opt-in session recording with its retention limits
+const RecordingSettings = () => {
+  const electronAPI = useIpc()
+  const [recordSessions, setRecordSessions] = useSetting('recordSessions')
+  const [retentionDays, setRetentionDays] = useSetting('recordingRetentionDays')
+  const [maxStorageMb, setMaxStorageMb] = useSetting('recordingMaxStorageMb')
+  const [status, setStatus] = useState('')
+
+  const formControlClasses =
+    'w-28 min-h-[16px] rounded border border-[--input-border] bg-[--input-background] p-2 text-xs font-normal text-[--text-color] transition-all duration-150 ease-in-out focus:border-[--focus-border-color] focus:bg-[--input-focus-background] focus:shadow-[0_0_0_2px_var(--focus-shadow)] focus:outline-none'
+  const labelClasses = 'text-xs font-medium text-[--label-color]'
+  const descriptionClasses = 'text-[11px] leading-tight text-[--description-color]'
+
+  const handleToggle = (enabled: boolean) => {
+    if (enabled && !window.confirm(CONSENT_MESSAGE)) return
+    setRecordSessions(enabled)
+  }
+
+  const handleClear = async () => {
+    setStatus('')
+    try {
+      const result: IpcResult = await electronAPI.invoke.clearRecordings()
+      setStatus(result.success ? 'Recordings deleted' : `Delete failed: ${result.error}`)
+    } catch (error) {
+      console.error('Error deleting recordings:', error)
+      setStatus('Delete failed')
+    }
+  }
+
+  const renderNumberInput = (
+    label: string,
+    value: number,
+    { min, max, onChange }: { min: number; max: number; onChange: (value: number) => void }
+  ) => (
+    <div className="flex flex-col gap-1.5">
+      <label className={labelClasses}>{label}</label>
+      <input
+        key={`${label}-${value}`}
+        type="number"
+        className={formControlClasses}
+        defaultValue={value}
+        min={min}
+        max={max}
+        onBlur={e => {
+          const parsed = parseInt(e.target.value)
+          if (Number.isFinite(parsed) && parsed >= min && parsed <= max && parsed !== value) {
+            onChange(parsed)
+          }
+        }}
+      />
+    </div>
+  )
+
+  return (
+    <div className="grid gap-3">
+      <div className="rounded border border-[rgba(255,255,255,0.06)] bg-[rgba(255,255,255,0.02)] p-2">
+        <label
+          htmlFor="record-sessions"
+          className="flex cursor-pointer select-none items-center gap-2 text-xs font-medium text-[--label-color]"
+        >
+          <input
+            type="checkbox"
+            id="record-sessions"
+            checked={recordSessions}
+            onChange={e => handleToggle(e.target.checked)}
+            className="h-3.5 w-3.5 cursor-pointer accent-[--focus-border-color]"
+          />
+          Record sessions to disk
+        </label>
+      </div>
+      <div className={descriptionClasses}>
+        Saves each session's audio and screenshots under ~/cheddar/data so History can play back
+        what was said in each turn. A REC badge shows in the header while recording. Only record
+        people who agreed to it.
+      </div>
+      <div className="flex gap-3">
+        {renderNumberInput('Keep for (days)', retentionDays, {
+          min: 1,
+          max: 365,
+          onChange: setRetentionDays,
+        })}
+        {renderNumberInput('Storage limit (MB)', maxStorageMb, {
+          min: 100,
+          max: 1_000_000,
+          onChange: setMaxStorageMb,
+        })}
+      </div>
+      <div className={descriptionClasses}>
+        Older recordings are deleted first once either limit is reached.
+      </div>
+      <button
+        className="flex w-fit cursor-pointer items-center gap-1.5 rounded border border-[--button-border] bg-[--button-background] px-3 py-2 text-xs font-medium text-[--text-color] transition-all duration-150 ease-in-out hover:border-[--button-hover-border] hover:bg-[--button-hover-background] active:translate-y-px"
+        onClick={handleClear}
+      >
+        <Trash2 size={14} /> Delete All Recordings
+      </button>
+      {status && <div className={descriptionClasses}>{status}</div>}
+    </div>
+  )
+}
+
+export default RecordingSettings
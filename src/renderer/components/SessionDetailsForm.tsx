@@ -0,0 +1,97 @@
+import {
+  DEFAULT_TEMPLATE_VARIABLES,
+  findTemplateVariables,
+  readVariable,
+} from '@shared/promptTemplate'
+import { useProfiles, useSetting } from '../hooks'
+import { useAppStore } from '../stores/appStore'
+import { getSetting } from '../stores/settingsStore'
+
+const PLACEHOLDERS: Record<string, string> = {
+  company: 'Acme Corp',
+  attendees: 'Dana (CTO), Sam (Procurement)',
+  agenda: 'Renewal terms, rollout timeline, open support tickets',
+}
+
+// "meeting_room" → "Meeting room"
+const toLabel = (name: string): string => {
+  const words = name.replace(/[_-]+/g, ' ').trim()
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+// Values for the {{variables}} of the prompt, filled in before a session starts
+const SessionDetailsForm = () => {
+  const [variables, setVariables] = useSetting('promptVariables')
+  const [customPrompt] = useSetting('customPrompt')
+  const { selectedProfile } = useAppStore()
+  const { customProfiles } = useProfiles()
+
+  const profile = customProfiles.find(custom => custom.id === selectedProfile)
+  const names = [
+    ...new Set([
+      ...DEFAULT_TEMPLATE_VARIABLES,
+      ...findTemplateVariables(
+        customPrompt,
+        ...(profile
+          ? [
+              profile.intro,
+              profile.formatRequirements,
+              profile.searchUsage,
+              profile.content,
+              profile.outputInstructions,
+            ]
+          : [])
+      ),
+    ]),
+  ]
+  const filled = names.filter(name => readVariable(variables, name).trim()).length
+
+  const inputClasses =
+    'w-full rounded-lg border p-2 text-xs transition-all duration-200 ease-in-out placeholder:text-[--placeholder-color] focus:outline-none focus:border-[--focus-border-color] focus:ring-2 focus:ring-[--focus-box-shadow] focus:bg-[--input-focus-background] bg-[--input-background] text-[--text-color] border-[--button-border]'
+
+  const update = (name: string, value: string) =>
+    setVariables({ ...getSetting('promptVariables'), [name]: value })
+
+  return (
+    <details className="mb-4 text-xs text-[--description-color]">
+      <summary className="cursor-pointer select-none text-sm text-[--text-color]">
+        Session details{' '}
+        <span className="text-xs text-[--description-color]">
+          ({filled} of {names.length} filled in)
+        </span>
+      </summary>
+      <div className="mt-2 grid gap-2">
+        {names.map(name => (
+          <label key={name} className="flex flex-col gap-1">
+            <span>
+              {toLabel(name)} <code className="opacity-60">{`{{${name}}}`}</code>
+            </span>
+            {name === 'agenda' ? (
+              <textarea
+                className={`${inputClasses} resize-y`}
+                rows={2}
+                value={readVariable(variables, name)}
+                placeholder={PLACEHOLDERS[name]}
+                onChange={e => update(name, e.target.value)}
+              />
+            ) : (
+              <input
+                type="text"
+                className={inputClasses}
+                value={readVariable(variables, name)}
+                placeholder={PLACEHOLDERS[name]}
+                onChange={e => update(name, e.target.value)}
+              />
+            )}
+          </label>
+        ))}
+        <div className="text-[11px] leading-tight">
+          Use the variables in your custom instructions or a custom profile; empty ones are left
+          out, or replaced by a default written as {'{{agenda|not shared}}'}.
+        </div>
+      </div>
+    </details>
+  )
+}
+
+export default SessionDetailsForm
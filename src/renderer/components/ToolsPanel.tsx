@@ -0,0 +1,66 @@
+import type { IpcResult, ToolInfo } from '@shared/types'
+import { useEffect, useState } from 'react'
+import { useIpc, useMcpStatus, useSetting } from '../hooks'
+import { getSetting } from '../stores/settingsStore'
+
+// Function tools the live model may call during a session
+const ToolsPanel = () => {
+  const electronAPI = useIpc()
+  const [enabledTools, setEnabledTools] = useSetting('enabledTools')
+  const [tools, setTools] = useState<ToolInfo[]>([])
+  const mcpStatus = useMcpStatus()
+
+  const descriptionClasses = 'text-[11px] leading-tight text-[--description-color]'
+
+  // Listed again when a flag changes, since defaults are resolved in the main process, and
+  // when MCP servers start or stop
+  useEffect(() => {
+    let cancelled = false
+    electronAPI.invoke
+      .listTools()
+      .then((result: IpcResult<ToolInfo[]>) => {
+        if (!cancelled && result.success) setTools(result.data ?? [])
+      })
+      .catch((error: unknown) => console.error('Failed to list tools:', error))
+    return () => {
+      cancelled = true
+    }
+  }, [electronAPI, enabledTools, mcpStatus?.servers])
+
+  const toggle = (tool: ToolInfo) =>
+    setEnabledTools({ ...getSetting('enabledTools'), [tool.name]: !tool.enabled })
+
+  return (
+    <div className="grid gap-3">
+      <ul className="grid gap-1.5">
+        {tools.map(tool => (
+          <li
+            key={tool.name}
+            className="rounded border border-[--input-border] bg-[--input-background] px-2 py-1.5"
+          >
+            <label className="flex cursor-pointer items-center gap-2 text-xs text-[--text-color]">
+              <input
+                type="checkbox"
+                className="h-3.5 w-3.5 cursor-pointer accent-[--focus-border-color]"
+                checked={tool.enabled}
+                onChange={() => toggle(tool)}
+              />
+              {tool.title}
+              <code className={descriptionClasses}>{tool.name}</code>
+            </label>
+            <div className={`${descriptionClasses} mt-1 pl-5`}>
+              {tool.description}
+              {!tool.available && ' Not offered until it is set up.'}
+            </div>
+          </li>
+        ))}
+      </ul>
+      <div className={descriptionClasses}>
+        Tools run on this machine when the model calls them, and each call is shown above the
+        message box. Only the Gemini provider calls tools. Changes apply to the next session.
+      </div>
+    </div>
+  )
+}
+
+export default ToolsPanel
@@ -0,0 +1,83 @@
+import type { IpcResult, TurnRecording } from '@shared/types'
+import { Play } from 'lucide-react'
+import { useEffect, useState } from 'react'
+import { useIpc } from '../hooks'
+
+const base64ToBlob = (data: string, type: string): Blob =>
+  new Blob([Uint8Array.from(atob(data), char => char.charCodeAt(0))], { type })
+
+// Recorded audio and screenshots of one conversation turn, loaded when asked for
+const TurnPlayback = ({ sessionId, timestamp }: { sessionId: string; timestamp: number }) => {
+  const electronAPI = useIpc()
+  const [recording, setRecording] = useState<TurnRecording | null>(null)
+  const [audioUrl, setAudioUrl] = useState<string | null>(null)
+  const [status, setStatus] = useState('')
+
+  useEffect(
+    () => () => {
+      if (audioUrl) URL.revokeObjectURL(audioUrl)
+    },
+    [audioUrl]
+  )
+
+  const handleLoad = async () => {
+    setStatus('Loading...')
+    try {
+      const result: IpcResult<TurnRecording | null> = await electronAPI.invoke.getTurnRecording(
+        sessionId,
+        timestamp
+      )
+      if (!result.success) {
+        setStatus(`Playback failed: ${result.error}`)
+        return
+      }
+      if (!result.data || (!result.data.audio && result.data.images.length === 0)) {
+        setStatus('Nothing was recorded for this turn')
+        return
+      }
+      setRecording(result.data)
+      if (result.data.audio) {
+        setAudioUrl(URL.createObjectURL(base64ToBlob(result.data.audio, 'audio/wav')))
+      }
+      setStatus('')
+    } catch (error) {
+      console.error('Error loading turn recording:', error)
+      setStatus('Playback failed')
+    }
+  }
+
+  if (!recording) {
+    return (
+      <div className="mb-1.5 flex items-center gap-2">
+        <button
+          className="flex cursor-pointer items-center gap-1 rounded border border-[--button-border] bg-[--button-background] px-2 py-0.5 text-[11px] text-[--text-color] transition-all hover:bg-[--hover-background]"
+          onClick={handleLoad}
+        >
+          <Play size={11} strokeWidth={1.7} />
+          Play recording
+        </button>
+        {status && <span className="text-[11px] text-[--description-color]">{status}</span>}
+      </div>
+    )
+  }
+
+  return (
+    <div className="mb-1.5 flex flex-col gap-1.5">
+      {audioUrl && <audio controls autoPlay src={audioUrl} className="h-8 w-full" />}
+      {recording.images.length > 0 && (
+        <div className="flex gap-1.5 overflow-x-auto">
+          {recording.images.map(image => (
+            <img
+              key={image.timestamp}
+              src={`data:image/jpeg;base64,${image.data}`}
+              alt={`Screenshot at ${new Date(image.timestamp).toLocaleTimeString()}`}
+              className="h-16 rounded border border-[--button-border]"
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default TurnPlayback
@@ -0,0 +1,215 @@
+import type { ModelPrice, SessionUsage, UsageTotals } from '@shared/types'
+import clsx from 'clsx'
+import { AlertTriangle, Trash2 } from 'lucide-react'
+import { useState } from 'react'
+import { useSetting, useUsage } from '../hooks'
+
+const PRICE_FIELDS: Array<{ key: keyof ModelPrice; label: string }> = [
+  { key: 'inputText', label: 'Text in' },
+  { key: 'inputAudio', label: 'Audio in' },
+  { key: 'inputImage', label: 'Image in' },
+  { key: 'output', label: 'Output' },
+]
+
+const EMPTY_PRICE: ModelPrice = { inputText: 0, inputAudio: 0, inputImage: 0, output: 0 }
+
+const formatCost = (usd: number): string => `$${usd < 1 ? usd.toFixed(4) : usd.toFixed(2)}`
+
+const formatTokens = (tokens: number): string =>
+  Math.round(tokens).toLocaleString('en-US', { notation: 'compact', maximumFractionDigits: 1 })
+
+const formatDate = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+
+const sumOutput = ({ output }: Pick<UsageTotals, 'output'>): number =>
+  output.text + output.audio + output.image
+
+// Token usage and costs tracked by the main process, with the budget cap and price table
+const UsageDashboard = () => {
+  const { summary, clearUsageHistory } = useUsage()
+  const [modelPrices, setModelPrices] = useSetting('modelPrices')
+  const [budgetUsd, setBudgetUsd] = useSetting('usageBudgetUsd')
+  const [budgetPeriod, setBudgetPeriod] = useSetting('usageBudgetPeriod')
+  const [isClearing, setIsClearing] = useState(false)
+
+  const formControlClasses =
+    'min-h-[16px] rounded border border-[--input-border] bg-[--input-background] p-2 text-xs font-normal text-[--text-color] transition-all duration-150 ease-in-out focus:border-[--focus-border-color] focus:bg-[--input-focus-background] focus:shadow-[0_0_0_2px_var(--focus-shadow)] focus:outline-none'
+  const actionButtonClasses =
+    'flex w-fit cursor-pointer items-center gap-1.5 rounded border border-[--button-border] bg-[--button-background] px-3 py-2 text-xs font-medium text-[--text-color] transition-all duration-150 ease-in-out hover:border-[--button-hover-border] hover:bg-[--button-hover-background] active:translate-y-px disabled:opacity-50'
+  const labelClasses = 'text-xs font-medium text-[--label-color]'
+  const descriptionClasses = 'text-[11px] leading-tight text-[--description-color]'
+
+  // Models with a price, plus models used without one so they can be priced
+  const models = [
+    ...new Set([
+      ...Object.keys(modelPrices),
+      ...(summary?.recentSessions.map(session => session.model) ?? []),
+    ]),
+  ]
+
+  const updatePrice = (model: string, key: keyof ModelPrice, value: string) => {
+    const parsed = parseFloat(value)
+    if (!Number.isFinite(parsed) || parsed < 0) return
+    const price = modelPrices[model] ?? EMPTY_PRICE
+    if (price[key] === parsed) return
+    setModelPrices({ ...modelPrices, [model]: { ...price, [key]: parsed } })
+  }
+
+  const handleClear = async () => {
+    setIsClearing(true)
+    try {
+      await clearUsageHistory()
+    } catch (error) {
+      console.error('Error clearing usage history:', error)
+    } finally {
+      setIsClearing(false)
+    }
+  }
+
+  const renderTotals = (title: string, totals: UsageTotals) => (
+    <div className="flex flex-col gap-1 rounded border border-[rgba(255,255,255,0.06)] bg-[rgba(255,255,255,0.02)] p-2">
+      <span className={labelClasses}>{title}</span>
+      <span className="text-base font-semibold text-[--text-color]">
+        {formatCost(totals.costUsd)}
+      </span>
+      <span className={descriptionClasses}>
+        {totals.sessions} session{totals.sessions === 1 ? '' : 's'} · in{' '}
+        {formatTokens(totals.input.text)} text, {formatTokens(totals.input.audio)} audio,{' '}
+        {formatTokens(totals.input.image)} image · out {formatTokens(sumOutput(totals))}
+      </span>
+    </div>
+  )
+
+  const renderSession = (session: SessionUsage) => (
+    <div
+      key={session.sessionId}
+      className="flex items-center justify-between gap-2 border-b border-[rgba(255,255,255,0.06)] py-1.5 text-xs last:border-b-0"
+    >
+      <div className="flex min-w-0 flex-col">
+        <span className="truncate text-[--text-color]">{session.model}</span>
+        <span className={descriptionClasses}>
+          {formatDate(session.startedAt)} ·{' '}
+          {formatTokens(
+            session.input.text + session.input.audio + session.input.image + sumOutput(session)
+          )}{' '}
+          tokens{session.source === 'estimated' && ' (estimated)'}
+        </span>
+      </div>
+      <span className="shrink-0 font-medium text-[--text-color]">
+        {session.costUsd === null ? 'No price' : formatCost(session.costUsd)}
+      </span>
+    </div>
+  )
+
+  if (!summary) {
+    return <div className={descriptionClasses}>Loading usage...</div>
+  }
+
+  const { budget } = summary
+  const budgetPercent =
+    budget.limitUsd > 0 ? Math.min(100, (budget.spentUsd / budget.limitUsd) * 100) : 0
+
+  return (
+    <div className="grid gap-3">
+      <div className="grid grid-cols-2 gap-3">
+        {renderTotals('Today', summary.today)}
+        {renderTotals('This Month', summary.month)}
+      </div>
+
+      <div className="flex flex-col gap-1.5">
+        <label className={labelClasses}>Budget Cap (USD)</label>
+        <div className="flex gap-2">
+          <input
+            key={`budget-${budgetUsd}`}
+            type="number"
+            className={`${formControlClasses} w-32`}
+            defaultValue={budgetUsd}
+            min="0"
+            step="0.5"
+            onBlur={e => {
+              const parsed = parseFloat(e.target.value)
+              if (Number.isFinite(parsed) && parsed >= 0 && parsed !== budgetUsd) {
+                setBudgetUsd(parsed)
+              }
+            }}
+          />
+          <select
+            className={`${formControlClasses} cursor-pointer`}
+            value={budgetPeriod}
+            onChange={e => setBudgetPeriod(e.target.value as typeof budgetPeriod)}
+          >
+            <option value="daily">Per day</option>
+            <option value="monthly">Per month</option>
+          </select>
+        </div>
+        {budget.limitUsd > 0 && (
+          <div className="h-1.5 overflow-hidden rounded-full bg-[rgba(255,255,255,0.08)]">
+            <div
+              className={clsx(
+                'h-full rounded-full',
+                budget.exceeded ? 'bg-[#ef4444]' : 'bg-[--accent-color]'
+              )}
+              style={{ width: `${budgetPercent}%` }}
+            />
+          </div>
+        )}
+        <div className={descriptionClasses}>
+          {budget.limitUsd > 0
+            ? `${formatCost(budget.spentUsd)} of ${formatCost(budget.limitUsd)} spent. Sessions stop when the cap is reached.`
+            : 'Set to 0 for no cap.'}
+        </div>
+        {budget.exceeded && (
+          <div className="flex items-start gap-2 rounded-md border border-[rgba(239,68,68,0.2)] bg-[rgba(239,68,68,0.08)] p-2 text-xs leading-snug text-[#ef4444]">
+            <AlertTriangle size={14} className="mt-px shrink-0" />
+            <span>Budget reached. New sessions will not start until the next period.</span>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-1.5">
+        <label className={labelClasses}>Prices (USD per million tokens)</label>
+        {models.map(model => (
+          <div key={model} className="flex flex-col gap-1">
+            <span className="truncate text-xs text-[--text-color]">{model}</span>
+            <div className="grid grid-cols-4 gap-2">
+              {PRICE_FIELDS.map(({ key, label }) => (
+                <input
+                  key={`${model}-${key}-${modelPrices[model]?.[key]}`}
+                  type="number"
+                  className={formControlClasses}
+                  defaultValue={modelPrices[model]?.[key]}
+                  placeholder={label}
+                  title={label}
+                  min="0"
+                  step="0.01"
+                  onBlur={e => updatePrice(model, key, e.target.value)}
+                />
+              ))}
+            </div>
+          </div>
+        ))}
+        <div className={descriptionClasses}>
+          Text in, audio in, image in and output. Sessions use the provider's reported token counts
+          when available and estimates otherwise.
+        </div>
+      </div>
+
+      {summary.recentSessions.length > 0 && (
+        <div className="flex flex-col gap-1.5">
+          <label className={labelClasses}>Recent Sessions</label>
+          <div className="flex flex-col">{summary.recentSessions.map(renderSession)}</div>
+          <button className={actionButtonClasses} onClick={handleClear} disabled={isClearing}>
+            <Trash2 size={14} /> Clear Usage History
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default UsageDashboard
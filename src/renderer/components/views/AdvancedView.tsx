@@ -1,7 +1,18 @@
 import clsx from 'clsx'
-import { AlertTriangle, CheckCircle2, LoaderCircle, Timer, Trash2, XCircle } from 'lucide-react'
+import {
+  AlertTriangle,
+  CheckCircle2,
+  Gauge,
+  LoaderCircle,
+  RefreshCw,
+  Timer,
+  Trash2,
+  XCircle,
+} from 'lucide-react'
 import { useEffect, useState } from 'react'
-import { useRateLimit, useWindowResize } from '../../hooks'
+import { useRateLimit, useSetting, useWindowResize } from '../../hooks'
+import { resetSettings } from '../../stores/settingsStore'
+import UsageDashboard from '../UsageDashboard'
 
 const AdvancedView = () => {
   const { resizeForCurrentView } = useWindowResize()
@@ -14,6 +25,7 @@ const AdvancedView = () => {
     setThrottleAtPercent,
     resetToDefaults,
   } = useRateLimit()
+  const [reconnectMaxAttempts, setReconnectMaxAttempts] = useSetting('reconnectMaxAttempts')
 
   const [isClearing, setIsClearing] = useState(false)
   const [statusMessage, setStatusMessage] = useState('')
@@ -31,9 +43,10 @@ const AdvancedView = () => {
     setStatusType('')
 
     try {
-      // Clear localStorage and sessionStorage
+      // Clear localStorage and sessionStorage, and restore the default settings
       localStorage.clear()
       sessionStorage.clear()
+      await resetSettings()
 
       // Clear IndexedDB databases
       const databases = await indexedDB.databases()
@@ -58,7 +71,7 @@ const AdvancedView = () => {
       }
 
       setStatusMessage(
-        `Successfully cleared all local data (${databases.length} databases, localStorage, sessionStorage, and caches).`
+        `Successfully cleared all local data (${databases.length} databases, settings, localStorage, sessionStorage, and caches).`
       )
       setStatusType('success')
 
@@ -200,6 +213,31 @@ const AdvancedView = () => {
           </div>
         </Section>
 
+        <Section title="Usage" titleIcon={<Gauge size={16} />}>
+          <UsageDashboard />
+        </Section>
+
+        <Section title="Reconnection" titleIcon={<RefreshCw size={16} />}>
+          <div className="flex flex-col gap-1.5">
+            <label className="text-xs font-medium text-[--label-color]">
+              Max Reconnection Attempts
+            </label>
+            <input
+              type="number"
+              className={`${formControlClasses} w-32`}
+              value={reconnectMaxAttempts}
+              min="0"
+              max="20"
+              step="1"
+              onChange={e => setReconnectMaxAttempts(parseInt(e.target.value, 10))}
+            />
+            <div className="text-[11px] leading-tight text-[--description-color]">
+              Retries after a dropped connection wait 1s, 2s, 4s... (up to 30s). Set to 0 to end the
+              session instead.
+            </div>
+          </div>
+        </Section>
+
         <Section title="Data Management" titleIcon={<Trash2 size={16} />} isDanger>
           <div className="mb-4 flex items-start gap-2 rounded-md border border-[rgba(239,68,68,0.2)] bg-[rgba(239,68,68,0.08)] p-3 text-xs leading-snug text-[#ef4444]">
             <AlertTriangle size={14} className="mt-px shrink-0" />
@@ -1,7 +1,7 @@
-import type { ProfileType } from '@shared/types'
-import { ChevronLeft, ChevronRight } from 'lucide-react'
+import type { ToolInvocation } from '@shared/types'
+import { Ban, Check, ChevronLeft, ChevronRight, LoaderCircle, Wrench, X } from 'lucide-react'
 import { useCallback, useEffect, useRef, useState } from 'react'
-import { useFontSize, useIpc, useMediaCapture } from '../../hooks'
+import { useFontSize, useIpc, useMediaCapture, useProfiles } from '../../hooks'
 import { useAppStore } from '../../stores/appStore'
 
 declare global {
@@ -13,10 +13,20 @@ declare global {
   }
 }
 
+const TOOL_STATUS_ICONS: Record<ToolInvocation['status'], React.ReactNode> = {
+  running: <LoaderCircle size={12} className="animate-spin" />,
+  completed: <Check size={12} className="text-green-500" />,
+  failed: <X size={12} className="text-red-500" />,
+  cancelled: <Ban size={12} />,
+}
+
 const AssistantView = () => {
   const {
     responses,
     currentResponseIndex,
+    isStreamingResponse,
+    sessionError,
+    toolInvocations,
     selectedProfile,
     selectedScreenshotInterval,
     selectedImageQuality,
@@ -30,27 +40,19 @@ const AssistantView = () => {
     sendTextMessage,
     startCapture,
     stopCapture,
-    currentAudioSource,
     microphoneEnabled,
-    toggleAudioSource,
+    microphoneMuted,
+    toggleMicrophone,
   } = useMediaCapture()
   const [fontSize] = useFontSize()
 
-  // Profile names mapping
-  const getProfileNames = (): Record<ProfileType, string> => ({
-    interview: 'Job Interview',
-    sales: 'Sales Call',
-    meeting: 'Business Meeting',
-    presentation: 'Presentation',
-    negotiation: 'Negotiation',
-  })
+  const { getProfileName } = useProfiles()
 
   // Get current response
   const getCurrentResponse = (): string => {
-    const profileNames = getProfileNames()
     return responses.length > 0 && currentResponseIndex >= 0
       ? responses[currentResponseIndex]
-      : `Hey, I'm listening to your ${profileNames[selectedProfile] || 'session'}?`
+      : `Hey, I'm listening to your ${getProfileName(selectedProfile) || 'session'}?`
   }
 
   // Render markdown content
@@ -186,17 +188,41 @@ const AssistantView = () => {
     }
   }, [startCapture, stopCapture, selectedScreenshotInterval, selectedImageQuality])
 
+  // A session ended for good by its quota or the usage budget stops capturing too
+  useEffect(() => {
+    if (sessionError?.code === 'quota' && !sessionError.retryable) {
+      void stopCapture()
+    }
+  }, [sessionError, stopCapture])
+
   const navButtonClasses =
     'flex h-9 w-9 cursor-pointer items-center justify-center rounded-full border-none bg-transparent text-white transition-all duration-150 ease-in-out hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-30 disabled:hover:bg-transparent'
 
   return (
     <div className="flex h-full flex-col font-sans">
       <div
-        className="response-container h-[calc(100%-60px)] overflow-y-auto rounded-lg [background:var(--main-content-background)] p-4"
+        className="response-container min-h-0 flex-1 overflow-y-auto rounded-lg [background:var(--main-content-background)] p-4"
         ref={responseContainerRef}
         style={{ fontSize: `${fontSize}px`, lineHeight: 1.6, scrollBehavior: 'smooth' }}
       />
 
+      {toolInvocations.length > 0 && (
+        <div className="mt-1.5 flex flex-wrap gap-1.5">
+          {toolInvocations.map(invocation => (
+            <div
+              key={invocation.id}
+              className="flex min-w-0 max-w-full items-center gap-1.5 rounded-full border border-[--button-border] bg-[--input-background] px-2.5 py-1 text-xs text-[--description-color]"
+              title={`${invocation.name}(${JSON.stringify(invocation.args)})${invocation.summary ? `\n${invocation.summary}` : ''}`}
+            >
+              <Wrench size={12} className="shrink-0" />
+              <span className="shrink-0 text-[--text-color]">{invocation.title}</span>
+              {TOOL_STATUS_ICONS[invocation.status]}
+              {invocation.summary && <span className="truncate">{invocation.summary}</span>}
+            </div>
+          ))}
+        </div>
+      )}
+
       <div className="mt-2.5 flex items-center gap-2.5">
         <button
           className={navButtonClasses}
@@ -208,27 +234,35 @@ const AssistantView = () => {
         </button>
 
         {responses.length > 0 && (
-          <span className="min-w-16 flex-shrink-0 text-center text-xs text-[--description-color]">
+          <span className="flex min-w-16 flex-shrink-0 items-center justify-center gap-1.5 text-xs text-[--description-color]">
             {getResponseCounter()}
+            {isStreamingResponse && currentResponseIndex === responses.length - 1 && (
+              <span
+                className="h-1.5 w-1.5 animate-pulse rounded-full bg-[--text-color]"
+                title="Response streaming"
+              />
+            )}
           </span>
         )}
 
-        {/* Audio Source Indicator */}
+        {/* Microphone Indicator */}
         {microphoneEnabled && (
           <div className="flex items-center gap-1.5">
             <div
-              className={`h-2 w-2 rounded-full ${
-                currentAudioSource === 'system' ? 'bg-blue-500' : 'bg-green-500'
-              }`}
-              title={`Audio source: ${currentAudioSource === 'system' ? 'System (Interviewer)' : 'Microphone (You)'}`}
+              className={`h-2 w-2 rounded-full ${microphoneMuted ? 'bg-blue-500' : 'bg-green-500'}`}
+              title={
+                microphoneMuted
+                  ? 'Audio: System (Interviewer) only'
+                  : 'Audio: System (Interviewer) and Microphone (You)'
+              }
             />
             <span className="text-xs text-[--description-color]">
-              {currentAudioSource === 'system' ? 'SYS' : 'MIC'}
+              {microphoneMuted ? 'SYS' : 'SYS+MIC'}
             </span>
             <button
-              onClick={toggleAudioSource}
+              onClick={toggleMicrophone}
               className="text-xs text-[--description-color] hover:text-[--text-color] transition-colors"
-              title="Press Cmd+Shift+M to toggle audio source"
+              title="Press Cmd+Shift+M to mute or unmute the microphone"
             >
               (⌘⇧M)
             </button>
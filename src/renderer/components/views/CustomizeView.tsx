@@ -1,15 +1,34 @@
-import type { ImageQuality, LayoutMode, ProfileType, ScreenshotInterval } from '@shared/types'
+import type {
+  ImageQuality,
+  LayoutMode,
+  LiveProviderId,
+  ScreenshotInterval,
+  VoiceActivitySensitivity,
+} from '@shared/types'
 import clsx from 'clsx'
 import { ChevronDown } from 'lucide-react'
 import { useEffect, useState } from 'react'
 import {
   useBackgroundTransparency,
+  useCredentials,
   useFontSize,
   useGoogleSearch,
   useKeybinds,
+  useModelProvider,
+  useProfiles,
+  useSetting,
   useWindowResize,
 } from '../../hooks'
 import { useAppStore } from '../../stores/appStore'
+import { getSetting, setSetting } from '../../stores/settingsStore'
+import AudioDevicesPanel from '../AudioDevicesPanel'
+import ContextDocumentsPanel from '../ContextDocumentsPanel'
+import KnowledgeBasePanel from '../KnowledgeBasePanel'
+import LocalTranscriptionPanel from '../LocalTranscriptionPanel'
+import McpServersPanel from '../McpServersPanel'
+import ProfileEditor from '../ProfileEditor'
+import RecordingSettings from '../RecordingSettings'
+import ToolsPanel from '../ToolsPanel'
 
 const CustomizeView = () => {
   const {
@@ -28,10 +47,19 @@ const CustomizeView = () => {
   } = useAppStore()
 
   const { resizeForCurrentView } = useWindowResize()
+  const { profiles: profileOptions } = useProfiles()
   const { keybinds, updateKeybind, resetKeybinds } = useKeybinds()
   const [googleSearchEnabled, setGoogleSearchEnabled] = useGoogleSearch()
   const [backgroundTransparency, setBackgroundTransparency] = useBackgroundTransparency()
   const [fontSize, setFontSize] = useFontSize()
+  const { provider, updateProvider } = useModelProvider()
+  const { credentials, saveCredential, deleteCredential, setActiveCredential } = useCredentials(
+    provider.id
+  )
+  const [credentialError, setCredentialError] = useState('')
+  const [voiceActivitySensitivity, setVoiceActivitySensitivity] = useSetting(
+    'voiceActivitySensitivity'
+  )
 
   // Microphone permission state
   const [micPermissionStatus, setMicPermissionStatus] = useState<{
@@ -95,13 +123,13 @@ const CustomizeView = () => {
     }
   }
 
-  // Profile options
-  const getProfiles = () => [
-    { value: 'interview' as ProfileType, name: 'Job Interview' },
-    { value: 'sales' as ProfileType, name: 'Sales Call' },
-    { value: 'meeting' as ProfileType, name: 'Business Meeting' },
-    { value: 'presentation' as ProfileType, name: 'Presentation' },
-    { value: 'negotiation' as ProfileType, name: 'Negotiation' },
+  // Model provider options
+  const getProviders = () => [
+    { value: 'gemini' as LiveProviderId, name: 'Google Gemini Live' },
+    {
+      value: 'openai-compatible' as LiveProviderId,
+      name: 'OpenAI-compatible (OpenAI, llama.cpp, Ollama)',
+    },
   ]
 
   // Language options
@@ -197,14 +225,14 @@ const CustomizeView = () => {
     },
     {
       key: 'toggleMicrophone' as const,
-      name: 'Toggle Audio Source',
-      description: 'Switch between system audio and microphone',
+      name: 'Toggle Microphone',
+      description: 'Mute or unmute the microphone; system audio is always heard',
     },
   ]
 
   // Event handlers
   const handleProfileSelect = (e: React.ChangeEvent<HTMLSelectElement>) =>
-    setSelectedProfile(e.target.value as ProfileType)
+    setSelectedProfile(e.target.value)
   const handleLanguageSelect = (e: React.ChangeEvent<HTMLSelectElement>) =>
     setSelectedLanguage(e.target.value)
   const handleScreenshotIntervalSelect = (e: React.ChangeEvent<HTMLSelectElement>) =>
@@ -213,8 +241,32 @@ const CustomizeView = () => {
     setSelectedImageQuality(e.target.value as ImageQuality)
   const handleLayoutModeSelect = (e: React.ChangeEvent<HTMLSelectElement>) =>
     setLayoutMode(e.target.value as LayoutMode)
+  const handleProviderSelect = (e: React.ChangeEvent<HTMLSelectElement>) =>
+    // Model names are provider specific, so fall back to the new provider's default
+    updateProvider({ id: e.target.value as LiveProviderId, model: '' })
+  const handleProviderFieldBlur = (
+    field: 'model' | 'baseUrl' | 'transcriptionModel',
+    e: React.FocusEvent<HTMLInputElement>
+  ) => updateProvider({ [field]: e.target.value.trim() })
+  const runCredentialAction = async (action: () => Promise<void>) => {
+    try {
+      await action()
+      setCredentialError('')
+    } catch (error) {
+      setCredentialError(error instanceof Error ? error.message : 'API key update failed')
+    }
+  }
+  const handleCredentialSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    const form = e.currentTarget
+    const data = new FormData(form)
+    void runCredentialAction(async () => {
+      await saveCredential(String(data.get('name') ?? ''), String(data.get('secret') ?? ''))
+      form.reset()
+    })
+  }
   const handleCustomPromptInput = (e: React.ChangeEvent<HTMLTextAreaElement>) =>
-    localStorage.setItem('customPrompt', e.target.value)
+    void setSetting('customPrompt', e.target.value)
   const handleKeybindChange = (action: string, value: string) =>
     updateKeybind(action as keyof typeof keybinds, value)
 
@@ -250,10 +302,12 @@ const CustomizeView = () => {
     e.target.select()
   }
 
-  const profiles = getProfiles()
+  const profiles = profileOptions.map(p => ({ value: p.id, name: p.name }))
+  const providers = getProviders()
   const languages = getLanguages()
   const keybindActions = getKeybindActions()
   const currentProfile = profiles.find(p => p.value === selectedProfile)
+  const currentProvider = providers.find(p => p.value === provider.id)
   const currentLanguage = languages.find(l => l.value === selectedLanguage)
 
   // Reusable Tailwind classes
@@ -368,17 +422,183 @@ const CustomizeView = () => {
               <textarea
                 className={`${formControlBase} min-h-[60px] resize-y leading-snug placeholder:text-[rgba(255,255,255,0.4)]`}
                 placeholder={`Add specific instructions for how you want the AI to behave...`}
-                defaultValue={localStorage.getItem('customPrompt') || ''}
+                defaultValue={getSetting('customPrompt')}
                 rows={4}
                 onChange={handleCustomPromptInput}
               />
               <div className={formDescriptionBase}>
-                Personalize behavior for the {currentProfile?.name || 'selected profile'}.
+                Personalize behavior for the {currentProfile?.name || 'selected profile'}. Variables
+                like {'{{company}}'} are filled in from the session details on the start screen.
               </div>
             </FormGroup>
           </div>
         </Section>
 
+        <Section title="Custom Profiles">
+          <ProfileEditor />
+        </Section>
+
+        <Section title="Context Documents">
+          <ContextDocumentsPanel />
+        </Section>
+
+        <Section title="Knowledge Base">
+          <KnowledgeBasePanel />
+        </Section>
+
+        <Section title="Model Provider">
+          <div className="grid gap-3">
+            <FormRow>
+              <FormGroup>
+                <label className={formLabelBase}>
+                  Provider <span className={currentSelectionBadge}>✓ {currentProvider?.name}</span>
+                </label>
+                <Select value={provider.id} onChange={handleProviderSelect}>
+                  {providers.map(p => (
+                    <option key={p.value} value={p.value}>
+                      {p.name}
+                    </option>
+                  ))}
+                </Select>
+                <div className={formDescriptionBase}>
+                  Where session audio, screenshots and transcripts are sent.
+                </div>
+              </FormGroup>
+              <FormGroup>
+                <label className={formLabelBase}>Model</label>
+                <input
+                  type="text"
+                  className={formControlBase}
+                  placeholder={
+                    provider.id === 'gemini' ? 'gemini-live-2.5-flash-preview' : 'llama3.2'
+                  }
+                  defaultValue={provider.model || ''}
+                  onBlur={e => handleProviderFieldBlur('model', e)}
+                />
+              </FormGroup>
+            </FormRow>
+            {provider.id === 'openai-compatible' && (
+              <>
+                <FormRow>
+                  <FormGroup>
+                    <label className={formLabelBase}>Base URL</label>
+                    <input
+                      type="text"
+                      className={formControlBase}
+                      placeholder="http://localhost:11434/v1"
+                      defaultValue={provider.baseUrl || ''}
+                      onBlur={e => handleProviderFieldBlur('baseUrl', e)}
+                    />
+                  </FormGroup>
+                  <FormGroup>
+                    <label className={formLabelBase}>Transcription Model</label>
+                    <input
+                      type="text"
+                      className={formControlBase}
+                      placeholder="whisper-1"
+                      defaultValue={provider.transcriptionModel || ''}
+                      onBlur={e => handleProviderFieldBlur('transcriptionModel', e)}
+                    />
+                    <div className={formDescriptionBase}>
+                      Leave empty to ignore audio and answer typed messages only.
+                    </div>
+                  </FormGroup>
+                </FormRow>
+                <div className="rounded border border-[rgba(255,255,255,0.06)] bg-[rgba(255,255,255,0.02)] p-2">
+                  <label htmlFor="provider-vision" className={checkboxLabelBase}>
+                    <input
+                      type="checkbox"
+                      id="provider-vision"
+                      checked={provider.vision ?? false}
+                      onChange={e => updateProvider({ vision: e.target.checked })}
+                      className={checkboxInputBase}
+                    />
+                    Send screenshots (model must support images)
+                  </label>
+                </div>
+              </>
+            )}
+          </div>
+        </Section>
+
+        <Section title="Local Transcription">
+          <LocalTranscriptionPanel />
+        </Section>
+
+        <Section title="API Keys">
+          <div className="grid gap-3">
+            {credentials.length > 0 ? (
+              <div className="grid gap-1.5">
+                {credentials.map(credential => (
+                  <div
+                    key={credential.name}
+                    className="flex items-center justify-between gap-2 rounded border border-[rgba(255,255,255,0.06)] bg-[rgba(255,255,255,0.02)] px-2 py-1.5"
+                  >
+                    <div className="flex items-center gap-2 text-xs text-[--text-color]">
+                      {credential.name}
+                      {credential.active && <span className={currentSelectionBadge}>✓ In use</span>}
+                    </div>
+                    <div className="flex gap-1">
+                      {!credential.active && (
+                        <button
+                          className="rounded px-2 py-1 text-xs text-[--label-color] outline-none hover:bg-white/10 focus-visible:ring-2 focus-visible:ring-blue-500"
+                          onClick={() =>
+                            runCredentialAction(() => setActiveCredential(credential.name))
+                          }
+                        >
+                          Use
+                        </button>
+                      )}
+                      <button
+                        className="rounded px-2 py-1 text-xs text-[--danger-color] outline-none hover:bg-white/10 focus-visible:ring-2 focus-visible:ring-blue-500"
+                        onClick={() => runCredentialAction(() => deleteCredential(credential.name))}
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className={formDescriptionBase}>
+                No API keys saved for {currentProvider?.name ?? 'this provider'}.
+              </div>
+            )}
+            <form
+              className="grid gap-2 md:grid-cols-[1fr_2fr_auto]"
+              onSubmit={handleCredentialSubmit}
+            >
+              <input
+                type="text"
+                name="name"
+                className={formControlBase}
+                placeholder="Name, e.g. work"
+                defaultValue="default"
+              />
+              <input
+                type="password"
+                name="secret"
+                className={formControlBase}
+                placeholder="API key"
+                autoComplete="off"
+              />
+              <button
+                type="submit"
+                className="rounded border border-[--button-border] px-3 py-1 text-xs text-[--text-color] outline-none hover:bg-white/10 focus-visible:ring-2 focus-visible:ring-blue-500"
+              >
+                Save Key
+              </button>
+            </form>
+            {credentialError && (
+              <div className="text-[11px] text-[--danger-color]">{credentialError}</div>
+            )}
+            <div className={formDescriptionBase}>
+              Keys are stored encrypted (in the system keychain when available) and are only
+              decrypted by the main process. Saving an existing name replaces that key.
+            </div>
+          </div>
+        </Section>
+
         <Section title="Language & Audio">
           <FormRow>
             <FormGroup>
@@ -397,9 +617,35 @@ const CustomizeView = () => {
                 Language for speech recognition and AI responses.
               </div>
             </FormGroup>
+            <FormGroup>
+              <label className={formLabelBase}>Voice Detection</label>
+              <Select
+                value={voiceActivitySensitivity}
+                onChange={e =>
+                  setVoiceActivitySensitivity(e.target.value as VoiceActivitySensitivity)
+                }
+              >
+                <option value="off">Off (send all audio)</option>
+                <option value="low">Low (loud speech only)</option>
+                <option value="medium">Medium</option>
+                <option value="high">High (quiet speech)</option>
+              </Select>
+              <div className={formDescriptionBase}>
+                Only audio with speech is sent to the model, which saves tokens during silence.
+                Applies to the next session.
+              </div>
+            </FormGroup>
           </FormRow>
         </Section>
 
+        <Section title="Audio Devices">
+          <AudioDevicesPanel />
+        </Section>
+
+        <Section title="Session Recording">
+          <RecordingSettings />
+        </Section>
+
         <Section title="Interface Layout">
           <div className="grid gap-3">
             <FormRow>
@@ -624,6 +870,14 @@ const CustomizeView = () => {
           </div>
         </Section>
 
+        <Section title="Tools">
+          <ToolsPanel />
+        </Section>
+
+        <Section title="MCP Servers">
+          <McpServersPanel />
+        </Section>
+
         <Section title="⚠️ Advanced Mode" isDanger>
           <div className="rounded border border-[rgba(255,255,255,0.06)] bg-[rgba(255,255,255,0.02)] p-2">
             <label htmlFor="advanced-mode" className={checkboxLabelBase}>
@@ -1,16 +1,59 @@
-import type { ConversationSession } from '@shared/types'
+import type {
+  ConversationSession,
+  ExportFormat,
+  ExportSessionsRequest,
+  ExportSessionsResult,
+  IpcResult,
+  ProfileId,
+  SessionActionItem,
+  SessionMetadata,
+  SessionSummary,
+  TranscriptSpeaker,
+} from '@shared/types'
 import clsx from 'clsx'
-import { ArrowLeft } from 'lucide-react'
-import { useEffect, useState } from 'react'
-import { useConversationStorage, useWindowResize } from '../../hooks'
+import { ArrowLeft, Download, Search } from 'lucide-react'
+import { Fragment, useEffect, useMemo, useState } from 'react'
+import {
+  useConversationStorage,
+  useDebounce,
+  useIpc,
+  useProfiles,
+  useWindowResize,
+} from '../../hooks'
+import { languageNames } from '../../stores/appStore'
+import { getQueryTerms, splitHighlights } from '../../utils/searchIndex'
+import TurnPlayback from '../TurnPlayback'
+
+const exportFormatOptions: Array<{ value: ExportFormat; label: string }> = [
+  { value: 'markdown', label: 'Markdown' },
+  { value: 'json', label: 'JSON' },
+  { value: 'srt', label: 'SRT' },
+  { value: 'vtt', label: 'WebVTT' },
+  { value: 'text', label: 'Text' },
+]
+
+const exportControlClass =
+  'rounded border border-[--button-border] bg-[--input-background] px-2 py-1 text-[11px] text-[--text-color] focus:border-[--focus-border-color] focus:outline-none'
 
 const HistoryView = () => {
   const [sessions, setSessions] = useState<ConversationSession[]>([])
   const [selectedSession, setSelectedSession] = useState<ConversationSession | null>(null)
   const [loading, setLoading] = useState(true)
+  const [searchQuery, setSearchQuery] = useState('')
+  const [searchResults, setSearchResults] = useState<ConversationSession[] | null>(null)
+  const [dateFrom, setDateFrom] = useState('')
+  const [dateTo, setDateTo] = useState('')
+  const [profileFilter, setProfileFilter] = useState<ProfileId | 'all'>('all')
+  const { profiles, getProfileName } = useProfiles()
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('markdown')
+  const [exportStatus, setExportStatus] = useState('')
+  const [recordedSessions, setRecordedSessions] = useState<Set<string>>(new Set())
 
+  const electronAPI = useIpc()
   const { resizeForCurrentView } = useWindowResize()
-  const { getAllConversationSessions } = useConversationStorage()
+  const { getAllConversationSessions, searchConversationSessions } = useConversationStorage()
+  const debouncedQuery = useDebounce(searchQuery, 250)
+  const queryTerms = useMemo(() => getQueryTerms(debouncedQuery), [debouncedQuery])
 
   // Resize window when component mounts
   useEffect(() => {
@@ -35,6 +78,53 @@ const HistoryView = () => {
     loadSessions()
   }, [getAllConversationSessions])
 
+  // Sessions with a recording on disk get playback for each turn
+  useEffect(() => {
+    electronAPI.invoke
+      .listSessionRecordings()
+      .then((result: IpcResult<string[]>) => {
+        if (result.success) setRecordedSessions(new Set(result.data))
+      })
+      .catch((error: unknown) => console.error('Error listing recordings:', error))
+  }, [electronAPI])
+
+  // Run the search against the IndexedDB index instead of scanning every session
+  useEffect(() => {
+    if (queryTerms.length === 0) {
+      setSearchResults(null)
+      return
+    }
+
+    let cancelled = false
+    searchConversationSessions(queryTerms.join(' '))
+      .then(results => {
+        if (!cancelled) setSearchResults(results)
+      })
+      .catch(error => {
+        console.error('Error searching conversation sessions:', error)
+        if (!cancelled) setSearchResults([])
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [queryTerms, searchConversationSessions])
+
+  // Date inputs are local calendar days; the range covers both days entirely
+  const visibleSessions = useMemo(() => {
+    const from = dateFrom ? new Date(`${dateFrom}T00:00:00`).getTime() : -Infinity
+    const to = dateTo ? new Date(`${dateTo}T23:59:59.999`).getTime() : Infinity
+
+    return (searchResults ?? sessions).filter(
+      session =>
+        session.timestamp >= from &&
+        session.timestamp <= to &&
+        (profileFilter === 'all' || session.metadata?.profile === profileFilter)
+    )
+  }, [sessions, searchResults, dateFrom, dateTo, profileFilter])
+
+  const isFiltered = searchResults !== null || dateFrom || dateTo || profileFilter !== 'all'
+
   const formatDate = (timestamp: number): string => {
     const date = new Date(timestamp)
     return date.toLocaleDateString('en-US', {
@@ -52,24 +142,111 @@ const HistoryView = () => {
     })
   }
 
+  const formatSegmentTime = (timestamp: number): string => {
+    const date = new Date(timestamp)
+    return date.toLocaleTimeString('en-US', {
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    })
+  }
+
   const getSessionPreview = (session: ConversationSession): string => {
     if (!session.conversationHistory || session.conversationHistory.length === 0) {
       return 'No conversation yet'
     }
 
+    // While searching, preview the first passage that contains a match
+    if (queryTerms.length > 0) {
+      for (const turn of session.conversationHistory) {
+        for (const text of [turn.transcription, turn.ai_response]) {
+          const parts = splitHighlights(text || '', queryTerms)
+          const matchIndex = parts.findIndex(part => part.match)
+          if (matchIndex === -1) continue
+
+          const offset = parts
+            .slice(0, matchIndex)
+            .reduce((length, part) => length + part.text.length, 0)
+          const start = Math.max(0, offset - 30)
+          const snippet = text.substring(start, start + 100)
+          return `${start > 0 ? '...' : ''}${snippet}${start + 100 < text.length ? '...' : ''}`
+        }
+      }
+    }
+
     const firstTurn = session.conversationHistory[0]
     const preview = firstTurn.transcription || firstTurn.ai_response || 'Empty conversation'
     return preview.length > 100 ? preview.substring(0, 100) + '...' : preview
   }
 
+  const renderHighlighted = (text: string) =>
+    splitHighlights(text, queryTerms).map((part, index) =>
+      part.match ? (
+        <mark key={index} className="rounded-sm bg-[#faa61a] px-px text-black">
+          {part.text}
+        </mark>
+      ) : (
+        part.text
+      )
+    )
+
   const handleSessionClick = (session: ConversationSession) => {
     setSelectedSession(session)
+    setExportStatus('')
   }
 
   const handleBackClick = () => {
     setSelectedSession(null)
+    setExportStatus('')
+  }
+
+  const handleExport = async (request: ExportSessionsRequest) => {
+    setExportStatus('')
+    try {
+      const result: IpcResult<ExportSessionsResult> =
+        await electronAPI.invoke.exportSessions(request)
+
+      if (!result.success) {
+        setExportStatus(`Export failed: ${result.error}`)
+      } else if (result.data && !result.data.canceled) {
+        const count = result.data.filePaths.length
+        setExportStatus(`Exported ${count} ${count === 1 ? 'file' : 'files'}`)
+      }
+    } catch (error) {
+      console.error('Error exporting sessions:', error)
+      setExportStatus('Export failed')
+    }
   }
 
+  const renderFormatSelect = () => (
+    <select
+      className={clsx(exportControlClass, 'cursor-pointer')}
+      value={exportFormat}
+      onChange={e => setExportFormat(e.target.value as ExportFormat)}
+    >
+      {exportFormatOptions.map(option => (
+        <option key={option.value} value={option.value}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  )
+
+  const renderExportButton = (label: string, onClick: () => void) => (
+    <button
+      className="flex cursor-pointer items-center gap-1 rounded border border-[--button-border] bg-[--button-background] px-2 py-1 text-[11px] font-medium text-[--text-color] transition-all hover:bg-[--hover-background]"
+      onClick={onClick}
+    >
+      <Download size={12} strokeWidth={1.7} />
+      {label}
+    </button>
+  )
+
+  const renderExportStatus = () =>
+    exportStatus && (
+      <div className="mb-2 text-[11px] text-[--description-color]">{exportStatus}</div>
+    )
+
   const renderSessionsList = () => {
     if (loading) {
       return (
@@ -92,51 +269,215 @@ const HistoryView = () => {
     }
 
     return (
-      <div className="h-full overflow-y-auto pb-5">
-        {sessions.map(session => (
-          <div
-            key={session.sessionId}
-            className={clsx(
-              'mb-2 cursor-pointer rounded-md border border-[--button-border] bg-[--input-background] p-3 transition-all',
-              'hover:border-[--focus-border-color] hover:bg-[--hover-background]',
-              {
-                'border-[--focus-border-color] bg-[--focus-box-shadow]':
-                  selectedSession?.sessionId === session.sessionId,
+      <>
+        <div className="mb-1.5 flex items-center gap-1.5">
+          <div className="relative flex-1">
+            <Search
+              size={12}
+              strokeWidth={1.7}
+              className="pointer-events-none absolute top-1/2 left-2 -translate-y-1/2 text-[--description-color]"
+            />
+            <input
+              type="text"
+              className={clsx(exportControlClass, 'w-full pl-6')}
+              placeholder="Search conversations..."
+              value={searchQuery}
+              onChange={e => setSearchQuery(e.target.value)}
+            />
+          </div>
+          <select
+            className={clsx(exportControlClass, 'cursor-pointer')}
+            value={profileFilter}
+            onChange={e => setProfileFilter(e.target.value)}
+          >
+            <option value="all">All profiles</option>
+            {profiles.map(profile => (
+              <option key={profile.id} value={profile.id}>
+                {profile.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="mb-2 flex items-center gap-1.5">
+          <input
+            type="date"
+            className={exportControlClass}
+            value={dateFrom}
+            onChange={e => setDateFrom(e.target.value)}
+            title="Sessions from this day"
+          />
+          <span className="text-[11px] text-[--description-color]">to</span>
+          <input
+            type="date"
+            className={exportControlClass}
+            value={dateTo}
+            onChange={e => setDateTo(e.target.value)}
+            title="Sessions up to this day"
+          />
+          <div className="ml-auto flex items-center gap-1.5">
+            {renderFormatSelect()}
+            {renderExportButton(
+              isFiltered ? `Export ${visibleSessions.length}` : 'Export All',
+              () => {
+                if (visibleSessions.length > 0) {
+                  void handleExport({ format: exportFormat, sessions: visibleSessions })
+                }
               }
             )}
-            onClick={() => handleSessionClick(session)}
-          >
-            <div className="mb-1.5 flex items-center justify-between">
-              <div className="text-xs font-semibold text-[--text-color]">
-                {formatDate(session.timestamp)}
+          </div>
+        </div>
+        {renderExportStatus()}
+        <div className="flex-1 overflow-y-auto pb-5">
+          {visibleSessions.length === 0 && (
+            <div className="mt-6 text-center text-xs text-[--description-color]">
+              No sessions match your search
+            </div>
+          )}
+          {visibleSessions.map(session => (
+            <div
+              key={session.sessionId}
+              className={clsx(
+                'mb-2 cursor-pointer rounded-md border border-[--button-border] bg-[--input-background] p-3 transition-all',
+                'hover:border-[--focus-border-color] hover:bg-[--hover-background]',
+                {
+                  'border-[--focus-border-color] bg-[--focus-box-shadow]':
+                    selectedSession?.sessionId === session.sessionId,
+                }
+              )}
+              onClick={() => handleSessionClick(session)}
+            >
+              <div className="mb-1.5 flex items-center justify-between">
+                <div className="text-xs font-semibold text-[--text-color]">
+                  {formatDate(session.timestamp)}
+                  {session.metadata?.profile && (
+                    <span className="ml-1.5 font-normal text-[--description-color]">
+                      {getProfileName(session.metadata.profile)}
+                    </span>
+                  )}
+                </div>
+                <div className="text-[11px] text-[--description-color]">
+                  {formatTime(session.timestamp)}
+                </div>
               </div>
-              <div className="text-[11px] text-[--description-color]">
-                {formatTime(session.timestamp)}
+              <div className="overflow-hidden text-ellipsis whitespace-nowrap text-[11px] leading-tight text-[--description-color]">
+                {renderHighlighted(getSessionPreview(session))}
               </div>
             </div>
-            <div className="overflow-hidden text-ellipsis whitespace-nowrap text-[11px] leading-tight text-[--description-color]">
-              {getSessionPreview(session)}
-            </div>
+          ))}
+        </div>
+      </>
+    )
+  }
+
+  const formatDuration = (durationMs: number): string => {
+    const totalMinutes = Math.round(durationMs / 60_000)
+    if (totalMinutes < 1) return '< 1 min'
+    const hours = Math.floor(totalMinutes / 60)
+    const minutes = totalMinutes % 60
+    return hours > 0 ? `${hours} h ${minutes} min` : `${minutes} min`
+  }
+
+  const toolNames: Record<string, string> = {
+    googleSearch: 'Google Search',
+  }
+
+  const renderMetadata = (metadata: SessionMetadata) => {
+    const details = [
+      metadata.profile && getProfileName(metadata.profile),
+      metadata.language && (languageNames[metadata.language] || metadata.language),
+      metadata.model,
+      formatDuration(metadata.durationMs),
+      ...(metadata.tools ?? []).map(tool => toolNames[tool] || tool),
+    ].filter(Boolean)
+
+    return (
+      <div className="mb-3 text-[11px] leading-normal text-[--description-color]">
+        <div>{details.join(' · ')}</div>
+        {Object.entries(metadata.variables ?? {}).map(([name, value]) => (
+          <div key={name}>
+            <span className="text-[--text-color]">{name}:</span> {value}
           </div>
         ))}
+        {metadata.contextDocuments && metadata.contextDocuments.length > 0 && (
+          <div>
+            <span className="text-[--text-color]">Documents:</span>{' '}
+            {metadata.contextDocuments.join(', ')}
+          </div>
+        )}
+        {metadata.customPrompt && (
+          <details className="mt-1">
+            <summary className="cursor-pointer text-[--text-color]">Custom prompt</summary>
+            <div className="mt-1 max-h-24 overflow-y-auto whitespace-pre-wrap rounded border border-[--button-border] bg-[--input-background] p-2">
+              {metadata.customPrompt}
+            </div>
+          </details>
+        )}
+      </div>
+    )
+  }
+
+  const renderSummaryList = (title: string, items: string[]) => {
+    if (items.length === 0) return null
+
+    return (
+      <div className="mt-2">
+        <div className="mb-0.5 text-[11px] font-semibold text-[--text-color]">{title}</div>
+        <ul className="list-disc pl-4">
+          {items.map((item, index) => (
+            <li key={index}>{item}</li>
+          ))}
+        </ul>
       </div>
     )
   }
 
+  const formatActionItem = (item: SessionActionItem) =>
+    item.owner ? `${item.task} (${item.owner})` : item.task
+
+  const renderSummary = (summary?: SessionSummary, actionItems: SessionActionItem[] = []) => (
+    <div className="mb-3 max-h-40 shrink-0 overflow-y-auto rounded-md border border-[--button-border] bg-[--input-background] p-3 text-xs leading-normal text-[--description-color]">
+      <div className="mb-1 text-xs font-semibold text-[--text-color]">Summary</div>
+      {summary?.overview && <div>{summary.overview}</div>}
+      {summary && renderSummaryList('Decisions', summary.decisions)}
+      {summary && renderSummaryList('Action Items', summary.actionItems.map(formatActionItem))}
+      {renderSummaryList('Action Items Recorded in the Session', actionItems.map(formatActionItem))}
+      {summary && renderSummaryList('Open Questions', summary.openQuestions)}
+    </div>
+  )
+
   const renderConversationView = () => {
     if (!selectedSession) return null
 
     const { conversationHistory } = selectedSession
-    const messages: Array<{ type: 'user' | 'ai'; content: string; timestamp: number }> = []
+    const isRecorded = recordedSessions.has(selectedSession.sessionId)
+    const messages: Array<{
+      type: TranscriptSpeaker | 'ai'
+      content: string
+      timestamp: number
+      startTime?: number
+      turnStart?: boolean
+    }> = []
 
     if (conversationHistory) {
       conversationHistory.forEach(turn => {
-        if (turn.transcription) {
-          messages.push({ type: 'user', content: turn.transcription, timestamp: turn.timestamp })
+        const firstMessage = messages.length
+        if (turn.segments && turn.segments.length > 0) {
+          turn.segments.forEach(segment => {
+            messages.push({
+              type: segment.speaker,
+              content: segment.text,
+              timestamp: turn.timestamp,
+              startTime: segment.startTime,
+            })
+          })
+        } else if (turn.transcription) {
+          // Turns saved before speaker attribution only have the combined transcription
+          messages.push({ type: 'remote', content: turn.transcription, timestamp: turn.timestamp })
         }
         if (turn.ai_response) {
           messages.push({ type: 'ai', content: turn.ai_response, timestamp: turn.timestamp })
         }
+        if (messages[firstMessage]) messages[firstMessage].turnStart = true
       })
     }
 
@@ -150,32 +491,62 @@ const HistoryView = () => {
             <ArrowLeft size={16} strokeWidth={1.7} />
             Back to Sessions
           </button>
+          <div className="flex items-center gap-1.5">
+            {renderFormatSelect()}
+            {renderExportButton('Export', () => {
+              void handleExport({ format: exportFormat, sessions: [selectedSession] })
+            })}
+          </div>
+        </div>
+        {renderExportStatus()}
+        {selectedSession.metadata && renderMetadata(selectedSession.metadata)}
+        <div className="mb-3 flex items-center justify-end">
           <div className="flex items-center gap-3">
             <div className="flex items-center gap-1 text-xs text-[--description-color]">
               <div className="h-1.5 w-1.5 rounded-full bg-[#5865f2]" />
               <span>Them</span>
             </div>
+            <div className="flex items-center gap-1 text-xs text-[--description-color]">
+              <div className="h-1.5 w-1.5 rounded-full bg-[#3ba55d]" />
+              <span>You</span>
+            </div>
             <div className="flex items-center gap-1 text-xs text-[--description-color]">
               <div className="h-1.5 w-1.5 rounded-full bg-[#ed4245]" />
               <span>Suggestion</span>
             </div>
           </div>
         </div>
+        {selectedSession.summary || selectedSession.actionItems?.length
+          ? renderSummary(selectedSession.summary, selectedSession.actionItems)
+          : null}
         <div className="flex-1 overflow-y-auto rounded-md border border-[--button-border] bg-[--main-content-background] p-3 pb-5">
           {messages.length > 0 ? (
             messages.map((message, index) => (
-              <div
-                key={index}
-                className={clsx(
-                  'mb-1.5 rounded-r-md border-l-[3px] bg-[--input-background] px-2.5 py-1.5 text-xs leading-normal',
-                  {
-                    'border-l-[#5865f2]': message.type === 'user',
-                    'border-l-[#ed4245]': message.type === 'ai',
-                  }
+              <Fragment key={index}>
+                {message.turnStart && isRecorded && (
+                  <TurnPlayback
+                    sessionId={selectedSession.sessionId}
+                    timestamp={message.timestamp}
+                  />
                 )}
-              >
-                {message.content}
-              </div>
+                <div
+                  className={clsx(
+                    'mb-1.5 rounded-r-md border-l-[3px] bg-[--input-background] px-2.5 py-1.5 text-xs leading-normal',
+                    {
+                      'border-l-[#5865f2]': message.type === 'remote',
+                      'border-l-[#3ba55d]': message.type === 'local',
+                      'border-l-[#ed4245]': message.type === 'ai',
+                    }
+                  )}
+                >
+                  {message.startTime !== undefined && (
+                    <span className="mr-1.5 text-[10px] text-[--description-color]">
+                      {formatSegmentTime(message.startTime)}
+                    </span>
+                  )}
+                  {renderHighlighted(message.content)}
+                </div>
+              </Fragment>
             ))
           ) : (
             <div className="text-center text-xs text-[--description-color]">
@@ -1,7 +1,15 @@
 import { Command, CornerDownLeft, Eye, EyeOff } from 'lucide-react'
 import { useCallback, useEffect, useState } from 'react'
-import { useEventListener, useIpc, useWindowResize } from '../../hooks'
+import {
+  useCredentials,
+  useEventListener,
+  useIpc,
+  useModelProvider,
+  useSetting,
+  useWindowResize,
+} from '../../hooks'
 import { useAppStore } from '../../stores/appStore'
+import SessionDetailsForm from '../SessionDetailsForm'
 
 interface MainViewProps {
   onStart: () => void
@@ -9,7 +17,8 @@ interface MainViewProps {
 }
 
 const MainView = ({ onStart, onAPIKeyHelp }: MainViewProps) => {
-  const [apiKey, setApiKey] = useState(() => localStorage.getItem('apiKey') || '')
+  // A newly typed key; saved keys never come back to the renderer
+  const [apiKey, setApiKey] = useState('')
   const [isApiKeyVisible, setIsApiKeyVisible] = useState(false)
   const [isInitializing, setIsInitializing] = useState(false)
   const [showApiKeyError, setShowApiKeyError] = useState(false)
@@ -17,6 +26,11 @@ const MainView = ({ onStart, onAPIKeyHelp }: MainViewProps) => {
   const { setLayoutMode } = useAppStore()
   const electronAPI = useIpc()
   const { resizeForCurrentView } = useWindowResize()
+  const { provider, requiresApiKey } = useModelProvider()
+  const { activeCredential, saveCredential } = useCredentials(provider.id)
+  // Local-only sessions never connect to the provider
+  const [localTranscription] = useSetting('localTranscription')
+  const needsApiKey = requiresApiKey && localTranscription.mode !== 'only'
 
   // Load layout mode and resize window on mount
   useEffect(() => {
@@ -33,18 +47,27 @@ const MainView = ({ onStart, onAPIKeyHelp }: MainViewProps) => {
     return unsubscribe
   }, [electronAPI.on])
 
-  const handleStartClick = useCallback(() => {
+  const handleStartClick = useCallback(async () => {
     if (isInitializing) return
 
-    // Check if API key is empty
+    // A typed key replaces the active one (or becomes the first saved key)
     const trimmedApiKey = apiKey.trim()
-    if (!trimmedApiKey) {
+    if (trimmedApiKey) {
+      try {
+        await saveCredential(activeCredential?.name ?? 'default', trimmedApiKey)
+        setApiKey('')
+      } catch (error) {
+        console.error('Failed to save API key:', error)
+        triggerApiKeyError()
+        return
+      }
+    } else if (!activeCredential && needsApiKey) {
       triggerApiKeyError()
       return
     }
 
     onStart()
-  }, [apiKey, isInitializing, onStart])
+  }, [apiKey, activeCredential, isInitializing, onStart, needsApiKey, saveCredential])
 
   // Handle keyboard shortcuts
   const handleKeydown = useCallback(
@@ -67,7 +90,6 @@ const MainView = ({ onStart, onAPIKeyHelp }: MainViewProps) => {
   const handleApiKeyInput = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value
     setApiKey(value)
-    localStorage.setItem('apiKey', value)
 
     // Clear error state when user starts typing
     if (showApiKeyError) {
@@ -123,7 +145,13 @@ const MainView = ({ onStart, onAPIKeyHelp }: MainViewProps) => {
         <div className="relative flex-1 flex items-center">
           <input
             type={isApiKeyVisible ? 'text' : 'password'}
-            placeholder="Enter your Gemini API Key"
+            placeholder={
+              activeCredential
+                ? `Using saved key "${activeCredential.name}"`
+                : provider.id === 'gemini'
+                  ? 'Enter your Gemini API Key'
+                  : 'API Key (optional for local servers)'
+            }
             value={apiKey}
             onChange={handleApiKeyInput}
             className={`${apiKeyInputClasses} ${showApiKeyError ? 'animate-[blink-red_1s_ease-in-out]' : ''}`}
@@ -146,6 +174,8 @@ const MainView = ({ onStart, onAPIKeyHelp }: MainViewProps) => {
         </button>
       </div>
 
+      <SessionDetailsForm />
+
       <p className="mb-6 text-sm leading-normal text-[--description-color]">
         don't have an api key?{' '}
         <span
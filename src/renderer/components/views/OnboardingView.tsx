@@ -2,6 +2,7 @@ import type { OnboardingViewProps } from '@shared/types'
 import clsx from 'clsx'
 import { ArrowLeft, ArrowRight, CheckCircle, FileText, Heart, Settings, Shield } from 'lucide-react'
 import { useCallback, useEffect, useRef, useState } from 'react'
+import { setSetting } from '../../stores/settingsStore'
 
 // Subtle dark color schemes for each slide
 const colorSchemes = [
@@ -173,7 +174,7 @@ const OnboardingView = ({ onComplete, onClose: _onClose }: OnboardingViewProps)
       startColorTransition(currentSlide + 1)
     } else {
       if (contextText.trim()) {
-        localStorage.setItem('customPrompt', contextText.trim())
+        void setSetting('customPrompt', contextText.trim())
       }
       onComplete()
     }
@@ -1,38 +1,41 @@
-import type { KeybindConfig } from '@shared/types'
-import { useCallback, useEffect, useRef, useState } from 'react'
+import { DEFAULT_SETTINGS } from '@shared/settings'
+import type {
+  AppSettings,
+  AudioDeviceSelection,
+  CredentialInfo,
+  IpcResult,
+  KeybindConfig,
+  KnowledgeBaseStatus,
+  LiveProviderId,
+  LiveProviderSettings,
+  McpStatus,
+  ProfileId,
+  ProfileType,
+  SettingKey,
+  UsageSummary,
+} from '@shared/types'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import {
+  type AudioInputDevice,
+  buildAudioConstraints,
+  createLevelMeter,
+  type LevelMeter,
+  listAudioInputs,
+  resolveAudioDevice,
+} from '../audio/audioDevices'
+import { profileNames } from '../stores/appStore'
+import { getSetting, setSetting, useSettingsStore } from '../stores/settingsStore'
 
 export { useConversationStorage } from './useConversationStorage'
 export { useMediaCapture } from './useMediaCapture'
 
-// Local Storage Hook
-export const useLocalStorage = <T>(
-  key: string,
-  initialValue: T
-): [T, (value: T | ((val: T) => T)) => void] => {
-  const [storedValue, setStoredValue] = useState<T>(() => {
-    try {
-      const item = window.localStorage.getItem(key)
-      return item ? JSON.parse(item) : initialValue
-    } catch (error) {
-      console.warn(`Error reading localStorage key "${key}":`, error)
-      return initialValue
-    }
-  })
-
-  const setValue = useCallback(
-    (value: T | ((val: T) => T)) => {
-      try {
-        const valueToStore = value instanceof Function ? value(storedValue) : value
-        setStoredValue(valueToStore)
-        window.localStorage.setItem(key, JSON.stringify(valueToStore))
-      } catch (error) {
-        console.warn(`Error setting localStorage key "${key}":`, error)
-      }
-    },
-    [key, storedValue]
-  )
-
-  return [storedValue, setValue]
+// Settings Hook (values are owned by the main process settings store)
+export const useSetting = <K extends SettingKey>(
+  key: K
+): [AppSettings[K], (value: AppSettings[K]) => void] => {
+  const value = useSettingsStore(state => state.settings[key])
+  const setValue = useCallback((next: AppSettings[K]) => void setSetting(key, next), [key])
+  return [value, setValue]
 }
 
 // IPC Hook for Electron Communication
@@ -117,29 +120,26 @@ const getDefaultKeybinds = (isMacOS: boolean): KeybindConfig => {
 
 export const useKeybinds = () => {
   const electronAPI = useIpc()
-  const [keybinds, setKeybinds] = useLocalStorage<KeybindConfig>(
-    'customKeybinds',
-    getDefaultKeybinds(electronAPI.platform.isMacOS)
-  )
+  const [customKeybinds, setCustomKeybinds] = useSetting('customKeybinds')
 
   const getDefaultKeybindsCallback = useCallback((): KeybindConfig => {
     return getDefaultKeybinds(electronAPI.platform.isMacOS)
   }, [electronAPI.platform.isMacOS])
 
+  const keybinds = useMemo(
+    () => ({ ...getDefaultKeybindsCallback(), ...customKeybinds }),
+    [getDefaultKeybindsCallback, customKeybinds]
+  )
+
+  // The main process re-registers the global shortcuts when the setting changes
   const updateKeybind = useCallback(
     (action: keyof KeybindConfig, keybind: string) => {
-      const newKeybinds = { ...keybinds, [action]: keybind }
-      setKeybinds(newKeybinds)
-      electronAPI.send.updateKeybinds(newKeybinds)
+      setCustomKeybinds({ ...keybinds, [action]: keybind })
     },
-    [keybinds, setKeybinds, electronAPI.send]
+    [keybinds, setCustomKeybinds]
   )
 
-  const resetKeybinds = useCallback(() => {
-    const defaultKeybinds = getDefaultKeybindsCallback()
-    setKeybinds(defaultKeybinds)
-    electronAPI.send.updateKeybinds(defaultKeybinds)
-  }, [getDefaultKeybindsCallback, setKeybinds, electronAPI.send])
+  const resetKeybinds = useCallback(() => setCustomKeybinds(null), [setCustomKeybinds])
 
   return {
     keybinds,
@@ -151,7 +151,7 @@ export const useKeybinds = () => {
 
 // Font Size Hook
 export const useFontSize = () => {
-  const [fontSize, setFontSizeState] = useLocalStorage('fontSize', 18)
+  const [fontSize, setFontSizeState] = useSetting('fontSize')
 
   const setFontSize = useCallback(
     (size: number) => {
@@ -171,7 +171,7 @@ export const useFontSize = () => {
 
 // Background Transparency Hook
 export const useBackgroundTransparency = () => {
-  const [transparency, setTransparencyState] = useLocalStorage('backgroundTransparency', 0.8)
+  const [transparency, setTransparencyState] = useSetting('backgroundTransparency')
 
   const setTransparency = useCallback(
     (value: number) => {
@@ -197,36 +197,280 @@ export const useBackgroundTransparency = () => {
   return [transparency, setTransparency] as const
 }
 
-// Google Search Setting Hook
-export const useGoogleSearch = () => {
-  const [enabled, setEnabledState] = useLocalStorage('googleSearchEnabled', true)
+// Google Search Setting Hook (read by the main process when a session starts)
+export const useGoogleSearch = () => useSetting('googleSearchEnabled')
+
+// Model Provider Hook
+// Local OpenAI-compatible servers usually run without an API key
+export const providerRequiresApiKey = (provider: LiveProviderSettings): boolean =>
+  provider.id === 'gemini'
+
+// Reads the latest saved provider outside of React state (the hook snapshot can be stale)
+export const getStoredModelProvider = (): LiveProviderSettings => getSetting('modelProvider')
+
+export const useModelProvider = () => {
+  const [provider, setProvider] = useSetting('modelProvider')
+
+  const updateProvider = useCallback(
+    (changes: Partial<LiveProviderSettings>) =>
+      setProvider({ ...getSetting('modelProvider'), ...changes }),
+    [setProvider]
+  )
+
+  return { provider, setProvider, updateProvider, requiresApiKey: providerRequiresApiKey(provider) }
+}
+
+// Profiles Hook: the built-in profiles followed by the user's own
+export const useProfiles = () => {
+  const [customProfiles, setCustomProfiles] = useSetting('customProfiles')
+
+  const profiles = useMemo(
+    () => [
+      ...(Object.keys(profileNames) as ProfileType[]).map(id => ({
+        id: id as ProfileId,
+        name: profileNames[id],
+        builtIn: true,
+      })),
+      ...customProfiles.map(profile => ({ id: profile.id, name: profile.name, builtIn: false })),
+    ],
+    [customProfiles]
+  )
+
+  const getProfileName = useCallback(
+    (id: ProfileId): string | undefined => profiles.find(profile => profile.id === id)?.name,
+    [profiles]
+  )
+
+  return { profiles, customProfiles, setCustomProfiles, getProfileName }
+}
+
+// API Keys Hook (secrets stay in the main process; only names are listed)
+export const useCredentials = (providerId: LiveProviderId) => {
+  const electronAPI = useIpc()
+  const [credentials, setCredentials] = useState<CredentialInfo[]>([])
+
+  useEffect(() => {
+    let cancelled = false
+    electronAPI.invoke
+      .listCredentials()
+      .then((result: IpcResult<CredentialInfo[]>) => {
+        if (!cancelled && result.success) setCredentials(result.data ?? [])
+      })
+      .catch((error: unknown) => console.error('Failed to list API keys:', error))
+
+    const unsubscribe = electronAPI.on.credentialsChanged(setCredentials)
+    return () => {
+      cancelled = true
+      unsubscribe()
+    }
+  }, [electronAPI])
+
+  const unwrap = (result: IpcResult): void => {
+    if (!result.success) throw new Error(result.error)
+  }
+
+  const saveCredential = useCallback(
+    async (name: string, secret: string) =>
+      unwrap(await electronAPI.invoke.saveCredential({ provider: providerId, name, secret })),
+    [electronAPI, providerId]
+  )
+
+  const deleteCredential = useCallback(
+    async (name: string) => unwrap(await electronAPI.invoke.deleteCredential(providerId, name)),
+    [electronAPI, providerId]
+  )
+
+  const setActiveCredential = useCallback(
+    async (name: string) => unwrap(await electronAPI.invoke.setActiveCredential(providerId, name)),
+    [electronAPI, providerId]
+  )
+
+  const providerCredentials = credentials.filter(credential => credential.provider === providerId)
+  const activeCredential = providerCredentials.find(credential => credential.active) ?? null
+
+  return {
+    credentials: providerCredentials,
+    activeCredential,
+    saveCredential,
+    deleteCredential,
+    setActiveCredential,
+  }
+}
+
+// Usage Hook (token counts and costs are tracked in the main process)
+export const useUsage = () => {
+  const electronAPI = useIpc()
+  const [summary, setSummary] = useState<UsageSummary | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    electronAPI.invoke
+      .getUsageSummary()
+      .then((result: IpcResult<UsageSummary>) => {
+        if (!cancelled && result.success) setSummary(result.data ?? null)
+      })
+      .catch((error: unknown) => console.error('Failed to load usage:', error))
+
+    const unsubscribe = electronAPI.on.usageUpdated(setSummary)
+    return () => {
+      cancelled = true
+      unsubscribe()
+    }
+  }, [electronAPI])
+
+  const clearUsageHistory = useCallback(async () => {
+    const result: IpcResult = await electronAPI.invoke.clearUsageHistory()
+    if (!result.success) throw new Error(result.error)
+  }, [electronAPI])
+
+  return { summary, clearUsageHistory }
+}
+
+// Knowledge Base Hook (status of the index kept in the main process)
+export const useKnowledgeBaseStatus = () => {
   const electronAPI = useIpc()
+  const [status, setStatus] = useState<KnowledgeBaseStatus | null>(null)
 
-  const setEnabled = useCallback(
-    async (value: boolean) => {
-      setEnabledState(value)
+  useEffect(() => {
+    let cancelled = false
+    electronAPI.invoke
+      .getKnowledgeBaseStatus()
+      .then((result: IpcResult<KnowledgeBaseStatus>) => {
+        if (!cancelled && result.success) setStatus(result.data ?? null)
+      })
+      .catch((error: unknown) => console.error('Failed to load knowledge base status:', error))
+
+    const unsubscribe = electronAPI.on.knowledgeBaseStatus(setStatus)
+    return () => {
+      cancelled = true
+      unsubscribe()
+    }
+  }, [electronAPI])
+
+  return status
+}
+
+// MCP Status Hook (servers and call log kept in the main process)
+export const useMcpStatus = () => {
+  const electronAPI = useIpc()
+  const [status, setStatus] = useState<McpStatus | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    electronAPI.invoke
+      .getMcpStatus()
+      .then((result: IpcResult<McpStatus>) => {
+        if (!cancelled && result.success) setStatus(result.data ?? null)
+      })
+      .catch((error: unknown) => console.error('Failed to load MCP status:', error))
+
+    const unsubscribe = electronAPI.on.mcpStatus(setStatus)
+    return () => {
+      cancelled = true
+      unsubscribe()
+    }
+  }, [electronAPI])
+
+  return status
+}
+
+// Audio Inputs Hook (listed again whenever a device is plugged in or removed)
+export const useAudioInputs = () => {
+  const [devices, setDevices] = useState<AudioInputDevice[]>([])
+
+  const refresh = useCallback(async () => {
+    try {
+      setDevices(await listAudioInputs())
+    } catch (error) {
+      console.error('Failed to list audio inputs:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    void refresh()
+    navigator.mediaDevices.addEventListener('devicechange', refresh)
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refresh)
+  }, [refresh])
+
+  return { devices, refresh }
+}
+
+// Audio Level Hook (opens the selected input while enabled and reports its level, 0-1)
+export const useAudioLevel = (
+  selection: AudioDeviceSelection | null,
+  devices: AudioInputDevice[],
+  { enabled, processing, onOpen }: { enabled: boolean; processing: boolean; onOpen?: () => void }
+) => {
+  const [level, setLevel] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+  const onOpenRef = useRef(onOpen)
+  onOpenRef.current = onOpen
+
+  // Without a default entry the browser picks the default input itself
+  const device = resolveAudioDevice(devices, selection)
+  const unavailable = selection !== null && !device
+  const deviceId = selection ? device?.deviceId : undefined
+
+  useEffect(() => {
+    setLevel(0)
+    setError(unavailable ? 'Device not connected' : null)
+    if (!enabled || unavailable) return
+
+    let cancelled = false
+    let frame = 0
+    let stream: MediaStream | null = null
+    let meter: LevelMeter | null = null
+
+    const open = async () => {
       try {
-        await electronAPI.invoke.updateGoogleSearchSetting(value)
+        // Same constraints as a session, so the meter shows what would be sent
+        const opened = await navigator.mediaDevices.getUserMedia({
+          audio: buildAudioConstraints(deviceId, { sampleRate: 24000, processing }),
+          video: false,
+        })
+        if (cancelled) {
+          opened.getTracks().forEach(track => track.stop())
+          return
+        }
+        stream = opened
+        meter = createLevelMeter(stream)
+        // Labels are only listed once an input has been opened
+        onOpenRef.current?.()
+
+        const update = () => {
+          if (!meter) return
+          setLevel(meter.getLevel())
+          frame = requestAnimationFrame(update)
+        }
+        update()
       } catch (error) {
-        console.error('Failed to update Google Search setting:', error)
+        if (!cancelled) setError(error instanceof Error ? error.message : 'Failed to open input')
       }
-    },
-    [setEnabledState, electronAPI.invoke]
-  )
+    }
+    void open()
+
+    return () => {
+      cancelled = true
+      cancelAnimationFrame(frame)
+      void meter?.stop()
+      meter = null
+      stream?.getTracks().forEach(track => track.stop())
+    }
+  }, [enabled, unavailable, deviceId, processing])
 
-  return [enabled, setEnabled] as const
+  return { level, error }
 }
 
 // Rate Limiting Hook
 export const useRateLimit = () => {
-  const [throttleTokens, setThrottleTokens] = useLocalStorage('throttleTokens', true)
-  const [maxTokensPerMin, setMaxTokensPerMin] = useLocalStorage('maxTokensPerMin', 1000000)
-  const [throttleAtPercent, setThrottleAtPercent] = useLocalStorage('throttleAtPercent', 75)
+  const [throttleTokens, setThrottleTokens] = useSetting('throttleTokens')
+  const [maxTokensPerMin, setMaxTokensPerMin] = useSetting('maxTokensPerMin')
+  const [throttleAtPercent, setThrottleAtPercent] = useSetting('throttleAtPercent')
 
   const resetToDefaults = useCallback(() => {
-    setThrottleTokens(true)
-    setMaxTokensPerMin(1000000)
-    setThrottleAtPercent(75)
+    setThrottleTokens(DEFAULT_SETTINGS.throttleTokens)
+    setMaxTokensPerMin(DEFAULT_SETTINGS.maxTokensPerMin)
+    setThrottleAtPercent(DEFAULT_SETTINGS.throttleAtPercent)
   }, [setThrottleTokens, setMaxTokensPerMin, setThrottleAtPercent])
 
   return {
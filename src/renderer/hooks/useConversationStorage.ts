@@ -1,5 +1,18 @@
-import type { ConversationSession, ConversationTurn } from '@shared/types'
+import type {
+  ConversationSession,
+  ConversationTurn,
+  SessionActionItem,
+  SessionMetadata,
+} from '@shared/types'
 import { useCallback, useEffect, useState } from 'react'
+import {
+  createSearchIndexStore,
+  getQueryTerms,
+  indexSession,
+  removeSessionFromIndex,
+  SEARCH_INDEX_STORE,
+  searchIndex,
+} from '../utils/searchIndex'
 import { useIpc } from './index'
 
 interface ConversationStorageState {
@@ -9,6 +22,17 @@ interface ConversationStorageState {
 
 let conversationDB: IDBDatabase | null = null
 
+const DB_VERSION = 2
+
+// Sessions stored before metadata was recorded get what can be derived from them
+const deriveSessionMetadata = (session: ConversationSession): SessionMetadata => {
+  const lastTurn = session.conversationHistory[session.conversationHistory.length - 1]
+  return {
+    startedAt: session.timestamp,
+    durationMs: Math.max(0, (lastTurn?.timestamp ?? session.lastUpdated) - session.timestamp),
+  }
+}
+
 export const useConversationStorage = () => {
   const [state, setState] = useState<ConversationStorageState>({
     isInitialized: false,
@@ -20,7 +44,7 @@ export const useConversationStorage = () => {
   // Initialize IndexedDB
   const initConversationStorage = useCallback(async (): Promise<void> => {
     return new Promise((resolve, reject) => {
-      const request = indexedDB.open('ConversationHistory', 1)
+      const request = indexedDB.open('ConversationHistory', DB_VERSION)
 
       request.onerror = () => {
         const error = 'Failed to open conversation database'
@@ -34,21 +58,48 @@ export const useConversationStorage = () => {
         resolve()
       }
 
+      // Migrations run in order from the stored version inside one upgrade transaction
       request.onupgradeneeded = event => {
-        const db = (event.target as IDBOpenDBRequest).result
+        const db = request.result
+        const upgradeTransaction = request.transaction!
+        const { oldVersion } = event
 
-        // Create sessions store
-        if (!db.objectStoreNames.contains('sessions')) {
+        // v1: sessions store
+        if (oldVersion < 1) {
           const sessionStore = db.createObjectStore('sessions', { keyPath: 'sessionId' })
           sessionStore.createIndex('timestamp', 'timestamp', { unique: false })
         }
+
+        // v2: searchIndex store (inverted index over conversation text) and session metadata
+        if (oldVersion < 2) {
+          const indexStore = createSearchIndexStore(db)
+
+          // Index sessions stored before search existed and give them metadata
+          const cursorRequest = upgradeTransaction.objectStore('sessions').openCursor()
+          cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result
+            if (cursor) {
+              const session = cursor.value as ConversationSession
+              indexSession(indexStore, session)
+              if (!session.metadata) {
+                cursor.update({ ...session, metadata: deriveSessionMetadata(session) })
+              }
+              cursor.continue()
+            }
+          }
+        }
       }
     })
   }, [])
 
   // Save conversation session
   const saveConversationSession = useCallback(
-    async (sessionId: string, conversationHistory: ConversationTurn[]): Promise<void> => {
+    async (
+      sessionId: string,
+      conversationHistory: ConversationTurn[],
+      metadata?: SessionMetadata,
+      actionItems?: SessionActionItem[]
+    ): Promise<void> => {
       if (!conversationDB) {
         await initConversationStorage()
       }
@@ -57,7 +108,7 @@ export const useConversationStorage = () => {
         throw new Error('Database not initialized')
       }
 
-      const transaction = conversationDB.transaction(['sessions'], 'readwrite')
+      const transaction = conversationDB.transaction(['sessions', SEARCH_INDEX_STORE], 'readwrite')
       const store = transaction.objectStore('sessions')
 
       const sessionData: ConversationSession = {
@@ -65,12 +116,51 @@ export const useConversationStorage = () => {
         timestamp: parseInt(sessionId),
         conversationHistory: conversationHistory,
         lastUpdated: Date.now(),
+        ...(metadata ? { metadata } : {}),
+        ...(actionItems?.length ? { actionItems } : {}),
       }
 
       return new Promise((resolve, reject) => {
-        const request = store.put(sessionData)
-        request.onerror = () => reject(new Error('Failed to save conversation session'))
-        request.onsuccess = () => resolve()
+        store.put(sessionData)
+        indexSession(transaction.objectStore(SEARCH_INDEX_STORE), sessionData)
+        transaction.onerror = () => reject(new Error('Failed to save conversation session'))
+        transaction.oncomplete = () => resolve()
+      })
+    },
+    [initConversationStorage]
+  )
+
+  // Merge fields produced after the conversation (summary, final metadata) into a stored session
+  const updateConversationSession = useCallback(
+    async (
+      sessionId: string,
+      changes: Pick<Partial<ConversationSession>, 'metadata' | 'summary'>
+    ): Promise<void> => {
+      if (!conversationDB) {
+        await initConversationStorage()
+      }
+
+      if (!conversationDB) {
+        throw new Error('Database not initialized')
+      }
+
+      const transaction = conversationDB.transaction(['sessions'], 'readwrite')
+      const store = transaction.objectStore('sessions')
+
+      return new Promise((resolve, reject) => {
+        const getRequest = store.get(sessionId)
+        getRequest.onerror = () => reject(new Error('Failed to load conversation session'))
+        getRequest.onsuccess = () => {
+          const session = getRequest.result as ConversationSession | undefined
+          if (!session) {
+            reject(new Error(`Conversation session ${sessionId} not found`))
+            return
+          }
+
+          const putRequest = store.put({ ...session, ...changes })
+          putRequest.onerror = () => reject(new Error('Failed to update conversation session'))
+          putRequest.onsuccess = () => resolve()
+        }
       })
     },
     [initConversationStorage]
@@ -124,6 +214,42 @@ export const useConversationStorage = () => {
     })
   }, [initConversationStorage])
 
+  // Sessions containing every word of the query (prefix match), newest first
+  const searchConversationSessions = useCallback(
+    async (query: string): Promise<ConversationSession[]> => {
+      if (!conversationDB) {
+        await initConversationStorage()
+      }
+
+      if (!conversationDB) {
+        throw new Error('Database not initialized')
+      }
+
+      const terms = getQueryTerms(query)
+      if (terms.length === 0) return []
+
+      const transaction = conversationDB.transaction(['sessions', SEARCH_INDEX_STORE], 'readonly')
+      const sessionIds = await searchIndex(transaction.objectStore(SEARCH_INDEX_STORE), terms)
+      const store = transaction.objectStore('sessions')
+
+      const sessions = await Promise.all(
+        sessionIds.map(
+          sessionId =>
+            new Promise<ConversationSession | undefined>((resolve, reject) => {
+              const request = store.get(sessionId)
+              request.onerror = () => reject(new Error('Failed to get conversation session'))
+              request.onsuccess = () => resolve(request.result)
+            })
+        )
+      )
+
+      return sessions
+        .filter((session): session is ConversationSession => Boolean(session))
+        .sort((a, b) => b.timestamp - a.timestamp)
+    },
+    [initConversationStorage]
+  )
+
   // Delete conversation session
   const deleteConversationSession = useCallback(
     async (sessionId: string): Promise<void> => {
@@ -135,13 +261,14 @@ export const useConversationStorage = () => {
         throw new Error('Database not initialized')
       }
 
-      const transaction = conversationDB.transaction(['sessions'], 'readwrite')
+      const transaction = conversationDB.transaction(['sessions', SEARCH_INDEX_STORE], 'readwrite')
       const store = transaction.objectStore('sessions')
 
       return new Promise((resolve, reject) => {
-        const request = store.delete(sessionId)
-        request.onerror = () => reject(new Error('Failed to delete conversation session'))
-        request.onsuccess = () => resolve()
+        store.delete(sessionId)
+        removeSessionFromIndex(transaction.objectStore(SEARCH_INDEX_STORE), sessionId)
+        transaction.onerror = () => reject(new Error('Failed to delete conversation session'))
+        transaction.oncomplete = () => resolve()
       })
     },
     [initConversationStorage]
@@ -157,13 +284,13 @@ export const useConversationStorage = () => {
       throw new Error('Database not initialized')
     }
 
-    const transaction = conversationDB.transaction(['sessions'], 'readwrite')
-    const store = transaction.objectStore('sessions')
+    const transaction = conversationDB.transaction(['sessions', SEARCH_INDEX_STORE], 'readwrite')
 
     return new Promise((resolve, reject) => {
-      const request = store.clear()
-      request.onerror = () => reject(new Error('Failed to clear conversation sessions'))
-      request.onsuccess = () => resolve()
+      transaction.objectStore('sessions').clear()
+      transaction.objectStore(SEARCH_INDEX_STORE).clear()
+      transaction.onerror = () => reject(new Error('Failed to clear conversation sessions'))
+      transaction.oncomplete = () => resolve()
     })
   }, [initConversationStorage])
 
@@ -182,21 +309,49 @@ export const useConversationStorage = () => {
     // Listen for conversation data from main process
     const unsubscribe = electronAPI.on.saveConversationTurn(async data => {
       try {
-        await saveConversationSession(data.sessionId, data.fullHistory)
+        await saveConversationSession(
+          data.sessionId,
+          data.fullHistory,
+          data.metadata,
+          data.actionItems
+        )
         console.log('Conversation session saved:', data.sessionId)
       } catch (error) {
         console.error('Error saving conversation session:', error)
       }
     })
 
-    return unsubscribe
-  }, [initConversationStorage, saveConversationSession, electronAPI.on])
+    const unsubscribeSummary = electronAPI.on.sessionSummary(async data => {
+      try {
+        await updateConversationSession(data.sessionId, { summary: data.summary })
+        console.log('Session summary saved:', data.sessionId)
+      } catch (error) {
+        console.error('Error saving session summary:', error)
+      }
+    })
+
+    const unsubscribeMetadata = electronAPI.on.sessionMetadata(async data => {
+      try {
+        await updateConversationSession(data.sessionId, { metadata: data.metadata })
+      } catch (error) {
+        console.error('Error saving session metadata:', error)
+      }
+    })
+
+    return () => {
+      unsubscribe()
+      unsubscribeSummary()
+      unsubscribeMetadata()
+    }
+  }, [initConversationStorage, saveConversationSession, updateConversationSession, electronAPI.on])
 
   return {
     ...state,
     saveConversationSession,
+    updateConversationSession,
     getConversationSession,
     getAllConversationSessions,
+    searchConversationSessions,
     deleteConversationSession,
     clearAllConversationSessions,
     initConversationStorage,
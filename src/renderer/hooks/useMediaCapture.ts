@@ -1,5 +1,16 @@
 import type { ImageQuality, ScreenshotInterval, AudioSourceType } from '@shared/types'
+import { estimateImageTokens } from '@shared/usage'
+import { createVoiceActivityGate } from '@shared/voiceActivity'
 import { useCallback, useEffect, useRef, useState } from 'react'
+import {
+  type AudioInputDevice,
+  buildAudioConstraints,
+  isTrackOnDevice,
+  listAudioInputs,
+  resolveAudioDevice,
+} from '../audio/audioDevices'
+import { createPcmCapture, type PcmCapture } from '../audio/pcmCapture'
+import { getSetting } from '../stores/settingsStore'
 import { useIpc } from './index'
 
 declare global {
@@ -22,27 +33,32 @@ interface MediaCaptureState {
   isCapturing: boolean
   error: string | null
   currentImageQuality: ImageQuality
-  currentAudioSource: AudioSourceType
   microphoneEnabled: boolean
+  microphoneMuted: boolean // Microphone audio is captured but not sent
+  systemAudioFromDevice: boolean // Recording a loopback input instead of the platform capture
 }
 
+// The chosen microphone, else the default input (also when the chosen one is unplugged)
+const resolveMicrophone = (devices: AudioInputDevice[]): AudioInputDevice | undefined =>
+  resolveAudioDevice(devices, getSetting('microphoneDevice')) ?? resolveAudioDevice(devices, null)
+
 export const useMediaCapture = () => {
   const [state, setState] = useState<MediaCaptureState>({
     isCapturing: false,
     error: null,
     currentImageQuality: 'medium',
-    currentAudioSource: 'system',
     microphoneEnabled: false,
+    microphoneMuted: false,
+    systemAudioFromDevice: false,
   })
   const electronAPI = useIpc()
   const mediaStreamRef = useRef<MediaStream | null>(null) // For system audio
   const videoStreamRef = useRef<MediaStream | null>(null) // For screenshots
   const micStreamRef = useRef<MediaStream | null>(null)
   const screenshotIntervalRef = useRef<NodeJS.Timeout | null>(null)
-  const audioContextRef = useRef<AudioContext | null>(null)
-  const micAudioContextRef = useRef<AudioContext | null>(null)
-  const audioProcessorRef = useRef<ScriptProcessorNode | null>(null)
-  const micProcessorRef = useRef<ScriptProcessorNode | null>(null)
+  const systemCaptureRef = useRef<PcmCapture | null>(null)
+  const micCaptureRef = useRef<PcmCapture | null>(null)
+  const systemInputRef = useRef<AudioInputDevice | null>(null) // Loopback input in use
   const hiddenVideoRef = useRef<HTMLVideoElement | null>(null)
   const offscreenCanvasRef = useRef<HTMLCanvasElement | null>(null)
   const offscreenContextRef = useRef<CanvasRenderingContext2D | null>(null)
@@ -52,33 +68,42 @@ export const useMediaCapture = () => {
     audioStartTime: null,
   })
 
-  // Add a ref to track the current audio source to avoid stale state in callbacks
-  const audioSourceRef = useRef(state.currentAudioSource)
+  // Tracks the mute state to avoid stale state in callbacks
+  const microphoneMutedRef = useRef(state.microphoneMuted)
 
   const isLinux = electronAPI.platform.isLinux
   const isMacOS = electronAPI.platform.isMacOS
 
   const SAMPLE_RATE = 24000
   const AUDIO_CHUNK_DURATION = 0.1
-  const BUFFER_SIZE = 4096
 
   // Keep the ref in sync with the state
   useEffect(() => {
-    audioSourceRef.current = state.currentAudioSource
-  }, [state.currentAudioSource])
+    microphoneMutedRef.current = state.microphoneMuted
+  }, [state.microphoneMuted])
+
+  // macOS and Linux capture system audio in the main process
+  const capturesSystemAudioInMain = isMacOS || isLinux
 
-  // This effect will manage the macOS system audio capture
+  // This effect will manage the main-process system audio capture
   useEffect(() => {
-    if (!isMacOS || !state.isCapturing) return
+    if (!capturesSystemAudioInMain || !state.isCapturing) return
 
-    if (state.currentAudioSource === 'system') {
-      console.log('IPC: Starting macOS audio capture')
-      electronAPI.invoke.startMacOSAudio()
+    if (!state.systemAudioFromDevice) {
+      console.log('IPC: Starting system audio capture')
+      electronAPI.invoke.startSystemAudio().then(result => {
+        if (!result.success) console.warn('System audio capture unavailable:', result.error)
+      })
     } else {
-      console.log('IPC: Stopping macOS audio capture')
-      electronAPI.invoke.stopMacOSAudio()
+      console.log('IPC: Stopping system audio capture')
+      electronAPI.invoke.stopSystemAudio()
     }
-  }, [isMacOS, state.isCapturing, state.currentAudioSource, electronAPI.invoke])
+  }, [
+    capturesSystemAudioInMain,
+    state.isCapturing,
+    state.systemAudioFromDevice,
+    electronAPI.invoke,
+  ])
 
   const cleanOldTokens = useCallback(() => {
     const oneMinuteAgo = Date.now() - 60 * 1000
@@ -96,19 +121,11 @@ export const useMediaCapture = () => {
     [cleanOldTokens]
   )
 
-  const calculateImageTokens = useCallback((width: number, height: number): number => {
-    if (width <= 384 && height <= 384) return 258
-    const tilesX = Math.ceil(width / 768)
-    const tilesY = Math.ceil(height / 768)
-    return tilesX * tilesY * 258
-  }, [])
-
   const shouldThrottle = useCallback((): boolean => {
-    const throttleEnabled = localStorage.getItem('throttleTokens') === 'true'
-    if (!throttleEnabled) return false
+    if (!getSetting('throttleTokens')) return false
 
-    const maxTokensPerMin = parseInt(localStorage.getItem('maxTokensPerMin') || '1000000', 10)
-    const throttleAtPercent = parseInt(localStorage.getItem('throttleAtPercent') || '75', 10)
+    const maxTokensPerMin = getSetting('maxTokensPerMin')
+    const throttleAtPercent = getSetting('throttleAtPercent')
 
     cleanOldTokens()
     const currentTokens = tokenTrackerRef.current.tokens.reduce(
@@ -123,15 +140,6 @@ export const useMediaCapture = () => {
     return currentTokens >= throttleThreshold
   }, [cleanOldTokens])
 
-  const convertFloat32ToInt16 = useCallback((float32Array: Float32Array): Int16Array => {
-    const int16Array = new Int16Array(float32Array.length)
-    for (let i = 0; i < float32Array.length; i++) {
-      const s = Math.max(-1, Math.min(1, float32Array[i]))
-      int16Array[i] = s < 0 ? s * 0x8000 : s * 0x7fff
-    }
-    return int16Array
-  }, [])
-
   const arrayBufferToBase64 = useCallback((buffer: ArrayBuffer): string => {
     let binary = ''
     const bytes = new Uint8Array(buffer)
@@ -142,69 +150,200 @@ export const useMediaCapture = () => {
     return btoa(binary)
   }, [])
 
-  const setupMicrophoneProcessing = useCallback(
-    async (micStream: MediaStream) => {
-      const micAudioContext = new AudioContext({ sampleRate: SAMPLE_RATE })
-      const micSource = micAudioContext.createMediaStreamSource(micStream)
-      const micProcessor = micAudioContext.createScriptProcessor(BUFFER_SIZE, 1, 1)
-      let audioBuffer: number[] = []
-      const samplesPerChunk = SAMPLE_RATE * AUDIO_CHUNK_DURATION
+  // Sends a source's chunks while its voice gate is open. Both sources are sent at the same
+  // time, tagged with their source, and the main process mixes them and tells them apart.
+  const createAudioChunkHandler = useCallback(
+    (source: AudioSourceType) => {
+      const gate = createVoiceActivityGate({
+        sensitivity: getSetting('voiceActivitySensitivity'),
+        chunkDurationMs: AUDIO_CHUNK_DURATION * 1000,
+      })
 
-      micProcessor.onaudioprocess = async e => {
+      return (chunk: Int16Array) => {
         // Use the ref here instead of state to avoid stale state
-        if (audioSourceRef.current !== 'microphone') return
-
-        const inputData = e.inputBuffer.getChannelData(0)
-        audioBuffer.push(...inputData)
-        while (audioBuffer.length >= samplesPerChunk) {
-          const chunk = audioBuffer.splice(0, samplesPerChunk)
-          const pcmData16 = convertFloat32ToInt16(new Float32Array(chunk))
-          const base64Data = arrayBufferToBase64(pcmData16.buffer as ArrayBuffer)
-          await electronAPI.invoke.sendAudioContent({
-            data: base64Data,
+        if (source === 'microphone' && microphoneMutedRef.current) return
+
+        for (const speech of gate.process(chunk)) {
+          void electronAPI.invoke.sendAudioContent({
+            data: arrayBufferToBase64(speech.buffer as ArrayBuffer),
             mimeType: 'audio/pcm;rate=24000',
-            source: 'microphone',
+            source,
           })
         }
       }
-      micSource.connect(micProcessor)
-      micProcessor.connect(micAudioContext.destination)
-      micAudioContextRef.current = micAudioContext
-      micProcessorRef.current = micProcessor
     },
-    [electronAPI.invoke, convertFloat32ToInt16, arrayBufferToBase64]
+    [electronAPI.invoke, arrayBufferToBase64]
+  )
+
+  const setupMicrophoneProcessing = useCallback(
+    async (micStream: MediaStream) => {
+      micCaptureRef.current = await createPcmCapture(
+        micStream,
+        { targetSampleRate: SAMPLE_RATE, chunkDurationSeconds: AUDIO_CHUNK_DURATION },
+        createAudioChunkHandler('microphone')
+      )
+    },
+    [createAudioChunkHandler]
   )
 
   const setupSystemAudioProcessing = useCallback(async () => {
     if (!mediaStreamRef.current) return
-    const audioContext = new AudioContext({ sampleRate: SAMPLE_RATE })
-    const source = audioContext.createMediaStreamSource(mediaStreamRef.current)
-    const processor = audioContext.createScriptProcessor(BUFFER_SIZE, 1, 1)
-    let audioBuffer: number[] = []
-    const samplesPerChunk = SAMPLE_RATE * AUDIO_CHUNK_DURATION
-
-    processor.onaudioprocess = async e => {
-      // Use the ref here instead of state to avoid stale state
-      if (audioSourceRef.current !== 'system') return
-
-      const inputData = e.inputBuffer.getChannelData(0)
-      audioBuffer.push(...inputData)
-      while (audioBuffer.length >= samplesPerChunk) {
-        const chunk = audioBuffer.splice(0, samplesPerChunk)
-        const pcmData16 = convertFloat32ToInt16(new Float32Array(chunk))
-        const base64Data = arrayBufferToBase64(pcmData16.buffer as ArrayBuffer)
-        await electronAPI.invoke.sendAudioContent({
-          data: base64Data,
-          mimeType: 'audio/pcm;rate=24000',
-          source: 'system',
+    systemCaptureRef.current = await createPcmCapture(
+      mediaStreamRef.current,
+      { targetSampleRate: SAMPLE_RATE, chunkDurationSeconds: AUDIO_CHUNK_DURATION },
+      createAudioChunkHandler('system')
+    )
+  }, [createAudioChunkHandler])
+
+  const openMicrophone = useCallback(async () => {
+    const device = resolveMicrophone(await listAudioInputs())
+    const micStream = await navigator.mediaDevices.getUserMedia({
+      audio: buildAudioConstraints(device?.deviceId, {
+        sampleRate: SAMPLE_RATE,
+        processing: true,
+      }),
+      video: false,
+    })
+    micStreamRef.current = micStream
+    await setupMicrophoneProcessing(micStream)
+    setState(prev => ({ ...prev, microphoneEnabled: true }))
+  }, [setupMicrophoneProcessing])
+
+  const closeMicrophone = useCallback(async () => {
+    if (micCaptureRef.current) {
+      await micCaptureRef.current.stop()
+      micCaptureRef.current = null
+    }
+    if (micStreamRef.current) {
+      micStreamRef.current.getTracks().forEach(track => track.stop())
+      micStreamRef.current = null
+    }
+  }, [])
+
+  // Records system audio from the chosen loopback input, else through the platform capture
+  const openSystemAudio = useCallback(async () => {
+    const selection = getSetting('systemAudioDevice')
+    const device = selection ? resolveAudioDevice(await listAudioInputs(), selection) : undefined
+
+    if (device) {
+      try {
+        mediaStreamRef.current = await navigator.mediaDevices.getUserMedia({
+          audio: buildAudioConstraints(device.deviceId, {
+            sampleRate: SAMPLE_RATE,
+            processing: false,
+          }),
+          video: false,
         })
+        await setupSystemAudioProcessing()
+        systemInputRef.current = device
+        setState(prev => ({ ...prev, systemAudioFromDevice: true }))
+        console.log(`System audio from input: ${device.label}`)
+        return
+      } catch (error) {
+        console.warn('Failed to open the system audio input, using platform capture:', error)
+        mediaStreamRef.current?.getTracks().forEach(track => track.stop())
+        mediaStreamRef.current = null
+      }
+    }
+    setState(prev => ({ ...prev, systemAudioFromDevice: false }))
+
+    if (capturesSystemAudioInMain) {
+      // On macOS and Linux, system audio is handled by the useEffect above.
+      // No need to do anything here.
+      return
+    }
+
+    // Windows - get separate audio stream for system audio
+    const audioDisplayOptions: DisplayMediaStreamOptions = {
+      video: false,
+      audio: {
+        sampleRate: SAMPLE_RATE,
+        channelCount: 1,
+        echoCancellation: true,
+        noiseSuppression: true,
+        autoGainControl: true,
+      },
+    }
+    try {
+      mediaStreamRef.current = await navigator.mediaDevices.getDisplayMedia(audioDisplayOptions)
+      if (mediaStreamRef.current.getAudioTracks().length > 0) {
+        await setupSystemAudioProcessing()
+        console.log('System audio stream obtained')
       }
+    } catch (audioError) {
+      console.warn('Failed to get system audio stream:', audioError)
     }
-    source.connect(processor)
-    processor.connect(audioContext.destination)
-    audioContextRef.current = audioContext
-    audioProcessorRef.current = processor
-  }, [electronAPI.invoke, convertFloat32ToInt16, arrayBufferToBase64])
+  }, [capturesSystemAudioInMain, setupSystemAudioProcessing])
+
+  const closeSystemAudio = useCallback(async () => {
+    if (systemCaptureRef.current) {
+      await systemCaptureRef.current.stop()
+      systemCaptureRef.current = null
+    }
+    if (mediaStreamRef.current) {
+      mediaStreamRef.current.getTracks().forEach(track => track.stop())
+      mediaStreamRef.current = null
+    }
+    systemInputRef.current = null
+  }, [])
+
+  // Reopens inputs after a device was plugged in or removed: an unplugged input falls back
+  // to the default, and a chosen input is picked up again once it is back
+  const followDeviceChange = useCallback(async () => {
+    const devices = await listAudioInputs()
+
+    const micTrack = micStreamRef.current?.getAudioTracks()[0]
+    if (micTrack) {
+      const wanted = resolveMicrophone(devices)
+      if (
+        micTrack.readyState === 'ended' ||
+        (wanted && !isTrackOnDevice(micTrack.getSettings(), wanted))
+      ) {
+        console.log(`Switching microphone to ${wanted?.label || 'the default input'}`)
+        await closeMicrophone()
+        try {
+          await openMicrophone()
+        } catch (micError) {
+          console.warn('Failed to reopen the microphone:', micError)
+          setState(prev => ({ ...prev, microphoneEnabled: false }))
+        }
+      }
+    }
+
+    const selection = getSetting('systemAudioDevice')
+    if (selection) {
+      const wanted = resolveAudioDevice(devices, selection)
+      const current = systemInputRef.current
+      const stale = current
+        ? wanted?.deviceId !== current.deviceId ||
+          mediaStreamRef.current?.getAudioTracks()[0]?.readyState === 'ended'
+        : wanted !== undefined
+      if (stale) {
+        console.log(`Switching system audio to ${wanted?.label || 'the platform capture'}`)
+        await closeSystemAudio()
+        await openSystemAudio()
+      }
+    }
+  }, [openMicrophone, closeMicrophone, openSystemAudio, closeSystemAudio])
+
+  // Follow inputs being plugged in or removed while capturing
+  useEffect(() => {
+    if (!state.isCapturing) return
+
+    let active = true
+    let queue = Promise.resolve()
+    const handleDeviceChange = () => {
+      queue = queue
+        .then(() => (active ? followDeviceChange() : undefined))
+        .catch(error => console.error('Error following audio device change:', error))
+    }
+
+    navigator.mediaDevices.addEventListener('devicechange', handleDeviceChange)
+    return () => {
+      active = false
+      navigator.mediaDevices.removeEventListener('devicechange', handleDeviceChange)
+    }
+  }, [state.isCapturing, followDeviceChange])
 
   const captureScreenshot = useCallback(
     async (imageQuality: ImageQuality = 'medium', isManual = false): Promise<void> => {
@@ -267,12 +406,14 @@ export const useMediaCapture = () => {
             if (!base64data || base64data.length < 100)
               return console.error('Invalid base64 data generated')
 
-            const result = await electronAPI.invoke.sendImageContent({ data: base64data })
+            const { width, height } = offscreenCanvasRef.current!
+            const result = await electronAPI.invoke.sendImageContent({
+              data: base64data,
+              width,
+              height,
+            })
             if (result.success) {
-              const imageTokens = calculateImageTokens(
-                offscreenCanvasRef.current!.width,
-                offscreenCanvasRef.current!.height
-              )
+              const imageTokens = estimateImageTokens(width, height)
               addTokens(imageTokens, 'image')
               console.log(`📊 Image sent successfully - ${imageTokens} tokens used`)
             } else {
@@ -285,7 +426,7 @@ export const useMediaCapture = () => {
         qualityValue
       )
     },
-    [shouldThrottle, electronAPI.invoke, calculateImageTokens, addTokens]
+    [shouldThrottle, electronAPI.invoke, addTokens]
   )
 
   const stopCapture = useCallback(async () => {
@@ -294,36 +435,14 @@ export const useMediaCapture = () => {
         clearInterval(screenshotIntervalRef.current)
         screenshotIntervalRef.current = null
       }
-      if (audioProcessorRef.current) {
-        audioProcessorRef.current.disconnect()
-        audioProcessorRef.current = null
-      }
-      if (micProcessorRef.current) {
-        micProcessorRef.current.disconnect()
-        micProcessorRef.current = null
-      }
-      if (audioContextRef.current) {
-        await audioContextRef.current.close()
-        audioContextRef.current = null
-      }
-      if (micAudioContextRef.current) {
-        await micAudioContextRef.current.close()
-        micAudioContextRef.current = null
-      }
-      if (mediaStreamRef.current) {
-        mediaStreamRef.current.getTracks().forEach(track => track.stop())
-        mediaStreamRef.current = null
-      }
+      await closeSystemAudio()
+      await closeMicrophone()
       if (videoStreamRef.current) {
         videoStreamRef.current.getTracks().forEach(track => track.stop())
         videoStreamRef.current = null
       }
-      if (micStreamRef.current) {
-        micStreamRef.current.getTracks().forEach(track => track.stop())
-        micStreamRef.current = null
-      }
-      if (isMacOS) {
-        await electronAPI.invoke.stopMacOSAudio()
+      if (capturesSystemAudioInMain) {
+        await electronAPI.invoke.stopSystemAudio()
       }
       if (hiddenVideoRef.current) {
         hiddenVideoRef.current.srcObject = null
@@ -335,8 +454,9 @@ export const useMediaCapture = () => {
         ...prev,
         isCapturing: false,
         error: null,
-        currentAudioSource: 'system',
         microphoneEnabled: false,
+        microphoneMuted: false,
+        systemAudioFromDevice: false,
       }))
       console.log('Media capture stopped')
     } catch (error) {
@@ -346,7 +466,7 @@ export const useMediaCapture = () => {
         error: error instanceof Error ? error.message : 'Failed to stop capture',
       }))
     }
-  }, [isMacOS, electronAPI.invoke])
+  }, [capturesSystemAudioInMain, electronAPI.invoke, closeSystemAudio, closeMicrophone])
 
   const sendTextMessage = useCallback(
     async (text: string) => {
@@ -372,34 +492,17 @@ export const useMediaCapture = () => {
     [state.currentImageQuality, captureScreenshot, sendTextMessage]
   )
 
-  const toggleAudioSource = useCallback(() => {
+  // Mutes or unmutes the microphone; system audio is sent either way
+  const toggleMicrophone = useCallback(() => {
     if (!state.microphoneEnabled) {
       console.warn('Microphone not available')
       return
     }
 
-    setState(prev => ({
-      ...prev,
-      currentAudioSource: prev.currentAudioSource === 'system' ? 'microphone' : 'system',
-    }))
-
-    console.log(
-      `Switched to ${state.currentAudioSource === 'system' ? 'microphone' : 'system'} audio`
-    )
-  }, [state.microphoneEnabled, state.currentAudioSource])
+    setState(prev => ({ ...prev, microphoneMuted: !prev.microphoneMuted }))
 
-  const setAudioSource = useCallback(
-    (source: AudioSourceType) => {
-      if (source === 'microphone' && !state.microphoneEnabled) {
-        console.warn('Microphone not available')
-        return
-      }
-
-      setState(prev => ({ ...prev, currentAudioSource: source }))
-      console.log(`Audio source set to: ${source}`)
-    },
-    [state.microphoneEnabled]
-  )
+    console.log(`Microphone ${state.microphoneMuted ? 'unmuted' : 'muted'}`)
+  }, [state.microphoneEnabled, state.microphoneMuted])
 
   const startCapture = useCallback(
     async (
@@ -411,6 +514,8 @@ export const useMediaCapture = () => {
         isCapturing: true,
         error: null,
         currentImageQuality: imageQuality,
+        // Assume the loopback input opens so the platform capture does not start first
+        systemAudioFromDevice: getSetting('systemAudioDevice') !== null,
       }))
       tokenTrackerRef.current = { tokens: [], audioStartTime: null }
 
@@ -421,18 +526,6 @@ export const useMediaCapture = () => {
           audio: false,
         }
 
-        // Audio options for system audio (Windows only)
-        const audioDisplayOptions: DisplayMediaStreamOptions = {
-          video: false,
-          audio: {
-            sampleRate: SAMPLE_RATE,
-            channelCount: 1,
-            echoCancellation: true,
-            noiseSuppression: true,
-            autoGainControl: true,
-          },
-        }
-
         // Setup microphone access for all platforms
         try {
           // First check if we have permission (macOS specific)
@@ -452,19 +545,7 @@ export const useMediaCapture = () => {
               } else {
                 // Permission granted, now try to get microphone stream
                 try {
-                  const micStream = await navigator.mediaDevices.getUserMedia({
-                    audio: {
-                      sampleRate: SAMPLE_RATE,
-                      channelCount: 1,
-                      echoCancellation: true,
-                      noiseSuppression: true,
-                      autoGainControl: true,
-                    },
-                    video: false,
-                  })
-                  micStreamRef.current = micStream
-                  await setupMicrophoneProcessing(micStream)
-                  setState(prev => ({ ...prev, microphoneEnabled: true }))
+                  await openMicrophone()
                   console.log('Microphone access granted')
                 } catch (micStreamError) {
                   console.warn(
@@ -476,36 +557,12 @@ export const useMediaCapture = () => {
               }
             } else {
               // Permission already granted, get microphone stream
-              const micStream = await navigator.mediaDevices.getUserMedia({
-                audio: {
-                  sampleRate: SAMPLE_RATE,
-                  channelCount: 1,
-                  echoCancellation: true,
-                  noiseSuppression: true,
-                  autoGainControl: true,
-                },
-                video: false,
-              })
-              micStreamRef.current = micStream
-              await setupMicrophoneProcessing(micStream)
-              setState(prev => ({ ...prev, microphoneEnabled: true }))
+              await openMicrophone()
               console.log('Microphone access granted (permission already granted)')
             }
           } else {
             // Non-macOS platforms - directly try to get microphone access
-            const micStream = await navigator.mediaDevices.getUserMedia({
-              audio: {
-                sampleRate: SAMPLE_RATE,
-                channelCount: 1,
-                echoCancellation: true,
-                noiseSuppression: true,
-                autoGainControl: true,
-              },
-              video: false,
-            })
-            micStreamRef.current = micStream
-            await setupMicrophoneProcessing(micStream)
-            setState(prev => ({ ...prev, microphoneEnabled: true }))
+            await openMicrophone()
             console.log('Microphone access granted')
           }
         } catch (micError) {
@@ -517,24 +574,7 @@ export const useMediaCapture = () => {
         videoStreamRef.current = await navigator.mediaDevices.getDisplayMedia(videoDisplayOptions)
         console.log('Video stream for screenshots obtained')
 
-        if (isMacOS) {
-          // On macOS, system audio is now handled by the useEffect above.
-          // No need to do anything here.
-        } else if (isLinux) {
-          // Linux uses microphone only, no system audio
-        } else {
-          // Windows - get separate audio stream for system audio
-          try {
-            mediaStreamRef.current =
-              await navigator.mediaDevices.getDisplayMedia(audioDisplayOptions)
-            if (mediaStreamRef.current.getAudioTracks().length > 0) {
-              await setupSystemAudioProcessing()
-              console.log('System audio stream obtained')
-            }
-          } catch (audioError) {
-            console.warn('Failed to get system audio stream:', audioError)
-          }
-        }
+        await openSystemAudio()
 
         if (screenshotIntervalSeconds !== 'manual') {
           const intervalMs = parseInt(screenshotIntervalSeconds) * 1000
@@ -564,33 +604,25 @@ export const useMediaCapture = () => {
         await stopCapture()
       }
     },
-    [
-      isMacOS,
-      isLinux,
-      electronAPI.invoke,
-      setupMicrophoneProcessing,
-      setupSystemAudioProcessing,
-      captureScreenshot,
-      stopCapture,
-    ]
+    [isMacOS, electronAPI.invoke, openMicrophone, openSystemAudio, captureScreenshot, stopCapture]
   )
 
   useEffect(() => {
     window.captureManualScreenshot = captureManualScreenshot
-    window.toggleAudioSource = toggleAudioSource
+    window.toggleMicrophone = toggleMicrophone
     console.log(
-      'captureManualScreenshot and toggleAudioSource functions have been attached to the window object.'
+      'captureManualScreenshot and toggleMicrophone functions have been attached to the window object.'
     )
 
     // Cleanup function to remove it when the component unmounts
     return () => {
       delete (window as Partial<Window>).captureManualScreenshot
-      delete (window as Partial<Window>).toggleAudioSource
+      delete (window as Partial<Window>).toggleMicrophone
       console.log(
-        'captureManualScreenshot and toggleAudioSource functions have been removed from the window object.'
+        'captureManualScreenshot and toggleMicrophone functions have been removed from the window object.'
       )
     }
-  }, [captureManualScreenshot, toggleAudioSource])
+  }, [captureManualScreenshot, toggleMicrophone])
 
   // Cleanup on unmount
   useEffect(() => {
@@ -608,8 +640,7 @@ export const useMediaCapture = () => {
     stopCapture,
     captureManualScreenshot,
     sendTextMessage,
-    toggleAudioSource,
-    setAudioSource,
+    toggleMicrophone,
     // Expose platform info for conditional rendering
     platform: {
       isMacOS,
@@ -1,6 +1,7 @@
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import App from './App'
+import { initializeSettings } from './stores/settingsStore'
 import { setupGlobalShortcuts } from './utils/shortcutHandler'
 import './index.css'
 
@@ -13,10 +14,12 @@ if (!rootElement) {
   throw new Error('Root element not found')
 }
 
-// Create root and render app
-const root = createRoot(rootElement)
-root.render(
-  <StrictMode>
-        <App /> {' '}
-  </StrictMode>
-)
+// Settings come from the main process, so load them before the first render
+initializeSettings().finally(() => {
+  const root = createRoot(rootElement)
+  root.render(
+    <StrictMode>
+      <App />
+    </StrictMode>
+  )
+})
@@ -3,17 +3,22 @@ import type {
   AudioSourceType,
   ImageQuality,
   LayoutMode,
+  ProfileId,
   ProfileType,
   ScreenshotInterval,
+  SessionError,
+  ToolInvocation,
   ViewType,
 } from '@shared/types'
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
+import { getSetting } from './settingsStore'
 
 interface AppStore extends AppState {
   // View management
   setCurrentView: (view: ViewType) => void
   setStatusText: (text: string) => void
+  setSessionError: (error: SessionError | null) => void
   setStartTime: (time: number | null) => void
 
   // Session management
@@ -22,7 +27,7 @@ interface AppStore extends AppState {
   setIsClickThrough: (clickThrough: boolean) => void
 
   // Profile and settings
-  setSelectedProfile: (profile: ProfileType) => void
+  setSelectedProfile: (profile: ProfileId) => void
   setSelectedLanguage: (language: string) => void
   setSelectedScreenshotInterval: (interval: ScreenshotInterval) => void
   setSelectedImageQuality: (quality: ImageQuality) => void
@@ -35,10 +40,13 @@ interface AppStore extends AppState {
 
   // Response management
   addResponse: (response: string) => void
+  appendResponseDelta: (delta: string) => void
+  endResponseStream: () => void
   setCurrentResponseIndex: (index: number) => void
   clearResponses: () => void
   navigateToPreviousResponse: () => void
   navigateToNextResponse: () => void
+  updateToolInvocation: (invocation: ToolInvocation) => void
 
   // Utility methods
   reset: () => void
@@ -46,8 +54,11 @@ interface AppStore extends AppState {
   getLanguageName: () => string
 }
 
+// Tool calls kept for the overlay
+const MAX_TOOL_INVOCATIONS = 3
+
 // Profile names mapping
-const profileNames: Record<ProfileType, string> = {
+export const profileNames: Record<ProfileType, string> = {
   interview: 'Job Interview',
   sales: 'Sales Call',
   meeting: 'Business Meeting',
@@ -55,8 +66,14 @@ const profileNames: Record<ProfileType, string> = {
   negotiation: 'Negotiation',
 }
 
+// Name of a built-in or user profile; undefined once a user profile is deleted
+export const findProfileName = (profile: ProfileId): string | undefined =>
+  Object.hasOwn(profileNames, profile)
+    ? profileNames[profile as ProfileType]
+    : getSetting('customProfiles').find(custom => custom.id === profile)?.name
+
 // Language names mapping (subset of most common)
-const languageNames: Record<string, string> = {
+export const languageNames: Record<string, string> = {
   'en-US': 'English (US)',
   'en-GB': 'English (UK)',
   'en-AU': 'English (Australia)',
@@ -83,6 +100,7 @@ export const useAppStore = create<AppStore>()(
       // Initial state
       currentView: 'main',
       statusText: '',
+      sessionError: null,
       startTime: null,
       isRecording: false,
       sessionActive: false,
@@ -90,6 +108,8 @@ export const useAppStore = create<AppStore>()(
       selectedLanguage: 'en-US',
       responses: [],
       currentResponseIndex: -1,
+      isStreamingResponse: false,
+      toolInvocations: [],
       selectedScreenshotInterval: '5',
       selectedImageQuality: 'medium',
       layoutMode: 'normal',
@@ -101,10 +121,16 @@ export const useAppStore = create<AppStore>()(
       // View management
       setCurrentView: view => set({ currentView: view }),
       setStatusText: text => set({ statusText: text }),
+      // An error ends the response being streamed, so the next delta starts a new one
+      setSessionError: error =>
+        set(error ? { sessionError: error, isStreamingResponse: false } : { sessionError: error }),
       setStartTime: time => set({ startTime: time }),
 
       // Session management
-      setSessionActive: active => set({ sessionActive: active }),
+      setSessionActive: active =>
+        set(
+          active ? { sessionActive: active } : { sessionActive: active, isStreamingResponse: false }
+        ),
       setIsRecording: recording => set({ isRecording: recording }),
       setIsClickThrough: clickThrough => set({ isClickThrough: clickThrough }),
 
@@ -130,7 +156,17 @@ export const useAppStore = create<AppStore>()(
 
       // Response management
       addResponse: response => {
-        const { responses, currentResponseIndex } = get()
+        const { responses, currentResponseIndex, isStreamingResponse } = get()
+
+        // Finalize the response that was streamed in through deltas
+        if (isStreamingResponse && responses.length > 0) {
+          set({
+            responses: [...responses.slice(0, -1), response],
+            isStreamingResponse: false,
+          })
+          return
+        }
+
         const newResponses = [...responses, response]
 
         // Auto-navigate to new response if viewing latest or no responses
@@ -145,9 +181,55 @@ export const useAppStore = create<AppStore>()(
         })
       },
 
+      appendResponseDelta: delta => {
+        const { responses, currentResponseIndex, isStreamingResponse } = get()
+
+        if (isStreamingResponse && responses.length > 0) {
+          const lastIndex = responses.length - 1
+          set({
+            responses: [...responses.slice(0, lastIndex), responses[lastIndex] + delta],
+          })
+          return
+        }
+
+        // First delta of a new response: start a new entry
+        const newResponses = [...responses, delta]
+        const newIndex =
+          currentResponseIndex === responses.length - 1 || currentResponseIndex === -1
+            ? newResponses.length - 1
+            : currentResponseIndex
+
+        set({
+          responses: newResponses,
+          currentResponseIndex: newIndex,
+          isStreamingResponse: true,
+        })
+      },
+
+      // The streamed response stays as it is; the next delta starts a new one
+      endResponseStream: () => set({ isStreamingResponse: false }),
+
       setCurrentResponseIndex: index => set({ currentResponseIndex: index }),
 
-      clearResponses: () => set({ responses: [], currentResponseIndex: -1 }),
+      clearResponses: () =>
+        set({
+          responses: [],
+          currentResponseIndex: -1,
+          isStreamingResponse: false,
+          toolInvocations: [],
+        }),
+
+      // Replaces the earlier update of the same call, or adds it as the newest
+      updateToolInvocation: invocation => {
+        const { toolInvocations } = get()
+        set({
+          toolInvocations: toolInvocations.some(existing => existing.id === invocation.id)
+            ? toolInvocations.map(existing =>
+                existing.id === invocation.id ? invocation : existing
+              )
+            : [...toolInvocations, invocation].slice(-MAX_TOOL_INVOCATIONS),
+        })
+      },
 
       navigateToPreviousResponse: () => {
         const { currentResponseIndex } = get()
@@ -168,17 +250,20 @@ export const useAppStore = create<AppStore>()(
         set({
           currentView: 'main',
           statusText: '',
+          sessionError: null,
           startTime: null,
           isRecording: false,
           sessionActive: false,
           responses: [],
           currentResponseIndex: -1,
+          isStreamingResponse: false,
+          toolInvocations: [],
           isClickThrough: false,
         }),
 
       getProfileName: () => {
         const { selectedProfile } = get()
-        return profileNames[selectedProfile] || 'Unknown'
+        return findProfileName(selectedProfile) || 'Unknown'
       },
 
       getLanguageName: () => {
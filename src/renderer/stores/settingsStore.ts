@@ -0,0 +1,103 @@
+import { DEFAULT_SETTINGS, SETTING_KEYS } from '@shared/settings'
+import type { AppSettings, IpcResult, SettingKey } from '@shared/types'
+import { create } from 'zustand'
+
+interface SettingsStore {
+  settings: AppSettings
+}
+
+// Mirror of the main-process settings; main owns the file and broadcasts every change
+export const useSettingsStore = create<SettingsStore>()(() => ({
+  settings: DEFAULT_SETTINGS,
+}))
+
+const applySetting = <K extends SettingKey>(key: K, value: AppSettings[K]): void => {
+  useSettingsStore.setState(state => ({ settings: { ...state.settings, [key]: value } }))
+}
+
+// Reads the latest value outside of React (e.g. in event handlers)
+export const getSetting = <K extends SettingKey>(key: K): AppSettings[K] =>
+  useSettingsStore.getState().settings[key]
+
+// Updates the local copy right away and rolls it back if the main process rejects it
+export const setSetting = async <K extends SettingKey>(
+  key: K,
+  value: AppSettings[K]
+): Promise<boolean> => {
+  const previous = getSetting(key)
+  applySetting(key, value)
+
+  try {
+    const result: IpcResult = await window.electronAPI.invoke.setSetting(key, value)
+    if (!result.success) throw new Error(result.error)
+    return true
+  } catch (error) {
+    console.error(`Failed to save setting "${key}":`, error)
+    applySetting(key, previous)
+    return false
+  }
+}
+
+export const resetSettings = async (): Promise<void> => {
+  const result: IpcResult = await window.electronAPI.invoke.resetSettings()
+  if (!result.success) throw new Error(result.error)
+}
+
+// Hands the old localStorage values to the main process once, then drops them
+const migrateLocalStorage = async (): Promise<void> => {
+  const legacy: Record<string, string> = {}
+  for (const key of SETTING_KEYS) {
+    const value = localStorage.getItem(key)
+    if (value !== null) legacy[key] = value
+  }
+
+  const result: IpcResult<{ migrated: SettingKey[] }> =
+    await window.electronAPI.invoke.migrateLocalStorageSettings(legacy)
+  if (!result.success) throw new Error(result.error)
+
+  Object.keys(legacy).forEach(key => localStorage.removeItem(key))
+}
+
+// API keys used to live in localStorage; they now go to the main process credential store
+const migrateLegacyApiKey = async (): Promise<void> => {
+  const apiKey = localStorage.getItem('apiKey')?.trim()
+  if (apiKey) {
+    const result: IpcResult = await window.electronAPI.invoke.saveCredential({
+      provider: getSetting('modelProvider').id,
+      name: 'default',
+      secret: apiKey,
+    })
+    if (!result.success) throw new Error(result.error)
+  }
+  localStorage.removeItem('apiKey')
+}
+
+let unsubscribeSettings: (() => void) | null = null
+
+// Loads the settings before the first render; falls back to defaults if main is unavailable
+export const initializeSettings = async (): Promise<void> => {
+  try {
+    await migrateLocalStorage()
+  } catch (error) {
+    console.error('Failed to migrate localStorage settings:', error)
+  }
+
+  try {
+    const result: IpcResult<AppSettings> = await window.electronAPI.invoke.getAllSettings()
+    if (!result.success || !result.data) throw new Error(result.error)
+    useSettingsStore.setState({ settings: result.data })
+  } catch (error) {
+    console.error('Failed to load settings, using defaults:', error)
+  }
+
+  try {
+    await migrateLegacyApiKey()
+  } catch (error) {
+    console.error('Failed to migrate the saved API key:', error)
+  }
+
+  unsubscribeSettings?.()
+  unsubscribeSettings = window.electronAPI.on.settingsChanged(({ key, value }) =>
+    applySetting(key, value)
+  )
+}
@@ -0,0 +1,125 @@
+import type { ConversationSession } from '@shared/types'
+
+// Inverted index over conversation text, stored next to the sessions in IndexedDB.
+// Each posting is one (term, sessionId) pair, so re-indexing a session only touches
+// the postings found through its sessionId index.
+export const SEARCH_INDEX_STORE = 'searchIndex'
+
+export interface SearchPosting {
+  term: string
+  sessionId: string
+}
+
+const MIN_TERM_LENGTH = 2
+const MAX_TERM_LENGTH = 40
+
+export const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(term => term.length >= MIN_TERM_LENGTH && term.length <= MAX_TERM_LENGTH)
+
+export const getSessionTerms = (session: ConversationSession): Set<string> => {
+  const terms = new Set<string>()
+
+  for (const turn of session.conversationHistory) {
+    const texts = [turn.transcription, turn.ai_response, ...(turn.segments ?? []).map(s => s.text)]
+    for (const text of texts) {
+      if (text) tokenize(text).forEach(term => terms.add(term))
+    }
+  }
+
+  return terms
+}
+
+// Unique query terms; each one is matched as a prefix of an indexed term
+export const getQueryTerms = (query: string): string[] => [...new Set(tokenize(query))]
+
+export const createSearchIndexStore = (db: IDBDatabase): IDBObjectStore => {
+  const store = db.createObjectStore(SEARCH_INDEX_STORE, { keyPath: ['term', 'sessionId'] })
+  store.createIndex('sessionId', 'sessionId', { unique: false })
+  return store
+}
+
+// Queues the requests on the store's transaction; completion is tracked by the caller
+const updateSessionPostings = (
+  store: IDBObjectStore,
+  sessionId: string,
+  terms: Set<string>
+): void => {
+  const request = store.index('sessionId').getAllKeys(IDBKeyRange.only(sessionId))
+  request.onsuccess = () => {
+    const existing = new Set(request.result.map(key => (key as [string, string])[0]))
+
+    for (const term of existing) {
+      if (!terms.has(term)) store.delete([term, sessionId])
+    }
+    for (const term of terms) {
+      if (!existing.has(term)) store.put({ term, sessionId } satisfies SearchPosting)
+    }
+  }
+}
+
+export const indexSession = (store: IDBObjectStore, session: ConversationSession): void =>
+  updateSessionPostings(store, session.sessionId, getSessionTerms(session))
+
+export const removeSessionFromIndex = (store: IDBObjectStore, sessionId: string): void =>
+  updateSessionPostings(store, sessionId, new Set())
+
+// Session ids with an indexed term starting with `prefix`
+const findSessionsWithPrefix = (store: IDBObjectStore, prefix: string): Promise<Set<string>> =>
+  new Promise((resolve, reject) => {
+    const sessionIds = new Set<string>()
+    const range = IDBKeyRange.bound([prefix], [`${prefix}\uffff`])
+    const request = store.openKeyCursor(range)
+
+    request.onerror = () => reject(new Error('Failed to search conversation index'))
+    request.onsuccess = () => {
+      const cursor = request.result
+      if (cursor) {
+        sessionIds.add((cursor.primaryKey as [string, string])[1])
+        cursor.continue()
+      } else {
+        resolve(sessionIds)
+      }
+    }
+  })
+
+// Sessions that contain every query term
+export const searchIndex = async (store: IDBObjectStore, terms: string[]): Promise<string[]> => {
+  let matches: string[] | null = null
+
+  for (const term of terms) {
+    const sessionIds = await findSessionsWithPrefix(store, term)
+    matches = matches === null ? [...sessionIds] : matches.filter(id => sessionIds.has(id))
+    if (matches.length === 0) break
+  }
+
+  return matches ?? []
+}
+
+export interface HighlightPart {
+  text: string
+  match: boolean
+}
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// Splits text into parts, marking words that start with one of the query terms
+export const splitHighlights = (text: string, terms: string[]): HighlightPart[] => {
+  if (terms.length === 0) return [{ text, match: false }]
+
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(${terms.map(escapeRegExp).join('|')})`, 'giu')
+  const parts: HighlightPart[] = []
+  let lastIndex = 0
+
+  for (const match of text.matchAll(pattern)) {
+    const index = match.index ?? 0
+    if (index > lastIndex) parts.push({ text: text.slice(lastIndex, index), match: false })
+    parts.push({ text: match[0], match: true })
+    lastIndex = index + match[0].length
+  }
+
+  if (lastIndex < text.length) parts.push({ text: text.slice(lastIndex), match: false })
+  return parts
+}
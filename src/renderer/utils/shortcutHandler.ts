@@ -5,14 +5,14 @@ interface CheddarApi {
   handleShortcut: (shortcutKey: string) => void
   getCurrentView: () => ViewType
   getLayoutMode: () => LayoutMode
-  toggleAudioSource?: () => void
+  toggleMicrophone?: () => void
 }
 
 declare global {
   interface Window {
     cheddar: CheddarApi
     captureManualScreenshot: (imageQuality?: ImageQuality) => Promise<void>
-    toggleAudioSource?: () => void
+    toggleMicrophone?: () => void
   }
 }
 
@@ -56,14 +56,14 @@ export const handleShortcut = (shortcutKey: string): void => {
     }
   }
 
-  // Handle audio source toggle shortcut (Cmd+Shift+M / Ctrl+Shift+M)
+  // Handle microphone mute shortcut (Cmd+Shift+M / Ctrl+Shift+M)
   if (shortcutKey === 'cmd+shift+m' || shortcutKey === 'ctrl+shift+m') {
     if (currentView === 'assistant') {
-      console.log('Toggling audio source')
-      if (typeof window.toggleAudioSource === 'function') {
-        window.toggleAudioSource()
+      console.log('Toggling microphone')
+      if (typeof window.toggleMicrophone === 'function') {
+        window.toggleMicrophone()
       } else {
-        console.warn('toggleAudioSource function not available')
+        console.warn('toggleMicrophone function not available')
       }
     }
   }
@@ -0,0 +1,51 @@
+// Samples quieter than this count as silence
+export const SILENCE_THRESHOLD = 100
+
+export interface PcmLevels {
+  minValue: number
+  maxValue: number
+  avgValue: number
+  rmsValue: number
+  silencePercentage: number
+  zeroCrossingRate: number // Sign changes per sample, 0..1
+  sampleCount: number
+}
+
+/**
+ * Level statistics of 16-bit PCM, shared by the debug analysis in the main process and
+ * voice activity detection in the renderer.
+ */
+export const measurePcm = (samples: Int16Array): PcmLevels => {
+  let minValue = 32767
+  let maxValue = -32768
+  let avgValue = 0
+  let rmsValue = 0
+  let silentSamples = 0
+  let zeroCrossings = 0
+
+  for (let i = 0; i < samples.length; i++) {
+    const sample = samples[i]
+    minValue = Math.min(minValue, sample)
+    maxValue = Math.max(maxValue, sample)
+    avgValue += sample
+    rmsValue += sample * sample
+
+    if (Math.abs(sample) < SILENCE_THRESHOLD) {
+      silentSamples++
+    }
+    if (i > 0 && sample >= 0 !== samples[i - 1] >= 0) {
+      zeroCrossings++
+    }
+  }
+
+  const sampleCount = samples.length || 1
+  return {
+    minValue,
+    maxValue,
+    avgValue: avgValue / sampleCount,
+    rmsValue: Math.sqrt(rmsValue / sampleCount),
+    silencePercentage: (silentSamples / sampleCount) * 100,
+    zeroCrossingRate: zeroCrossings / sampleCount,
+    sampleCount: samples.length,
+  }
+}
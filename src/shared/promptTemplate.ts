@@ -0,0 +1,42 @@
+import type { PromptVariables } from './types'
+
+// {{name}} or {{name|fallback}}; the fallback is used while the variable is empty
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][\w-]*)\s*(?:\|([^}]*))?\}\}/g
+
+export const VARIABLE_NAME_PATTERN = /^[A-Za-z_][\w-]*$/
+
+// Always offered in the pre-session form, whether or not a prompt uses them
+export const DEFAULT_TEMPLATE_VARIABLES = ['company', 'attendees', 'agenda']
+
+// Names of the variables used in the templates, in order of first use
+export const findTemplateVariables = (...templates: string[]): string[] => {
+  const names = new Set<string>()
+  for (const template of templates) {
+    for (const match of template.matchAll(VARIABLE_PATTERN)) {
+      names.add(match[1])
+    }
+  }
+  return [...names]
+}
+
+// Own string values only, so a name such as toString is not looked up on the prototype
+export const readVariable = (variables: PromptVariables, name: string): string => {
+  const value = Object.hasOwn(variables, name) ? variables[name] : undefined
+  return typeof value === 'string' ? value : ''
+}
+
+/**
+ * Fills in the variables of a template. Empty and unknown variables become their
+ * fallback, or nothing; the names of those without a fallback are added to `missing`.
+ */
+export const renderTemplate = (
+  template: string,
+  variables: PromptVariables,
+  missing?: Set<string>
+): string =>
+  template.replace(VARIABLE_PATTERN, (_, name: string, fallback?: string) => {
+    const value = readVariable(variables, name).trim()
+    if (value) return value
+    if (fallback === undefined) missing?.add(name)
+    return fallback?.trim() ?? ''
+  })
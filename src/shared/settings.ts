@@ -0,0 +1,48 @@
+import type { AppSettings, SettingKey } from './types'
+import { DEFAULT_MODEL_PRICES } from './usage'
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  customPrompt: '',
+  googleSearchEnabled: true,
+  contentProtection: true,
+  customKeybinds: null,
+  modelProvider: { id: 'gemini' },
+  fontSize: 18,
+  backgroundTransparency: 0.8,
+  throttleTokens: true,
+  maxTokensPerMin: 1000000,
+  throttleAtPercent: 75,
+  onboardingCompleted: false,
+  reconnectMaxAttempts: 5,
+  modelPrices: DEFAULT_MODEL_PRICES,
+  usageBudgetUsd: 0,
+  usageBudgetPeriod: 'monthly',
+  voiceActivitySensitivity: 'medium',
+  microphoneDevice: null,
+  systemAudioDevice: null,
+  recordSessions: false,
+  recordingRetentionDays: 30,
+  recordingMaxStorageMb: 2048,
+  localTranscription: {
+    mode: 'off',
+    engine: 'whisper-server',
+    binaryPath: '',
+    modelPath: '',
+    threads: 4,
+  },
+  customProfiles: [],
+  promptVariables: { company: '', attendees: '', agenda: '' },
+  contextDocuments: [],
+  contextTokenBudget: 4000,
+  knowledgeBase: {
+    enabled: false,
+    folder: '',
+    passages: 3,
+    embeddingsBaseUrl: '',
+    embeddingsModel: 'nomic-embed-text',
+  },
+  enabledTools: {},
+  mcpServers: [],
+}
+
+export const SETTING_KEYS = Object.keys(DEFAULT_SETTINGS) as SettingKey[]
@@ -9,8 +9,61 @@ export type ViewType =
   | 'advanced'
   | 'assistant'
 
+// Built-in profiles
 export type ProfileType = 'interview' | 'sales' | 'meeting' | 'presentation' | 'negotiation'
 
+// A built-in ProfileType or the id of a CustomProfile
+export type ProfileId = ProfileType | (string & {})
+
+// Sections of a profile's system prompt, assembled by getSystemPrompt
+export interface PromptParts {
+  intro: string
+  formatRequirements: string
+  searchUsage: string // Left out when Google Search is off
+  content: string
+  outputInstructions: string
+}
+
+// A profile created by the user, stored in settings
+export interface CustomProfile extends PromptParts {
+  id: string // custom-<uuid>, so it never matches a built-in profile
+  name: string
+}
+
+// Values for the {{name}} placeholders in prompts, filled in before a session
+export type PromptVariables = Record<string, string>
+
+export type ContextDocumentFormat = 'pdf' | 'markdown' | 'text'
+
+// A local file attached as session context. Its text is extracted when it is attached,
+// so later changes to the file are not picked up.
+export interface ContextDocument {
+  id: string
+  name: string // File name
+  format: ContextDocumentFormat
+  tokens: number // Estimated size of the extracted text
+  enabled: boolean
+  addedAt: number
+}
+
+// How the system prompt was fitted into the model's limit
+export interface PromptBudgetReport {
+  tokens: number // Estimated size of the assembled prompt
+  limit: number
+  documentTokens: number
+  documentBudget: number // Tokens documents could use after the other sections
+  includedDocuments: string[] // Names of the documents with at least one chunk
+  includedChunks: number
+  omittedChunks: number
+  truncated: Array<'customPrompt' | 'content'> // Sections cut to fit the limit
+  missingVariables: string[] // Used in the prompt but left empty
+}
+
+export interface SystemPromptPreview {
+  prompt: string
+  report: PromptBudgetReport
+}
+
 export type LayoutMode = 'normal' | 'compact'
 
 export type ImageQuality = 'high' | 'medium' | 'low'
@@ -21,13 +74,16 @@ export type ScreenshotInterval = 'manual' | '1' | '2' | '5' | '10'
 export interface AppState {
   currentView: ViewType
   statusText: string
+  sessionError: SessionError | null
   startTime: number | null
   isRecording: boolean
   sessionActive: boolean
-  selectedProfile: ProfileType
+  selectedProfile: ProfileId
   selectedLanguage: string
   responses: string[]
   currentResponseIndex: number
+  isStreamingResponse: boolean
+  toolInvocations: ToolInvocation[] // Latest function tool calls, shown in the overlay
   selectedScreenshotInterval: ScreenshotInterval
   selectedImageQuality: ImageQuality
   layoutMode: LayoutMode
@@ -54,16 +110,56 @@ export interface KeybindConfig {
 }
 
 // Session and Conversation Management
+export type TranscriptSpeaker = 'remote' | 'local' // system audio vs. microphone
+
+export interface TranscriptSegment {
+  speaker: TranscriptSpeaker
+  source: AudioSourceType
+  startTime: number
+  endTime: number
+  text: string
+}
+
 export interface ConversationTurn {
   timestamp: number
   transcription: string
   ai_response: string
+  segments?: TranscriptSegment[] // Missing on turns saved before speaker attribution
+}
+
+export interface SessionActionItem {
+  task: string
+  owner: string | null
+}
+
+// Post-session summary produced by a text model when the session is closed
+export interface SessionSummary {
+  overview: string
+  decisions: string[]
+  actionItems: SessionActionItem[]
+  openQuestions: string[]
+  model: string
+  generatedAt: number
+}
+
+// What a session was run with. Sessions migrated from before metadata was recorded
+// only have the profile (if any), start time and duration.
+export interface SessionMetadata extends GeminiInitParams {
+  model?: string
+  tools?: string[] // Names of the enabled tools, e.g. googleSearch
+  variables?: PromptVariables // Only those that were filled in
+  contextDocuments?: string[] // Names of the documents with text in the prompt
+  startedAt: number
+  durationMs: number
 }
 
 export interface ConversationSession {
   sessionId: string
   timestamp: number
   conversationHistory: ConversationTurn[]
+  metadata?: SessionMetadata
+  summary?: SessionSummary
+  actionItems?: SessionActionItem[] // Created by the assistant with a tool during the session
   lastUpdated: number
 }
 
@@ -89,30 +185,386 @@ export interface AudioContent {
 
 export interface ImageContent {
   data: string // base64
+  width?: number // Used to estimate image tokens
+  height?: number
   debug?: boolean
 }
 
+// Live Model Providers
+export type LiveProviderId = 'gemini' | 'openai-compatible'
+
+export interface LiveProviderSettings {
+  id: LiveProviderId
+  model?: string
+  baseUrl?: string // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1
+  transcriptionModel?: string // Used for /audio/transcriptions; audio is ignored when empty
+  vision?: boolean // Attach the latest screenshot to OpenAI-compatible requests
+}
+
+// The API key is looked up in the main process credential store
 export interface GeminiInitParams {
-  apiKey: string
   customPrompt?: string
-  profile?: ProfileType
+  profile?: ProfileId
   language?: string
+  provider?: LiveProviderSettings
+}
+
+// API keys are encrypted in the main process; the renderer only sees their names
+export interface CredentialInfo {
+  provider: LiveProviderId
+  name: string
+  active: boolean // The key used when a session starts
+  createdAt: number
+}
+
+export interface SaveCredentialRequest {
+  provider: LiveProviderId
+  name: string
+  secret: string
+}
+
+// Settings owned by the main process (settings.json in userData). The keys match the
+// localStorage keys they were migrated from.
+export interface AppSettings {
+  customPrompt: string
+  googleSearchEnabled: boolean
+  contentProtection: boolean
+  customKeybinds: KeybindConfig | null // null means the platform defaults
+  modelProvider: LiveProviderSettings
+  fontSize: number
+  backgroundTransparency: number
+  throttleTokens: boolean
+  maxTokensPerMin: number
+  throttleAtPercent: number
+  onboardingCompleted: boolean
+  reconnectMaxAttempts: number // 0 disables automatic reconnection
+  modelPrices: Record<string, ModelPrice> // Keyed by model name
+  usageBudgetUsd: number // 0 disables the budget cap
+  usageBudgetPeriod: UsageBudgetPeriod
+  voiceActivitySensitivity: VoiceActivitySensitivity
+  microphoneDevice: AudioDeviceSelection | null // null means the system default input
+  systemAudioDevice: AudioDeviceSelection | null // Loopback input; null uses the platform capture
+  recordSessions: boolean // Opt-in: keep each session's audio and screenshots on disk
+  recordingRetentionDays: number
+  recordingMaxStorageMb: number
+  localTranscription: LocalTranscriptionSettings
+  customProfiles: CustomProfile[]
+  promptVariables: PromptVariables
+  contextDocuments: ContextDocument[]
+  contextTokenBudget: number // Most of the system prompt that documents may take
+  knowledgeBase: KnowledgeBaseSettings
+  enabledTools: Record<string, boolean> // By function tool name; unlisted tools use their default
+  mcpServers: McpServerConfig[]
+}
+
+export type SettingKey = keyof AppSettings
+
+// How readily audio counts as speech; 'off' sends all captured audio
+export type VoiceActivitySensitivity = 'off' | 'low' | 'medium' | 'high'
+
+// An audio input chosen by the user. Device ids can change between runs, so the label
+// is kept to find the device again.
+export interface AudioDeviceSelection {
+  deviceId: string
+  label: string
+}
+
+// Local speech-to-text through whisper.cpp: a server kept running, or the CLI per utterance
+export type LocalSttEngineId = 'whisper-server' | 'whisper-cli'
+
+// 'alongside' also transcribes locally while the live model runs and keeps transcribing
+// when it cannot be reached; 'only' runs sessions without a live model
+export type LocalTranscriptionMode = 'off' | 'alongside' | 'only'
+
+export interface LocalTranscriptionSettings {
+  mode: LocalTranscriptionMode
+  engine: LocalSttEngineId
+  binaryPath: string // Empty looks for whisper-server or whisper-cli on the PATH
+  modelPath: string // ggml model file, e.g. ggml-base.en.bin
+  threads: number
+}
+
+// Local knowledge base: a folder of documents whose passages are retrieved for what is
+// being said and sent to the live model
+export interface KnowledgeBaseSettings {
+  enabled: boolean
+  folder: string
+  passages: number // Sent per lookup
+  embeddingsBaseUrl: string // OpenAI-compatible server on this machine; empty uses BM25 only
+  embeddingsModel: string
+}
+
+export interface KnowledgeBaseStatus {
+  folder: string | null // Folder of the index on disk
+  files: number
+  passages: number
+  embeddingsModel: string | null // Model the passages were embedded with
+  indexedAt: number | null
+  indexing: boolean
+  progress?: { done: number; total: number }
+  errors: string[] // Files that could not be read by the last indexing
+}
+
+export interface KnowledgePassage {
+  file: string // Relative to the folder
+  text: string
+  score: number
+}
+
+// Function tools the live model can call
+export interface ToolInfo {
+  name: string
+  title: string
+  description: string
+  enabled: boolean
+  available: boolean // False when something it needs, such as a notes folder, is not set up
+}
+
+export type ToolInvocationStatus = 'running' | 'completed' | 'failed' | 'cancelled'
+
+export interface ToolInvocation {
+  id: string
+  name: string
+  title: string
+  args: Record<string, unknown>
+  status: ToolInvocationStatus
+  summary?: string // Short result or error for the overlay
+  startedAt: number
+}
+
+// A Model Context Protocol server started over stdio, whose tools are offered to the live model
+export interface McpServerConfig {
+  id: string
+  name: string
+  command: string
+  args: string[]
+  env: Record<string, string> // Added to the app's environment
+  enabled: boolean
+}
+
+export type McpServerState = 'stopped' | 'starting' | 'running' | 'failed'
+
+export interface McpServerStatus {
+  id: string
+  name: string
+  state: McpServerState
+  tools: string[] // Function names offered to the model
+  error?: string
+}
+
+export interface McpCallLogEntry {
+  id: string
+  server: string
+  tool: string // Name on the server
+  args: Record<string, unknown>
+  status: 'completed' | 'failed'
+  summary: string
+  startedAt: number
+  durationMs: number
+}
+
+export interface McpStatus {
+  servers: McpServerStatus[]
+  calls: McpCallLogEntry[] // Newest first
+}
+
+export interface SettingChange<K extends SettingKey = SettingKey> {
+  key: K
+  value: AppSettings[K]
+}
+
+// Progress of an automatic reconnection after the live connection dropped
+export type ReconnectionStatus =
+  | { state: 'reconnecting'; attempt: number; maxAttempts: number; retryInMs: number }
+  | { state: 'reconnected'; attempt: number }
+  | { state: 'failed'; attempts: number }
+
+// Usage Accounting
+export type UsageModality = 'text' | 'audio' | 'image'
+
+export type ModalityTokens = Record<UsageModality, number>
+
+// USD per million tokens
+export interface ModelPrice {
+  inputText: number
+  inputAudio: number
+  inputImage: number
+  output: number
+}
+
+export type UsageBudgetPeriod = 'daily' | 'monthly'
+
+export interface SessionUsage {
+  sessionId: string
+  provider: LiveProviderId
+  model: string
+  startedAt: number
+  // 'reported' when the provider sent usage metadata, otherwise estimated from the media sent
+  source: 'reported' | 'estimated'
+  input: ModalityTokens
+  output: ModalityTokens
+  costUsd: number | null // null when the model has no price
+}
+
+export interface UsageTotals {
+  sessions: number
+  input: ModalityTokens
+  output: ModalityTokens
+  costUsd: number
+}
+
+export interface UsageSummary {
+  today: UsageTotals
+  month: UsageTotals
+  budget: {
+    limitUsd: number // 0 when no cap is set
+    period: UsageBudgetPeriod
+    spentUsd: number
+    exceeded: boolean
+  }
+  recentSessions: SessionUsage[]
+}
+
+// Session Recording
+// Audio of one source between two pauses, stored as WAV next to the manifest
+export interface RecordingAudioSegment {
+  source: AudioSourceType
+  file: string
+  startTime: number // Epoch ms of the first sample
+  endTime: number
+  sampleRate: number
+  channels: number
+}
+
+export interface RecordingImage {
+  file: string
+  timestamp: number
+  width: number
+  height: number
+}
+
+// The recorded audio and screenshots in the span a conversation turn covers
+export interface RecordingTurn {
+  timestamp: number // ConversationTurn.timestamp
+  startTime: number // End of the previous turn, or the start of the recording
+  audio: string[]
+  images: string[]
+}
+
+export interface SessionRecordingManifest {
+  version: number
+  sessionId: string
+  startedAt: number
+  endedAt: number | null // null while recording, or if the app quit mid-session
+  audio: RecordingAudioSegment[]
+  images: RecordingImage[]
+  turns: RecordingTurn[]
+}
+
+// Playback of one turn, prepared by the main process
+export interface TurnRecording {
+  audio: string | null // Base64 WAV of both sources mixed, pauses shortened
+  durationMs: number
+  images: Array<{ timestamp: number; data: string }> // Base64 JPEG, the latest few
+}
+
+export interface RecordingState {
+  recording: boolean
+  sessionId: string | null
+}
+
+// Class of a live session failure; decides whether to reconnect and what the user can do
+export type SessionErrorCode =
+  | 'auth'
+  | 'quota'
+  | 'network'
+  | 'model-unavailable'
+  | 'protocol'
+  | 'unknown'
+
+export interface SessionError {
+  code: SessionErrorCode
+  retryable: boolean
+  message: string // Short user-facing description
+  detail?: string // Raw provider message
+  retryAt?: number // Epoch ms the provider asked to wait until (quota errors)
 }
 
 // Event Channel Definitions (Main -> Renderer)
 export interface SaveConversationTurnPayload {
   sessionId: string
+  metadata?: SessionMetadata
   turn: ConversationTurn
   fullHistory: ConversationTurn[]
+  actionItems?: SessionActionItem[]
+}
+
+// Session export
+export type ExportFormat = 'markdown' | 'json' | 'srt' | 'vtt' | 'text'
+
+export interface ExportSessionsRequest {
+  format: ExportFormat
+  sessions: ConversationSession[]
+  // Only export sessions started within this range (inclusive, epoch ms)
+  range?: { from?: number; to?: number }
+}
+
+export interface ExportSessionsResult {
+  canceled: boolean
+  filePaths: string[]
+}
+
+export interface PreviewSystemPromptRequest {
+  parts: PromptParts
+  customPrompt: string
+  googleSearchEnabled: boolean
+}
+
+export interface ExportProfilesResult {
+  canceled: boolean
+  filePath?: string
+}
+
+export interface AttachContextDocumentsResult {
+  canceled: boolean
+  attached: ContextDocument[]
+  errors: string[] // One message per file that could not be read
+}
+
+export interface ImportProfilesResult {
+  canceled: boolean
+  imported: CustomProfile[]
+}
+
+export interface SessionMetadataPayload {
+  sessionId: string
+  metadata: SessionMetadata
+}
+
+export interface SessionSummaryPayload {
+  sessionId: string
+  summary: SessionSummary
 }
 
 export interface IpcEvents {
   'update-response': string
+  'response-delta': string
   'update-status': string
   'session-initializing': boolean
   'click-through-toggled': boolean
   'view-changed': ViewType
   'save-conversation-turn': SaveConversationTurnPayload
+  'session-summary': SessionSummaryPayload
+  'session-metadata': SessionMetadataPayload
+  'settings-changed': SettingChange
+  'credentials-changed': CredentialInfo[]
+  'reconnection-status': ReconnectionStatus
+  'session-error': SessionError | null
+  'usage-updated': UsageSummary
+  'recording-state': RecordingState
+  'knowledge-base-status': KnowledgeBaseStatus
+  'tool-invocation': ToolInvocation
+  'mcp-status': McpStatus
   'navigate-previous-response': void
   'navigate-next-response': void
   'scroll-response-up': void
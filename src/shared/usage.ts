@@ -0,0 +1,25 @@
+import type { ModalityTokens, ModelPrice } from './types'
+
+// Estimates used when a provider does not report usage. Gemini bills audio at a fixed
+// rate per second and images per 768px tile; text is roughly four characters a token.
+export const AUDIO_TOKENS_PER_SECOND = 32
+const IMAGE_TILE_SIZE = 768
+const TOKENS_PER_IMAGE_TILE = 258
+export const CHARS_PER_TOKEN = 4
+
+export const estimateImageTokens = (width: number, height: number): number => {
+  if (width <= 384 && height <= 384) return TOKENS_PER_IMAGE_TILE
+  const tilesX = Math.ceil(width / IMAGE_TILE_SIZE)
+  const tilesY = Math.ceil(height / IMAGE_TILE_SIZE)
+  return tilesX * tilesY * TOKENS_PER_IMAGE_TILE
+}
+
+export const estimateTextTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN)
+
+export const emptyModalityTokens = (): ModalityTokens => ({ text: 0, audio: 0, image: 0 })
+
+// Published pay-as-you-go prices of the default models; editable in Advanced settings
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gemini-live-2.5-flash-preview': { inputText: 0.5, inputAudio: 3, inputImage: 3, output: 2 },
+  'gemini-2.0-flash-live-001': { inputText: 0.35, inputAudio: 2.1, inputImage: 2.1, output: 1.5 },
+}
@@ -0,0 +1,85 @@
+import { measurePcm, SILENCE_THRESHOLD } from './audio'
+import type { VoiceActivitySensitivity } from './types'
+
+interface SpeechThresholds {
+  minRms: number // Absolute level a chunk needs to count as speech
+  noiseRatio: number // ...and how far above the tracked noise floor it must be
+}
+
+const THRESHOLDS: Record<Exclude<VoiceActivitySensitivity, 'off'>, SpeechThresholds> = {
+  low: { minRms: 800, noiseRatio: 4 },
+  medium: { minRms: 400, noiseRatio: 3 },
+  high: { minRms: 200, noiseRatio: 2 },
+}
+
+// Broadband noise (fans, hiss) changes sign about every other sample, voiced speech far less often
+const MAX_SPEECH_ZERO_CROSSING_RATE = 0.35
+// How quickly the noise floor follows chunks that are not speech
+const NOISE_FLOOR_ADAPTATION = 0.05
+
+const DEFAULT_HANGOVER_MS = 800
+const DEFAULT_PRE_ROLL_MS = 300
+
+export interface VoiceActivityGateOptions {
+  sensitivity: VoiceActivitySensitivity
+  chunkDurationMs: number
+  hangoverMs?: number // Audio still sent after speech stops, so pauses and word endings survive
+  preRollMs?: number // Audio sent from before the onset, so the first syllable is not clipped
+}
+
+/**
+ * Energy and zero-crossing voice activity detection for captured PCM chunks. Only speech,
+ * with its pre-roll and hangover, passes the gate; silence is never uploaded. Used for
+ * audio captured in the renderer and for system audio captured in the main process.
+ */
+export const createVoiceActivityGate = ({
+  sensitivity,
+  chunkDurationMs,
+  hangoverMs = DEFAULT_HANGOVER_MS,
+  preRollMs = DEFAULT_PRE_ROLL_MS,
+}: VoiceActivityGateOptions) => {
+  const thresholds = sensitivity === 'off' ? null : THRESHOLDS[sensitivity]
+  const hangoverChunks = Math.ceil(hangoverMs / chunkDurationMs)
+  const preRollChunks = Math.ceil(preRollMs / chunkDurationMs)
+
+  const preRoll: Int16Array[] = []
+  let noiseFloor = SILENCE_THRESHOLD
+  let hangover = 0 // Chunks still to send after the last speech chunk
+
+  const isSpeech = (chunk: Int16Array, { minRms, noiseRatio }: SpeechThresholds): boolean => {
+    const { rmsValue, zeroCrossingRate } = measurePcm(chunk)
+    const speech =
+      rmsValue >= Math.max(minRms, noiseFloor * noiseRatio) &&
+      zeroCrossingRate <= MAX_SPEECH_ZERO_CROSSING_RATE
+
+    if (!speech) {
+      noiseFloor += NOISE_FLOOR_ADAPTATION * (rmsValue - noiseFloor)
+    }
+    return speech
+  }
+
+  // Chunks to send for one captured chunk: none while silent, the pre-roll and the chunk
+  // at a speech onset, the chunk itself while speech or its hangover lasts
+  const process = (chunk: Int16Array): Int16Array[] => {
+    if (!thresholds) return [chunk]
+
+    if (isSpeech(chunk, thresholds)) {
+      hangover = hangoverChunks
+      return [...preRoll.splice(0), chunk]
+    }
+    if (hangover > 0) {
+      hangover--
+      return [chunk]
+    }
+
+    preRoll.push(chunk)
+    if (preRoll.length > preRollChunks) preRoll.shift()
+    return []
+  }
+
+  const isOpen = (): boolean => !thresholds || hangover > 0
+
+  return { process, isOpen }
+}
+
+export type VoiceActivityGate = ReturnType<typeof createVoiceActivityGate>
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest'
+import { createAudioGapBuffer } from '../src/main/gemini/AudioGapBuffer'
+
+// 100 ms of 24 kHz 16-bit mono audio
+const chunk = (fill: string) => Buffer.alloc(4800, fill).toString('base64')
+
+describe('AudioGapBuffer', () => {
+  it('keeps only the most recent audio and drains it in capture order', () => {
+    const buffer = createAudioGapBuffer(250)
+
+    buffer.push(chunk('a'), 'system', 1)
+    buffer.push(chunk('b'), 'microphone', 1)
+    expect(buffer.getBufferedMs()).toBe(200)
+
+    buffer.push(chunk('c'), 'system', 1)
+    buffer.push(chunk('d'), 'system', 1)
+    expect(buffer.getBufferedMs()).toBe(200)
+
+    expect(buffer.drain()).toEqual([
+      { data: chunk('c'), source: 'system' },
+      { data: chunk('d'), source: 'system' },
+    ])
+    expect(buffer.getBufferedMs()).toBe(0)
+  })
+
+  it('measures stereo frames by their channel count', () => {
+    const buffer = createAudioGapBuffer(250)
+
+    // 100 ms each with system and microphone in separate channels
+    for (const fill of ['a', 'b', 'c']) {
+      buffer.push(Buffer.alloc(9600, fill).toString('base64'), 'system', 2)
+    }
+    expect(buffer.getBufferedMs()).toBe(200)
+    expect(buffer.drain()).toHaveLength(2)
+  })
+})
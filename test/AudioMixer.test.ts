@@ -0,0 +1,107 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { createAudioMixer, type MixedAudioFrame } from '../src/main/audio/AudioMixer'
+
+// 100 ms of 24 kHz 16-bit mono audio with every sample set to `value`
+const chunk = (value: number) => {
+  const pcm = Buffer.alloc(4800)
+  for (let i = 0; i < 2400; i++) pcm.writeInt16LE(value, i * 2)
+  return pcm
+}
+
+const samples = (frame: MixedAudioFrame) =>
+  Array.from({ length: frame.data.length / 2 }, (_, i) => frame.data.readInt16LE(i * 2))
+
+describe('AudioMixer', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('sums the sources into mono frames and fills dropouts with silence', () => {
+    vi.useFakeTimers({ now: 0 })
+    const frames: MixedAudioFrame[] = []
+    const mixer = createAudioMixer({ channels: 1, onFrame: frame => frames.push(frame) })
+    const step = (system: number | null, microphone: number | null) => {
+      vi.advanceTimersByTime(100)
+      if (system !== null) mixer.push('system', chunk(system))
+      if (microphone !== null) mixer.push('microphone', chunk(microphone))
+    }
+
+    // The microphone starts after the first system frame went out, so it joins the next one
+    step(1000, 500)
+    step(1000, 500)
+    // The system source drops a chunk while the microphone keeps going
+    step(null, 500)
+    step(1000, 500)
+
+    expect(frames.map(frame => [frame.timestamp, samples(frame)[0]])).toEqual([
+      [0, 1000],
+      [100, 1500],
+      [200, 500],
+      [300, 1500],
+    ])
+  })
+
+  it('keeps each source in its own channel in stereo', () => {
+    vi.useFakeTimers({ now: 0 })
+    const frames: MixedAudioFrame[] = []
+    const mixer = createAudioMixer({ channels: 2, onFrame: frame => frames.push(frame) })
+
+    for (let i = 0; i < 2; i++) {
+      vi.advanceTimersByTime(100)
+      mixer.push('system', chunk(-700))
+      mixer.push('microphone', chunk(300))
+    }
+
+    expect(frames.map(frame => frame.channels)).toEqual([2, 2])
+    expect(samples(frames[1]).slice(0, 4)).toEqual([-700, 300, -700, 300])
+  })
+
+  it('downmixes stereo input by averaging its channels', () => {
+    const frames: MixedAudioFrame[] = []
+    const mixer = createAudioMixer({ channels: 1, onFrame: frame => frames.push(frame) })
+
+    // Left 1000 and right 3000 for 100 ms
+    const stereo = Buffer.alloc(9600)
+    for (let i = 0; i < 2400; i++) {
+      stereo.writeInt16LE(1000, i * 4)
+      stereo.writeInt16LE(3000, i * 4 + 2)
+    }
+    mixer.push('system', stereo, { channels: 2 })
+
+    expect(samples(frames[0])[0]).toBe(2000)
+  })
+
+  it('changes the speaker only after the new source dominates for two frames', () => {
+    vi.useFakeTimers({ now: 0 })
+    const speakers: Array<string | null> = []
+    const mixer = createAudioMixer({ channels: 1, onFrame: frame => speakers.push(frame.speaker) })
+
+    for (const [system, microphone] of [
+      [50, 0],
+      [2000, 0],
+      [0, 2000],
+      [2000, 0],
+      [0, 2000],
+      [0, 2000],
+    ]) {
+      vi.advanceTimersByTime(100)
+      mixer.push('system', chunk(system))
+      mixer.push('microphone', chunk(microphone))
+    }
+
+    expect(speakers).toEqual([null, 'system', 'system', 'system', 'system', 'microphone'])
+  })
+
+  it('sends a partial frame once every source has gone quiet', () => {
+    vi.useFakeTimers({ now: 0 })
+    const frames: MixedAudioFrame[] = []
+    const mixer = createAudioMixer({ channels: 1, onFrame: frame => frames.push(frame) })
+
+    mixer.push('microphone', chunk(800).subarray(0, 2400))
+    expect(frames).toHaveLength(0)
+
+    vi.advanceTimersByTime(250)
+    expect(frames).toHaveLength(1)
+    expect(samples(frames[0]).slice(1199, 1201)).toEqual([800, 0])
+  })
+})
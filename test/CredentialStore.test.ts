@@ -0,0 +1,111 @@
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createCredentialStore } from '../src/main/credentials/CredentialStore'
+
+// Stand-in keychain: reversible, but the secret never appears as plain text
+const keychain = vi.hoisted(() => ({
+  available: false,
+  backend: 'gnome_libsecret',
+}))
+
+vi.mock('electron', async () => {
+  const { tmpdir } = await import('node:os')
+  return {
+    app: { getPath: () => tmpdir() },
+    BrowserWindow: {},
+    ipcMain: {},
+    safeStorage: {
+      isEncryptionAvailable: () => keychain.available,
+      getSelectedStorageBackend: () => keychain.backend,
+      encryptString: (text: string) => Buffer.from(text, 'utf8').reverse(),
+      decryptString: (data: Buffer) => Buffer.from(data).reverse().toString('utf8'),
+    },
+  }
+})
+
+describe('CredentialStore', () => {
+  let dir: string
+  let filePath: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'credential-store-test-'))
+    filePath = join(dir, 'credentials.json')
+    keychain.available = false
+    keychain.backend = 'gnome_libsecret'
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('keeps several named keys per provider and tracks the active one', () => {
+    const store = createCredentialStore(filePath)
+
+    store.saveCredential({ provider: 'gemini', name: 'personal', secret: 'key-1' })
+    store.saveCredential({ provider: 'gemini', name: 'work', secret: ' key-2 ' })
+    store.saveCredential({ provider: 'openai-compatible', name: 'local', secret: 'key-3' })
+
+    expect(store.list('gemini').map(({ name, active }) => ({ name, active }))).toEqual([
+      { name: 'personal', active: false },
+      { name: 'work', active: true },
+    ])
+    expect(store.getSecret('gemini')).toBe('key-2')
+    expect(store.getSecret('gemini', 'personal')).toBe('key-1')
+
+    store.setActiveCredential('gemini', 'personal')
+    expect(store.getSecret('gemini')).toBe('key-1')
+
+    store.deleteCredential('gemini', 'personal')
+    expect(store.hasKey('gemini')).toBe(true)
+    expect(store.getSecret('gemini')).toBe('key-2')
+
+    store.deleteCredential('gemini', 'work')
+    expect(store.hasKey('gemini')).toBe(false)
+    expect(store.getSecret('gemini')).toBeNull()
+    expect(store.hasKey('openai-compatible')).toBe(true)
+  })
+
+  it('encrypts with a local key file when no keyring is available', () => {
+    keychain.available = false
+
+    const store = createCredentialStore(filePath)
+    store.saveCredential({ provider: 'gemini', name: 'default', secret: 'super-secret-key' })
+
+    const contents = readFileSync(filePath, 'utf8')
+    expect(contents).not.toContain('super-secret-key')
+    expect(JSON.parse(contents).credentials[0].encryption).toBe('file')
+
+    expect(createCredentialStore(filePath).getSecret('gemini')).toBe('super-secret-key')
+  })
+
+  it('uses the system keychain when available', () => {
+    keychain.available = true
+
+    const store = createCredentialStore(filePath)
+    store.saveCredential({ provider: 'gemini', name: 'default', secret: 'keychain-key' })
+
+    const contents = readFileSync(filePath, 'utf8')
+    expect(contents).not.toContain('keychain-key')
+    expect(JSON.parse(contents).credentials[0].encryption).toBe('safeStorage')
+    expect(createCredentialStore(filePath).getSecret('gemini')).toBe('keychain-key')
+
+    keychain.available = false
+    expect(() => createCredentialStore(filePath).getSecret('gemini')).toThrow(
+      'system keychain is not available'
+    )
+  })
+
+  it('rejects empty keys and unknown names', () => {
+    const store = createCredentialStore(filePath)
+
+    expect(() => store.saveCredential({ provider: 'gemini', name: 'x', secret: '  ' })).toThrow(
+      'API key is empty'
+    )
+    expect(() => store.saveCredential({ provider: 'gemini', name: ' ', secret: 'k' })).toThrow(
+      'API key name is required'
+    )
+    expect(() => store.setActiveCredential('gemini', 'missing')).toThrow()
+  })
+})
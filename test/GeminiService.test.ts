@@ -0,0 +1,757 @@
+import type {
+  IpcResult,
+  SaveConversationTurnPayload,
+  SessionError,
+  SessionMetadataPayload,
+  SessionSummaryPayload,
+  ToolInvocation,
+} from '@shared/types'
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { credentialStore } from '../src/main/credentials/CredentialStore'
+import type { SystemAudioBackend } from '../src/main/audio/SystemAudioCapture'
+import { createGeminiService } from '../src/main/gemini/GeminiService'
+import type { ReconnectionPolicy } from '../src/main/gemini/ReconnectionManager'
+import { sessionRecorder } from '../src/main/recording/SessionRecorder'
+import { settingsStore } from '../src/main/settings/SettingsStore'
+import { usageTracker } from '../src/main/usage/UsageTracker'
+import {
+  createMockLiveServer,
+  type MockLiveConnectionScript,
+  type MockLiveServer,
+  type MockLiveServerOptions,
+  scriptedTurn,
+  serverMessages,
+} from './mockLiveServer'
+
+// Minimal Electron surface used by the service: one window, ipcMain.handle and a
+// throwaway userData directory for the settings and credential files
+const electron = vi.hoisted(() => {
+  const handlers = new Map<string, (event: unknown, ...args: unknown[]) => Promise<unknown>>()
+  const sent: Array<{ channel: string; data: unknown }> = []
+
+  const window = {
+    webContents: {
+      send: (channel: string, data: unknown) => sent.push({ channel, data }),
+    },
+  }
+
+  return { handlers, sent, window }
+})
+
+vi.mock('electron', async () => {
+  const { mkdtempSync } = await import('node:fs')
+  const { tmpdir } = await import('node:os')
+  const { join } = await import('node:path')
+  const userData = mkdtempSync(join(tmpdir(), 'gemini-service-test-'))
+
+  return {
+    app: { getPath: () => userData },
+    // No keychain, so API keys use the encrypted-file fallback
+    safeStorage: { isEncryptionAvailable: () => false },
+    BrowserWindow: { getAllWindows: () => [electron.window] },
+    ipcMain: {
+      handle: (
+        channel: string,
+        handler: (event: unknown, ...args: unknown[]) => Promise<unknown>
+      ) => electron.handlers.set(channel, handler),
+    },
+  }
+})
+
+// Fast, deterministic backoff so reconnection tests finish quickly; the attempt budget
+// comes from settings (3 unless a test changes it)
+const RECONNECTION_DELAY = 50
+const TEST_RECONNECTION_POLICY: Partial<ReconnectionPolicy> = {
+  initialDelayMs: RECONNECTION_DELAY,
+  multiplier: 1,
+  jitter: 0,
+}
+
+const invoke = <T = unknown>(channel: string, ...args: unknown[]): Promise<T> => {
+  const handler = electron.handlers.get(channel)
+  if (!handler) throw new Error(`No handler registered for ${channel}`)
+  return handler({}, ...args) as Promise<T>
+}
+
+const sentOn = <T = unknown>(channel: string): T[] =>
+  electron.sent.filter(entry => entry.channel === channel).map(entry => entry.data as T)
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+// 100 ms of 24 kHz mono PCM: a 200 Hz tone, or silence
+const audioChunk = (amplitude = 0) => {
+  const pcm = Buffer.alloc(4800)
+  for (let i = 0; i < 2400; i++) {
+    pcm.writeInt16LE(Math.round(Math.sin((2 * Math.PI * 200 * i) / 24000) * amplitude), i * 2)
+  }
+  return pcm.toString('base64')
+}
+
+// Frames the Live client sends for mixed audio, and for context such as speaker markers
+const audioInput = (data: string) => ({
+  realtimeInput: { audio: { data, mimeType: 'audio/pcm;rate=24000' } },
+})
+const contextInput = (text: string) => ({
+  clientContent: { turns: [{ role: 'user', parts: [{ text }] }], turnComplete: false },
+})
+
+const OTHER_SPEAKER = '[Other speaker - this is system audio from the call]'
+const USER_SPEAKING = '[User speaking - this is the interviewee responding]'
+
+describe('GeminiService', () => {
+  let server: MockLiveServer | null = null
+
+  const startSession = async (
+    scripts: MockLiveConnectionScript[],
+    options?: MockLiveServerOptions,
+    systemAudioBackends?: SystemAudioBackend[]
+  ) => {
+    server = await createMockLiveServer(scripts, options)
+    const service = createGeminiService({
+      reconnectionPolicy: TEST_RECONNECTION_POLICY,
+      systemAudioBackends,
+    })
+    service.setupIpcHandlers()
+    credentialStore.saveCredential({ provider: 'gemini', name: 'default', secret: 'test-key' })
+
+    const initialized = await invoke<boolean>('initialize-gemini', {
+      customPrompt: 'I am interviewing for a frontend role',
+      profile: 'interview',
+      language: 'en-US',
+      provider: { id: 'gemini', baseUrl: server.url },
+    })
+
+    return { server, initialized }
+  }
+
+  beforeEach(() => {
+    electron.handlers.clear()
+    electron.sent.length = 0
+    settingsStore.set('reconnectMaxAttempts', 3)
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'debug').mockImplementation(() => {})
+    // Summaries requested by close-session in teardown fail once the server is gone
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.spyOn(process.stdout, 'write').mockImplementation(() => true)
+  })
+
+  afterEach(async () => {
+    if (electron.handlers.has('close-session')) {
+      await invoke('close-session')
+    }
+    await server?.close()
+    server = null
+    settingsStore.reset()
+    credentialStore.deleteCredential('gemini', 'default')
+    usageTracker.clear()
+    vi.restoreAllMocks()
+  })
+
+  it('connects to the configured endpoint with the profile system prompt', async () => {
+    settingsStore.set('googleSearchEnabled', false)
+    settingsStore.set('enabledTools', {
+      calculate: false,
+      convert_units: false,
+      create_action_item: false,
+    })
+    const { server, initialized } = await startSession([{}])
+
+    expect(initialized).toBe(true)
+    await vi.waitFor(() => expect(server.connections[0]?.setup).not.toBeNull())
+
+    const { url, setup } = server.connections[0]
+    expect(url).toContain('BidiGenerateContent')
+    expect(url).toContain('key=test-key')
+
+    const config = setup!.setup as Record<string, unknown>
+    expect(config.model).toBe('models/gemini-live-2.5-flash-preview')
+    expect(JSON.stringify(config.systemInstruction)).toContain(
+      'I am interviewing for a frontend role'
+    )
+    expect(config.tools ?? []).toEqual([])
+    expect(sentOn('update-status')).toContain('Live session connected')
+  })
+
+  it('emits update-response and saves the turn once generation completes', async () => {
+    await startSession([
+      { steps: scriptedTurn('What is a closure?', ['A closure ', 'captures its scope.']) },
+    ])
+
+    await vi.waitFor(() => expect(sentOn('update-response')).toHaveLength(1))
+    expect(sentOn('update-response')[0]).toBe('A closure captures its scope.')
+
+    await vi.waitFor(() => expect(sentOn('save-conversation-turn')).toHaveLength(1))
+    const [saved] = sentOn<SaveConversationTurnPayload>('save-conversation-turn')
+    expect(saved.metadata).toMatchObject({
+      profile: 'interview',
+      language: 'en-US',
+      customPrompt: 'I am interviewing for a frontend role',
+      model: 'gemini-live-2.5-flash-preview',
+      startedAt: Number(saved.sessionId),
+    })
+    expect(saved.metadata).not.toHaveProperty('apiKey')
+    expect(saved.metadata?.provider).not.toHaveProperty('apiKey')
+    expect(saved.turn.transcription).toBe('What is a closure?')
+    expect(saved.turn.ai_response).toBe('A closure captures its scope.')
+    expect(saved.turn.segments).toEqual([
+      expect.objectContaining({ speaker: 'remote', source: 'system', text: 'What is a closure?' }),
+    ])
+    expect(saved.fullHistory).toHaveLength(1)
+
+    await vi.waitFor(() => expect(sentOn('update-status')).toContain('Listening...'))
+
+    const current = await invoke<IpcResult<{ history: unknown[] }>>('get-current-session')
+    expect(current.data?.history).toHaveLength(1)
+  })
+
+  it('runs the function tools the model calls and answers with their results', async () => {
+    settingsStore.set('googleSearchEnabled', false)
+    const { server } = await startSession([
+      {
+        steps: [
+          {
+            type: 'message',
+            message: serverMessages.toolCall([
+              { id: 'call-1', name: 'calculate', args: { expression: '1200 * 15%' } },
+              {
+                id: 'call-2',
+                name: 'create_action_item',
+                args: { task: 'Send the quote', owner: 'Sam' },
+              },
+              { id: 'call-3', name: 'delete_everything', args: {} },
+            ]),
+          },
+          { type: 'waitForToolResponse' },
+          ...scriptedTurn('Can you send us a quote?', ['Sam will send it.']),
+        ],
+      },
+    ])
+
+    await vi.waitFor(() => expect(server.connections[0]?.setup).not.toBeNull())
+    const config = server.connections[0].setup!.setup as { tools: unknown[] }
+    expect(JSON.stringify(config.tools)).toContain('"name":"convert_units"')
+    // Without a knowledge base folder there are no notes to look up
+    expect(JSON.stringify(config.tools)).not.toContain('search_notes')
+
+    const toolResponses = () =>
+      server.connections[0].received.filter(message => message.toolResponse)
+    await vi.waitFor(() => expect(toolResponses()).toHaveLength(1))
+    expect(toolResponses()[0].toolResponse).toEqual({
+      functionResponses: [
+        {
+          id: 'call-1',
+          name: 'calculate',
+          response: { output: { expression: '1200 * 15%', result: 180 } },
+        },
+        {
+          id: 'call-2',
+          name: 'create_action_item',
+          response: { output: 'Added "Send the quote" for Sam' },
+        },
+        {
+          id: 'call-3',
+          name: 'delete_everything',
+          response: { error: 'No tool named delete_everything is enabled' },
+        },
+      ],
+    })
+
+    // Each call is shown when it starts and again with its result
+    const invocations = sentOn<ToolInvocation>('tool-invocation')
+    const finished = invocations.filter(invocation => invocation.status !== 'running')
+    expect(invocations).toHaveLength(6)
+    expect(finished.find(invocation => invocation.id === 'call-1')).toMatchObject({
+      title: 'Calculator',
+      status: 'completed',
+      summary: '{"expression":"1200 * 15%","result":180}',
+    })
+    expect(finished.find(invocation => invocation.id === 'call-3')).toMatchObject({
+      status: 'failed',
+      summary: 'No tool named delete_everything is enabled',
+    })
+
+    await vi.waitFor(() => expect(sentOn('save-conversation-turn')).toHaveLength(1))
+    const [saved] = sentOn<SaveConversationTurnPayload>('save-conversation-turn')
+    expect(saved.actionItems).toEqual([{ task: 'Send the quote', owner: 'Sam' }])
+    expect(saved.metadata?.tools).toEqual(['calculate', 'convert_units', 'create_action_item'])
+  })
+
+  it('streams response deltas before the final response', async () => {
+    await startSession([{ steps: scriptedTurn('Explain hoisting', ['Declarations ', 'move up.']) }])
+
+    await vi.waitFor(() => expect(sentOn('update-response')).toHaveLength(1))
+    expect(sentOn('response-delta')).toEqual(['Declarations ', 'move up.'])
+
+    const channels = electron.sent.map(entry => entry.channel)
+    expect(channels.lastIndexOf('response-delta')).toBeLessThan(channels.indexOf('update-response'))
+  })
+
+  it('ends a response cut off by an interruption before the next one streams', async () => {
+    await startSession([
+      {
+        steps: [
+          { type: 'message', message: serverMessages.modelText('Declarations') },
+          { type: 'message', message: serverMessages.interrupted() },
+          ...scriptedTurn('Explain hoisting', ['They move up.']),
+        ],
+      },
+    ])
+
+    await vi.waitFor(() => expect(sentOn('update-response')).toHaveLength(2))
+    expect(sentOn('update-response')).toEqual(['Declarations', 'They move up.'])
+  })
+
+  it('summarizes the conversation with the text model when the session closes', async () => {
+    const summaryText = JSON.stringify({
+      overview: 'Discussed the rollout plan.',
+      decisions: ['Ship on Friday'],
+      actionItems: [
+        { task: 'Write the release notes', owner: 'Dana' },
+        { task: 'Book a retro', owner: null },
+      ],
+      openQuestions: ['Who owns on-call?'],
+    })
+    const { server } = await startSession(
+      [{ steps: scriptedTurn('Can we ship on Friday?', ['Yes, if QA signs off.']) }],
+      { generateContentText: summaryText }
+    )
+    await vi.waitFor(() => expect(sentOn('save-conversation-turn')).toHaveLength(1))
+
+    const result = await invoke<IpcResult>('close-session')
+    expect(result.success).toBe(true)
+
+    const [metadataUpdate] = sentOn<SessionMetadataPayload>('session-metadata')
+    expect(metadataUpdate.metadata.durationMs).toBeGreaterThanOrEqual(0)
+
+    await vi.waitFor(() => expect(sentOn('session-summary')).toHaveLength(1))
+    const [payload] = sentOn<SessionSummaryPayload>('session-summary')
+    const [saved] = sentOn<SaveConversationTurnPayload>('save-conversation-turn')
+    expect(payload.sessionId).toBe(saved.sessionId)
+    expect(payload.summary).toMatchObject({
+      overview: 'Discussed the rollout plan.',
+      decisions: ['Ship on Friday'],
+      actionItems: [
+        { task: 'Write the release notes', owner: 'Dana' },
+        { task: 'Book a retro', owner: null },
+      ],
+      openQuestions: ['Who owns on-call?'],
+      model: 'gemini-2.5-flash',
+    })
+
+    const prompt = JSON.stringify(server.textRequests[0])
+    expect(prompt).toContain('Them: Can we ship on Friday?')
+    expect(prompt).toContain('Assistant: Yes, if QA signs off.')
+
+    // Closing again does not request a second summary
+    await invoke('close-session')
+    expect(server.textRequests).toHaveLength(1)
+  })
+
+  it('does not save a turn for responses without a transcription', async () => {
+    await startSession([
+      {
+        steps: [
+          { type: 'waitForInput' },
+          { type: 'message', message: serverMessages.modelText('Here is the answer.') },
+          { type: 'message', message: serverMessages.generationComplete() },
+          { type: 'message', message: serverMessages.turnComplete() },
+        ],
+      },
+    ])
+
+    const result = await invoke<IpcResult>('send-text-message', '  What is on screen?  ')
+    expect(result.success).toBe(true)
+
+    await vi.waitFor(() => expect(sentOn('update-response')).toEqual(['Here is the answer.']))
+    await vi.waitFor(() => expect(sentOn('update-status')).toContain('Listening...'))
+    expect(sentOn('save-conversation-turn')).toHaveLength(0)
+    expect(server!.getRealtimeInputs()).toContainEqual({ text: 'What is on screen?' })
+  })
+
+  it('mixes audio into one stream and marks each change of speaker once', async () => {
+    const { server } = await startSession([{}])
+    await vi.waitFor(() => expect(server.connections[0]?.setup).not.toBeNull())
+
+    const system = audioChunk(4000)
+    const microphone = audioChunk(2000)
+    await invoke('send-audio-content', { data: system, mimeType: 'audio/pcm', source: 'system' })
+    // Past the mixer's idle time, so the microphone starts a new stretch of the timeline
+    await delay(300)
+    for (let i = 0; i < 3; i++) {
+      await invoke('send-audio-content', {
+        data: microphone,
+        mimeType: 'audio/pcm',
+        source: 'microphone',
+      })
+    }
+
+    // Markers go in as context that does not end the user's turn, so they are not answered
+    await vi.waitFor(() => expect(server.getClientInputs()).toHaveLength(6))
+    expect(server.getClientInputs()).toEqual([
+      contextInput(OTHER_SPEAKER),
+      audioInput(system),
+      // The speaker changes once the microphone has clearly taken over
+      audioInput(microphone),
+      contextInput(USER_SPEAKING),
+      audioInput(microphone),
+      audioInput(microphone),
+    ])
+  })
+
+  it('sends only the speech in system audio captured by the main process', async () => {
+    // A second of silence, then 200 ms of the tone audioChunk(4000) holds, as parec would write it
+    const script = [
+      'const pcm = Buffer.alloc(4800 * 12)',
+      'for (let i = 0; i < 4800; i++) pcm.writeInt16LE(Math.round(Math.sin((2 * Math.PI * 200 * i) / 24000) * 4000), 48000 + i * 2)',
+      'process.stdout.write(pcm)',
+    ].join('\n')
+    const backend: SystemAudioBackend = {
+      name: 'fake',
+      channels: 1,
+      resolve: () => ({ command: process.execPath, args: ['-e', script] }),
+    }
+    const { server } = await startSession([{}], undefined, [backend])
+    await vi.waitFor(() => expect(server.connections[0]?.setup).not.toBeNull())
+
+    expect(await invoke('start-system-audio')).toEqual({ success: true })
+
+    // The 300 ms pre-roll and the tone; the rest of the silence is never sent
+    const silence = audioChunk()
+    const speech = audioChunk(4000)
+    await vi.waitFor(() => expect(server.getClientInputs()).toHaveLength(6))
+    await delay(300)
+    expect(server.getClientInputs()).toEqual([
+      audioInput(silence),
+      audioInput(silence),
+      audioInput(silence),
+      contextInput(OTHER_SPEAKER),
+      audioInput(speech),
+      audioInput(speech),
+    ])
+  })
+
+  it('mixes system audio and microphone audio captured at the same time', async () => {
+    // System audio at a steady level of 1000, one chunk every 100 ms for 1.5 s
+    const script = [
+      'const pcm = Buffer.from(new Int16Array(2400).fill(1000).buffer)',
+      'let sent = 0',
+      'const timer = setInterval(() => {',
+      '  process.stdout.write(pcm)',
+      '  if (++sent === 15) clearInterval(timer)',
+      '}, 100)',
+    ].join('\n')
+    const backend: SystemAudioBackend = {
+      name: 'fake',
+      channels: 1,
+      resolve: () => ({ command: process.execPath, args: ['-e', script] }),
+    }
+    const { server } = await startSession([{}], undefined, [backend])
+    await vi.waitFor(() => expect(server.connections[0]?.setup).not.toBeNull())
+
+    expect(await invoke('start-system-audio')).toEqual({ success: true })
+    await vi.waitFor(() => expect(server.getRealtimeInputs()).not.toEqual([]), { timeout: 5000 })
+    // The user talks over the other speaker, louder, for half a second
+    const microphone = Buffer.from(new Int16Array(2400).fill(3000).buffer).toString('base64')
+    for (let i = 0; i < 5; i++) {
+      await invoke('send-audio-content', {
+        data: microphone,
+        mimeType: 'audio/pcm',
+        source: 'microphone',
+      })
+      await delay(100)
+    }
+    await delay(1500)
+
+    const inputs = server.getRealtimeInputs()
+    const levels = new Set(
+      inputs.flatMap(input => {
+        const data = (input as { audio?: { data: string } }).audio?.data
+        return data ? [...new Int16Array(new Uint8Array(Buffer.from(data, 'base64')).buffer)] : []
+      })
+    )
+    // Both sources were sent together and summed into one stream
+    expect(levels).toContain(1000)
+    expect(levels).toContain(1000 + 3000)
+    expect(server.getClientInputs().filter(input => input.clientContent)).toEqual([
+      contextInput(OTHER_SPEAKER),
+      contextInput(USER_SPEAKING),
+      // The other speaker has the turn again once the user stops
+      contextInput(OTHER_SPEAKER),
+    ])
+  })
+
+  it('rejects input when no session is active', async () => {
+    const service = createGeminiService()
+    service.setupIpcHandlers()
+
+    const result = await invoke<IpcResult>('send-text-message', 'hello')
+    expect(result).toEqual({ success: false, error: 'No active live session' })
+  })
+
+  it('does not connect without a saved Gemini API key', async () => {
+    server = await createMockLiveServer([{}])
+    const service = createGeminiService()
+    service.setupIpcHandlers()
+
+    const initialized = await invoke<boolean>('initialize-gemini', {
+      provider: { id: 'gemini', baseUrl: server.url },
+    })
+
+    expect(initialized).toBe(false)
+    expect(server.connections).toHaveLength(0)
+    expect(sentOn('session-error')).toEqual([
+      { code: 'auth', retryable: false, message: 'No API key saved for Gemini' },
+    ])
+  })
+
+  it('reports a failed handshake instead of hanging', async () => {
+    const { initialized } = await startSession([{ reject: { status: 401 } }])
+
+    expect(initialized).toBe(false)
+    expect(sentOn('session-initializing')).toEqual([true, false])
+    expect(sentOn<SessionError>('session-error')).toMatchObject([
+      { code: 'auth', retryable: false },
+    ])
+  })
+
+  it('stops reconnecting when the server closes with an invalid API key', async () => {
+    const { server } = await startSession([
+      {
+        steps: [
+          {
+            type: 'close',
+            code: 1007,
+            reason: 'API key not valid. Please pass a valid API key.',
+          },
+        ],
+      },
+    ])
+
+    await vi.waitFor(() => expect(sentOn('update-status')).toContain('Session closed'))
+    expect(sentOn('session-error')).toEqual([
+      null, // Cleared when the connection opened
+      {
+        code: 'auth',
+        retryable: false,
+        message: 'Invalid API key',
+        detail: 'API key not valid. Please pass a valid API key.',
+      },
+    ])
+    await delay(RECONNECTION_DELAY + 500)
+    expect(server.connections).toHaveLength(1)
+  })
+
+  it('reports protocol errors to the renderer and clears them once reconnected', async () => {
+    const { server } = await startSession([{ steps: [{ type: 'error' }] }, {}])
+
+    await vi.waitFor(() => expect(server.connections).toHaveLength(2))
+    await vi.waitFor(() => expect(sentOn('session-error').at(-1)).toBeNull())
+    expect(sentOn<SessionError>('session-error')).toContainEqual(
+      expect.objectContaining({ code: 'protocol', retryable: true })
+    )
+  })
+
+  it('waits until the quota retry time before reconnecting', async () => {
+    const { server } = await startSession([
+      {
+        steps: [
+          {
+            type: 'close',
+            code: 1011,
+            reason: 'You exceeded your current quota. Please retry in 0.4s.',
+          },
+        ],
+      },
+      {},
+    ])
+
+    await vi.waitFor(() => expect(sentOn('session-error')).toHaveLength(2))
+    const [error] = sentOn<SessionError>('session-error').slice(1)
+    expect(error).toMatchObject({ code: 'quota', retryable: true, message: 'Quota exceeded' })
+    // The wait the server asked for replaces the 50 ms test backoff
+    const [status] = sentOn<{ retryInMs: number }>('reconnection-status')
+    expect(status.retryInMs).toBeGreaterThan(300)
+
+    await vi.waitFor(() => expect(server.connections).toHaveLength(2))
+  })
+
+  it('reconnects after a server-side close and replays earlier turns', async () => {
+    const { server } = await startSession([
+      {
+        steps: [
+          ...scriptedTurn('Tell me about yourself', ['I build web apps.']),
+          { type: 'close', code: 1011, reason: 'Internal error encountered.' },
+        ],
+      },
+      {},
+    ])
+
+    await vi.waitFor(() => expect(server.connections).toHaveLength(2))
+    await vi.waitFor(() => expect(server.getClientInputs(1)).toHaveLength(1))
+
+    // The recap is context, so the model does not answer it as a question
+    const [recap] = server.getClientInputs(1)
+    expect(recap).toEqual(contextInput(expect.stringContaining('Them: Tell me about yourself')))
+    expect(recap).toEqual(contextInput(expect.stringContaining('Assistant: I build web apps.')))
+    expect(sentOn('reconnection-status')).toEqual([
+      { state: 'reconnecting', attempt: 1, maxAttempts: 3, retryInMs: RECONNECTION_DELAY },
+      { state: 'reconnected', attempt: 1 },
+    ])
+
+    // The reconnected session keeps the same conversation
+    const current = await invoke<IpcResult<{ history: unknown[] }>>('get-current-session')
+    expect(current.data?.history).toHaveLength(1)
+  })
+
+  it('resumes with the latest handle instead of replaying the transcript', async () => {
+    const { server } = await startSession([
+      {
+        steps: [
+          { type: 'message', message: serverMessages.resumptionUpdate('handle-1') },
+          ...scriptedTurn('Tell me about yourself', ['I build web apps.']),
+          { type: 'message', message: serverMessages.resumptionUpdate('handle-2') },
+          { type: 'close', code: 1001, reason: 'Going away' },
+        ],
+      },
+      {},
+    ])
+
+    await vi.waitFor(() => expect(server.connections[1]?.setup).toBeTruthy())
+    expect(server.connections[0].setup).toMatchObject({ setup: { sessionResumption: {} } })
+    expect(server.connections[1].setup).toMatchObject({
+      setup: { sessionResumption: { handle: 'handle-2' } },
+    })
+
+    await vi.waitFor(() => expect(sentOn('reconnection-status')).toHaveLength(2))
+    expect(server.getClientInputs(1)).toEqual([])
+  })
+
+  it('buffers audio while reconnecting and sends it once the session is back', async () => {
+    const { server } = await startSession([
+      { steps: [{ type: 'close', code: 1011, reason: 'Internal error encountered.' }] },
+      {},
+    ])
+
+    await vi.waitFor(() => expect(sentOn('reconnection-status')).toHaveLength(1))
+    const silence = audioChunk()
+    const result = await invoke<IpcResult>('send-audio-content', {
+      data: silence,
+      mimeType: 'audio/pcm;rate=24000',
+      source: 'system',
+    })
+    expect(result.success).toBe(true)
+
+    await vi.waitFor(() =>
+      expect(server.getRealtimeInputs(1)).toEqual([
+        { audio: { data: silence, mimeType: 'audio/pcm;rate=24000' } },
+      ])
+    )
+  })
+
+  it('gives up after the configured number of reconnection attempts', async () => {
+    const { server } = await startSession([
+      { steps: [{ type: 'close', code: 1011, reason: 'Internal error encountered.' }] },
+      { reject: { status: 503 } },
+    ])
+
+    await vi.waitFor(() => expect(sentOn('update-status')).toContain('Session closed'))
+    // One original connection plus three attempts
+    expect(server.connections).toHaveLength(4)
+    expect(sentOn('reconnection-status').at(-1)).toEqual({ state: 'failed', attempts: 3 })
+  })
+
+  it('does not reconnect when reconnection is disabled in settings', async () => {
+    settingsStore.set('reconnectMaxAttempts', 0)
+    const { server } = await startSession([
+      { steps: [{ type: 'close', code: 1011, reason: 'Internal error encountered.' }] },
+    ])
+
+    await vi.waitFor(() => expect(sentOn('update-status')).toContain('Session closed'))
+    expect(server.connections).toHaveLength(1)
+  })
+  it('records reported usage and ends the session once the budget is reached', async () => {
+    settingsStore.set('usageBudgetUsd', 1)
+    const { server } = await startSession([
+      {
+        steps: [
+          { type: 'message', message: serverMessages.usage(1_000, 100) },
+          { type: 'waitForInput' },
+          { type: 'message', message: serverMessages.usage(1_000, 1_000_000) },
+          { type: 'message', message: serverMessages.usage(10, 10) },
+          { type: 'message', message: serverMessages.usage(10, 10) },
+        ],
+      },
+    ])
+
+    await vi.waitFor(() =>
+      expect(usageTracker.getSummary().recentSessions[0]).toMatchObject({
+        source: 'reported',
+        input: { text: 1_000 },
+        output: { text: 100 },
+      })
+    )
+    await invoke('send-text-message', 'Go on')
+
+    await vi.waitFor(() => expect(sentOn('update-status')).toContain('Session closed'))
+    expect(
+      sentOn<SessionError | null>('session-error').filter(error => error?.code === 'quota')
+    ).toEqual([{ code: 'quota', retryable: false, message: 'Usage budget reached' }])
+    expect(usageTracker.getSummary().budget.exceeded).toBe(true)
+    await delay(RECONNECTION_DELAY + 200)
+    expect(server.connections).toHaveLength(1)
+
+    // A new session is refused until the budget is raised
+    await expect(invoke('initialize-gemini', {})).resolves.toBe(false)
+  })
+
+  it('stops system audio capture and recording when the budget ends the session', async () => {
+    settingsStore.set('usageBudgetUsd', 1)
+    settingsStore.set('recordSessions', true)
+    // Recordings go to the home directory; only whether the recording stops matters here
+    vi.spyOn(sessionRecorder, 'start').mockImplementation(() => {})
+    const stopRecording = vi.spyOn(sessionRecorder, 'stop')
+    // System audio that plays until the capture is stopped, with the helper's pid in a file
+    const dir = mkdtempSync(join(tmpdir(), 'system-audio-test-'))
+    const pidFile = join(dir, 'pid')
+    const script = [
+      `require('node:fs').writeFileSync(${JSON.stringify(pidFile)}, String(process.pid))`,
+      'const pcm = Buffer.alloc(4800)',
+      'setInterval(() => process.stdout.write(pcm), 100)',
+    ].join('\n')
+    const backend: SystemAudioBackend = {
+      name: 'fake',
+      channels: 1,
+      resolve: () => ({ command: process.execPath, args: ['-e', script] }),
+    }
+    const { server } = await startSession(
+      [
+        {
+          steps: [
+            { type: 'waitForInput' },
+            { type: 'message', message: serverMessages.usage(1_000, 1_000_000) },
+          ],
+        },
+      ],
+      undefined,
+      [backend]
+    )
+    await vi.waitFor(() => expect(server.connections[0]?.setup).not.toBeNull())
+    expect(await invoke('start-system-audio')).toEqual({ success: true })
+    await vi.waitFor(() => expect(readFileSync(pidFile, 'utf8')).toMatch(/^\d+$/), {
+      timeout: 5000,
+    })
+    const pid = Number(readFileSync(pidFile, 'utf8'))
+    stopRecording.mockClear()
+
+    await invoke('send-text-message', 'Go on')
+
+    await vi.waitFor(() => expect(sentOn('update-status')).toContain('Session closed'))
+    expect(stopRecording).toHaveBeenCalled()
+    // The capture helper is stopped without the user closing the session
+    await vi.waitFor(() => expect(() => process.kill(pid, 0)).toThrow())
+    rmSync(dir, { recursive: true, force: true })
+  })
+})
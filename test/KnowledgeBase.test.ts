@@ -0,0 +1,116 @@
+import { mkdirSync, mkdtempSync, rmSync, utimesSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import type { KnowledgePassage } from '@shared/types'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { createBm25Index } from '../src/main/knowledge/bm25'
+import { createContextRetriever } from '../src/main/knowledge/ContextRetriever'
+import { createKnowledgeBase, listDocumentFiles } from '../src/main/knowledge/KnowledgeBase'
+import { settingsStore } from '../src/main/settings/SettingsStore'
+
+vi.mock('electron', async () => {
+  const { mkdtempSync } = await import('node:fs')
+  const { tmpdir } = await import('node:os')
+  const { join } = await import('node:path')
+  const userData = mkdtempSync(join(tmpdir(), 'knowledge-base-test-'))
+  return { app: { getPath: () => userData }, BrowserWindow: {}, dialog: {}, ipcMain: {} }
+})
+
+const tempDirs: string[] = []
+const makeTempDir = (): string => {
+  const dir = mkdtempSync(join(tmpdir(), 'cheddar-knowledge-'))
+  tempDirs.push(dir)
+  return dir
+}
+
+afterEach(() => {
+  settingsStore.reset()
+  for (const dir of tempDirs.splice(0)) rmSync(dir, { recursive: true, force: true })
+})
+
+describe('BM25', () => {
+  it('ranks passages with rare query terms first', () => {
+    const index = createBm25Index([
+      'The enterprise plan costs 40 euros per seat and includes single sign-on.',
+      'Our office is closed on public holidays.',
+      'Pricing for the starter plan is 10 euros per seat.',
+    ])
+
+    expect(index.search('How much is the enterprise plan?', 3).map(r => r.index)).toEqual([0, 2])
+    expect(index.search('Está Préciser', 3)).toEqual([])
+    expect(index.search('Single Sign-On', 1)[0].index).toBe(0)
+  })
+})
+
+describe('KnowledgeBase', () => {
+  it('indexes the documents of a folder and only reads changed files again', async () => {
+    const folder = makeTempDir()
+    mkdirSync(join(folder, 'pricing'))
+    mkdirSync(join(folder, '.git'))
+    writeFileSync(join(folder, 'pricing', 'plans.md'), '# Plans\n\nThe enterprise plan has SSO.')
+    writeFileSync(join(folder, 'notes.txt'), 'Renewal call with Acme on Friday.')
+    const past = new Date(Date.now() - 60000)
+    utimesSync(join(folder, 'notes.txt'), past, past)
+    writeFileSync(join(folder, '.git', 'HEAD'), 'ref: refs/heads/main')
+    writeFileSync(join(folder, 'logo.png'), 'not a document')
+    settingsStore.set('knowledgeBase', { ...settingsStore.get('knowledgeBase'), folder })
+
+    expect(listDocumentFiles(folder)).toEqual(['notes.txt', 'pricing/plans.md'])
+
+    const dataDir = makeTempDir()
+    const knowledgeBase = createKnowledgeBase(dataDir)
+    const status = await knowledgeBase.rebuild()
+    expect(status).toMatchObject({ folder, files: 2, passages: 2, embeddingsModel: null })
+
+    const [top] = await knowledgeBase.search('does enterprise include sso', 3)
+    expect(top).toMatchObject({
+      file: 'pricing/plans.md',
+      text: '# Plans\n\nThe enterprise plan has SSO.',
+    })
+
+    // A file with the same size and time is not read again, so the index keeps its old text
+    writeFileSync(join(folder, 'notes.txt'), 'Renewal call with Ecma on Monday.')
+    utimesSync(join(folder, 'notes.txt'), past, past)
+    const reopened = createKnowledgeBase(dataDir)
+    await reopened.rebuild()
+    expect(await reopened.search('Ecma', 3)).toEqual([])
+    expect((await reopened.search('Acme renewal', 3))[0].file).toBe('notes.txt')
+
+    // Another folder is not searched with this index
+    settingsStore.set('knowledgeBase', { ...settingsStore.get('knowledgeBase'), folder: dataDir })
+    expect(await reopened.search('Acme renewal', 3)).toEqual([])
+  })
+})
+
+describe('ContextRetriever', () => {
+  const passage = (text: string): KnowledgePassage => ({ file: 'doc.md', text, score: 1 })
+
+  it('looks up passages as speech comes in and sends each passage once', async () => {
+    const search = vi.fn(async (query: string) =>
+      query.includes('pricing') ? [passage('Plans start at 10 euros.')] : [passage('Other')]
+    )
+    const send = vi.fn()
+    const retriever = createContextRetriever({ search, send, passages: () => 2 })
+
+    retriever.onTranscription('Can you tell me')
+    expect(search).not.toHaveBeenCalled()
+
+    retriever.onTranscription(' about your pricing for small teams')
+    await retriever.whenIdle()
+    expect(search).toHaveBeenCalledWith('Can you tell me about your pricing for small teams', 2)
+    expect(send).toHaveBeenCalledTimes(1)
+    expect(send.mock.calls[0][0]).toContain('[doc.md]\nPlans start at 10 euros.')
+
+    // The rest of the turn is looked up when it ends; a passage already sent is skipped
+    retriever.onTranscription('and pricing?')
+    retriever.endTurn()
+    await retriever.whenIdle()
+    expect(search).toHaveBeenCalledTimes(2)
+    expect(send).toHaveBeenCalledTimes(1)
+
+    retriever.reset()
+    retriever.onTranscription('what was the pricing again for the team plan')
+    await retriever.whenIdle()
+    expect(send).toHaveBeenCalledTimes(2)
+  })
+})
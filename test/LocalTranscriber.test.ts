@@ -0,0 +1,178 @@
+import { chmodSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import type { LocalTranscriptionSettings, TranscriptSegment } from '@shared/types'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createLocalSttEngine, type LocalSttEngine } from '../src/main/transcription/LocalSttEngine'
+import {
+  createLocalTranscriber,
+  reconcileTranscription,
+} from '../src/main/transcription/LocalTranscriber'
+
+vi.mock('electron', () => ({ app: { isPackaged: false } }))
+
+const SETTINGS: LocalTranscriptionSettings = {
+  mode: 'alongside',
+  engine: 'whisper-cli',
+  binaryPath: '',
+  modelPath: '',
+  threads: 2,
+}
+
+// 100 ms of 24 kHz mono PCM at a constant level
+const chunk = (level: number): Buffer => {
+  const pcm = Buffer.alloc(2400 * 2)
+  for (let i = 0; i < pcm.length; i += 2) pcm.writeInt16LE(level, i)
+  return pcm
+}
+
+// Answers each utterance with its length, so tests can tell them apart
+const createFakeEngine = (): LocalSttEngine & { calls: number } => {
+  const engine = {
+    id: 'whisper-cli' as const,
+    calls: 0,
+    transcribe: async (wav: Buffer) => {
+      engine.calls++
+      return `${Math.round((wav.length - 44) / 32)} ms`
+    },
+    stop: vi.fn(),
+  }
+  return engine
+}
+
+const segment = (source: 'microphone' | 'system', text: string): TranscriptSegment => ({
+  speaker: source === 'microphone' ? 'local' : 'remote',
+  source,
+  startTime: 0,
+  endTime: 100,
+  text,
+})
+
+describe('LocalTranscriber', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(1_000_000)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('cuts each source into utterances at pauses and transcribes them at 16 kHz', async () => {
+    const engine = createFakeEngine()
+    const onSegment = vi.fn()
+    const transcriber = createLocalTranscriber({ onSegment, createEngine: () => engine })
+    transcriber.start(SETTINGS, 'en-US')
+
+    for (let i = 1; i <= 3; i++) {
+      transcriber.pushAudio('microphone', chunk(1000), { capturedAt: 1_000_000 + i * 100 })
+    }
+    transcriber.pushAudio('system', chunk(1000), { capturedAt: 1_000_200 })
+    transcriber.pushAudio('system', chunk(2000), { capturedAt: 1_000_300 })
+    transcriber.pushAudio('system', chunk(2000), { capturedAt: 1_000_400 })
+    // Too short to be speech
+    transcriber.pushAudio('system', chunk(1000), { capturedAt: 1_002_000 })
+
+    await vi.advanceTimersByTimeAsync(2500)
+    expect(engine.calls).toBe(2)
+    expect(onSegment).toHaveBeenCalledTimes(2)
+    expect(transcriber.takeFinished()).toEqual([
+      {
+        speaker: 'local',
+        source: 'microphone',
+        startTime: 1_000_000,
+        endTime: 1_000_300,
+        text: '300 ms',
+      },
+      {
+        speaker: 'remote',
+        source: 'system',
+        startTime: 1_000_100,
+        endTime: 1_000_400,
+        text: '300 ms',
+      },
+    ])
+
+    await transcriber.stop()
+    expect(engine.stop).toHaveBeenCalled()
+    expect(transcriber.isRunning()).toBe(false)
+  })
+
+  it('ends open utterances for a turn and leaves later speech for the next one', async () => {
+    const transcriber = createLocalTranscriber({ createEngine: createFakeEngine })
+    transcriber.start(SETTINGS, 'en-US')
+
+    transcriber.pushAudio('microphone', chunk(1000), { capturedAt: 1_000_300 })
+    transcriber.pushAudio('microphone', chunk(1000), { capturedAt: 1_000_400 })
+    transcriber.pushAudio('microphone', chunk(1000), { capturedAt: 1_000_500 })
+    for (let i = 7; i <= 10; i++) {
+      transcriber.pushAudio('system', chunk(1000), { capturedAt: 1_000_000 + i * 100 })
+    }
+
+    const taken = await transcriber.takeSegments(1_000_550)
+    expect(taken.map(({ source, text }) => ({ source, text }))).toEqual([
+      { source: 'microphone', text: '300 ms' },
+    ])
+
+    await transcriber.stop()
+    expect(transcriber.takeFinished().map(({ source, text }) => ({ source, text }))).toEqual([
+      { source: 'system', text: '400 ms' },
+    ])
+  })
+
+  it('keeps the server text and takes speakers from the local segments', () => {
+    const server = {
+      transcription: 'hello there',
+      segments: [segment('system', 'hello there')],
+    }
+    const local = [segment('microphone', 'Hello'), segment('system', 'there')]
+
+    expect(reconcileTranscription(server, [])).toBe(server)
+    expect(reconcileTranscription(server, local)).toEqual({
+      transcription: 'hello there',
+      segments: local,
+    })
+    expect(reconcileTranscription({ transcription: ' ', segments: [] }, local)).toEqual({
+      transcription: 'Hello there',
+      segments: local,
+    })
+  })
+})
+
+describe('LocalSttEngine', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'local-stt-test-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('runs whisper-cli per utterance and drops non-speech annotations', async () => {
+    const binaryPath = join(dir, 'whisper-cli')
+    const modelPath = join(dir, 'ggml-tiny.bin')
+    writeFileSync(modelPath, '')
+    writeFileSync(
+      binaryPath,
+      `#!${process.execPath}
+const args = process.argv.slice(2)
+const arg = flag => args[args.indexOf(flag) + 1]
+const size = require('fs').statSync(arg('-f')).size
+process.stdout.write('[BLANK_AUDIO]\\n ' + arg('-l') + ' ' + arg('-t') + ' ' + size + ' (music)\\n')
+`
+    )
+    chmodSync(binaryPath, 0o755)
+
+    const engine = createLocalSttEngine({ ...SETTINGS, binaryPath, modelPath })
+    await expect(engine.transcribe(Buffer.alloc(100), 'en-US')).resolves.toBe('en 2 100')
+
+    expect(() => createLocalSttEngine({ ...SETTINGS, binaryPath, modelPath: '' })).toThrow(
+      'No whisper.cpp model file'
+    )
+    expect(() =>
+      createLocalSttEngine({ ...SETTINGS, binaryPath: join(dir, 'missing'), modelPath })
+    ).toThrow('not found')
+  })
+})
@@ -0,0 +1,107 @@
+import { join } from 'node:path'
+import type { McpServerConfig } from '@shared/types'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { createMcpManager, mcpFunctionName } from '../src/main/mcp/McpManager'
+import { settingsStore } from '../src/main/settings/SettingsStore'
+import { createToolRegistry } from '../src/main/tools/ToolRegistry'
+
+vi.mock('electron', async () => {
+  const { mkdtempSync } = await import('node:fs')
+  const { tmpdir } = await import('node:os')
+  const { join } = await import('node:path')
+  const userData = mkdtempSync(join(tmpdir(), 'mcp-manager-test-'))
+  return {
+    app: { getPath: () => userData, getName: () => 'cheddar', getVersion: () => '0.0.0' },
+    BrowserWindow: {},
+    dialog: {},
+    ipcMain: {},
+  }
+})
+
+const server = (changes: Partial<McpServerConfig> = {}): McpServerConfig => ({
+  id: 'mcp-tickets',
+  name: 'Tickets',
+  command: process.execPath,
+  args: [join(__dirname, 'mockMcpServer.mjs')],
+  env: { MOCK_MCP_PREFIX: 'echo: ' },
+  enabled: true,
+  ...changes,
+})
+
+const context = { addActionItem: vi.fn() }
+
+let manager: ReturnType<typeof createMcpManager> | null = null
+
+afterEach(() => {
+  manager?.stopAll()
+  manager = null
+  settingsStore.reset()
+  vi.restoreAllMocks()
+})
+
+describe('McpManager', () => {
+  it('registers tools from a stdio server and logs each call', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    const registry = createToolRegistry()
+    manager = createMcpManager(registry)
+    settingsStore.set('mcpServers', [server()])
+
+    await manager.sync()
+
+    const echo = mcpFunctionName('Tickets', 'echo')
+    expect(echo).toBe('mcp_tickets_echo')
+    expect(manager.getStatus().servers).toEqual([
+      {
+        id: 'mcp-tickets',
+        name: 'Tickets',
+        state: 'running',
+        tools: ['mcp_tickets_echo', 'mcp_tickets_fail'],
+      },
+    ])
+    expect(registry.getFunctionDeclarations()).toContainEqual(
+      expect.objectContaining({
+        name: echo,
+        description: 'Returns the text it is given',
+        parametersJsonSchema: expect.objectContaining({ required: ['text'] }),
+      })
+    )
+    expect(registry.getTitle(echo)).toBe('Tickets: Echo')
+
+    expect(await registry.execute(echo, { text: 'hi' }, context)).toEqual({ output: 'echo: hi' })
+    expect(await registry.execute('mcp_tickets_fail', {}, context)).toEqual({
+      error: 'Ticket system is down',
+    })
+    expect(manager.getStatus().calls).toMatchObject([
+      { server: 'Tickets', tool: 'fail', status: 'failed', summary: 'Ticket system is down' },
+      { server: 'Tickets', tool: 'echo', status: 'completed', args: { text: 'hi' } },
+    ])
+
+    // Disabling the server stops it and withdraws its tools
+    settingsStore.set('mcpServers', [server({ enabled: false })])
+    await manager.sync()
+    expect(manager.getStatus().servers[0].state).toBe('stopped')
+    expect(registry.list()).toEqual([])
+  })
+
+  it('reports a server that cannot be started and waits before starting it again', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const registry = createToolRegistry()
+    manager = createMcpManager(registry)
+    settingsStore.set('mcpServers', [server({ command: join(__dirname, 'no-such-server') })])
+
+    await manager.sync()
+
+    const [status] = manager.getStatus().servers
+    expect(status.state).toBe('failed')
+    expect(status.error).toContain('Could not start')
+    expect(registry.list()).toEqual([])
+
+    // Within the retry delay a sync leaves the failed server alone; a restart tries again
+    await manager.sync()
+    expect(manager.getStatus().servers[0]).toBe(status)
+    await manager.restart()
+    expect(manager.getStatus().servers[0]).not.toBe(status)
+    expect(manager.getStatus().servers[0].state).toBe('failed')
+  })
+})
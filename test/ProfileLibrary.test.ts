@@ -0,0 +1,66 @@
+import type { CustomProfile } from '@shared/types'
+import { describe, expect, it, vi } from 'vitest'
+import { getSystemPrompt, resolvePromptParts } from '../src/main/gemini/prompts'
+import { mergeProfiles, parseProfilesFile } from '../src/main/profiles/ProfileLibrary'
+
+vi.mock('electron', async () => {
+  const { tmpdir } = await import('node:os')
+  return { app: { getPath: () => tmpdir() }, BrowserWindow: {}, dialog: {}, ipcMain: {} }
+})
+
+const profile = (id: string, name: string): CustomProfile => ({
+  id,
+  name,
+  intro: `${name} intro`,
+  formatRequirements: 'Be brief.',
+  searchUsage: 'Search for incidents.',
+  content: 'Example exchange.',
+  outputInstructions: 'Only the answer.',
+})
+
+describe('ProfileLibrary', () => {
+  it('reads exported files, bare arrays and single profiles', () => {
+    const saved = profile('custom-1', 'Incident Bridge')
+
+    expect(parseProfilesFile(JSON.stringify({ version: 1, profiles: [saved] }))).toEqual([saved])
+    expect(parseProfilesFile(JSON.stringify([saved]))).toEqual([saved])
+
+    const [handWritten] = parseProfilesFile(JSON.stringify({ name: ' Standup ', intro: 'Hi' }))
+    expect(handWritten).toMatchObject({
+      name: 'Standup',
+      intro: 'Hi',
+      formatRequirements: '',
+      outputInstructions: '',
+    })
+    expect(handWritten.id).toMatch(/^custom-/)
+  })
+
+  it('rejects profiles without a name or with sections that are not text', () => {
+    expect(() => parseProfilesFile('[{"intro": "Hi"}]')).toThrow('Profile 1 has no name')
+    expect(() => parseProfilesFile('[{"name": "A", "content": 3}]')).toThrow('must be text')
+    expect(() => parseProfilesFile('[1]')).toThrow('not an object')
+    expect(() => parseProfilesFile('{')).toThrow()
+  })
+
+  it('replaces saved profiles with the same id on import', () => {
+    const saved = [profile('custom-1', 'One'), profile('custom-2', 'Two')]
+    const imported = [profile('custom-2', 'Two, edited'), profile('custom-3', 'Three')]
+
+    expect(mergeProfiles(saved, imported).map(p => p.name)).toEqual(['One', 'Two, edited', 'Three'])
+  })
+
+  it('builds the system prompt from a user profile', () => {
+    const custom = profile('custom-1', 'Incident Bridge')
+
+    const prompt = getSystemPrompt('custom-1', 'On call for payments', true, [custom])
+    expect(prompt.startsWith('Incident Bridge intro\n\nBe brief.\n\nSearch for incidents.')).toBe(
+      true
+    )
+    expect(prompt).toContain('On call for payments')
+    expect(prompt.endsWith('Only the answer.')).toBe(true)
+
+    expect(getSystemPrompt('custom-1', '', false, [custom])).not.toContain('Search for incidents.')
+    // A deleted profile falls back to the interview prompt
+    expect(resolvePromptParts('custom-gone', [custom])).toBe(resolvePromptParts('interview'))
+  })
+})
@@ -0,0 +1,81 @@
+import type { ReconnectionStatus } from '@shared/types'
+import { describe, expect, it, vi } from 'vitest'
+import {
+  createReconnectionManager,
+  DEFAULT_RECONNECTION_POLICY,
+  getBackoffDelay,
+  type ReconnectionPolicy,
+} from '../src/main/gemini/ReconnectionManager'
+
+const fastPolicy: ReconnectionPolicy = {
+  maxAttempts: 4,
+  initialDelayMs: 5,
+  maxDelayMs: 20,
+  multiplier: 2,
+  jitter: 0,
+}
+
+describe('getBackoffDelay', () => {
+  it('grows exponentially up to the cap', () => {
+    const policy = { ...DEFAULT_RECONNECTION_POLICY, jitter: 0 }
+    expect([1, 2, 3, 4, 5, 6, 7].map(attempt => getBackoffDelay(attempt, policy))).toEqual([
+      1000, 2000, 4000, 8000, 16000, 30000, 30000,
+    ])
+  })
+
+  it('spreads the delay by the jitter fraction', () => {
+    const policy = { ...DEFAULT_RECONNECTION_POLICY, jitter: 0.5 }
+    expect(getBackoffDelay(2, policy, () => 0)).toBe(1000)
+    expect(getBackoffDelay(2, policy, () => 0.5)).toBe(2000)
+    expect(getBackoffDelay(2, policy, () => 0.999)).toBeLessThan(3000)
+  })
+})
+
+describe('ReconnectionManager', () => {
+  it('retries until an attempt succeeds and reports each step', async () => {
+    const statuses: ReconnectionStatus[] = []
+    const connect = vi.fn(async (attempt: number) => {
+      if (attempt === 2) throw new Error('handshake failed')
+      return attempt === 3
+    })
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const manager = createReconnectionManager({ connect, onStatus: s => statuses.push(s) })
+
+    await expect(manager.start(fastPolicy)).resolves.toBe(true)
+
+    expect(connect).toHaveBeenCalledTimes(3)
+    expect(statuses).toEqual([
+      { state: 'reconnecting', attempt: 1, maxAttempts: 4, retryInMs: 5 },
+      { state: 'reconnecting', attempt: 2, maxAttempts: 4, retryInMs: 10 },
+      { state: 'reconnecting', attempt: 3, maxAttempts: 4, retryInMs: 20 },
+      { state: 'reconnected', attempt: 3 },
+    ])
+    expect(manager.isReconnecting()).toBe(false)
+    vi.restoreAllMocks()
+  })
+
+  it('reports failure once the attempt budget is spent', async () => {
+    const statuses: ReconnectionStatus[] = []
+    const manager = createReconnectionManager({
+      connect: async () => false,
+      onStatus: s => statuses.push(s),
+    })
+
+    await expect(manager.start({ ...fastPolicy, maxAttempts: 2 })).resolves.toBe(false)
+    expect(statuses.at(-1)).toEqual({ state: 'failed', attempts: 2 })
+  })
+
+  it('runs one reconnection at a time and stops when cancelled', async () => {
+    const connect = vi.fn(async () => true)
+    const manager = createReconnectionManager({ connect, onStatus: () => {} })
+
+    const run = manager.start({ ...fastPolicy, initialDelayMs: 1000 })
+    await expect(manager.start(fastPolicy)).resolves.toBe(false)
+    expect(manager.isReconnecting()).toBe(true)
+
+    manager.cancel()
+    await expect(run).resolves.toBe(false)
+    expect(connect).not.toHaveBeenCalled()
+    expect(manager.isReconnecting()).toBe(false)
+  })
+})
@@ -0,0 +1,132 @@
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import type { SessionRecordingManifest } from '@shared/types'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createSessionRecorder, mixTurnAudio } from '../src/main/recording/SessionRecorder'
+import { settingsStore } from '../src/main/settings/SettingsStore'
+
+vi.mock('electron', async () => {
+  const { mkdtempSync } = await import('node:fs')
+  const { tmpdir } = await import('node:os')
+  const { join } = await import('node:path')
+  const userData = mkdtempSync(join(tmpdir(), 'session-recorder-test-'))
+  return { app: { getPath: () => userData }, BrowserWindow: {}, ipcMain: {} }
+})
+
+const SAMPLES_PER_MS = 24
+
+// 100 ms of mono PCM at a constant level
+const chunk = (level: number): Buffer => {
+  const pcm = Buffer.alloc(100 * SAMPLES_PER_MS * 2)
+  for (let i = 0; i < pcm.length; i += 2) pcm.writeInt16LE(level, i)
+  return pcm
+}
+
+describe('SessionRecorder', () => {
+  let dir: string
+
+  const readManifest = (sessionId: string): SessionRecordingManifest =>
+    JSON.parse(readFileSync(join(dir, 'audio', sessionId, 'manifest.json'), 'utf8'))
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'recordings-test-'))
+    vi.useFakeTimers()
+    vi.setSystemTime(1_000_000)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    settingsStore.reset()
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('splits segments at long pauses and writes them as WAV', () => {
+    const recorder = createSessionRecorder(dir)
+    recorder.start('1000000')
+    recorder.pushAudio('microphone', chunk(1000), { capturedAt: 1_000_100 })
+    recorder.pushAudio('microphone', chunk(1000), { capturedAt: 1_000_300 })
+    // Silence before any sound does not open a segment
+    recorder.pushAudio('system', chunk(0), { capturedAt: 1_000_300 })
+    recorder.pushAudio('microphone', chunk(1000), { capturedAt: 1_003_000 })
+    recorder.stop()
+
+    const manifest = readManifest('1000000')
+    expect(manifest.endedAt).not.toBeNull()
+    expect(manifest.audio.map(segment => segment.file)).toEqual([
+      'microphone-1000000.wav',
+      'microphone-1002900.wav',
+    ])
+    // The short gap is kept as silence: 300 ms of audio in the first segment
+    const wav = readFileSync(join(dir, 'audio', '1000000', 'microphone-1000000.wav'))
+    expect(wav.length).toBe(44 + 300 * SAMPLES_PER_MS * 2)
+    expect(recorder.getState()).toEqual({ recording: false, sessionId: null })
+  })
+
+  it('links audio and screenshots to turns and plays a turn back', () => {
+    const recorder = createSessionRecorder(dir)
+    recorder.start('1000000')
+    recorder.pushAudio('microphone', chunk(1000), { capturedAt: 1_000_100 })
+    recorder.pushAudio('system', chunk(2000), { capturedAt: 1_000_100 })
+    recorder.addImage(Buffer.from('jpeg'), 640, 480, 1_000_050)
+    recorder.addTurn(1_000_200)
+    recorder.addTurn(1_000_400)
+    recorder.stop()
+
+    const [first, second] = readManifest('1000000').turns
+    expect(first.audio).toHaveLength(2)
+    expect(first.images).toEqual(['1000050.jpg'])
+    expect(second).toMatchObject({ startTime: 1_000_200, audio: [], images: [] })
+
+    const recording = recorder.getTurnRecording('1000000', 1_000_200)
+    expect(recording?.durationMs).toBe(100)
+    const pcm = Buffer.from(recording?.audio ?? '', 'base64').subarray(44)
+    // Both sources talked at once, so they are mixed
+    expect(pcm.readInt16LE(0)).toBe(3000)
+    expect(recording?.images).toEqual([
+      { timestamp: 1_000_050, data: Buffer.from('jpeg').toString('base64') },
+    ])
+    expect(recorder.getTurnRecording('1000000', 1_000_400)?.audio).toBeNull()
+    expect(recorder.getTurnRecording('../1000000', 1_000_200)).toBeNull()
+  })
+
+  it('prunes recordings past the retention age or size limit', () => {
+    const recorder = createSessionRecorder(dir)
+    for (const sessionId of ['1000000', '2000000', '3000000']) {
+      vi.setSystemTime(Number(sessionId))
+      recorder.start(sessionId)
+      recorder.pushAudio('microphone', chunk(1000))
+      recorder.stop()
+    }
+
+    settingsStore.set('recordingRetentionDays', 1)
+    const day = 24 * 60 * 60 * 1000
+    expect(recorder.prune(1_500_000 + day)).toEqual(['1000000'])
+    expect(existsSync(join(dir, 'audio', '1000000'))).toBe(false)
+
+    settingsStore.set('recordingMaxStorageMb', 100)
+    expect(recorder.prune(3_000_000)).toEqual([])
+
+    recorder.clear()
+    expect(readdirSync(join(dir, 'audio'))).toEqual([])
+  })
+
+  it('shortens pauses between stretches of audio', () => {
+    const clip = (startTime: number, ms: number, level: number) => ({
+      startTime,
+      samples: new Int16Array(ms * SAMPLES_PER_MS).fill(level),
+    })
+    const output = mixTurnAudio([clip(0, 100, 10), clip(5000, 100, 20), clip(5050, 100, 5)], {
+      start: 0,
+      end: 10000,
+    })
+
+    // 100 ms, a 500 ms pause, then 150 ms where the last two clips overlap
+    expect(output.length).toBe(750 * SAMPLES_PER_MS)
+    expect(output[0]).toBe(10)
+    expect(output[300 * SAMPLES_PER_MS]).toBe(0)
+    expect(output[600 * SAMPLES_PER_MS]).toBe(20)
+    expect(output[660 * SAMPLES_PER_MS]).toBe(25)
+    expect(output[720 * SAMPLES_PER_MS]).toBe(5)
+  })
+})
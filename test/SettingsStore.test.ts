@@ -0,0 +1,101 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { DEFAULT_SETTINGS } from '@shared/settings'
+import type { SettingChange } from '@shared/types'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createSettingsStore } from '../src/main/settings/SettingsStore'
+
+vi.mock('electron', async () => {
+  const { tmpdir } = await import('node:os')
+  return { app: { getPath: () => tmpdir() }, BrowserWindow: {}, ipcMain: {} }
+})
+
+describe('SettingsStore', () => {
+  let dir: string
+  let filePath: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'settings-store-test-'))
+    filePath = join(dir, 'settings.json')
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+    vi.restoreAllMocks()
+  })
+
+  it('persists changes and notifies listeners only when a value changes', () => {
+    const store = createSettingsStore(filePath)
+    const changes: SettingChange[] = []
+    store.onChange(change => changes.push(change))
+
+    expect(store.getAll()).toEqual(DEFAULT_SETTINGS)
+
+    store.set('fontSize', 22)
+    store.set('fontSize', 22)
+    store.set('modelProvider', { id: 'openai-compatible', baseUrl: 'http://localhost:8080/v1' })
+
+    expect(changes.map(change => change.key)).toEqual(['fontSize', 'modelProvider'])
+
+    const reloaded = createSettingsStore(filePath)
+    expect(reloaded.get('fontSize')).toBe(22)
+    expect(reloaded.get('modelProvider')).toEqual({
+      id: 'openai-compatible',
+      baseUrl: 'http://localhost:8080/v1',
+    })
+  })
+
+  it('rejects invalid values and falls back to defaults for invalid stored ones', () => {
+    const store = createSettingsStore(filePath)
+    expect(() => store.set('fontSize', Number.NaN)).toThrow('Invalid value for setting "fontSize"')
+    expect(() => store.set('throttleAtPercent', 250)).toThrow()
+
+    writeFileSync(
+      filePath,
+      JSON.stringify({
+        version: 1,
+        migratedLocalStorage: true,
+        values: { fontSize: 'large', googleSearchEnabled: false, unknownKey: 1 },
+      })
+    )
+
+    const loaded = createSettingsStore(filePath)
+    expect(loaded.get('fontSize')).toBe(DEFAULT_SETTINGS.fontSize)
+    expect(loaded.get('googleSearchEnabled')).toBe(false)
+    expect(loaded.getAll()).not.toHaveProperty('unknownKey')
+  })
+
+  it('migrates legacy localStorage values once', () => {
+    const store = createSettingsStore(filePath)
+
+    const migrated = store.migrateFromLocalStorage({
+      customPrompt: '"Quoted" context',
+      googleSearchEnabled: 'false',
+      customKeybinds: JSON.stringify({ toggleVisibility: 'Ctrl+B' }),
+      throttleAtPercent: '"many"',
+      onboardingCompleted: 'true',
+      apiKey: 'not-a-setting',
+    })
+
+    expect(migrated).toEqual([
+      'customPrompt',
+      'googleSearchEnabled',
+      'customKeybinds',
+      'onboardingCompleted',
+    ])
+    expect(store.get('customPrompt')).toBe('"Quoted" context')
+    expect(store.get('customKeybinds')).toEqual({ toggleVisibility: 'Ctrl+B' })
+    expect(store.get('throttleAtPercent')).toBe(DEFAULT_SETTINGS.throttleAtPercent)
+
+    // Leftover localStorage values must not overwrite settings changed since
+    store.set('googleSearchEnabled', true)
+    expect(store.migrateFromLocalStorage({ googleSearchEnabled: 'false' })).toEqual([])
+
+    const file = JSON.parse(readFileSync(filePath, 'utf8'))
+    expect(file).toMatchObject({ version: 1, migratedLocalStorage: true })
+    expect(createSettingsStore(filePath).migrateFromLocalStorage({ fontSize: '30' })).toEqual([])
+  })
+})
@@ -0,0 +1,77 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  createSystemAudioCapture,
+  getPlatformBackends,
+  type SystemAudioBackend,
+} from '../src/main/audio/SystemAudioCapture'
+
+vi.mock('electron', () => ({ app: { isPackaged: false } }))
+
+// Backend that runs Node to write `bytes` of PCM to stdout, standing in for parec
+const fakeBackend = (bytes: number, channels = 1): SystemAudioBackend => ({
+  name: 'fake',
+  channels,
+  resolve: () => ({
+    command: process.execPath,
+    args: ['-e', `process.stdout.write(Buffer.alloc(${bytes}, 1))`],
+  }),
+})
+
+const missingBackend: SystemAudioBackend = { name: 'missing', channels: 1, resolve: () => null }
+
+describe('SystemAudioCapture', () => {
+  let capture: ReturnType<typeof createSystemAudioCapture> | null = null
+
+  afterEach(() => {
+    capture?.stop()
+    capture = null
+  })
+
+  it('lists PulseAudio then PipeWire on Linux and nothing on Windows', () => {
+    expect(getPlatformBackends('linux').map(backend => backend.name)).toEqual([
+      'parec',
+      'pw-record',
+    ])
+    expect(getPlatformBackends('darwin').map(backend => backend.name)).toEqual(['SystemAudioDump'])
+    expect(getPlatformBackends('win32')).toEqual([])
+  })
+
+  it('uses the first installed backend and delivers 100 ms chunks', async () => {
+    const chunks: Array<{ length: number; channels: number }> = []
+    // Two and a half mono chunks: the half chunk stays buffered
+    capture = createSystemAudioCapture({
+      onAudio: (pcm, channels) => chunks.push({ length: pcm.length, channels }),
+      backends: [missingBackend, fakeBackend(4800 * 2 + 2400)],
+    })
+
+    expect(capture.isAvailable()).toBe(true)
+    expect(await capture.start()).toBe(true)
+    await vi.waitFor(() => expect(capture?.isRunning()).toBe(false), { timeout: 5000 })
+
+    expect(chunks).toEqual([
+      { length: 4800, channels: 1 },
+      { length: 4800, channels: 1 },
+    ])
+  })
+
+  it('sizes chunks by the backend channel count', async () => {
+    const chunks: number[] = []
+    capture = createSystemAudioCapture({
+      onAudio: pcm => chunks.push(pcm.length),
+      backends: [fakeBackend(9600, 2)],
+    })
+
+    await capture.start()
+    await vi.waitFor(() => expect(capture?.isRunning()).toBe(false), { timeout: 5000 })
+
+    expect(chunks).toEqual([9600])
+  })
+
+  it('reports no capture when no backend is installed', async () => {
+    capture = createSystemAudioCapture({ onAudio: () => {}, backends: [missingBackend] })
+
+    expect(capture.isAvailable()).toBe(false)
+    expect(await capture.start()).toBe(false)
+    expect(capture.isRunning()).toBe(false)
+  })
+})
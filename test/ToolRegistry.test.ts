@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { settingsStore } from '../src/main/settings/SettingsStore'
+import { convertUnits, evaluateExpression } from '../src/main/tools/calculator'
+import { createToolRegistry, type ToolDefinition } from '../src/main/tools/ToolRegistry'
+
+vi.mock('electron', async () => {
+  const { mkdtempSync } = await import('node:fs')
+  const { tmpdir } = await import('node:os')
+  const { join } = await import('node:path')
+  const userData = mkdtempSync(join(tmpdir(), 'tool-registry-test-'))
+  return { app: { getPath: () => userData }, BrowserWindow: {}, dialog: {}, ipcMain: {} }
+})
+
+afterEach(() => {
+  settingsStore.reset()
+  vi.restoreAllMocks()
+})
+
+const tool = (name: string, execute: ToolDefinition['execute']): ToolDefinition => ({
+  title: name,
+  enabledByDefault: true,
+  declaration: { name, description: `${name} tool` },
+  execute,
+})
+
+describe('calculator', () => {
+  it('evaluates expressions with precedence, percent and functions', () => {
+    expect(evaluateExpression('2 + 3 * 4')).toBe(14)
+    expect(evaluateExpression('-2^2 + 2^3^2')).toBe(508)
+    expect(evaluateExpression('1200 * 15%')).toBe(180)
+    expect(evaluateExpression('0.1 + 0.2')).toBe(0.3)
+    expect(evaluateExpression('round(sqrt(2) * 100, 1) ÷ max(1, 2)')).toBe(70.7)
+    expect(() => evaluateExpression('2 +')).toThrow('Incomplete expression')
+    expect(() => evaluateExpression('process.exit()')).toThrow('Unknown name "process"')
+    expect(() => evaluateExpression('1 / 0')).toThrow('no finite result')
+    // Names inherited from Object.prototype are not functions or constants
+    expect(() => evaluateExpression('constructor(5)')).toThrow('Unknown name "constructor"')
+    expect(() => evaluateExpression('__proto__(1)')).toThrow('Unknown name "__proto__"')
+    expect(() => evaluateExpression('toString')).toThrow('Unknown name "tostring"')
+  })
+
+  it('converts units of the same kind', () => {
+    expect(convertUnits(5, 'miles', 'km')).toBe(8.04672)
+    expect(convertUnits(212, '°F', 'celsius')).toBe(100)
+    expect(convertUnits(1, 'GiB', 'MB')).toBe(1073.741824)
+    expect(convertUnits(2, 'sq ft', 'm²')).toBe(0.18580608)
+    expect(() => convertUnits(1, 'kg', 'km')).toThrow('Cannot convert mass (kg) to length (km)')
+    expect(() => convertUnits(1, 'parsecs', 'km')).toThrow('Unknown unit "parsecs"')
+    expect(() => convertUnits(1, 'constructor', 'constructor')).toThrow(
+      'Unknown unit "constructor"'
+    )
+    expect(() => convertUnits(1, '__proto__', 'celsius')).toThrow('Unknown unit "__proto__"')
+  })
+})
+
+describe('ToolRegistry', () => {
+  it('offers enabled tools and reports errors as results', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const registry = createToolRegistry()
+    registry.register(tool('echo', args => args.text))
+    registry.register(tool('broken', () => Promise.reject(new Error('Out of paper'))))
+    const context = { addActionItem: vi.fn() }
+
+    expect(() => registry.register(tool('echo', () => null))).toThrow('already registered')
+    expect(await registry.execute('echo', { text: 'hi' }, context)).toEqual({ output: 'hi' })
+    expect(await registry.execute('broken', {}, context)).toEqual({ error: 'Out of paper' })
+
+    settingsStore.set('enabledTools', { broken: false })
+    expect(registry.getFunctionDeclarations().map(declaration => declaration.name)).toEqual([
+      'echo',
+    ])
+    expect(await registry.execute('broken', {}, context)).toEqual({
+      error: 'No tool named broken is enabled',
+    })
+    expect(registry.list().find(info => info.name === 'broken')).toMatchObject({
+      enabled: false,
+      available: true,
+    })
+  })
+})
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import { createTranscriptBuilder } from '../src/main/gemini/TranscriptBuilder'
+
+describe('TranscriptBuilder', () => {
+  it('attributes transcription fragments to the source of the latest audio', () => {
+    const transcript = createTranscriptBuilder()
+
+    transcript.noteAudio('system', 1000)
+    transcript.noteAudio('system', 1100)
+    transcript.appendTranscription(' How would you', 1500)
+    transcript.appendTranscription(' scale it?', 1800)
+    transcript.noteAudio('microphone', 2000)
+    transcript.appendTranscription(' With a queue.', 2600)
+
+    expect(transcript.takeSegments()).toEqual([
+      {
+        speaker: 'remote',
+        source: 'system',
+        startTime: 1000,
+        endTime: 1800,
+        text: 'How would you scale it?',
+      },
+      {
+        speaker: 'local',
+        source: 'microphone',
+        startTime: 2000,
+        endTime: 2600,
+        text: 'With a queue.',
+      },
+    ])
+  })
+
+  it('starts a fresh turn after segments are taken', () => {
+    const transcript = createTranscriptBuilder()
+
+    transcript.noteAudio('microphone', 1000)
+    transcript.appendTranscription('First answer', 1200)
+    transcript.takeSegments()
+
+    // Same source keeps talking; the new segment must not reach back into the last turn
+    transcript.appendTranscription('Second answer', 3000)
+    expect(transcript.takeSegments()).toEqual([
+      {
+        speaker: 'local',
+        source: 'microphone',
+        startTime: 1200,
+        endTime: 3000,
+        text: 'Second answer',
+      },
+    ])
+  })
+
+  it('drops whitespace-only segments', () => {
+    const transcript = createTranscriptBuilder()
+
+    transcript.appendTranscription('  ', 1000)
+    expect(transcript.takeSegments()).toEqual([])
+  })
+})
@@ -0,0 +1,109 @@
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { MediaModality } from '@google/genai'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { settingsStore } from '../src/main/settings/SettingsStore'
+import { countsFromUsageMetadata, createUsageTracker } from '../src/main/usage/UsageTracker'
+
+vi.mock('electron', async () => {
+  const { mkdtempSync } = await import('node:fs')
+  const { tmpdir } = await import('node:os')
+  const { join } = await import('node:path')
+  const userData = mkdtempSync(join(tmpdir(), 'usage-tracker-test-'))
+  return { app: { getPath: () => userData }, BrowserWindow: {}, ipcMain: {} }
+})
+
+const MODEL = 'gemini-live-2.5-flash-preview'
+
+describe('UsageTracker', () => {
+  let dir: string
+  let filePath: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'usage-test-'))
+    filePath = join(dir, 'usage.json')
+  })
+
+  afterEach(() => {
+    settingsStore.reset()
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('prefers reported usage over estimates and prices it per modality', () => {
+    const tracker = createUsageTracker(filePath)
+    tracker.startSession('s1', 'gemini', MODEL)
+    tracker.recordEstimate('s1', 'input', 'audio', 320)
+    expect(tracker.getSummary().recentSessions[0]).toMatchObject({
+      source: 'estimated',
+      input: { text: 0, audio: 320, image: 0 },
+    })
+
+    tracker.recordReported(
+      's1',
+      countsFromUsageMetadata({
+        promptTokenCount: 1_500_000,
+        promptTokensDetails: [
+          { modality: MediaModality.TEXT, tokenCount: 500_000 },
+          { modality: MediaModality.AUDIO, tokenCount: 1_000_000 },
+        ],
+        responseTokenCount: 250_000,
+      })
+    )
+
+    const [session] = tracker.getSummary().recentSessions
+    expect(session).toMatchObject({
+      source: 'reported',
+      input: { text: 500_000, audio: 1_000_000, image: 0 },
+      output: { text: 250_000, audio: 0, image: 0 },
+    })
+    // 0.5 × $0.50 + 1 × $3.00 + 0.25 × $2.00
+    expect(session.costUsd).toBeCloseTo(3.75)
+    tracker.flush()
+  })
+
+  it('totals today and this month and persists sessions across restarts', () => {
+    vi.useFakeTimers({ now: new Date(2025, 4, 20, 12) })
+    try {
+      const tracker = createUsageTracker(filePath)
+      tracker.startSession('may-1', 'gemini', MODEL)
+      vi.setSystemTime(new Date(2025, 4, 1, 9))
+      tracker.startSession('may-2', 'gemini', MODEL)
+      tracker.recordEstimate('may-2', 'output', 'text', 1_000_000)
+      vi.setSystemTime(new Date(2025, 4, 20, 12))
+      tracker.recordEstimate('may-1', 'input', 'text', 2_000_000)
+      tracker.startSession('unpriced', 'openai-compatible', 'llama3.2')
+      tracker.recordEstimate('unpriced', 'input', 'text', 100)
+      tracker.flush()
+
+      const summary = createUsageTracker(filePath).getSummary()
+      expect(summary.today).toMatchObject({ sessions: 2, costUsd: 1 })
+      expect(summary.month).toMatchObject({ sessions: 3, costUsd: 3 })
+      expect(summary.recentSessions.find(s => s.model === 'llama3.2')?.costUsd).toBeNull()
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('reports the budget as exceeded once the period spend reaches the cap', () => {
+    const tracker = createUsageTracker(filePath)
+    tracker.startSession('s1', 'gemini', MODEL)
+    tracker.recordEstimate('s1', 'input', 'text', 1_000_000) // $0.50
+
+    settingsStore.set('usageBudgetUsd', 1)
+    expect(tracker.isBudgetExceeded()).toBe(false)
+
+    tracker.recordEstimate('s1', 'output', 'text', 250_000) // $0.50
+    expect(tracker.isBudgetExceeded()).toBe(true)
+    expect(tracker.getSummary().budget).toEqual({
+      limitUsd: 1,
+      period: 'monthly',
+      spentUsd: 1,
+      exceeded: true,
+    })
+
+    settingsStore.set('usageBudgetUsd', 0)
+    expect(tracker.isBudgetExceeded()).toBe(false)
+    tracker.flush()
+  })
+})
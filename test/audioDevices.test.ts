@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest'
+import {
+  type AudioInputDevice,
+  buildAudioConstraints,
+  getSelectableInputs,
+  isTrackOnDevice,
+  levelFromSamples,
+  resolveAudioDevice,
+} from '../src/renderer/audio/audioDevices'
+
+const devices: AudioInputDevice[] = [
+  { deviceId: 'default', groupId: 'headset', label: 'Default - USB Headset' },
+  { deviceId: 'mic-1', groupId: 'builtin', label: 'Built-in Microphone' },
+  { deviceId: 'mic-2', groupId: 'headset', label: 'USB Headset' },
+  { deviceId: 'loop-1', groupId: 'loopback', label: 'Monitor of Built-in Audio' },
+]
+
+describe('audioDevices', () => {
+  it('finds a saved device by id, then by label, else not at all', () => {
+    expect(resolveAudioDevice(devices, { deviceId: 'mic-1', label: 'Renamed' })?.deviceId).toBe(
+      'mic-1'
+    )
+    // Ids were reset, but the label still matches
+    expect(resolveAudioDevice(devices, { deviceId: 'stale', label: 'USB Headset' })?.deviceId).toBe(
+      'mic-2'
+    )
+    expect(resolveAudioDevice(devices, { deviceId: 'gone', label: 'Unplugged' })).toBeUndefined()
+    expect(resolveAudioDevice(devices, { deviceId: 'gone', label: '' })).toBeUndefined()
+  })
+
+  it('resolves no selection to the default entry and hides pseudo-devices', () => {
+    expect(resolveAudioDevice(devices, null)?.deviceId).toBe('default')
+    expect(getSelectableInputs(devices).map(device => device.deviceId)).toEqual([
+      'mic-1',
+      'mic-2',
+      'loop-1',
+    ])
+  })
+
+  it('matches the default entry by hardware group so a new default is noticed', () => {
+    const [defaultEntry, builtin] = devices
+    expect(isTrackOnDevice({ deviceId: 'default', groupId: 'headset' }, defaultEntry)).toBe(true)
+    expect(isTrackOnDevice({ deviceId: 'default', groupId: 'builtin' }, defaultEntry)).toBe(false)
+    expect(isTrackOnDevice({ deviceId: 'mic-1', groupId: 'builtin' }, builtin)).toBe(true)
+    expect(isTrackOnDevice({ deviceId: 'mic-2', groupId: 'headset' }, builtin)).toBe(false)
+  })
+
+  it('turns voice processing off for loopback inputs', () => {
+    expect(buildAudioConstraints('loop-1', { sampleRate: 24000, processing: false })).toEqual({
+      deviceId: { exact: 'loop-1' },
+      sampleRate: 24000,
+      channelCount: 1,
+      echoCancellation: false,
+      noiseSuppression: false,
+      autoGainControl: false,
+    })
+    expect(
+      buildAudioConstraints(undefined, { sampleRate: 24000, processing: true })
+    ).not.toHaveProperty('deviceId')
+  })
+
+  it('maps RMS level in dBFS onto the meter', () => {
+    expect(levelFromSamples(new Float32Array(128))).toBe(0)
+    expect(levelFromSamples(new Float32Array(128).fill(1))).toBe(1)
+    // -20 dBFS on a 60 dB scale
+    expect(levelFromSamples(new Float32Array(128).fill(0.1))).toBeCloseTo(2 / 3)
+    expect(levelFromSamples(new Float32Array(128).fill(0.0001))).toBe(0)
+  })
+})
@@ -0,0 +1,100 @@
+import type { ConversationSession } from '@shared/types'
+import { describe, expect, it, vi } from 'vitest'
+import {
+  EXPORT_SCHEMA_VERSION,
+  formatJson,
+  formatMarkdown,
+  formatSrt,
+  formatVtt,
+  getCaptionCues,
+} from '../src/main/export/formats'
+import { filterSessionsByRange } from '../src/main/export/SessionExporter'
+
+// The exporter module registers IPC handlers and opens dialogs; only its helpers are tested
+vi.mock('electron', () => ({ BrowserWindow: {}, dialog: {}, ipcMain: {} }))
+
+const start = new Date(2025, 0, 31, 14, 30, 0).getTime()
+
+const session: ConversationSession = {
+  sessionId: start.toString(),
+  timestamp: start,
+  lastUpdated: start + 60_000,
+  conversationHistory: [
+    {
+      // Saved before speaker attribution
+      timestamp: start + 5_000,
+      transcription: 'Tell me about yourself',
+      ai_response: '**Mention** your last project.',
+    },
+    {
+      timestamp: start + 20_000,
+      transcription: 'Why this role? Because of the team.',
+      ai_response: 'Talk about **growth**.',
+      segments: [
+        {
+          speaker: 'remote',
+          source: 'system',
+          startTime: start + 8_000,
+          endTime: start + 9_500,
+          text: 'Why this role?',
+        },
+        {
+          speaker: 'local',
+          source: 'microphone',
+          startTime: start + 10_000,
+          endTime: start + 10_200,
+          text: 'Because of the team.',
+        },
+      ],
+    },
+  ],
+  summary: {
+    overview: 'Screening call.',
+    decisions: [],
+    actionItems: [{ task: 'Send portfolio', owner: 'You' }],
+    openQuestions: [],
+    model: 'gemini-2.5-flash',
+    generatedAt: start + 70_000,
+  },
+}
+
+describe('session export formats', () => {
+  it('renders speakers, responses and the summary as markdown', () => {
+    const markdown = formatMarkdown(session)
+
+    expect(markdown).toContain('## Summary')
+    expect(markdown).toContain('- [ ] Send portfolio (You)')
+    expect(markdown).not.toContain('### Decisions')
+    expect(markdown).toContain('**Them:** Tell me about yourself')
+    expect(markdown).toContain('**You:** Because of the team.')
+    expect(markdown).toContain('**Assistant:**\n\nTalk about **growth**.')
+  })
+
+  it('wraps the raw session with a schema version', () => {
+    const parsed = JSON.parse(formatJson(session, 123))
+    expect(parsed).toEqual({ version: EXPORT_SCHEMA_VERSION, exportedAt: 123, session })
+  })
+
+  it('times caption cues from segments and falls back to turn timestamps', () => {
+    expect(getCaptionCues(session)).toEqual([
+      { start: 0, end: 5_000, speaker: 'Them', text: 'Tell me about yourself' },
+      { start: 8_000, end: 9_500, speaker: 'Them', text: 'Why this role?' },
+      // Stretched to the minimum readable duration
+      { start: 10_000, end: 11_000, speaker: 'You', text: 'Because of the team.' },
+    ])
+  })
+
+  it('writes SRT and WebVTT cue timestamps', () => {
+    expect(formatSrt(session)).toContain('2\n00:00:08,000 --> 00:00:09,500\nThem: Why this role?\n')
+    const vtt = formatVtt(session)
+    expect(vtt.startsWith('WEBVTT\n\n')).toBe(true)
+    expect(vtt).toContain('00:00:10.000 --> 00:00:11.000\n<v You>Because of the team.\n')
+  })
+
+  it('filters sessions by an inclusive date range', () => {
+    const later = { ...session, sessionId: 'later', timestamp: start + 86_400_000 }
+    expect(filterSessionsByRange([later, session], { from: start + 1 })).toEqual([later])
+    expect(filterSessionsByRange([later, session], { to: start })).toEqual([session])
+    expect(filterSessionsByRange([later, session])).toEqual([session, later])
+  })
+})
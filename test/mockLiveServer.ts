@@ -0,0 +1,257 @@
+import { createServer, type IncomingMessage, type Server } from 'node:http'
+import type { AddressInfo, Socket } from 'node:net'
+import { type WebSocket, WebSocketServer } from 'ws'
+
+// JSON shape of a Gemini Live BidiGenerateContent server message
+export type MockServerMessage = Record<string, unknown>
+
+export type MockLiveStep =
+  | { type: 'message'; message: MockServerMessage; delayMs?: number }
+  // Wait for the next realtimeInput (audio, text or media) sent by the client
+  | { type: 'waitForInput' }
+  // Wait for the client's answer to a toolCall, as the Live API does before continuing
+  | { type: 'waitForToolResponse' }
+  // Close like the Live API does: a close frame carrying a code and reason
+  | { type: 'close'; code?: number; reason: string }
+  // Protocol violation: the client sees an error event followed by an abnormal close
+  | { type: 'error' }
+
+export interface MockLiveConnectionScript {
+  // Refuse the WebSocket upgrade, e.g. { status: 401 } for a bad API key
+  reject?: { status: number; message?: string }
+  steps?: MockLiveStep[]
+}
+
+export interface MockLiveConnection {
+  index: number
+  url: string
+  setup: MockServerMessage | null
+  received: MockServerMessage[]
+  closed: boolean
+}
+
+export interface MockLiveServerOptions {
+  // Text returned by the REST generateContent endpoint; unset answers 404
+  generateContentText?: string
+}
+
+export interface MockLiveServer {
+  // Pass as the provider baseUrl; the Live client derives ws://host:port from it
+  url: string
+  connections: MockLiveConnection[]
+  // Bodies of the REST generateContent requests (non-live text model)
+  textRequests: MockServerMessage[]
+  getRealtimeInputs: (connectionIndex?: number) => MockServerMessage[]
+  // Realtime input and client content frames, in the order they arrived
+  getClientInputs: (connectionIndex?: number) => MockServerMessage[]
+  close: () => Promise<void>
+}
+
+// Builders for the scripted server messages
+export const serverMessages = {
+  setupComplete: (): MockServerMessage => ({ setupComplete: {} }),
+  inputTranscription: (text: string): MockServerMessage => ({
+    serverContent: { inputTranscription: { text } },
+  }),
+  modelText: (text: string): MockServerMessage => ({
+    serverContent: { modelTurn: { parts: [{ text }] } },
+  }),
+  generationComplete: (): MockServerMessage => ({ serverContent: { generationComplete: true } }),
+  turnComplete: (): MockServerMessage => ({ serverContent: { turnComplete: true } }),
+  interrupted: (): MockServerMessage => ({ serverContent: { interrupted: true } }),
+  resumptionUpdate: (newHandle: string): MockServerMessage => ({
+    sessionResumptionUpdate: { newHandle, resumable: true },
+  }),
+  toolCall: (
+    functionCalls: Array<{ id: string; name: string; args: Record<string, unknown> }>
+  ): MockServerMessage => ({ toolCall: { functionCalls } }),
+  usage: (promptTokenCount: number, responseTokenCount: number): MockServerMessage => ({
+    usageMetadata: { promptTokenCount, responseTokenCount },
+  }),
+}
+
+// Convenience script for one question/answer exchange
+export const scriptedTurn = (transcription: string, responseChunks: string[]): MockLiveStep[] => [
+  { type: 'message', message: serverMessages.inputTranscription(transcription) },
+  ...responseChunks.map(
+    (text): MockLiveStep => ({ type: 'message', message: serverMessages.modelText(text) })
+  ),
+  { type: 'message', message: serverMessages.generationComplete() },
+  { type: 'message', message: serverMessages.turnComplete() },
+]
+
+type ClientInputKind = 'realtimeInput' | 'toolResponse'
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+/**
+ * Local stand-in for the Gemini Live WebSocket API. Each incoming connection takes the
+ * next script from `scripts` (the last one is reused once they run out), answers the
+ * client's setup message with setupComplete and then replays the script's steps.
+ */
+export const createMockLiveServer = async (
+  scripts: MockLiveConnectionScript[] = [{}],
+  options: MockLiveServerOptions = {}
+): Promise<MockLiveServer> => {
+  const connections: MockLiveConnection[] = []
+  const textRequests: MockServerMessage[] = []
+  const sockets = new Set<Socket>()
+  const httpServer: Server = createServer()
+  const wss = new WebSocketServer({ noServer: true })
+
+  httpServer.on('request', (request, response) => {
+    let body = ''
+    request.on('data', chunk => {
+      body += chunk
+    })
+    request.on('end', () => {
+      const isGenerateContent = request.url?.includes(':generateContent')
+      if (!isGenerateContent || options.generateContentText === undefined) {
+        response.writeHead(404).end()
+        return
+      }
+
+      textRequests.push(JSON.parse(body) as MockServerMessage)
+      response.writeHead(200, { 'Content-Type': 'application/json' }).end(
+        JSON.stringify({
+          candidates: [
+            {
+              content: { role: 'model', parts: [{ text: options.generateContentText }] },
+              finishReason: 'STOP',
+            },
+          ],
+        })
+      )
+    })
+  })
+
+  httpServer.on('connection', socket => {
+    sockets.add(socket)
+    socket.on('close', () => sockets.delete(socket))
+  })
+
+  const getScript = (index: number): MockLiveConnectionScript =>
+    scripts[Math.min(index, scripts.length - 1)] ?? {}
+
+  const runSteps = async (
+    ws: WebSocket,
+    steps: MockLiveStep[],
+    nextInput: (kind: ClientInputKind) => Promise<void>
+  ): Promise<void> => {
+    for (const step of steps) {
+      if (ws.readyState !== ws.OPEN) return
+
+      switch (step.type) {
+        case 'message':
+          if (step.delayMs) await delay(step.delayMs)
+          ws.send(JSON.stringify(step.message))
+          break
+        case 'waitForInput':
+          await nextInput('realtimeInput')
+          break
+        case 'waitForToolResponse':
+          await nextInput('toolResponse')
+          break
+        case 'close':
+          ws.close(step.code ?? 1000, step.reason)
+          return
+        case 'error':
+          // Frame with a reserved opcode (0x0f) makes the client fail the connection
+          ;(ws as unknown as { _socket: Socket })._socket.write(Buffer.from([0x8f, 0x00]))
+          return
+      }
+    }
+  }
+
+  const handleConnection = (ws: WebSocket, request: IncomingMessage, script: MockLiveStep[]) => {
+    const connection: MockLiveConnection = {
+      index: connections.length,
+      url: request.url ?? '',
+      setup: null,
+      received: [],
+      closed: false,
+    }
+    connections.push(connection)
+
+    let inputWaiters: Array<{ kind: ClientInputKind; resolve: () => void }> = []
+    const nextInput = (kind: ClientInputKind) =>
+      new Promise<void>(resolve => inputWaiters.push({ kind, resolve }))
+
+    ws.on('message', raw => {
+      const message = JSON.parse(raw.toString()) as MockServerMessage
+      connection.received.push(message)
+
+      if (message.setup) {
+        connection.setup = message
+        ws.send(JSON.stringify(serverMessages.setupComplete()))
+        void runSteps(ws, script, nextInput)
+      } else {
+        const waiters = inputWaiters.filter(waiter => message[waiter.kind])
+        inputWaiters = inputWaiters.filter(waiter => !message[waiter.kind])
+        waiters.forEach(waiter => waiter.resolve())
+      }
+    })
+
+    ws.on('close', () => {
+      connection.closed = true
+    })
+  }
+
+  httpServer.on('upgrade', (request, socket, head) => {
+    const script = getScript(connections.length)
+
+    if (script.reject) {
+      connections.push({
+        index: connections.length,
+        url: request.url ?? '',
+        setup: null,
+        received: [],
+        closed: true,
+      })
+      const { status, message = 'Rejected by mock server' } = script.reject
+      socket.end(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\n\r\n`)
+      return
+    }
+
+    wss.handleUpgrade(request, socket, head, ws =>
+      handleConnection(ws, request, script.steps ?? [])
+    )
+  })
+
+  await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve))
+  const { port } = httpServer.address() as AddressInfo
+
+  const receivedOn = (connectionIndex?: number): MockServerMessage[] => {
+    const source =
+      connectionIndex === undefined ? connections : [connections[connectionIndex]].filter(Boolean)
+    return source.flatMap(connection => connection.received)
+  }
+
+  const getRealtimeInputs = (connectionIndex?: number): MockServerMessage[] =>
+    receivedOn(connectionIndex)
+      .filter(message => message.realtimeInput)
+      .map(message => message.realtimeInput as MockServerMessage)
+
+  const getClientInputs = (connectionIndex?: number): MockServerMessage[] =>
+    receivedOn(connectionIndex).filter(message => message.realtimeInput || message.clientContent)
+
+  const close = async (): Promise<void> => {
+    wss.clients.forEach(client => client.terminate())
+    sockets.forEach(socket => socket.destroy())
+    await new Promise<void>(resolve => wss.close(() => resolve()))
+    await new Promise<void>(resolve => {
+      httpServer.close(() => resolve())
+      // Sockets opened while shutting down (e.g. a late REST request) would hold close open
+      httpServer.closeAllConnections()
+    })
+  }
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    connections,
+    textRequests,
+    getRealtimeInputs,
+    getClientInputs,
+    close,
+  }
+}
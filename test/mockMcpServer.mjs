@@ -0,0 +1,61 @@
+// A minimal MCP server over stdio for tests: an echo tool and a tool that always fails.
+// Run with `node test/mockMcpServer.mjs`; MOCK_MCP_PREFIX is prepended to echoed text.
+import { createInterface } from 'node:readline'
+
+const tools = [
+  {
+    name: 'echo',
+    title: 'Echo',
+    description: 'Returns the text it is given',
+    inputSchema: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] },
+  },
+  {
+    name: 'fail',
+    description: 'Always reports an error',
+    inputSchema: { type: 'object', properties: {} },
+  },
+]
+
+const send = message => process.stdout.write(`${JSON.stringify({ jsonrpc: '2.0', ...message })}\n`)
+
+const callTool = ({ name, arguments: args }) => {
+  if (name === 'echo') {
+    return { content: [{ type: 'text', text: `${process.env.MOCK_MCP_PREFIX ?? ''}${args.text}` }] }
+  }
+  if (name === 'fail')
+    return { content: [{ type: 'text', text: 'Ticket system is down' }], isError: true }
+  return null
+}
+
+createInterface({ input: process.stdin }).on('line', line => {
+  const { id, method, params } = JSON.parse(line)
+  if (id === undefined) return
+
+  if (method === 'initialize') {
+    send({
+      id,
+      result: {
+        protocolVersion: params.protocolVersion,
+        capabilities: { tools: {} },
+        serverInfo: { name: 'mock-mcp', version: '1.0.0' },
+      },
+    })
+  } else if (method === 'tools/list') {
+    // Two pages, to exercise the cursor
+    send({
+      id,
+      result: params?.cursor
+        ? { tools: tools.slice(1) }
+        : { tools: tools.slice(0, 1), nextCursor: '1' },
+    })
+  } else if (method === 'tools/call') {
+    const result = callTool(params)
+    send(
+      result
+        ? { id, result }
+        : { id, error: { code: -32602, message: `Unknown tool ${params.name}` } }
+    )
+  } else {
+    send({ id, error: { code: -32601, message: `Unknown method ${method}` } })
+  }
+})
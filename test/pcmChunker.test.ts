@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest'
+import { createPcmChunker } from '../src/renderer/audio/pcmChunker'
+
+// Render quanta as the worklet receives them
+const blocks = (samples: Float32Array, size = 128): Float32Array[] => {
+  const result: Float32Array[] = []
+  for (let i = 0; i < samples.length; i += size) result.push(samples.subarray(i, i + size))
+  return result
+}
+
+describe('createPcmChunker', () => {
+  it('downsamples 48 kHz render quanta into 100 ms chunks at 24 kHz', () => {
+    const chunker = createPcmChunker({
+      inputSampleRate: 48000,
+      outputSampleRate: 24000,
+      chunkSamples: 2400,
+    })
+    const chunks: Int16Array[] = []
+
+    // One second of a quiet 440 Hz tone
+    const tone = Float32Array.from(
+      { length: 48000 },
+      (_, i) => Math.sin((2 * Math.PI * 440 * i) / 48000) * 0.5
+    )
+    for (const block of blocks(tone)) chunker.push(block, chunk => chunks.push(chunk))
+
+    expect(chunks).toHaveLength(10)
+    expect(chunks.every(chunk => chunk.length === 2400)).toBe(true)
+    const peak = Math.max(...chunks[5].map(Math.abs))
+    expect(peak).toBeGreaterThan(0.4 * 0x7fff)
+    expect(peak).toBeLessThan(0.55 * 0x7fff)
+  })
+
+  it('passes audio through in order when the rates match', () => {
+    const chunker = createPcmChunker({
+      inputSampleRate: 24000,
+      outputSampleRate: 24000,
+      chunkSamples: 4,
+    })
+    const chunks: number[][] = []
+
+    const ramp = Float32Array.from({ length: 12 }, (_, i) => (i + 1) / 16)
+    for (const block of blocks(ramp, 5)) chunker.push(block, chunk => chunks.push([...chunk]))
+
+    // The interpolator holds back the latest sample until the next block arrives
+    const expected = [...ramp.subarray(0, 8)].map(sample => Math.trunc(sample * 0x7fff))
+    expect(chunks).toEqual([expected.slice(0, 4), expected.slice(4)])
+  })
+
+  it('clamps samples to the 16-bit range', () => {
+    const chunker = createPcmChunker({
+      inputSampleRate: 16000,
+      outputSampleRate: 16000,
+      chunkSamples: 4,
+    })
+    let result: Int16Array | null = null
+
+    chunker.push(Float32Array.from([1.5, -1.5, 1, -1, 0]), chunk => {
+      result = chunk
+    })
+
+    expect(result).toEqual(Int16Array.from([0x7fff, -0x8000, 0x7fff, -0x8000]))
+  })
+})
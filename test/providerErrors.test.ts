@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import {
+  classifySessionError,
+  LiveProviderError,
+  toProviderFailure,
+} from '../src/main/providers/errors'
+
+const NOW = Date.UTC(2025, 0, 1, 14, 0)
+
+describe('classifySessionError', () => {
+  it.each([
+    [
+      { message: 'API key not valid. Please pass a valid API key.', closeCode: 1007 },
+      'auth',
+      false,
+    ],
+    [{ message: 'HTTP 401', status: 401 }, 'auth', false],
+    [{ message: 'HTTP 429: slow down', status: 429 }, 'quota', true],
+    [
+      { message: 'models/gemini-2.0-live is not found for API version v1beta' },
+      'model-unavailable',
+      false,
+    ],
+    [
+      { message: 'The model is overloaded. Please try again later.', closeCode: 1011 },
+      'model-unavailable',
+      true,
+    ],
+    [{ message: 'fetch failed: connect ECONNREFUSED 127.0.0.1:11434' }, 'network', true],
+    [{ message: '', closeCode: 1006 }, 'network', true],
+    [{ message: 'Request contains an invalid argument.', closeCode: 1007 }, 'protocol', false],
+    [{ message: 'Invalid WebSocket frame: invalid opcode 15' }, 'protocol', true],
+    [{ message: 'Internal error encountered.', closeCode: 1011 }, 'unknown', true],
+  ])('classifies %o as %s', (failure, code, retryable) => {
+    expect(classifySessionError(failure, NOW)).toMatchObject({ code, retryable })
+  })
+
+  it('takes the quota retry time from the provider when it gives one', () => {
+    expect(
+      classifySessionError({ message: 'You exceeded your current quota, retry in 32.5s' }, NOW)
+        .retryAt
+    ).toBe(NOW + 32500)
+    expect(
+      classifySessionError({ message: 'RESOURCE_EXHAUSTED', retryAfterMs: 5000 }, NOW).retryAt
+    ).toBe(NOW + 5000)
+    expect(classifySessionError({ message: 'Quota exceeded' }, NOW).retryAt).toBe(NOW + 60000)
+  })
+
+  it('keeps status and close codes of provider errors', () => {
+    const failure = toProviderFailure(new LiveProviderError('HTTP 404', { status: 404 }))
+    expect(failure).toEqual({ message: 'HTTP 404', status: 404 })
+    expect(classifySessionError(failure, NOW)).toEqual({
+      code: 'model-unavailable',
+      retryable: false,
+      message: 'Model unavailable',
+      detail: 'HTTP 404',
+    })
+  })
+})
@@ -0,0 +1,58 @@
+import type { ConversationSession } from '@shared/types'
+import { describe, expect, it } from 'vitest'
+import {
+  getQueryTerms,
+  getSessionTerms,
+  splitHighlights,
+  tokenize,
+} from '../src/renderer/utils/searchIndex'
+
+describe('search index helpers', () => {
+  it('tokenizes case-insensitively and drops single characters', () => {
+    expect(tokenize('Is a React-Query cache, ÜBER fast?')).toEqual([
+      'is',
+      'react',
+      'query',
+      'cache',
+      'über',
+      'fast',
+    ])
+    expect(getQueryTerms('cache Cache  CACHE')).toEqual(['cache'])
+  })
+
+  it('indexes transcriptions, segments and responses', () => {
+    const session: ConversationSession = {
+      sessionId: '1',
+      timestamp: 1,
+      lastUpdated: 1,
+      conversationHistory: [
+        {
+          timestamp: 2,
+          transcription: 'Pricing question',
+          ai_response: 'Offer the annual plan',
+          segments: [
+            { speaker: 'local', source: 'microphone', startTime: 1, endTime: 2, text: 'Discount?' },
+          ],
+        },
+      ],
+    }
+
+    expect([...getSessionTerms(session)].sort()).toEqual(
+      ['annual', 'discount', 'offer', 'plan', 'pricing', 'question', 'the'].sort()
+    )
+  })
+
+  it('highlights words that start with a query term', () => {
+    expect(splitHighlights('Pricing and price lists, not oprice', ['pric'])).toEqual([
+      { text: 'Pric', match: true },
+      { text: 'ing and ', match: false },
+      { text: 'pric', match: true },
+      { text: 'e lists, not oprice', match: false },
+    ])
+    // Regex characters in the query are matched literally
+    expect(splitHighlights('a+b (c)', ['c)'])).toEqual([
+      { text: 'a+b (', match: false },
+      { text: 'c)', match: true },
+    ])
+  })
+})
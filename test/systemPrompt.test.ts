@@ -0,0 +1,122 @@
+import { deflateSync } from 'node:zlib'
+import { findTemplateVariables, renderTemplate } from '@shared/promptTemplate'
+import type { PromptParts } from '@shared/types'
+import { describe, expect, it, vi } from 'vitest'
+import { chunkText, extractPdfText } from '../src/main/context/documentText'
+import { assembleSystemPrompt } from '../src/main/gemini/prompts'
+
+vi.mock('electron', () => ({ app: { isPackaged: false } }))
+
+const PARTS: PromptParts = {
+  intro: 'You help {{company}} in a call.',
+  formatRequirements: 'Be brief.',
+  searchUsage: 'Search when needed.',
+  content: 'Examples. '.repeat(100).trim(),
+  outputInstructions: 'Only the answer.',
+}
+
+// A paragraph of about `tokens` tokens
+const paragraph = (word: string, tokens: number): string =>
+  `${word} `.repeat(Math.round((tokens * 4) / (word.length + 1))).trim()
+
+describe('prompt templates', () => {
+  it('fills in variables, with fallbacks for the empty ones', () => {
+    const missing = new Set<string>()
+    const text = renderTemplate(
+      'Call with {{ company }} about {{agenda|anything}}. Attendees: {{attendees}}',
+      { company: 'Acme', agenda: ' ' },
+      missing
+    )
+
+    expect(text).toBe('Call with Acme about anything. Attendees: ')
+    expect([...missing]).toEqual(['attendees'])
+    expect(findTemplateVariables('{{a}} {{b|x}}', '{{a}} {{c}} {x}')).toEqual(['a', 'b', 'c'])
+  })
+
+  it('treats names of object properties as unknown variables', () => {
+    const missing = new Set<string>()
+    const text = renderTemplate('{{toString}}|{{constructor|none}}|{{__proto__}}', {}, missing)
+
+    expect(text).toBe('|none|')
+    expect([...missing]).toEqual(['toString', '__proto__'])
+  })
+})
+
+describe('assembleSystemPrompt', () => {
+  it('includes a chunk of each document in turn up to the budget', () => {
+    const documents = [
+      { name: 'pricing.md', text: [paragraph('price', 400), paragraph('tier', 400)].join('\n\n') },
+      { name: 'notes.txt', text: [paragraph('note', 400), paragraph('todo', 400)].join('\n\n') },
+    ]
+
+    const { prompt, report } = assembleSystemPrompt(PARTS, 'Be nice', true, {
+      variables: { company: 'Acme' },
+      documents,
+      documentTokenBudget: 1000,
+    })
+
+    expect(prompt.startsWith('You help Acme in a call.')).toBe(true)
+    expect(prompt).toContain('### pricing.md\nprice')
+    expect(prompt).toContain('### notes.txt\nnote')
+    expect(prompt).not.toContain('tier')
+    expect(prompt).toContain('[... 1 more section(s) of this document left out]')
+    expect(prompt.endsWith('Only the answer.')).toBe(true)
+    expect(report).toMatchObject({
+      includedDocuments: ['pricing.md', 'notes.txt'],
+      includedChunks: 2,
+      omittedChunks: 2,
+      truncated: [],
+      missingVariables: [],
+    })
+    expect(report.documentTokens).toBeLessThanOrEqual(1000)
+  })
+
+  it('cuts the custom instructions, then the content, to fit the limit', () => {
+    const customPrompt = paragraph('context', 300)
+    const documents = [{ name: 'doc.md', text: 'Some text' }]
+
+    const { prompt, report } = assembleSystemPrompt(PARTS, customPrompt, false, {
+      documents,
+      documentTokenBudget: 1000,
+      tokenLimit: 200,
+    })
+
+    expect(report.truncated).toEqual(['customPrompt', 'content'])
+    expect(report.tokens).toBeLessThanOrEqual(200)
+    expect(report.includedChunks).toBe(0)
+    expect(report.missingVariables).toEqual(['company'])
+    expect(prompt).not.toContain('Search when needed.')
+    expect(prompt).toContain('Be brief.')
+    expect(prompt.endsWith('Only the answer.')).toBe(true)
+  })
+})
+
+describe('document text', () => {
+  it('splits text into chunks at paragraphs and sentences', () => {
+    const long = Array.from({ length: 30 }, (_, i) => `Sentence number ${i}.`).join(' ')
+    const chunks = chunkText(`Short intro.\n\n${long}`, 50)
+
+    expect(chunks[0]).toBe('Short intro.')
+    expect(chunks.length).toBeGreaterThan(3)
+    expect(chunks.every(chunk => chunk.length <= 200)).toBe(true)
+    expect(chunks.every(chunk => chunk.endsWith('.'))).toBe(true)
+    expect(chunks.join(' ').replace(/\s+/g, ' ')).toBe(`Short intro. ${long}`)
+  })
+
+  it('reads the text of a PDF with compressed content streams', () => {
+    const content = deflateSync(
+      Buffer.from(
+        'BT /F1 12 Tf 72 720 Td (Quarterly \\(Q3\\) review) Tj 0 -14 Td [(Re) 20 (venue) -300 (up)] TJ ET'
+      )
+    )
+    const pdf = Buffer.concat([
+      Buffer.from('%PDF-1.4\n1 0 obj << /Type /Catalog >> endobj\n'),
+      Buffer.from(`4 0 obj << /Length ${content.length} /Filter /FlateDecode >>\nstream\n`),
+      content,
+      Buffer.from('\nendstream\nendobj\n'),
+      Buffer.from('5 0 obj << /Subtype /Image /Length 4 >>\nstream\nBT\nendstream\nendobj\n%%EOF'),
+    ])
+
+    expect(extractPdfText(pdf)).toBe('Quarterly (Q3) review\nRevenue up')
+  })
+})
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import { createVoiceActivityGate } from '../src/shared/voiceActivity'
+
+// 100 ms at 24 kHz of a 200 Hz tone, roughly a voiced vowel
+const speech = (amplitude = 4000) =>
+  Int16Array.from({ length: 2400 }, (_, i) => Math.sin((2 * Math.PI * 200 * i) / 24000) * amplitude)
+const silence = () => new Int16Array(2400)
+// Alternating samples: loud, but with the zero-crossing rate of hiss
+const hiss = () => Int16Array.from({ length: 2400 }, (_, i) => (i % 2 ? 3000 : -3000))
+
+describe('createVoiceActivityGate', () => {
+  it('sends the pre-roll at an onset and holds the gate open through the hangover', () => {
+    const gate = createVoiceActivityGate({
+      sensitivity: 'medium',
+      chunkDurationMs: 100,
+      hangoverMs: 200,
+      preRollMs: 200,
+    })
+    const quiet = [silence(), silence(), silence()]
+
+    expect(quiet.map(chunk => gate.process(chunk))).toEqual([[], [], []])
+
+    const onset = speech()
+    expect(gate.process(onset)).toEqual([quiet[1], quiet[2], onset])
+    expect(gate.isOpen()).toBe(true)
+
+    const tail = [silence(), silence(), silence()]
+    expect(tail.map(chunk => gate.process(chunk).length)).toEqual([1, 1, 0])
+    expect(gate.isOpen()).toBe(false)
+  })
+
+  it('ignores hiss and speech below the sensitivity', () => {
+    const gate = createVoiceActivityGate({ sensitivity: 'low', chunkDurationMs: 100 })
+
+    expect(gate.process(hiss())).toEqual([])
+    expect(gate.process(speech(500))).toEqual([])
+    expect(gate.process(speech(4000))).toHaveLength(3)
+  })
+
+  it('passes everything through when turned off', () => {
+    const gate = createVoiceActivityGate({ sensitivity: 'off', chunkDurationMs: 100 })
+    const chunk = silence()
+
+    expect(gate.process(chunk)).toEqual([chunk])
+    expect(gate.isOpen()).toBe(true)
+  })
+})